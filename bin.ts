@@ -18,6 +18,7 @@ if (!satisfies(process.version, NODE_VERSION_RANGE)) {
 
 import { Integration, Platform } from './lib/Constants';
 import { run } from './src/run';
+import { FEATURES_OPTION } from './src/utils/features';
 import { WIZARD_VERSION } from './src/version';
 
 export * from './lib/Setup';
@@ -71,6 +72,14 @@ const xcodeProjectDirOption: yargs.Options = {
 
 // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call
 const argv = yargs(hideBin(process.argv), process.cwd())
+  .command(
+    'doctor',
+    'Check an existing Sentry setup and report what is missing without changing any files',
+  )
+  .command(
+    'migrate',
+    'Upgrade the Sentry SDK to the latest major version and migrate your code',
+  )
   .options({
     debug: {
       default: false,
@@ -103,7 +112,16 @@ const argv = yargs(hideBin(process.argv), process.cwd())
       alias: 'integration',
       choices: Object.keys(Integration),
       describe:
-        'Choose the integration to setup\nenv: SENTRY_WIZARD_INTEGRATION',
+        'Choose the integration to setup. Pass a comma-separated list (e.g. nextjs,cloudflare) to set up several integrations at once\nenv: SENTRY_WIZARD_INTEGRATION',
+      // Splits comma-separated lists, so that yargs validates each integration
+      coerce: (value: string | string[]) => {
+        const integrations = ([] as string[])
+          .concat(value)
+          .flatMap((integration) => integration.split(','))
+          .map((integration) => integration.trim())
+          .filter(Boolean);
+        return integrations.length > 1 ? integrations : integrations[0];
+      },
     },
     p: {
       alias: 'platform',
@@ -165,6 +183,104 @@ const argv = yargs(hideBin(process.argv), process.cwd())
         'Enable Spotlight for local development. This does not require a Sentry account or project.',
       type: 'boolean',
     },
+    'dry-run': {
+      default: false,
+      describe:
+        'Print a diff of all changes the wizard would make without writing them to disk\nenv: SENTRY_WIZARD_DRY_RUN',
+      type: 'boolean',
+    },
+    'keep-partial-changes': {
+      default: false,
+      describe:
+        'Keep the files changed so far if the wizard is aborted instead of reverting them\nenv: SENTRY_WIZARD_KEEP_PARTIAL_CHANGES',
+      type: 'boolean',
+    },
+    features: FEATURES_OPTION,
+    'traces-sample-rate': {
+      default: undefined,
+      describe:
+        'The share of traces to send to Sentry, between 0 and 1\nenv: SENTRY_WIZARD_TRACES_SAMPLE_RATE',
+      type: 'number',
+    },
+    'profiles-sample-rate': {
+      default: undefined,
+      describe:
+        'The share of traced transactions to profile, between 0 and 1\nenv: SENTRY_WIZARD_PROFILES_SAMPLE_RATE',
+      type: 'number',
+    },
+    'replays-session-sample-rate': {
+      default: undefined,
+      describe:
+        'The share of user sessions to record with Session Replay, between 0 and 1\nenv: SENTRY_WIZARD_REPLAYS_SESSION_SAMPLE_RATE',
+      type: 'number',
+    },
+    'replays-on-error-sample-rate': {
+      default: undefined,
+      describe:
+        'The share of user sessions with an error to record with Session Replay, between 0 and 1\nenv: SENTRY_WIZARD_REPLAYS_ON_ERROR_SAMPLE_RATE',
+      type: 'number',
+    },
+    environment: {
+      default: undefined,
+      describe:
+        'The environment to set in the generated SDK config. Pass env:NAME to read it from an environment variable at runtime\nenv: SENTRY_WIZARD_ENVIRONMENT',
+      type: 'string',
+    },
+    release: {
+      default: undefined,
+      describe:
+        'The release to set in the generated SDK config. Pass env:NAME to read it from an environment variable at runtime\nenv: SENTRY_WIZARD_RELEASE',
+      type: 'string',
+    },
+    'dsn-in-env': {
+      default: false,
+      describe:
+        'Write the DSN to the environment file or build config of the project (e.g. .env.local) and read it from there instead of adding it to the code\nenv: SENTRY_WIZARD_DSN_IN_ENV',
+      type: 'boolean',
+    },
+    'dsn-key': {
+      default: undefined,
+      describe:
+        'The name of the client key (DSN) to use if the project has multiple keys\nenv: SENTRY_WIZARD_DSN_KEY',
+      type: 'string',
+    },
+    artifacts: {
+      default: undefined,
+      describe:
+        'Verify the source maps of the build artifacts in this folder after setting up source maps upload. Defaults to the folder entered during the setup\nenv: SENTRY_WIZARD_ARTIFACTS',
+      type: 'string',
+    },
+    'commit-to-branch': {
+      default: undefined,
+      describe:
+        'Commit the changed files to a new git branch (default: sentry/setup-<integration>)\nenv: SENTRY_WIZARD_COMMIT_TO_BRANCH',
+      type: 'string',
+    },
+    report: {
+      default: undefined,
+      describe:
+        'Write a markdown report of the setup for code review (default: SENTRY_SETUP.md)\nenv: SENTRY_WIZARD_REPORT',
+      type: 'string',
+    },
+    answers: {
+      default: undefined,
+      describe:
+        'Path to a JSON or YAML file with answers for all wizard prompts. The wizard fails if an answer is missing.\nenv: SENTRY_WIZARD_ANSWERS',
+      type: 'string',
+    },
+    output: {
+      default: 'text',
+      choices: ['text', 'json'],
+      describe:
+        'Output format. `json` emits newline-delimited JSON events on stdout instead of human-readable output and requires --answers for all prompts.\nenv: SENTRY_WIZARD_OUTPUT',
+      type: 'string',
+    },
+    'auth-token': {
+      default: undefined,
+      describe:
+        'Use an existing Sentry auth token instead of logging in via the browser\nenv: SENTRY_AUTH_TOKEN',
+      type: 'string',
+    },
     'xcode-project-dir': xcodeProjectDirOption,
     'app-target': {
       default: undefined,
@@ -185,4 +301,8 @@ const argv = yargs(hideBin(process.argv), process.cwd())
 // @ts-expect-error - for some reason TS doesn't recognize the aliases as valid properties
 // meaning it only knows e.g. u but not url. Maybe a bug in this old version of yargs?
 // Can't upgrade yargs though without dropping support for Node 14.
-void run(argv);
+void run({
+  ...argv,
+  doctor: argv._[0] === 'doctor',
+  migrate: argv._[0] === 'migrate',
+});
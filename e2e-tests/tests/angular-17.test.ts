@@ -107,12 +107,8 @@ async function runWizardOnAngularProject(
       .expectOutput('Installed @sentry/angular with NPM.', {
         timeout: 240_000,
       })
-      .whenAsked('Do you want to enable Tracing')
-      .respondWith(KEYS.ENTER) // yes
-      .whenAsked('Do you want to enable Session Replay')
-      .respondWith(KEYS.ENTER) // yes
-      .whenAsked('Do you want to enable Logs')
-      .respondWith(KEYS.ENTER) // yes
+      .whenAsked('Which features do you want to enable?')
+      .respondWith(KEYS.ENTER)
       .expectOutput('initialized Sentry in main.ts', {
         timeout: 10_000,
       })
@@ -37,10 +37,7 @@ describe('cloudflare-worker', () => {
         expectOutput('Installing @sentry/cloudflare');
       })
       .step('SDK setup', ({ whenAsked }) => {
-        whenAsked('Do you want to enable Tracing', {
-          timeout: 90_000, // package installation can take a while in CI
-        }).respondWith(KEYS.ENTER);
-        whenAsked('Do you want to enable Logs', {
+        whenAsked('Which features do you want to enable?', {
           timeout: 90_000, // package installation can take a while in CI
         }).respondWith(KEYS.ENTER);
       })
@@ -26,16 +26,10 @@ describe('Flutter', () => {
         .expectOutput(
           'The Sentry Flutter Wizard will help you set up Sentry for your application',
         )
-        .whenAsked('Do you want to enable Tracing')
-        .respondWith(KEYS.ENTER)
-        .whenAsked(
-          'to analyze CPU usage and optimize performance-critical code on iOS & macOS?',
-        )
-        .respondWith(KEYS.ENTER)
-        .whenAsked('to record user interactions and debug issues?')
-        .respondWith(KEYS.ENTER)
-        .whenAsked('to send your application logs to Sentry?')
+        .whenAsked('Which features do you want to enable?')
         .respondWith(KEYS.ENTER)
+        .whenAsked('Do you want to configure the sample rates')
+        .respondWith(KEYS.ENTER) // No
         .whenAsked(
           'Optionally add a project-scoped MCP server configuration for the Sentry MCP?',
         )
@@ -123,12 +117,10 @@ describe('Flutter', () => {
         .expectOutput(
           'The Sentry Flutter Wizard will help you set up Sentry for your application',
         )
-        .whenAsked('Do you want to enable Tracing')
-        .respondWith(KEYS.ENTER)
-        .whenAsked('to record user interactions and debug issues?')
-        .respondWith(KEYS.ENTER)
-        .whenAsked('to send your application logs to Sentry?')
+        .whenAsked('Which features do you want to enable?')
         .respondWith(KEYS.ENTER)
+        .whenAsked('Do you want to configure the sample rates')
+        .respondWith(KEYS.ENTER) // No
         .whenAsked(
           'Optionally add a project-scoped MCP server configuration for the Sentry MCP?',
         )
@@ -198,16 +190,10 @@ describe('Flutter', () => {
         .expectOutput(
           'The Sentry Flutter Wizard will help you set up Sentry for your application',
         )
-        .whenAsked('Do you want to enable Tracing')
-        .respondWith(KEYS.ENTER)
-        .whenAsked(
-          'to analyze CPU usage and optimize performance-critical code on iOS & macOS?',
-        )
-        .respondWith(KEYS.ENTER)
-        .whenAsked('to record user interactions and debug issues?')
-        .respondWith(KEYS.ENTER)
-        .whenAsked('to send your application logs to Sentry?')
+        .whenAsked('Which features do you want to enable?')
         .respondWith(KEYS.ENTER)
+        .whenAsked('Do you want to configure the sample rates')
+        .respondWith(KEYS.ENTER) // No
         .whenAsked(
           'Optionally add a project-scoped MCP server configuration for the Sentry MCP?',
         )
@@ -235,10 +221,7 @@ describe('Flutter', () => {
       expect(textFiles.length).toBeGreaterThan(0);
 
       const filesWithMixedEndings = textFiles.filter((file) => {
-        const content = fs.readFileSync(
-          path.join(projectDir, file),
-          'utf-8',
-        );
+        const content = fs.readFileSync(path.join(projectDir, file), 'utf-8');
         const stripped = content.replace(/\r\n/g, '');
         return stripped.includes('\n');
       });
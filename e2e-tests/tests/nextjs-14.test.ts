@@ -36,14 +36,10 @@ describe('NextJS-14', () => {
         },
       )
       .respondWith(KEYS.ENTER)
-      .whenAsked('to track the performance of your application?')
-      .respondWith(KEYS.ENTER)
-      .whenAsked(
-        'to get a video-like reproduction of errors during a user session?',
-      )
-      .respondWith(KEYS.ENTER)
-      .whenAsked('to send your application logs to Sentry?')
+      .whenAsked('Which features do you want to enable?')
       .respondWith(KEYS.ENTER)
+      .whenAsked('Do you want to configure the sample rates')
+      .respondWith(KEYS.ENTER) // No
       .whenAsked('Do you want to create an example page')
       .respondWith(KEYS.ENTER)
       .whenAsked('Are you using a CI/CD tool')
@@ -37,14 +37,10 @@ describe('NextJS-16 with Prettier, Biome, and ESLint', () => {
         },
       )
       .respondWith(KEYS.ENTER)
-      .whenAsked('to track the performance of your application?')
-      .respondWith(KEYS.ENTER)
-      .whenAsked(
-        'to get a video-like reproduction of errors during a user session?',
-      )
-      .respondWith(KEYS.ENTER)
-      .whenAsked('to send your application logs to Sentry?')
+      .whenAsked('Which features do you want to enable?')
       .respondWith(KEYS.ENTER)
+      .whenAsked('Do you want to configure the sample rates')
+      .respondWith(KEYS.ENTER) // No
       .whenAsked('Do you want to create an example page')
       .respondWith(KEYS.DOWN, KEYS.ENTER) // Skip example page
       .whenAsked('Are you using a CI/CD tool')
@@ -40,11 +40,7 @@ describe('Nuxt-3', () => {
       .whenAsked('Please select your deployment platform')
       .respondWith(KEYS.DOWN, KEYS.DOWN, KEYS.DOWN, KEYS.ENTER)
       .expectOutput('Added Sentry Nuxt Module to nuxt.config.ts')
-      .whenAsked('Do you want to enable Tracing')
-      .respondWith(KEYS.ENTER)
-      .whenAsked('Do you want to enable Session Replay')
-      .respondWith(KEYS.ENTER)
-      .whenAsked('Do you want to enable Logs')
+      .whenAsked('Which features do you want to enable?')
       .respondWith(KEYS.ENTER)
       .expectOutput('Created new sentry.server.config.ts')
       .expectOutput('Created new sentry.client.config.ts')
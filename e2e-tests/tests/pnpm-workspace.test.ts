@@ -44,13 +44,12 @@ describe('pnpm workspace', () => {
         expectOutput('Installing @sentry/sveltekit');
       })
       .step('SDK setup', ({ whenAsked }) => {
-        whenAsked('Do you want to enable Tracing', {
+        whenAsked('Which features do you want to enable?', {
           timeout: 90_000, // package installation can take a while in CI
         }).respondWith(KEYS.ENTER);
-        whenAsked('Do you want to enable Session Replay').respondWith(
+        whenAsked('Do you want to configure the sample rates').respondWith(
           KEYS.ENTER,
         );
-        whenAsked('Do you want to enable Logs').respondWith(KEYS.ENTER);
       })
       .whenAsked('Do you want to create an example page')
       .respondWith(KEYS.ENTER)
@@ -31,16 +31,8 @@ async function runWizardWithInstrumentationAPI(
       timeout: 240_000,
     })
 
-    .whenAsked('Do you want to enable Tracing')
-    .respondWith(KEYS.ENTER) // Yes
-    .whenAsked('Do you want to enable Session Replay')
-    .respondWith(KEYS.ENTER) // Yes
-    .whenAsked('Do you want to enable Logs')
-    .respondWith(KEYS.ENTER) // Yes
-    .whenAsked('Do you want to enable Profiling')
-    .respondWith(KEYS.ENTER) // Yes
-    .whenAsked('Do you want to use the Instrumentation API')
-    .respondWith(KEYS.ENTER) // Yes
+    .whenAsked('Which features do you want to enable?')
+    .respondWith(KEYS.ENTER)
     .expectOutput('Installing @sentry/profiling-node')
     .expectOutput('Installed @sentry/profiling-node', {
       timeout: 240_000,
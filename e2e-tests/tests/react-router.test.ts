@@ -44,16 +44,16 @@ async function runWizardOnReactRouterProject(
       timeout: 240_000,
     })
 
-    .whenAsked('Do you want to enable Tracing')
-    .respondWith(KEYS.ENTER)
-    .whenAsked('Do you want to enable Session Replay')
-    .respondWith(KEYS.ENTER)
-    .whenAsked('Do you want to enable Logs')
-    .respondWith(KEYS.ENTER)
-    .whenAsked('Do you want to enable Profiling')
-    .respondWith(KEYS.ENTER)
-    .whenAsked('Do you want to use the Instrumentation API')
-    .respondWith(KEYS.DOWN, KEYS.ENTER) // No
+    .whenAsked('Which features do you want to enable?')
+    // Deselect the Instrumentation API
+    .respondWith(
+      KEYS.DOWN,
+      KEYS.DOWN,
+      KEYS.DOWN,
+      KEYS.DOWN,
+      KEYS.SPACE,
+      KEYS.ENTER,
+    )
     .expectOutput('Installing @sentry/profiling-node')
     .expectOutput('Installed @sentry/profiling-node', {
       timeout: 240_000,
@@ -84,16 +84,10 @@ async function runWizardOnRemixProject(
   return wizardInteraction
     .whenAsked('Please select your package manager.')
     .respondWith(KEYS.DOWN, KEYS.ENTER)
-    .whenAsked('to track the performance of your application?', {
+    .whenAsked('Which features do you want to enable?', {
       timeout: 240_000, // package installation can take a while in CI
     })
     .respondWith(KEYS.ENTER)
-    .whenAsked(
-      'to get a video-like reproduction of errors during a user session?',
-    )
-    .respondWith(KEYS.ENTER)
-    .whenAsked('to send your application logs to Sentry?')
-    .respondWith(KEYS.ENTER)
     .whenAsked('Do you want to create an example page')
     .respondWith(KEYS.ENTER)
     .whenAsked(
@@ -292,14 +292,12 @@ async function runWizardOnSvelteKitProject(
     .respondWith(KEYS.DOWN, KEYS.DOWN, KEYS.ENTER)
     .whenAsked('Please select your package manager.')
     .respondWith(KEYS.DOWN, KEYS.ENTER)
-    .whenAsked('Do you want to enable Tracing', {
+    .whenAsked('Which features do you want to enable?', {
       timeout: 90_000, // package installation can take a while in CI
     })
     .respondWith(KEYS.ENTER)
-    .whenAsked('Do you want to enable Session Replay')
-    .respondWith(KEYS.ENTER)
-    .whenAsked('Do you want to enable Logs')
-    .respondWith(KEYS.ENTER)
+    .whenAsked('Do you want to configure the sample rates')
+    .respondWith(KEYS.ENTER) // No
     .whenAsked('Do you want to create an example page')
     .respondWith(KEYS.ENTER)
     .whenAsked(
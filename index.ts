@@ -1,2 +1,13 @@
 export { Args, Integration } from './lib/Constants';
 export * from './lib/Setup';
+export {
+  type ProgrammaticIntegration,
+  type RunWizardOptions,
+  type RunWizardResult,
+  type WizardFileSystem,
+  runWizard,
+} from './src/run-wizard';
+export type { WizardPrompter } from './src/utils/embedded';
+export type { WizardEvent, WizardEventListener } from './src/utils/json-output';
+export type { FileChange } from './src/utils/virtual-fs';
+export type { WizardOptions } from './src/utils/types';
@@ -52,6 +52,8 @@ export function getIntegrationDescription(type: string): string {
       return 'React Native';
     case Integration.flutter:
       return 'Flutter';
+    case Integration.angular:
+      return 'Angular';
     case Integration.cordova:
       return 'Cordova';
     case Integration.electron:
@@ -9,9 +9,9 @@ import { traceStep, withTelemetry } from '../telemetry';
 import {
   CliSetupConfig,
   abort,
-  abortIfCancelled,
   addSentryCliConfig,
   confirmContinueIfNoOrDirtyGitRepo,
+  confirmPrompt,
   getOrAskForProjectData,
   printWelcome,
   propertiesCliSetupConfig,
@@ -21,6 +21,7 @@ import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import * as codetools from './code-tools';
 import * as gradle from './gradle';
 import * as manifest from './manifest';
+import { dsnManifestPlaceholderName } from './templates';
 import { abortIfSpotlightNotSupported } from '../utils/abort-if-sportlight-not-supported';
 import { fixLineEndings } from '../utils/line-endings';
 
@@ -81,12 +82,10 @@ async function runAndroidWizardWithTelemetry(
   const { selectedProject, selfHosted, sentryUrl, authToken } = projectData;
 
   // Ask if user wants to enable Sentry Logs
-  const enableLogs = await abortIfCancelled(
-    clack.confirm({
-      message:
-        'Do you want to enable Logs? (See https://docs.sentry.io/platforms/android/logs/)',
-    }),
-  );
+  const enableLogs = await confirmPrompt('features.logs', {
+    message:
+      'Do you want to enable Logs? (See https://docs.sentry.io/platforms/android/logs/)',
+  });
   Sentry.setTag('enable-logs', enableLogs);
 
   if (enableLogs) {
@@ -122,10 +121,18 @@ async function runAndroidWizardWithTelemetry(
   const appDir = path.dirname(appFile);
   const manifestFile = path.join(appDir, 'src', 'main', 'AndroidManifest.xml');
 
+  const dsn = selectedProject.keys[0].dsn.public;
+  const dsnPlaceholderAdded =
+    options.dsnInEnv &&
+    traceStep('Add DSN Manifest Placeholder', () =>
+      gradle.addDsnManifestPlaceholder(appFile, dsn),
+    );
+
   const manifestUpdated = traceStep('Update Android Manifest', () =>
     manifest.addManifestSnippet(
       manifestFile,
-      selectedProject.keys[0].dsn.public,
+      // Gradle replaces the placeholder with the DSN from build.gradle
+      dsnPlaceholderAdded ? `\${${dsnManifestPlaceholderName}}` : dsn,
       enableLogs,
     ),
   );
@@ -1,7 +1,10 @@
 /* eslint-disable @typescript-eslint/no-unsafe-assignment */
 import * as fs from 'fs';
-import { abortIfCancelled, askForItemSelection } from '../utils/clack';
+import { askForItemSelection, textPrompt } from '../utils/clack';
 import {
+  dsnManifestPlaceholder,
+  dsnManifestPlaceholderKts,
+  dsnManifestPlaceholderName,
   plugin,
   pluginKts,
   pluginsBlock,
@@ -10,6 +13,7 @@ import {
   sourceContextKts,
 } from './templates';
 import * as bash from '../utils/bash';
+import { isDryRun, recordSkippedCommand } from '../utils/dry-run';
 import * as Sentry from '@sentry/node';
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import * as clack from '@clack/prompts';
@@ -45,17 +49,15 @@ export async function selectAppFile(
 
   if (appFiles.length === 0) {
     Sentry.setTag('custom-build-logic', true);
-    const appFile = await abortIfCancelled(
-      clack.text({
-        message: `Unable to find your app's directory. 
+    const appFile = await textPrompt('gradleAppFile', {
+      message: `Unable to find your app's directory. 
         Please enter the relative path to your app's build.gradle file from the root project`,
-        placeholder: 'app/build.gradle.kts',
-        validate(value) {
-          if (!value.includes('.gradle') || !fs.existsSync(value))
-            return `Not a valid gradle file.`;
-        },
-      }),
-    );
+      placeholder: 'app/build.gradle.kts',
+      validate(value) {
+        if (!value.includes('.gradle') || !fs.existsSync(value))
+          return `Not a valid gradle file.`;
+      },
+    });
     return appFile;
   }
 
@@ -69,6 +71,7 @@ export async function selectAppFile(
       await askForItemSelection(
         appFiles,
         'Which project do you want to add Sentry to?',
+        'gradleAppFile',
       )
     ).value;
   }
@@ -171,6 +174,12 @@ export async function addGradlePlugin(
 
   maybeAddSourceContextConfig(appFile, newGradleScript, orgSlug, projectSlug);
 
+  if (isDryRun()) {
+    // The Gradle build would run against the unmodified files on disk
+    recordSkippedCommand('./gradlew');
+    return true;
+  }
+
   const buildSpinner = clack.spinner();
 
   buildSpinner.start(
@@ -193,6 +202,64 @@ export async function addGradlePlugin(
   return true;
 }
 
+/**
+ * Adds the DSN as a manifest placeholder to the `defaultConfig {}` block, so that
+ * AndroidManifest.xml can reference it and build types or flavors can override it.
+ *
+ * ```
+ * android {
+ *   defaultConfig {
+ *     manifestPlaceholders += [sentryDsn: "__dsn__"] <-- this is what we add
+ *     ...
+ *   }
+ * }
+ * ```
+ *
+ * @param appFile the selected Gradle application project
+ * @returns true if successfully added the placeholder, false otherwise
+ */
+export function addDsnManifestPlaceholder(
+  appFile: string,
+  dsn: string,
+): boolean {
+  const gradleScript = fs.readFileSync(appFile, 'utf8');
+
+  if (gradleScript.includes(dsnManifestPlaceholderName)) {
+    // the placeholder is already configured
+    return true;
+  }
+
+  const defaultConfigMatch = /^([ \t]*)defaultConfig\s*\{/m.exec(gradleScript);
+  if (!defaultConfigMatch) {
+    clack.log.warn('defaultConfig {} block not found within the build.gradle.');
+    Sentry.captureException('No defaultConfig block');
+    return false;
+  }
+
+  const insertIndex = defaultConfigMatch.index + defaultConfigMatch[0].length;
+  const indent = `${defaultConfigMatch[1]}    `;
+  const placeholder = appFile.endsWith('.kts')
+    ? dsnManifestPlaceholderKts(dsn, indent)
+    : dsnManifestPlaceholder(dsn, indent);
+
+  fs.writeFileSync(
+    appFile,
+    gradleScript.slice(0, insertIndex) +
+      placeholder +
+      gradleScript.slice(insertIndex),
+    'utf8',
+  );
+
+  clack.log.success(
+    chalk.greenBright(
+      `Added the DSN as ${chalk.bold(
+        dsnManifestPlaceholderName,
+      )} manifest placeholder to the ${chalk.cyan('build.gradle')} file.`,
+    ),
+  );
+  return true;
+}
+
 /**
  * Looks for the applications packageName (namespace) in the specified build.gradle(.kts) file.
  *
@@ -91,3 +91,13 @@ sentry {
     includeSourceContext.set(true)
 }
 `;
+
+export const dsnManifestPlaceholderName = 'sentryDsn';
+
+export const dsnManifestPlaceholder = (dsn: string, indent: string) => `
+${indent}// the DSN used in AndroidManifest.xml, override it per build type or flavor to use different Sentry projects
+${indent}manifestPlaceholders += [${dsnManifestPlaceholderName}: "${dsn}"]`;
+
+export const dsnManifestPlaceholderKts = (dsn: string, indent: string) => `
+${indent}// the DSN used in AndroidManifest.xml, override it per build type or flavor to use different Sentry projects
+${indent}manifestPlaceholders["${dsnManifestPlaceholderName}"] = "${dsn}"`;
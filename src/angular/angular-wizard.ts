@@ -6,7 +6,6 @@ import type { WizardOptions } from '../utils/types';
 import { traceStep, withTelemetry } from '../telemetry';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import {
-  abortIfCancelled,
   askShouldCreateExampleComponent,
   confirmContinueIfNoOrDirtyGitRepo,
   ensurePackageIsInstalled,
@@ -17,7 +16,13 @@ import {
   printWelcome,
   runPrettierIfInstalled,
   abort,
+  textPrompt,
 } from '../utils/clack';
+import {
+  LOGS_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../utils/features';
 import { getPackageVersion, hasPackageInstalled } from '../utils/package-json';
 import { gte, minVersion, SemVer } from 'semver';
 
@@ -66,26 +71,24 @@ async function runAngularWizardWithTelemetry(
   if (!installedAngularVersion) {
     clack.log.warn('Could not determine installed Angular version.');
 
-    installedAngularVersion = await abortIfCancelled(
-      clack.text({
-        message: `Please enter your installed Angular major version (e.g. ${chalk.cyan(
-          '18',
-        )} for Angular 18)`,
-        validate(value) {
-          if (!value) {
-            return 'Angular version is required';
-          }
-
-          try {
-            if (!minVersion(value)) {
-              return `Invalid Angular version provided: ${value}`;
-            }
-          } catch (error) {
+    installedAngularVersion = await textPrompt('angularVersion', {
+      message: `Please enter your installed Angular major version (e.g. ${chalk.cyan(
+        '18',
+      )} for Angular 18)`,
+      validate(value) {
+        if (!value) {
+          return 'Angular version is required';
+        }
+
+        try {
+          if (!minVersion(value)) {
             return `Invalid Angular version provided: ${value}`;
           }
-        },
-      }),
-    );
+        } catch (error) {
+          return `Invalid Angular version provided: ${value}`;
+        }
+      },
+    });
   }
 
   Sentry.setTag('angular-version', installedAngularVersion);
@@ -167,29 +170,10 @@ Apologies for the inconvenience!`,
     alreadyInstalled: sdkAlreadyInstalled,
   });
 
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to get a video-like reproduction of errors during a user session?`,
-      enabledHint: 'recommended, but increases bundle size',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
-    },
-  ] as const);
+  const selectedFeatures = await featureSelectionPrompt(
+    [TRACING_FEATURE, REPLAY_FEATURE, LOGS_FEATURE] as const,
+    options.features,
+  );
 
   await traceStep(
     'Initialize Sentry on Angular application entry point',
@@ -1,8 +1,8 @@
 import * as fs from 'fs';
 import {
-  abortIfCancelled,
   makeCodeSnippet,
   showCopyPasteInstructions,
+  textPrompt,
 } from '../utils/clack';
 
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
@@ -23,12 +23,10 @@ export async function createExampleComponent(options: ExampleComponentOptions) {
   let componentDirPath = appRootPath;
   const hasAppRoot = fs.existsSync(appRootPath);
   if (!hasAppRoot) {
-    componentDirPath = await abortIfCancelled(
-      clack.text({
-        message: 'Where should we create the example component?',
-        placeholder: appRootPath,
-      }),
-    );
+    componentDirPath = await textPrompt('exampleComponentDirectory', {
+      message: 'Where should we create the example component?',
+      placeholder: appRootPath,
+    });
   }
 
   if (!fs.existsSync(componentDirPath)) {
@@ -1,14 +1,14 @@
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import clack from '@clack/prompts';
-import chalk from 'chalk';
 
-import { withTelemetry } from '../telemetry';
+import { traceStep, withTelemetry } from '../telemetry';
 import {
   confirmContinueIfNoOrDirtyGitRepo,
   featureSelectionPrompt,
   getOrAskForProjectData,
   printWelcome,
 } from '../utils/clack';
+import { LOGS_FEATURE } from '../utils/features';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import { checkInstalledCLI } from './check-installed-cli';
 import { configureFastlane } from './configure-fastlane';
@@ -89,22 +89,29 @@ async function runAppleWizardWithTelementry(
   });
 
   // Step - Feature Selection
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'optional',
-    },
-  ]);
+  const selectedFeatures = await featureSelectionPrompt(
+    [LOGS_FEATURE],
+    options.features,
+  );
+
+  // Step - DSN Build Setting
+  const dsn = selectedProject.keys[0].dsn.public;
+  const dsnInInfoPlist =
+    options.dsnInEnv &&
+    traceStep('Add DSN Build Setting', () =>
+      xcProject.addDsnBuildSetting(target, dsn),
+    );
+  if (options.dsnInEnv && !dsnInInfoPlist) {
+    clack.log.info('The DSN will be added to the code instead.');
+  }
 
   // Step - Add Code Snippet
   injectCodeSnippet({
     project: xcProject,
     target,
-    dsn: selectedProject.keys[0].dsn.public,
+    dsn,
     enableLogs: selectedFeatures.logs ?? false,
+    dsnInInfoPlist,
   });
 
   // Step - Fastlane Configuration
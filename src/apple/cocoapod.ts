@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as bash from '../utils/bash';
+import { isDryRun, recordSkippedCommand } from '../utils/dry-run';
 import * as Sentry from '@sentry/node';
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import * as clack from '@clack/prompts';
@@ -49,6 +50,11 @@ export async function addCocoaPods(projPath: string): Promise<boolean> {
 }
 
 export async function podInstall(dir = '.') {
+  if (isDryRun()) {
+    recordSkippedCommand(`cd ${dir} && pod install`);
+    return;
+  }
+
   const installSpinner = clack.spinner();
   installSpinner.start("Running 'pod install'. This may take a few minutes...");
 
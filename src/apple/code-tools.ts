@@ -74,6 +74,7 @@ export function addCodeSnippetToProject(
   files: string[],
   dsn: string,
   enableLogs: boolean,
+  dsnInInfoPlist = false,
 ): boolean {
   const appDelegate = findAppDidFinishLaunchingWithOptions(files);
   if (!appDelegate) {
@@ -86,8 +87,8 @@ export function addCodeSnippetToProject(
   const importStatement = isSwift ? 'import Sentry\n' : '@import Sentry;\n';
   const checkForSentryInit = isSwift ? 'SentrySDK.start' : '[SentrySDK start';
   let codeSnippet = isSwift
-    ? templates.getSwiftSnippet(dsn, enableLogs)
-    : templates.getObjcSnippet(dsn, enableLogs);
+    ? templates.getSwiftSnippet(dsn, enableLogs, dsnInInfoPlist)
+    : templates.getObjcSnippet(dsn, enableLogs, dsnInInfoPlist);
 
   Sentry.setTag('code-language', isSwift ? 'swift' : 'objc');
   Sentry.setTag(
@@ -3,6 +3,7 @@ import clack from '@clack/prompts';
 import * as Sentry from '@sentry/node';
 import chalk from 'chalk';
 import { traceStep } from '../telemetry';
+import { confirmPrompt } from '../utils/clack';
 import { debug } from '../utils/debug';
 import * as fastlane from './fastlane';
 
@@ -25,7 +26,7 @@ export async function configureFastlane({
   }
 
   debug(`Fastfile found, asking user if they want to configure Fastlane`);
-  const shouldAddLane = await clack.confirm({
+  const shouldAddLane = await confirmPrompt('configureFastlane', {
     message:
       'Found a Fastfile in your project. Do you want to configure a lane to upload debug symbols to Sentry?',
   });
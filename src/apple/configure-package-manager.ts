@@ -4,7 +4,7 @@ import * as Sentry from '@sentry/node';
 import chalk from 'chalk';
 
 import { traceStep } from '../telemetry';
-import { abortIfCancelled } from '../utils/clack';
+import { selectPrompt } from '../utils/clack';
 import { debug } from '../utils/debug';
 import * as cocoapod from './cocoapod';
 
@@ -34,24 +34,21 @@ export async function configurePackageManager({
     const pm: 'SPM' | 'CocoaPods' = await traceStep(
       'Choose a package manager',
       () =>
-        abortIfCancelled(
-          clack.select({
-            message:
-              'Which package manager would you like to use to add Sentry?',
-            options: [
-              {
-                value: 'SPM',
-                label: 'Swift Package Manager',
-                hint: 'Recommended',
-              },
-              {
-                value: 'CocoaPods',
-                label: 'CocoaPods',
-                hint: 'Deprecated - no updates after June 2026',
-              },
-            ],
-          }),
-        ),
+        selectPrompt('applePackageManager', {
+          message: 'Which package manager would you like to use to add Sentry?',
+          options: [
+            {
+              value: 'SPM',
+              label: 'Swift Package Manager',
+              hint: 'Recommended',
+            },
+            {
+              value: 'CocoaPods',
+              label: 'CocoaPods',
+              hint: 'Deprecated - no updates after June 2026',
+            },
+          ],
+        }),
     );
     debug(`User chose package manager: ${chalk.cyan(pm)}`);
 
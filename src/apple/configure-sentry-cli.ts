@@ -4,6 +4,7 @@ import * as Sentry from '@sentry/node';
 import chalk from 'chalk';
 
 import { debug } from '../utils/debug';
+import { emitEvent } from '../utils/json-output';
 import * as SentryUtils from '../utils/sentrycli-utils';
 
 export function configureSentryCLI({
@@ -25,6 +26,12 @@ Set the ${chalk.cyan(
       'SENTRY_AUTH_TOKEN',
     )} environment variable in your CI environment. See https://docs.sentry.io/cli/configuration/#auth-token for more information.`,
   );
+  emitEvent({
+    type: 'env_var',
+    name: 'SENTRY_AUTH_TOKEN',
+    description:
+      'Uploads debug symbols with Sentry CLI in CI. Locally, it is read from .sentryclirc, which must not be committed.',
+  });
   Sentry.setTag('sentry-cli-configured', true);
   debug(`Sentry CLI configured: ${chalk.cyan(true.toString())}`);
 }
@@ -141,6 +141,7 @@ export async function addSentryToFastlane(
     const selectedLane = await askForItemSelection(
       laneNames,
       'Select lane to add Sentry to:',
+      'fastlaneLane',
     );
     if (selectedLane === undefined) {
       return false;
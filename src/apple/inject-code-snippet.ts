@@ -12,11 +12,14 @@ export function injectCodeSnippet({
   target,
   dsn,
   enableLogs,
+  dsnInInfoPlist = false,
 }: {
   project: XcodeProject;
   target: string;
   dsn: string;
   enableLogs: boolean;
+  /** read the DSN from the Info.plist instead of adding it to the code */
+  dsnInInfoPlist?: boolean;
 }) {
   debug(
     `Injecting code snippet into project at path: ${chalk.cyan(
@@ -32,7 +35,12 @@ export function injectCodeSnippet({
     }
 
     debug(`Adding code snippet to ${files.length} candidate files`);
-    return codeTools.addCodeSnippetToProject(files, dsn, enableLogs);
+    return codeTools.addCodeSnippetToProject(
+      files,
+      dsn,
+      enableLogs,
+      dsnInInfoPlist,
+    );
   });
   Sentry.setTag('Snippet-Added', codeAdded);
   debug(`Snippet added: ${chalk.cyan(codeAdded.toString())}`);
@@ -60,6 +60,7 @@ export async function lookupXcodeProject({
         askForItemSelection(
           xcodeProjFiles,
           'Which project do you want to add Sentry to?',
+          'xcodeProject',
         ),
       )
     ).value;
@@ -84,10 +85,13 @@ export async function selectXcodeTarget(
       xcProject.xcodeprojPath,
     )}`,
     promptMessage = 'Which target do you want to add Sentry to?',
+    answerKey = 'xcodeTarget',
   }: {
     targetNames?: string[];
     noTargetMessage?: string;
     promptMessage?: string;
+    /** The key of the answer in the `--answers` file */
+    answerKey?: string;
   } = {},
 ): Promise<string> {
   if (targetNames.length === 0) {
@@ -111,7 +115,7 @@ export async function selectXcodeTarget(
     Sentry.setTag('multiple-targets', true);
     target = (
       await traceStep('Choose target', () =>
-        askForItemSelection(targetNames, promptMessage),
+        askForItemSelection(targetNames, promptMessage, answerKey),
       )
     ).value;
   }
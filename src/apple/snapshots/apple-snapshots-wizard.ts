@@ -310,7 +310,11 @@ async function selectHostedTestTargetName({
   }
 
   const selection = await abortIfCancelled(
-    askForItemSelection(hostedTestTargetNames, promptMessage),
+    askForItemSelection(
+      hostedTestTargetNames,
+      promptMessage,
+      'hostedTestTarget',
+    ),
   );
   return selection.value;
 }
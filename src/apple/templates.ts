@@ -31,9 +31,26 @@ fi
 export const scriptInputPath =
   '"${DWARF_DSYM_FOLDER_PATH}/${DWARF_DSYM_FILE_NAME}/Contents/Resources/DWARF/${TARGET_NAME}"';
 
-export function getSwiftSnippet(dsn: string, enableLogs: boolean): string {
+/**
+ * The build setting and Info.plist key that hold the DSN with `--dsn-in-env`
+ */
+export const dsnBuildSettingName = 'SENTRY_DSN';
+export const dsnInfoPlistKey = 'SentryDSN';
+
+/**
+ * @param dsnInInfoPlist if true, the snippet reads the DSN from the Info.plist
+ */
+export function getSwiftSnippet(
+  dsn: string,
+  enableLogs: boolean,
+  dsnInInfoPlist = false,
+): string {
   let snippet = `        SentrySDK.start { options in
-            options.dsn = "${dsn}"
+            options.dsn = ${
+              dsnInInfoPlist
+                ? `Bundle.main.object(forInfoDictionaryKey: "${dsnInfoPlistKey}") as? String`
+                : `"${dsn}"`
+            }
 
             // Adds IP for users.
             // For more information, visit: https://docs.sentry.io/platforms/apple/data-management/data-collected/
@@ -68,9 +85,20 @@ export function getSwiftSnippet(dsn: string, enableLogs: boolean): string {
   return snippet;
 }
 
-export function getObjcSnippet(dsn: string, enableLogs: boolean): string {
+/**
+ * @param dsnInInfoPlist if true, the snippet reads the DSN from the Info.plist
+ */
+export function getObjcSnippet(
+  dsn: string,
+  enableLogs: boolean,
+  dsnInInfoPlist = false,
+): string {
   let snippet = `    [SentrySDK startWithConfigureOptions:^(SentryOptions * options) {
-        options.dsn = @"${dsn}";
+        options.dsn = ${
+          dsnInInfoPlist
+            ? `[[NSBundle mainBundle] objectForInfoDictionaryKey:@"${dsnInfoPlistKey}"]`
+            : `@"${dsn}"`
+        };
 
         // Adds IP for users.
         // For more information, visit: https://docs.sentry.io/platforms/apple/data-management/data-collected/
@@ -4,6 +4,7 @@
 /* eslint-disable @typescript-eslint/no-unsafe-call */
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import * as clack from '@clack/prompts';
+import chalk from 'chalk';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { lt, valid } from 'semver';
@@ -188,6 +189,42 @@ function setDebugInformationFormatAndSandbox(
   }
 }
 
+/**
+ * Adds the `SentryDSN` key to an XML Info.plist, which Xcode sets to the value
+ * of the `SENTRY_DSN` build setting.
+ *
+ * @returns true if the key was added or already exists
+ */
+function addDsnToInfoPlist(infoPlistPath: string): boolean {
+  let infoPlist: string;
+  try {
+    infoPlist = fs.readFileSync(infoPlistPath, 'utf8');
+  } catch {
+    debug(`Could not read ${infoPlistPath}`);
+    return false;
+  }
+
+  const dsnKey = `<key>${templates.dsnInfoPlistKey}</key>`;
+  if (infoPlist.includes(dsnKey)) {
+    return true;
+  }
+
+  // The root dict is closed by the last `</dict>` of the file
+  const rootDictEnd = infoPlist.lastIndexOf('</dict>');
+  if (rootDictEnd === -1) {
+    debug(`No root dict found in ${infoPlistPath}`);
+    return false;
+  }
+
+  fs.writeFileSync(
+    infoPlistPath,
+    `${infoPlist.slice(0, rootDictEnd)}\t${dsnKey}\n\t<string>$(${
+      templates.dsnBuildSettingName
+    })</string>\n${infoPlist.slice(rootDictEnd)}`,
+  );
+  return true;
+}
+
 export type SwiftPackageProductLinkOptions = {
   product: SwiftPackageProductSpec;
   existingFrameworkComment?: string;
@@ -543,6 +580,67 @@ export class XcodeProject {
     }
   }
 
+  /**
+   * Adds the DSN as `SENTRY_DSN` build setting to all build configurations of the
+   * target and references it in the target's Info.plist, so that the code can read
+   * the DSN from the main bundle.
+   *
+   * @returns true if the DSN was added, false if the target has no Info.plist file
+   */
+  public addDsnBuildSetting(targetName: string, dsn: string): boolean {
+    const target = this.findNativeTargetByName(targetName);
+    if (!target) {
+      debug(`Target not found: ${targetName}`);
+      return false;
+    }
+
+    const buildSettings = this.getTargetBuildSettings(target.obj);
+    const infoPlistPaths = new Set(
+      buildSettings
+        .map((settings) => unquote(settings.INFOPLIST_FILE))
+        .filter(Boolean)
+        .map((infoPlistFile) =>
+          path.resolve(
+            this.baseDir,
+            infoPlistFile.replace(/^\$[({]SRCROOT[)}]\//, ''),
+          ),
+        ),
+    );
+
+    // Generated Info.plists only support the keys known to Xcode
+    if (infoPlistPaths.size === 0) {
+      clack.log.warn(
+        `Could not find an ${chalk.cyan(
+          'Info.plist',
+        )} file for target "${targetName}".`,
+      );
+      return false;
+    }
+
+    for (const infoPlistPath of infoPlistPaths) {
+      if (!addDsnToInfoPlist(infoPlistPath)) {
+        clack.log.warn(
+          `Could not add the DSN to ${chalk.cyan(
+            path.relative(this.baseDir, infoPlistPath),
+          )}.`,
+        );
+        return false;
+      }
+    }
+
+    for (const settings of buildSettings) {
+      settings[templates.dsnBuildSettingName] = `"${dsn}"`;
+    }
+    this.write();
+
+    clack.log.success(
+      `Added the DSN as ${chalk.cyan(
+        templates.dsnBuildSettingName,
+      )} build setting to target "${targetName}".`,
+    );
+    return true;
+  }
+
   public write(): void {
     const newContent = this.project.writeSync();
     fs.writeFileSync(this.pbxprojPath, newContent);
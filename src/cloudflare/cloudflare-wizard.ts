@@ -13,6 +13,7 @@ import {
   printWelcome,
   runPrettierIfInstalled,
 } from '../utils/clack';
+import { LOGS_FEATURE, TRACING_FEATURE } from '../utils/features';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import { hasPackageInstalled } from '../utils/package-json';
 import type { WizardOptions } from '../utils/types';
@@ -81,22 +82,10 @@ async function runCloudflareWizardWithTelemetry(
     forceInstall,
   });
 
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
-    },
-  ] as const);
+  const selectedFeatures = await featureSelectionPrompt(
+    [TRACING_FEATURE, LOGS_FEATURE] as const,
+    options.features,
+  );
 
   await traceStep('Create Sentry initialization', async () => {
     try {
@@ -0,0 +1,243 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import chalk from 'chalk';
+import * as glob from 'glob';
+import { getPackageDotJson } from '../utils/clack';
+import { isGitIgnored } from '../utils/git';
+import { getPackageVersion } from '../utils/package-json';
+import { fulfillsVersionRange } from '../utils/semver';
+
+export type DoctorCheckStatus = 'pass' | 'warn' | 'fail';
+
+export type DoctorCheckResult = {
+  status: DoctorCheckStatus;
+  message: string;
+  /** A hint how to fix a warning or failure */
+  fix?: string;
+};
+
+export type DoctorCheck = {
+  title: string;
+  run: () => DoctorCheckResult | Promise<DoctorCheckResult>;
+};
+
+/**
+ * Matches DSNs like `https://publicKey@o1.ingest.sentry.io/123`
+ */
+const DSN_REGEX = /https?:\/\/[\w-]+@[\w.:-]+\/\d+/g;
+
+/**
+ * Checks that @param packageName is installed in a version
+ * within @param acceptableVersions.
+ */
+export function sdkVersionCheck(
+  packageName: string,
+  acceptableVersions: string,
+): DoctorCheck {
+  return {
+    title: `${packageName} version`,
+    run: async () => {
+      const packageJson = await getPackageDotJson();
+      const version = getPackageVersion(packageName, packageJson);
+
+      if (!version) {
+        return {
+          status: 'fail',
+          message: `${chalk.cyan(packageName)} isn't installed.`,
+          fix: `Install ${packageName} or run the wizard to set up Sentry.`,
+        };
+      }
+
+      if (
+        !fulfillsVersionRange({
+          version,
+          acceptableVersions,
+          canBeLatest: true,
+        })
+      ) {
+        return {
+          status: 'warn',
+          message: `${chalk.cyan(
+            `${packageName}@${version}`,
+          )} is outside of the supported range ${chalk.cyan(
+            acceptableVersions,
+          )}.`,
+          fix: `Update ${packageName} to ${acceptableVersions}.`,
+        };
+      }
+
+      return {
+        status: 'pass',
+        message: `${chalk.cyan(`${packageName}@${version}`)} is supported.`,
+      };
+    },
+  };
+}
+
+/**
+ * Checks that the files which store the auth token for uploading
+ * source maps or debug files aren't committed to the repository.
+ *
+ * @param filenames the possible auth token files, relative to the project directory
+ */
+export function authTokenFileCheck(filenames: string[]): DoctorCheck {
+  return {
+    title: 'Auth token',
+    run: () => {
+      const existingFiles = filenames.filter((filename) =>
+        fs.existsSync(path.join(process.cwd(), filename)),
+      );
+
+      if (!existingFiles.length) {
+        return process.env.SENTRY_AUTH_TOKEN
+          ? {
+              status: 'pass',
+              message: 'The auth token is set via SENTRY_AUTH_TOKEN.',
+            }
+          : {
+              status: 'warn',
+              message: `Couldn't find an auth token in ${filenames
+                .map((filename) => chalk.cyan(filename))
+                .join(' or ')}.`,
+              fix: 'Make sure SENTRY_AUTH_TOKEN is set in your CI to upload source maps.',
+            };
+      }
+
+      const committedFiles = existingFiles.filter(
+        (filename) => isGitIgnored(filename) === false,
+      );
+
+      if (committedFiles.length) {
+        return {
+          status: 'fail',
+          message: `${committedFiles
+            .map((filename) => chalk.cyan(filename))
+            .join(', ')} contains your auth token but isn't ignored by git.`,
+          fix: `Add ${committedFiles.join(
+            ', ',
+          )} to your .gitignore and revoke the token if it was already committed.`,
+        };
+      }
+
+      return {
+        status: 'pass',
+        message: `${existingFiles
+          .map((filename) => chalk.cyan(filename))
+          .join(', ')} exists and is ignored by git.`,
+      };
+    },
+  };
+}
+
+/**
+ * Checks that one of the files matching @param options.files contains @param options.search.
+ */
+export function fileContainsCheck(options: {
+  title: string;
+  /** Glob patterns, relative to the project directory */
+  files: string[];
+  search: RegExp;
+  /** A description of what the file should contain, e.g. `withSentryConfig` */
+  expected: string;
+  fix: string;
+  /** The status if no file matches @param options.files. Defaults to `fail` */
+  missingFileStatus?: DoctorCheckStatus;
+}): DoctorCheck {
+  return {
+    title: options.title,
+    run: () => {
+      const files = findFiles(options.files);
+
+      if (!files.length) {
+        return {
+          status: options.missingFileStatus ?? 'fail',
+          message: `Couldn't find ${options.files
+            .map((pattern) => chalk.cyan(pattern))
+            .join(' or ')}.`,
+          fix: options.fix,
+        };
+      }
+
+      const matchingFile = files.find((file) =>
+        options.search.test(fs.readFileSync(file, 'utf8')),
+      );
+
+      if (!matchingFile) {
+        return {
+          status: 'fail',
+          message: `${files
+            .map((file) => chalk.cyan(path.relative(process.cwd(), file)))
+            .join(', ')} doesn't contain ${options.expected}.`,
+          fix: options.fix,
+        };
+      }
+
+      return {
+        status: 'pass',
+        message: `${chalk.cyan(
+          path.relative(process.cwd(), matchingFile),
+        )} contains ${options.expected}.`,
+      };
+    },
+  };
+}
+
+/**
+ * Checks that all Sentry config files matching @param files use the same DSN.
+ */
+export function dsnConsistencyCheck(files: string[]): DoctorCheck {
+  return {
+    title: 'DSN',
+    run: () => {
+      const dsnsPerFile = new Map<string, string[]>();
+      for (const file of findFiles(files)) {
+        const dsns = fs.readFileSync(file, 'utf8').match(DSN_REGEX);
+        if (dsns) {
+          dsnsPerFile.set(path.relative(process.cwd(), file), [
+            ...new Set(dsns),
+          ]);
+        }
+      }
+
+      const allDsns = new Set([...dsnsPerFile.values()].flat());
+
+      if (!allDsns.size) {
+        return {
+          status: 'warn',
+          message: `Couldn't find a DSN in ${files
+            .map((pattern) => chalk.cyan(pattern))
+            .join(', ')}.`,
+          fix: 'Make sure the DSN is passed to Sentry.init, e.g. via an environment variable.',
+        };
+      }
+
+      if (allDsns.size > 1) {
+        return {
+          status: 'fail',
+          message: `Found different DSNs:\n${[...dsnsPerFile.entries()]
+            .map(([file, dsns]) => `${chalk.cyan(file)}: ${dsns.join(', ')}`)
+            .join('\n')}`,
+          fix: 'Use the DSN of the same project in all Sentry.init calls.',
+        };
+      }
+
+      return {
+        status: 'pass',
+        message: `${[...dsnsPerFile.keys()]
+          .map((file) => chalk.cyan(file))
+          .join(', ')} use the same DSN.`,
+      };
+    },
+  };
+}
+
+function findFiles(patterns: string[]): string[] {
+  return glob
+    .sync(patterns, {
+      cwd: process.cwd(),
+      absolute: true,
+      nodir: true,
+      ignore: ['**/node_modules/**'],
+    })
+    .sort();
+}
@@ -0,0 +1,271 @@
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import * as Sentry from '@sentry/node';
+import chalk from 'chalk';
+import { getIntegrationDescription } from '../../lib/Constants';
+import {
+  RN_SDK_PACKAGE,
+  RN_SDK_SUPPORTED_RANGE,
+} from '../react-native/react-native-wizard';
+import { traceStep, withTelemetry } from '../telemetry';
+import {
+  SENTRY_CLI_RC_FILE,
+  SENTRY_DOT_ENV_FILE,
+  SENTRY_PROPERTIES_FILE,
+  abort,
+  printWelcome,
+} from '../utils/clack';
+import { emitEvent } from '../utils/json-output';
+import type { WizardIntegration, WizardOptions } from '../utils/types';
+import {
+  type DoctorCheck,
+  type DoctorCheckResult,
+  authTokenFileCheck,
+  dsnConsistencyCheck,
+  fileContainsCheck,
+  sdkVersionCheck,
+} from './checks';
+
+/**
+ * The SDK major version the JavaScript wizards currently install.
+ */
+const JS_SDK_SUPPORTED_RANGE = '^10.0.0';
+
+const JS_AUTH_TOKEN_FILES = [SENTRY_DOT_ENV_FILE, SENTRY_CLI_RC_FILE];
+
+const VITE_CONFIG_FILES = ['vite.config.{ts,js,mts,mjs}'];
+
+/**
+ * The checks of each integration that supports the doctor mode.
+ */
+const DOCTOR_CHECKS: Partial<Record<WizardIntegration, () => DoctorCheck[]>> = {
+  nextjs: () => [
+    sdkVersionCheck('@sentry/nextjs', JS_SDK_SUPPORTED_RANGE),
+    fileContainsCheck({
+      title: 'Next.js config',
+      files: ['next.config.{js,cjs,mjs,ts,mts,cts}'],
+      search: /withSentryConfig/,
+      expected: 'withSentryConfig',
+      fix: 'Wrap your Next.js config with withSentryConfig from @sentry/nextjs.',
+    }),
+    fileContainsCheck({
+      title: 'Instrumentation hook',
+      files: ['instrumentation.{ts,js}', 'src/instrumentation.{ts,js}'],
+      search: /\bonRequestError\b/,
+      expected: 'an onRequestError export',
+      fix: 'Add `export const onRequestError = Sentry.captureRequestError;` to your instrumentation file.',
+    }),
+    fileContainsCheck({
+      title: 'Client config',
+      files: [
+        'instrumentation-client.{ts,js}',
+        'src/instrumentation-client.{ts,js}',
+        'sentry.client.config.{ts,js}',
+      ],
+      search: /Sentry\.init/,
+      expected: 'Sentry.init',
+      fix: 'Initialize Sentry in instrumentation-client.(ts|js).',
+    }),
+    dsnConsistencyCheck([
+      'sentry.{server,edge,client}.config.{ts,js}',
+      'instrumentation-client.{ts,js}',
+      'src/instrumentation-client.{ts,js}',
+      '.env.local',
+    ]),
+    authTokenFileCheck(JS_AUTH_TOKEN_FILES),
+  ],
+  nuxt: () => [
+    sdkVersionCheck('@sentry/nuxt', JS_SDK_SUPPORTED_RANGE),
+    fileContainsCheck({
+      title: 'Nuxt config',
+      files: ['nuxt.config.{ts,js,mjs}'],
+      search: /@sentry\/nuxt\/module/,
+      expected: 'the @sentry/nuxt/module module',
+      fix: "Add '@sentry/nuxt/module' to the modules in your Nuxt config.",
+    }),
+    dsnConsistencyCheck(['sentry.{client,server}.config.{ts,js,mjs}']),
+    authTokenFileCheck(JS_AUTH_TOKEN_FILES),
+  ],
+  sveltekit: () => [
+    sdkVersionCheck('@sentry/sveltekit', JS_SDK_SUPPORTED_RANGE),
+    fileContainsCheck({
+      title: 'Vite plugin',
+      files: VITE_CONFIG_FILES,
+      search: /sentrySvelteKit/,
+      expected: 'the sentrySvelteKit plugin',
+      fix: 'Add sentrySvelteKit() from @sentry/sveltekit to the plugins in your Vite config.',
+    }),
+    dsnConsistencyCheck([
+      'src/hooks.{client,server}.{ts,js}',
+      'src/instrumentation.server.{ts,js}',
+      '.env.local',
+    ]),
+    authTokenFileCheck(JS_AUTH_TOKEN_FILES),
+  ],
+  remix: () => [
+    sdkVersionCheck('@sentry/remix', JS_SDK_SUPPORTED_RANGE),
+    dsnConsistencyCheck([
+      'app/entry.{client,server}.{tsx,jsx,ts,js}',
+      'instrument.server.{mjs,cjs,js}',
+    ]),
+    authTokenFileCheck(JS_AUTH_TOKEN_FILES),
+  ],
+  reactRouter: () => [
+    sdkVersionCheck('@sentry/react-router', JS_SDK_SUPPORTED_RANGE),
+    fileContainsCheck({
+      title: 'Vite plugin',
+      files: VITE_CONFIG_FILES,
+      search: /sentryReactRouter/,
+      expected: 'the sentryReactRouter plugin',
+      fix: 'Add sentryReactRouter() from @sentry/react-router to the plugins in your Vite config.',
+    }),
+    dsnConsistencyCheck([
+      'app/entry.client.{tsx,jsx,ts,js}',
+      'instrument.server.{mjs,cjs,js}',
+    ]),
+    authTokenFileCheck(JS_AUTH_TOKEN_FILES),
+  ],
+  angular: () => [
+    sdkVersionCheck('@sentry/angular', JS_SDK_SUPPORTED_RANGE),
+    fileContainsCheck({
+      title: 'SDK initialization',
+      files: ['src/main.ts'],
+      search: /Sentry\.init/,
+      expected: 'Sentry.init',
+      fix: 'Call Sentry.init in src/main.ts before bootstrapping your app.',
+    }),
+    authTokenFileCheck(JS_AUTH_TOKEN_FILES),
+  ],
+  reactNative: () => [
+    sdkVersionCheck(RN_SDK_PACKAGE, RN_SDK_SUPPORTED_RANGE),
+    fileContainsCheck({
+      title: 'Metro config',
+      files: ['metro.config.{js,cjs,mjs,ts}'],
+      search: /withSentryConfig|getSentryExpoConfig/,
+      expected: 'the Sentry Metro plugin',
+      fix: 'Wrap your Metro config with withSentryConfig from @sentry/react-native/metro (or use getSentryExpoConfig in Expo apps).',
+    }),
+    authTokenFileCheck([
+      `ios/${SENTRY_PROPERTIES_FILE}`,
+      `android/${SENTRY_PROPERTIES_FILE}`,
+    ]),
+  ],
+  android: () => [
+    fileContainsCheck({
+      title: 'Gradle plugin',
+      files: ['app/build.gradle{,.kts}'],
+      search: /io\.sentry\.android\.gradle/,
+      expected: 'the io.sentry.android.gradle plugin',
+      fix: 'Apply the io.sentry.android.gradle plugin in your app/build.gradle(.kts) file.',
+    }),
+    fileContainsCheck({
+      title: 'Android manifest',
+      files: ['app/src/main/AndroidManifest.xml'],
+      search: /io\.sentry\.dsn/,
+      expected: 'the io.sentry.dsn meta-data',
+      fix: 'Add the io.sentry.dsn meta-data to the application in your AndroidManifest.xml.',
+    }),
+    authTokenFileCheck([SENTRY_PROPERTIES_FILE]),
+  ],
+};
+
+export function runDoctorWizard(
+  options: WizardOptions,
+  integration: WizardIntegration,
+): Promise<void> {
+  return withTelemetry(
+    {
+      enabled: options.telemetryEnabled,
+      integration: 'doctor',
+      wizardOptions: options,
+    },
+    () => runDoctorWizardWithTelemetry(options, integration),
+  );
+}
+
+async function runDoctorWizardWithTelemetry(
+  options: WizardOptions,
+  integration: WizardIntegration,
+): Promise<void> {
+  const integrationName = getIntegrationDescription(integration);
+
+  Sentry.setTag('doctor-integration', integration);
+
+  printWelcome({
+    wizardName: 'Sentry Doctor',
+    message: `This wizard checks your Sentry ${integrationName} setup and reports what's missing.\nIt doesn't change any files.`,
+    telemetryEnabled: options.telemetryEnabled,
+  });
+
+  const getChecks = DOCTOR_CHECKS[integration];
+  if (!getChecks) {
+    clack.log.error(
+      `The doctor mode isn't available for ${integrationName} yet.`,
+    );
+    return abort();
+  }
+
+  const results: DoctorCheckResult[] = [];
+  for (const check of getChecks()) {
+    const result = await traceStep('doctor-check', () => runCheck(check));
+    results.push(result);
+    printCheckResult(check, result);
+  }
+
+  const failed = results.filter((result) => result.status === 'fail').length;
+  const warnings = results.filter((result) => result.status === 'warn').length;
+  const passed = results.length - failed - warnings;
+
+  Sentry.setTag('doctor-failed-checks', failed);
+  Sentry.setTag('doctor-warnings', warnings);
+
+  const summary = `${chalk.green(`${passed} passed`)}, ${chalk.yellow(
+    `${warnings} ${warnings === 1 ? 'warning' : 'warnings'}`,
+  )}, ${chalk.red(`${failed} failed`)}`;
+
+  if (failed) {
+    // Let CI jobs fail if the setup is broken
+    process.exitCode = 1;
+  }
+
+  clack.outro(summary);
+}
+
+async function runCheck(check: DoctorCheck): Promise<DoctorCheckResult> {
+  try {
+    return await check.run();
+  } catch (e) {
+    return {
+      status: 'warn',
+      message: `Couldn't run this check: ${
+        e instanceof Error ? e.message : String(e)
+      }`,
+    };
+  }
+}
+
+function printCheckResult(check: DoctorCheck, result: DoctorCheckResult) {
+  emitEvent({
+    type: 'doctor_check',
+    title: check.title,
+    status: result.status,
+    message: result.message,
+    fix: result.fix,
+  });
+
+  const message = `${chalk.bold(check.title)}: ${result.message}${
+    result.fix ? `\n${chalk.dim(`Fix: ${result.fix}`)}` : ''
+  }`;
+
+  switch (result.status) {
+    case 'pass':
+      clack.log.success(message);
+      break;
+    case 'warn':
+      clack.log.warn(message);
+      break;
+    case 'fail':
+      clack.log.error(message);
+      break;
+  }
+}
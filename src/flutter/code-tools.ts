@@ -9,10 +9,19 @@ import {
   pubspecOptions,
   sentryProperties,
   initSnippet,
-  sessionReplaySampleRate,
-  sessionReplayOnErrorSampleRate,
 } from './templates';
 import { featureSelectionPrompt } from '../utils/clack';
+import {
+  LOGS_FEATURE,
+  PROFILING_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../utils/features';
+import {
+  DEFAULT_SDK_INIT_OPTIONS,
+  askForSdkInitOptions,
+} from '../utils/sdk-init-options';
+import type { Feature, SdkInitOptions, WizardOptions } from '../utils/types';
 
 /**
  * Recursively finds a file per name in subfolders.
@@ -160,6 +169,7 @@ export async function patchMain(
   mainFile: string | null,
   dsn: string,
   canEnableProfiling: boolean,
+  options: Pick<WizardOptions, 'features' | 'sdkInitOptions' | 'dsnInEnv'> = {},
 ): Promise<boolean> {
   try {
     if (!mainFile) {
@@ -181,55 +191,54 @@ export async function patchMain(
       return true;
     }
 
-    const features = [
-      {
-        id: 'tracing',
-        prompt: `Do you want to enable ${chalk.bold(
-          'Tracing',
-        )} to track the performance of your application?`,
-        enabledHint: 'recommended',
-      },
-    ];
+    const tracingFeature = { ...TRACING_FEATURE, id: 'tracing' };
+    const features: Feature[] = [tracingFeature];
     if (canEnableProfiling) {
       features.push({
-        id: 'profiling',
-        prompt: `Do you want to enable ${chalk.bold(
-          'Profiling',
-        )} to analyze CPU usage and optimize performance-critical code on iOS & macOS?`,
-        enabledHint: 'recommended, tracing must be enabled',
+        ...PROFILING_FEATURE,
+        hint: 'analyze CPU usage and optimize performance-critical code on iOS & macOS',
+        requires: [tracingFeature.id],
       });
     }
-    features.push({
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to record user interactions and debug issues?`,
-      enabledHint: 'recommended',
-    });
-    features.push({
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'optional',
-    });
+    features.push(
+      { ...REPLAY_FEATURE, hint: 'record user interactions and debug issues' },
+      LOGS_FEATURE,
+    );
 
-    const selectedFeatures = await featureSelectionPrompt(features);
+    const selectedFeatures = await featureSelectionPrompt(
+      features,
+      options.features,
+    );
     const normalizedSelectedFeatures = {
       tracing: selectedFeatures.tracing ?? false,
       profiling: selectedFeatures.profiling ?? false,
       replay: selectedFeatures.replay ?? false,
       logs: selectedFeatures.logs ?? false,
     };
+    const sdkInitOptions = await askForSdkInitOptions(options, {
+      selectedFeatures: normalizedSelectedFeatures,
+      envVarConvention: 'dart-define',
+    });
+    if (options.dsnInEnv) {
+      sdkInitOptions.dsnEnvVar = 'SENTRY_DSN';
+      clack.log.info(
+        `The DSN will be read from ${chalk.cyan(
+          'SENTRY_DSN',
+        )}. Pass it when running or building your app: ${chalk.cyan(
+          `flutter run --dart-define=SENTRY_DSN=${dsn}`,
+        )}`,
+      );
+    }
     mainContent = patchMainContent(
       dsn,
       mainContent,
       normalizedSelectedFeatures,
+      sdkInitOptions,
     );
 
     if (normalizedSelectedFeatures.replay) {
       clack.log.info(
-        `Session Replay will be enabled with default settings (replaysSessionSampleRate: ${sessionReplaySampleRate}, replaysOnErrorSampleRate: ${sessionReplayOnErrorSampleRate}).`,
+        `Session Replay will be enabled with these settings (replaysSessionSampleRate: ${sdkInitOptions.replaysSessionSampleRate}, replaysOnErrorSampleRate: ${sdkInitOptions.replaysOnErrorSampleRate}).`,
       );
       clack.log.message(
         'By default, all text content, images, and webviews will be masked for privacy. You can customize this in your code later.',
@@ -263,6 +272,7 @@ export function patchMainContent(
     replay: boolean;
     logs: boolean;
   },
+  sdkInitOptions: SdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ): string {
   const importIndex = getLastImportLineLocation(mainContent);
   mainContent =
@@ -273,7 +283,8 @@ export function patchMainContent(
   // Find and replace `runApp(...)`
   mainContent = mainContent.replace(
     /runApp\(([\s\S]*?)\);/g, // Match the `runApp(...)` invocation
-    (_, runAppArgs) => initSnippet(dsn, selectedFeatures, runAppArgs as string),
+    (_, runAppArgs) =>
+      initSnippet(dsn, selectedFeatures, runAppArgs as string, sdkInitOptions),
   );
 
   // Make the `main` function async if it's not already
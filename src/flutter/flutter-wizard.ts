@@ -21,6 +21,7 @@ import { findFile } from './code-tools';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import { abortIfSpotlightNotSupported } from '../utils/abort-if-sportlight-not-supported';
 import { fixLineEndings } from '../utils/line-endings';
+import { emitEvent } from '../utils/json-output';
 
 export async function runFlutterWizard(options: WizardOptions): Promise<void> {
   return withTelemetry(
@@ -128,6 +129,12 @@ Set the ${chalk.cyan(
         'SENTRY_AUTH_TOKEN',
       )} environment variable in your CI environment. See https://docs.sentry.io/cli/configuration/#auth-token for more information.`,
     );
+    emitEvent({
+      type: 'env_var',
+      name: 'SENTRY_AUTH_TOKEN',
+      description:
+        'Uploads debug symbols and source maps in CI. Locally, it is read from sentry.properties, which must not be committed.',
+    });
   }
   Sentry.setTag('sentry-properties-added', pubspecPatched);
 
@@ -145,7 +152,7 @@ Set the ${chalk.cyan(
     fs.existsSync(`${projectDir}/ios`) || fs.existsSync(`${projectDir}/macos`);
 
   const mainPatched = await traceStep('Patch main.dart', () =>
-    codetools.patchMain(mainFile, dsn, canEnableProfiling),
+    codetools.patchMain(mainFile, dsn, canEnableProfiling, options),
   );
   if (!mainPatched) {
     clack.log.warn(
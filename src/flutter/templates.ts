@@ -1,8 +1,12 @@
 import { makeCodeSnippet } from '../utils/clack';
+import {
+  DEFAULT_SDK_INIT_OPTIONS,
+  formatSampleRate,
+  getSdkInitValueCode,
+} from '../utils/sdk-init-options';
+import type { SdkInitOptions } from '../utils/types';
 
 export const sentryImport = `import 'package:sentry_flutter/sentry_flutter.dart';\n`;
-export const sessionReplaySampleRate = 0.1;
-export const sessionReplayOnErrorSampleRate = 1.0;
 
 export function pubspecOptions(project: string, org: string): string {
   return `sentry:
@@ -26,10 +30,18 @@ export function initSnippet(
     logs: boolean;
   },
   runApp: string,
+  sdkInitOptions: SdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ): string {
   let snippet = `await SentryFlutter.init(
     (options) {
-      options.dsn = '${dsn}';
+      options.dsn = ${
+        sdkInitOptions.dsnEnvVar
+          ? getSdkInitValueCode(
+              { envVar: sdkInitOptions.dsnEnvVar },
+              'dart-define',
+            )
+          : `'${dsn}'`
+      };
       // Adds request headers and IP for users, for more info visit:
       // https://docs.sentry.io/platforms/dart/guides/flutter/data-management/data-collected/
       options.sendDefaultPii = true;`;
@@ -43,29 +55,45 @@ export function initSnippet(
     snippet += `
       // Set tracesSampleRate to 1.0 to capture 100% of transactions for tracing.
       // We recommend adjusting this value in production.
-      options.tracesSampleRate = 1.0;`;
+      options.tracesSampleRate = ${formatSampleRate(
+        sdkInitOptions.tracesSampleRate,
+      )};`;
   }
 
   if (selectedFeaturesMap.profiling && selectedFeaturesMap.tracing) {
     snippet += `
       // The sampling rate for profiling is relative to tracesSampleRate
       // Setting to 1.0 will profile 100% of sampled transactions:
-      options.profilesSampleRate = 1.0;`;
+      options.profilesSampleRate = ${formatSampleRate(
+        sdkInitOptions.profilesSampleRate,
+      )};`;
   }
 
   if (selectedFeaturesMap.replay) {
     snippet += `
       // Configure Session Replay
-      options.replay.sessionSampleRate = ${
-        sessionReplaySampleRate % 1 === 0
-          ? `${sessionReplaySampleRate}.0`
-          : sessionReplaySampleRate
-      };
-      options.replay.onErrorSampleRate = ${
-        sessionReplayOnErrorSampleRate % 1 === 0
-          ? `${sessionReplayOnErrorSampleRate}.0`
-          : sessionReplayOnErrorSampleRate
-      };`;
+      options.replay.sessionSampleRate = ${formatSampleRate(
+        sdkInitOptions.replaysSessionSampleRate,
+      )};
+      options.replay.onErrorSampleRate = ${formatSampleRate(
+        sdkInitOptions.replaysOnErrorSampleRate,
+      )};`;
+  }
+
+  if (sdkInitOptions.environment) {
+    snippet += `
+      options.environment = ${getSdkInitValueCode(
+        sdkInitOptions.environment,
+        'dart-define',
+      )};`;
+  }
+
+  if (sdkInitOptions.release) {
+    snippet += `
+      options.release = ${getSdkInitValueCode(
+        sdkInitOptions.release,
+        'dart-define',
+      )};`;
   }
 
   snippet += `
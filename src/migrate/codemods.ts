@@ -0,0 +1,374 @@
+import * as recast from 'recast';
+import type { namedTypes as t } from 'ast-types';
+// @ts-expect-error - magicast is ESM and TS complains about that. It works though
+import { generateCode, parseModule } from 'magicast';
+
+const b = recast.types.builders;
+
+export type CodemodResult = {
+  /** The transformed code, which equals the input if nothing changed */
+  code: string;
+  /** Changes users need to make manually, e.g. because the code is too dynamic */
+  followUps: string[];
+};
+
+/**
+ * The class-based integrations of SDK v7 and the functions replacing them in v8.
+ */
+const CLASS_INTEGRATIONS: Record<string, string> = {
+  BrowserTracing: 'browserTracingIntegration',
+  Replay: 'replayIntegration',
+  ReplayCanvas: 'replayCanvasIntegration',
+  Feedback: 'feedbackIntegration',
+  BrowserProfilingIntegration: 'browserProfilingIntegration',
+  ProfilingIntegration: 'nodeProfilingIntegration',
+  HttpClient: 'httpClientIntegration',
+  CaptureConsole: 'captureConsoleIntegration',
+  ContextLines: 'contextLinesIntegration',
+  Debug: 'debugIntegration',
+  Dedupe: 'dedupeIntegration',
+  ExtraErrorData: 'extraErrorDataIntegration',
+  RewriteFrames: 'rewriteFramesIntegration',
+  ReportingObserver: 'reportingObserverIntegration',
+  SessionTiming: 'sessionTimingIntegration',
+  Http: 'httpIntegration',
+  Express: 'expressIntegration',
+  GraphQL: 'graphqlIntegration',
+  Mongo: 'mongoIntegration',
+  Mysql: 'mysqlIntegration',
+  Postgres: 'postgresIntegration',
+  Prisma: 'prismaIntegration',
+};
+
+/**
+ * Packages whose exports moved into the SDK packages in v8.
+ */
+const DISCONTINUED_INTEGRATION_PACKAGES = [
+  '@sentry/tracing',
+  '@sentry/integrations',
+  '@sentry/replay',
+];
+
+/**
+ * The `withSentryConfig` options of `@sentry/nextjs` removed in a major version.
+ */
+const REMOVED_NEXTJS_OPTIONS: {
+  name: string;
+  removedIn: number;
+  hint: string;
+}[] = [
+  {
+    name: 'transpileClientSDK',
+    removedIn: 8,
+    hint: "Add '@sentry/nextjs' to transpilePackages in your Next.js config if you need to support older browsers.",
+  },
+  {
+    name: 'hideSourceMaps',
+    removedIn: 9,
+    hint: 'Client source maps are deleted after the upload by default now.',
+  },
+];
+
+/**
+ * Replaces the class-based integrations of SDK v7 with the functional
+ * integrations of v8, e.g. `new BrowserTracing()` with
+ * `browserTracingIntegration()`. Imports from packages that were merged into
+ * the SDK (e.g. `@sentry/tracing`) are changed to the SDK package.
+ *
+ * @param sdkPackageName the installed SDK package, e.g. `@sentry/react`
+ */
+export function migrateClassIntegrations(
+  code: string,
+  sdkPackageName: string,
+): CodemodResult {
+  const followUps: string[] = [];
+  if (!code.includes('@sentry/')) {
+    return { code, followUps };
+  }
+
+  const mod = parseModule(code);
+  const program = mod.$ast as t.Program;
+
+  // The local names of imported integration classes and the functions replacing them
+  const importedClasses = new Map<string, string>();
+  // The local names of namespace imports, e.g. `Sentry` in `import * as Sentry from '@sentry/react'`
+  const sentryNamespaces = new Set<string>();
+  let changed = false;
+
+  recast.visit(program, {
+    visitImportDeclaration(path) {
+      const declaration = path.value as t.ImportDeclaration;
+      const source = String(declaration.source.value);
+      if (!source.startsWith('@sentry/')) {
+        return false;
+      }
+
+      for (const specifier of declaration.specifiers ?? []) {
+        if (
+          specifier.type === 'ImportNamespaceSpecifier' &&
+          specifier.local?.name
+        ) {
+          sentryNamespaces.add(String(specifier.local.name));
+          continue;
+        }
+
+        if (specifier.type !== 'ImportSpecifier') {
+          continue;
+        }
+
+        const importedName = String(specifier.imported.name);
+        const functionName = CLASS_INTEGRATIONS[importedName];
+        if (!functionName) {
+          continue;
+        }
+
+        const localName = String(specifier.local?.name ?? importedName);
+        specifier.imported = b.identifier(functionName);
+        specifier.local = b.identifier(
+          localName === importedName ? functionName : localName,
+        );
+        importedClasses.set(localName, String(specifier.local.name));
+        changed = true;
+      }
+
+      if (DISCONTINUED_INTEGRATION_PACKAGES.includes(source)) {
+        declaration.source = b.stringLiteral(sdkPackageName);
+        changed = true;
+      }
+
+      return false;
+    },
+  });
+
+  recast.visit(program, {
+    visitNewExpression(path) {
+      const callee = (path.value as t.NewExpression).callee;
+      const args = (path.value as t.NewExpression).arguments;
+
+      if (callee.type === 'Identifier' && importedClasses.has(callee.name)) {
+        path.replace(
+          b.callExpression(
+            b.identifier(importedClasses.get(callee.name) as string),
+            args,
+          ),
+        );
+        return false;
+      }
+
+      const namespace = getSentryNamespace(callee, sentryNamespaces);
+      if (callee.type === 'MemberExpression' && namespace) {
+        const className =
+          callee.property.type === 'Identifier' ? callee.property.name : '';
+        const functionName = CLASS_INTEGRATIONS[className];
+
+        if (functionName) {
+          path.replace(
+            b.callExpression(
+              b.memberExpression(
+                b.identifier(namespace),
+                b.identifier(functionName),
+              ),
+              args,
+            ),
+          );
+          changed = true;
+        } else if (className) {
+          followUps.push(
+            `Replace ${
+              recast.print(callee).code
+            } with its functional integration.`,
+          );
+        }
+        return false;
+      }
+
+      this.traverse(path);
+    },
+  });
+
+  return {
+    code: changed ? generateCode(mod).code : code,
+    followUps,
+  };
+}
+
+/**
+ * Replaces the `enableTracing` option removed in SDK v9 with `tracesSampleRate`.
+ * Only files importing a Sentry SDK are changed, as other libraries can have an
+ * option with the same name.
+ */
+export function migrateEnableTracing(code: string): CodemodResult {
+  const followUps: string[] = [];
+  if (!code.includes('enableTracing') || !code.includes('@sentry/')) {
+    return { code, followUps };
+  }
+
+  const mod = parseModule(code);
+  let changed = false;
+
+  recast.visit(mod.$ast as t.Program, {
+    visitObjectExpression(path) {
+      const objectExpression = path.value as t.ObjectExpression;
+      const index = objectExpression.properties.findIndex(
+        (property) => getPropertyName(property) === 'enableTracing',
+      );
+
+      if (index === -1) {
+        this.traverse(path);
+        return;
+      }
+
+      const property = objectExpression.properties[index] as t.ObjectProperty;
+      const hasTracesSampleRate = objectExpression.properties.some(
+        (other) =>
+          getPropertyName(other) === 'tracesSampleRate' ||
+          getPropertyName(other) === 'tracesSampler',
+      );
+
+      if (property.value.type !== 'BooleanLiteral') {
+        followUps.push(
+          'Replace the enableTracing option with tracesSampleRate, it was removed in v9.',
+        );
+      } else if (property.value.value && !hasTracesSampleRate) {
+        objectExpression.properties[index] = b.objectProperty(
+          b.identifier('tracesSampleRate'),
+          b.numericLiteral(1),
+        );
+        changed = true;
+      } else {
+        objectExpression.properties.splice(index, 1);
+        changed = true;
+      }
+
+      this.traverse(path);
+    },
+  });
+
+  return {
+    code: changed ? generateCode(mod).code : code,
+    followUps,
+  };
+}
+
+/**
+ * Migrates the `withSentryConfig` call in the Next.js config:
+ *
+ * - v8: merges the SDK options (third argument) into the build options
+ * - removes options that were removed in the target major version
+ *
+ * @param targetMajor the major version to migrate to
+ */
+export function migrateWithSentryConfig(
+  code: string,
+  targetMajor: number,
+): CodemodResult {
+  const followUps: string[] = [];
+  if (!code.includes('withSentryConfig')) {
+    return { code, followUps };
+  }
+
+  const mod = parseModule(code);
+  let changed = false;
+
+  recast.visit(mod.$ast as t.Program, {
+    visitCallExpression(path) {
+      const callExpression = path.value as t.CallExpression;
+      const callee = callExpression.callee;
+      const isWithSentryConfig =
+        (callee.type === 'Identifier' && callee.name === 'withSentryConfig') ||
+        (callee.type === 'MemberExpression' &&
+          callee.property.type === 'Identifier' &&
+          callee.property.name === 'withSentryConfig');
+
+      if (!isWithSentryConfig) {
+        this.traverse(path);
+        return;
+      }
+
+      const [, options, sdkOptions] = callExpression.arguments;
+
+      if (targetMajor === 8 && sdkOptions) {
+        if (
+          options?.type === 'ObjectExpression' &&
+          sdkOptions.type === 'ObjectExpression'
+        ) {
+          options.properties.push(...sdkOptions.properties);
+          callExpression.arguments.splice(2, 1);
+          changed = true;
+        } else {
+          followUps.push(
+            'Merge the third argument of withSentryConfig into the second one, withSentryConfig only accepts two arguments since v8.',
+          );
+        }
+      }
+
+      if (options?.type === 'ObjectExpression') {
+        for (const removedOption of REMOVED_NEXTJS_OPTIONS) {
+          const index = options.properties.findIndex(
+            (property) => getPropertyName(property) === removedOption.name,
+          );
+
+          if (removedOption.removedIn !== targetMajor || index === -1) {
+            continue;
+          }
+
+          options.properties.splice(index, 1);
+          changed = true;
+          followUps.push(
+            `Removed the ${removedOption.name} option of withSentryConfig. ${removedOption.hint}`,
+          );
+        }
+      }
+
+      return false;
+    },
+  });
+
+  return {
+    code: changed ? generateCode(mod).code : code,
+    followUps,
+  };
+}
+
+/**
+ * @returns the name of the Sentry namespace import the callee is a member of,
+ * e.g. `Sentry` for `Sentry.BrowserTracing` and `Sentry.Integrations.Http`
+ */
+function getSentryNamespace(
+  callee: t.NewExpression['callee'],
+  sentryNamespaces: Set<string>,
+): string | undefined {
+  if (callee.type !== 'MemberExpression') {
+    return undefined;
+  }
+
+  let object = callee.object;
+  if (
+    object.type === 'MemberExpression' &&
+    object.property.type === 'Identifier' &&
+    object.property.name === 'Integrations'
+  ) {
+    object = object.object;
+  }
+
+  return object.type === 'Identifier' && sentryNamespaces.has(object.name)
+    ? object.name
+    : undefined;
+}
+
+function getPropertyName(
+  property: t.ObjectExpression['properties'][number],
+): string | undefined {
+  if (
+    (property.type !== 'ObjectProperty' && property.type !== 'Property') ||
+    property.computed
+  ) {
+    return undefined;
+  }
+
+  if (property.key.type === 'Identifier') {
+    return property.key.name;
+  }
+
+  return property.key.type === 'StringLiteral' ? property.key.value : undefined;
+}
@@ -0,0 +1,225 @@
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import * as Sentry from '@sentry/node';
+import chalk from 'chalk';
+import { SENTRY_SDK_PACKAGE_NAMES } from '../sourcemaps/utils/sdk-version';
+import { traceStep, withTelemetry } from '../telemetry';
+import {
+  abort,
+  confirmContinueIfNoOrDirtyGitRepo,
+  getPackageDotJson,
+  installPackage,
+  printWelcome,
+} from '../utils/clack';
+import { emitEvent } from '../utils/json-output';
+import {
+  findInstalledPackageFromList,
+  hasPackageInstalled,
+  type PackageDotJson,
+} from '../utils/package-json';
+import type { WizardOptions } from '../utils/types';
+import {
+  LATEST_SDK_MAJOR,
+  MIGRATION_STEPS,
+  type MigrationFollowUp,
+  getMajorVersion,
+} from './migrations';
+
+/**
+ * Packages that are released together with the SDKs and need to be
+ * upgraded to the same version.
+ */
+const ADDITIONAL_SDK_PACKAGE_NAMES = [
+  '@sentry/core',
+  '@sentry/opentelemetry',
+  '@sentry/profiling-node',
+];
+
+/**
+ * Packages that were merged into the SDK packages.
+ */
+const DISCONTINUED_PACKAGE_NAMES = [
+  '@sentry/hub',
+  '@sentry/integrations',
+  '@sentry/replay',
+  '@sentry/tracing',
+];
+
+export function runMigrateWizard(options: WizardOptions): Promise<void> {
+  return withTelemetry(
+    {
+      enabled: options.telemetryEnabled,
+      integration: 'migrate',
+      wizardOptions: options,
+    },
+    () => runMigrateWizardWithTelemetry(options),
+  );
+}
+
+async function runMigrateWizardWithTelemetry(
+  options: WizardOptions,
+): Promise<void> {
+  printWelcome({
+    wizardName: 'Sentry SDK Migration Wizard',
+    message: `This wizard upgrades your Sentry SDK to version ${LATEST_SDK_MAJOR} and migrates your code.\nChanges it can't make are listed at the end.`,
+    telemetryEnabled: options.telemetryEnabled,
+  });
+
+  await confirmContinueIfNoOrDirtyGitRepo({
+    ignoreGitChanges: options.ignoreGitChanges,
+    cwd: undefined,
+  });
+
+  const packageJson = await getPackageDotJson();
+  const installedSdk = findInstalledPackageFromList(
+    SENTRY_SDK_PACKAGE_NAMES,
+    packageJson,
+  );
+
+  if (!installedSdk) {
+    clack.log.error(
+      `Couldn't find a Sentry SDK in your ${chalk.cyan('package.json')}.`,
+    );
+    return abort();
+  }
+
+  const installedMajor = getMajorVersion(installedSdk.version);
+
+  Sentry.setTag('installed-sdk', installedSdk.name);
+  Sentry.setTag('installed-sdk-major', installedMajor);
+
+  if (installedMajor === undefined) {
+    clack.log.error(
+      `Couldn't parse the version of ${chalk.cyan(installedSdk.name)} (${
+        installedSdk.version
+      }).`,
+    );
+    return abort();
+  }
+
+  if (installedMajor >= LATEST_SDK_MAJOR) {
+    clack.outro(
+      `${chalk.cyan(
+        installedSdk.name,
+      )} is already on version ${installedMajor}, there's nothing to migrate.`,
+    );
+    return;
+  }
+
+  const steps = MIGRATION_STEPS.filter((step) => step.major > installedMajor);
+
+  if (installedMajor < steps[0].major - 1) {
+    clack.log.error(
+      `Migrating from version ${installedMajor} isn't supported. Please upgrade to version 7 first:
+${chalk.cyan(
+  'https://github.com/getsentry/sentry-javascript/blob/develop/MIGRATION.md#upgrading-from-6x-to-7x',
+)}`,
+    );
+    return abort();
+  }
+
+  clack.log.info(
+    `Migrating ${chalk.cyan(
+      installedSdk.name,
+    )} from version ${installedMajor} to ${LATEST_SDK_MAJOR}.`,
+  );
+
+  const context = { sdkPackageName: installedSdk.name, packageJson };
+  const changedFiles = new Set<string>();
+  const followUps: MigrationFollowUp[] = [];
+
+  for (const step of steps) {
+    clack.log.step(`Migrating to version ${step.major}`);
+
+    for (const codemod of step.codemods) {
+      if (
+        codemod.sdkPackageNames &&
+        !codemod.sdkPackageNames.includes(installedSdk.name)
+      ) {
+        continue;
+      }
+
+      const result = traceStep(`migrate-v${step.major}`, () =>
+        codemod.run(context),
+      );
+
+      if (result.changedFiles.length) {
+        clack.log.success(
+          `${codemod.title}: ${result.changedFiles
+            .map((file) => chalk.cyan(file))
+            .join(', ')}`,
+        );
+      }
+
+      result.changedFiles.forEach((file) => changedFiles.add(file));
+      followUps.push(...result.followUps);
+    }
+
+    followUps.push({
+      message: `Check the migration guide for changes the wizard can't make: ${step.guideUrl}`,
+    });
+  }
+
+  await traceStep('upgrade-packages', async () => {
+    for (const packageName of getPackagesToUpgrade(packageJson)) {
+      await installPackage({
+        packageName: `${packageName}@^${LATEST_SDK_MAJOR}.0.0`,
+        packageNameDisplayLabel: packageName,
+        alreadyInstalled: true,
+        askBeforeUpdating: false,
+        devDependency: !!packageJson.devDependencies?.[packageName],
+      });
+    }
+  });
+
+  for (const packageName of DISCONTINUED_PACKAGE_NAMES) {
+    if (hasPackageInstalled(packageName, packageJson)) {
+      followUps.push({
+        message: `Remove the ${packageName} package, its exports are part of ${installedSdk.name} now.`,
+        file: 'package.json',
+      });
+    }
+  }
+
+  Sentry.setTag('migrated-files', changedFiles.size);
+  Sentry.setTag('migration-follow-ups', followUps.length);
+
+  printFollowUps(followUps);
+
+  clack.outro(
+    `${chalk.green(
+      `Upgraded ${installedSdk.name} to version ${LATEST_SDK_MAJOR}!`,
+    )} The wizard changed ${changedFiles.size} ${
+      changedFiles.size === 1 ? 'file' : 'files'
+    }.`,
+  );
+}
+
+/**
+ * @returns the installed SDK packages, which are upgraded together
+ */
+function getPackagesToUpgrade(packageJson: PackageDotJson): string[] {
+  return [...SENTRY_SDK_PACKAGE_NAMES, ...ADDITIONAL_SDK_PACKAGE_NAMES].filter(
+    (packageName) => hasPackageInstalled(packageName, packageJson),
+  );
+}
+
+function printFollowUps(followUps: MigrationFollowUp[]): void {
+  for (const followUp of followUps) {
+    emitEvent({
+      type: 'manual_step',
+      message: followUp.message,
+      filename: followUp.file,
+    });
+  }
+
+  clack.note(
+    followUps
+      .map(
+        ({ message, file }) =>
+          `- ${file ? `${chalk.cyan(file)}: ` : ''}${message}`,
+      )
+      .join('\n'),
+    'Please check these changes manually',
+  );
+}
@@ -0,0 +1,258 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as glob from 'glob';
+import { major, minVersion, satisfies } from 'semver';
+import { debug } from '../utils/debug';
+import { getPackageVersion, type PackageDotJson } from '../utils/package-json';
+import {
+  type CodemodResult,
+  migrateClassIntegrations,
+  migrateEnableTracing,
+  migrateWithSentryConfig,
+} from './codemods';
+
+/**
+ * The major version the migrate mode upgrades the SDK to.
+ */
+export const LATEST_SDK_MAJOR = 10;
+
+export type MigrationContext = {
+  /** The installed SDK package, e.g. `@sentry/nextjs` */
+  sdkPackageName: string;
+  packageJson: PackageDotJson;
+};
+
+export type MigrationFollowUp = {
+  message: string;
+  /** Path relative to the project root */
+  file?: string;
+};
+
+export type MigrationResult = {
+  /** Paths relative to the project root */
+  changedFiles: string[];
+  followUps: MigrationFollowUp[];
+};
+
+export type Codemod = {
+  title: string;
+  /** Only runs if one of these SDKs is installed, runs for all SDKs if undefined */
+  sdkPackageNames?: string[];
+  run: (context: MigrationContext) => MigrationResult;
+};
+
+export type MigrationStep = {
+  /** The major version this step migrates to */
+  major: number;
+  guideUrl: string;
+  codemods: Codemod[];
+};
+
+const SOURCE_FILES = ['**/*.{js,jsx,ts,tsx,mjs,cjs,mts,cts}'];
+
+const NEXTJS_CONFIG_FILES = ['next.config.{js,mjs,cjs,ts,mts}'];
+
+/**
+ * Build output and dependencies, which the codemods don't touch.
+ */
+const IGNORED_FILES = [
+  '**/node_modules/**',
+  '**/{dist,build,coverage}/**',
+  '**/{.next,.nuxt,.output,.svelte-kit,.vercel}/**',
+];
+
+/**
+ * The migration steps from one major version to the next, in ascending order.
+ */
+export const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    major: 8,
+    guideUrl: 'https://docs.sentry.io/platforms/javascript/migration/v7-to-v8/',
+    codemods: [
+      sourceFileCodemod({
+        title: 'Replace class-based integrations with functions',
+        files: SOURCE_FILES,
+        transform: (code, { sdkPackageName }) =>
+          migrateClassIntegrations(code, sdkPackageName),
+      }),
+      sourceFileCodemod({
+        title: 'Migrate the withSentryConfig options',
+        sdkPackageNames: ['@sentry/nextjs'],
+        files: NEXTJS_CONFIG_FILES,
+        transform: (code) => migrateWithSentryConfig(code, 8),
+      }),
+    ],
+  },
+  {
+    major: 9,
+    guideUrl: 'https://docs.sentry.io/platforms/javascript/migration/v8-to-v9/',
+    codemods: [
+      sourceFileCodemod({
+        title: 'Replace the enableTracing option',
+        files: SOURCE_FILES,
+        transform: migrateEnableTracing,
+      }),
+      sourceFileCodemod({
+        title: 'Remove deprecated withSentryConfig options',
+        sdkPackageNames: ['@sentry/nextjs'],
+        files: NEXTJS_CONFIG_FILES,
+        transform: (code) => migrateWithSentryConfig(code, 9),
+      }),
+    ],
+  },
+  {
+    major: 10,
+    guideUrl:
+      'https://docs.sentry.io/platforms/javascript/migration/v9-to-v10/',
+    codemods: [
+      {
+        title: 'Move sentry.client.config into instrumentation-client',
+        sdkPackageNames: ['@sentry/nextjs'],
+        run: moveNextjsClientConfig,
+      },
+    ],
+  },
+];
+
+/**
+ * Creates a codemod that transforms all files matching the glob patterns.
+ * Files that can't be parsed are reported as follow-ups.
+ */
+function sourceFileCodemod(options: {
+  title: string;
+  sdkPackageNames?: string[];
+  files: string[];
+  transform: (code: string, context: MigrationContext) => CodemodResult;
+}): Codemod {
+  const { files, transform, ...codemod } = options;
+
+  return {
+    ...codemod,
+    run: (context) => {
+      const result: MigrationResult = { changedFiles: [], followUps: [] };
+
+      for (const file of glob.sync(files, {
+        cwd: process.cwd(),
+        nodir: true,
+        ignore: IGNORED_FILES,
+      })) {
+        const filePath = path.join(process.cwd(), file);
+        const code = fs.readFileSync(filePath, 'utf8');
+
+        let transformed: CodemodResult;
+        try {
+          transformed = transform(code, context);
+        } catch (e) {
+          debug(e);
+          result.followUps.push({
+            message: `Couldn't parse the file, please check it for: ${codemod.title}`,
+            file,
+          });
+          continue;
+        }
+
+        if (transformed.code !== code) {
+          fs.writeFileSync(filePath, transformed.code, 'utf8');
+          result.changedFiles.push(file);
+        }
+
+        result.followUps.push(
+          ...transformed.followUps.map((message) => ({ message, file })),
+        );
+      }
+
+      result.changedFiles.sort();
+      return result;
+    },
+  };
+}
+
+/**
+ * Moves the client config of the Next.js SDK into `instrumentation-client`,
+ * which Next.js 15.3 and newer load before the app.
+ */
+function moveNextjsClientConfig({
+  packageJson,
+}: MigrationContext): MigrationResult {
+  const result: MigrationResult = { changedFiles: [], followUps: [] };
+
+  const clientConfig = [
+    'sentry.client.config.ts',
+    'sentry.client.config.js',
+    'sentry.client.config.mjs',
+  ].find((file) => fs.existsSync(path.join(process.cwd(), file)));
+
+  if (!clientConfig) {
+    return result;
+  }
+
+  const extension = clientConfig.endsWith('.ts') ? 'ts' : 'js';
+  const nextVersion = getMinVersion(getPackageVersion('next', packageJson));
+
+  if (!nextVersion || !satisfies(nextVersion, '>=15.3.0')) {
+    result.followUps.push({
+      message: `Move the Sentry.init call into instrumentation-client.${extension} once you upgrade to Next.js 15.3 or newer.`,
+      file: clientConfig,
+    });
+    return result;
+  }
+
+  // instrumentation-client needs to be next to the app or pages directory
+  const usesSrcDir = ['app', 'pages'].some((dir) =>
+    fs.existsSync(path.join(process.cwd(), 'src', dir)),
+  );
+  const targetDir = usesSrcDir ? 'src' : '';
+  const existingTarget = ['ts', 'js'].some((ext) =>
+    fs.existsSync(
+      path.join(process.cwd(), targetDir, `instrumentation-client.${ext}`),
+    ),
+  );
+
+  if (existingTarget) {
+    result.followUps.push({
+      message: `Move the Sentry.init call into your instrumentation-client file and delete ${clientConfig}.`,
+      file: clientConfig,
+    });
+    return result;
+  }
+
+  const target = path.join(targetDir, `instrumentation-client.${extension}`);
+  let code = fs.readFileSync(path.join(process.cwd(), clientConfig), 'utf8');
+
+  if (!code.includes('onRouterTransitionStart')) {
+    if (/import \* as Sentry from ["']@sentry\/nextjs["']/.test(code)) {
+      code = `${code.trimEnd()}\n\nexport const onRouterTransitionStart = Sentry.captureRouterTransitionStart;\n`;
+    } else {
+      result.followUps.push({
+        message:
+          'Export onRouterTransitionStart = Sentry.captureRouterTransitionStart to trace navigations.',
+        file: target,
+      });
+    }
+  }
+
+  fs.writeFileSync(path.join(process.cwd(), target), code, 'utf8');
+  fs.unlinkSync(path.join(process.cwd(), clientConfig));
+  result.changedFiles.push(clientConfig, target);
+
+  return result;
+}
+
+/**
+ * @returns the major version of a version range in package.json (e.g. `7` for
+ * `^7.50.0`) or `undefined` if it can't be parsed
+ */
+export function getMajorVersion(
+  versionOrRange: string | undefined,
+): number | undefined {
+  const version = getMinVersion(versionOrRange);
+  return version ? major(version) : undefined;
+}
+
+function getMinVersion(versionOrRange: string | undefined): string | undefined {
+  try {
+    return versionOrRange ? minVersion(versionOrRange)?.version : undefined;
+  } catch {
+    return undefined;
+  }
+}
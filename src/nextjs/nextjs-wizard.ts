@@ -13,10 +13,10 @@ import { setupCI } from '../sourcemaps/sourcemaps-wizard';
 import { traceStep, withTelemetry } from '../telemetry';
 import {
   abort,
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
   askShouldCreateExamplePage,
   confirmContinueIfNoOrDirtyGitRepo,
+  confirmPrompt,
   createNewConfigFile,
   ensurePackageIsInstalled,
   featureSelectionPrompt,
@@ -27,10 +27,24 @@ import {
   isUsingTypeScript,
   printWelcome,
   runFormatters,
+  selectPrompt,
   showCopyPasteInstructions,
 } from '../utils/clack';
+import {
+  LOGS_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../utils/features';
 import { getPackageVersion, hasPackageInstalled } from '../utils/package-json';
-import type { SentryProjectData, WizardOptions } from '../utils/types';
+import {
+  askForSdkInitOptions,
+  writeDsnToEnvFile,
+} from '../utils/sdk-init-options';
+import type {
+  SdkInitOptions,
+  SentryProjectData,
+  WizardOptions,
+} from '../utils/types';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import {
   getFullUnderscoreErrorCopyPasteSnippet,
@@ -151,6 +165,9 @@ export async function runNextjsWizardWithTelemetry(
       sentryUrl,
       {
         tunnelRoute,
+        featureFlags: options.features,
+        sdkInitOptions: options.sdkInitOptions,
+        dsnInEnv: options.dsnInEnv,
       },
       spotlight,
     );
@@ -221,15 +238,13 @@ export async function runNextjsWizardWithTelemetry(
       // eslint-disable-next-line no-console
       console.log(getSimpleUnderscoreErrorCopyPasteSnippet());
 
-      const shouldContinue = await abortIfCancelled(
-        clack.confirm({
-          message: `Did you modify your ${chalk.cyan(
-            path.join(...pagesLocation, underscoreErrorPageFile),
-          )} file as described above?`,
-          active: 'Yes',
-          inactive: 'No, get me out of here',
-        }),
-      );
+      const shouldContinue = await confirmPrompt('snippetApplied', {
+        message: `Did you modify your ${chalk.cyan(
+          path.join(...pagesLocation, underscoreErrorPageFile),
+        )} file as described above?`,
+        active: 'Yes',
+        inactive: 'No, get me out of here',
+      });
 
       if (!shouldContinue) {
         await abort();
@@ -249,15 +264,13 @@ export async function runNextjsWizardWithTelemetry(
         ),
       );
 
-      const shouldContinue = await abortIfCancelled(
-        clack.confirm({
-          message: `Did you add the code to your ${chalk.cyan(
-            path.join(...pagesLocation, underscoreErrorPageFile),
-          )} file as described above?`,
-          active: 'Yes',
-          inactive: 'No, get me out of here',
-        }),
-      );
+      const shouldContinue = await confirmPrompt('snippetApplied', {
+        message: `Did you add the code to your ${chalk.cyan(
+          path.join(...pagesLocation, underscoreErrorPageFile),
+        )} file as described above?`,
+        active: 'Yes',
+        inactive: 'No, get me out of here',
+      });
 
       if (!shouldContinue) {
         await abort();
@@ -321,15 +334,13 @@ export async function runNextjsWizardWithTelemetry(
         ),
       );
 
-      const shouldContinue = await abortIfCancelled(
-        clack.confirm({
-          message: `Did you add the code to your ${chalk.cyan(
-            path.join(...appDirLocation, globalErrorPageFile),
-          )} file as described above?`,
-          active: 'Yes',
-          inactive: 'No, get me out of here',
-        }),
-      );
+      const shouldContinue = await confirmPrompt('snippetApplied', {
+        message: `Did you add the code to your ${chalk.cyan(
+          path.join(...appDirLocation, globalErrorPageFile),
+        )} file as described above?`,
+        active: 'Yes',
+        inactive: 'No, get me out of here',
+      });
 
       if (!shouldContinue) {
         await abort();
@@ -396,20 +407,18 @@ export async function runNextjsWizardWithTelemetry(
 
   const isLikelyUsingTurbopack = await checkIfLikelyIsUsingTurbopack();
   if (isLikelyUsingTurbopack || isLikelyUsingTurbopack === null) {
-    await abortIfCancelled(
-      clack.select({
-        message:
-          'Warning: The Sentry SDK is only compatible with Turbopack on Next.js version 15.4.1 or later.',
-        options: [
-          {
-            label: 'I understand.',
-            hint: 'press enter',
-            value: true,
-          },
-        ],
-        initialValue: true,
-      }),
-    );
+    await selectPrompt('continueWithTurbopack', {
+      message:
+        'Warning: The Sentry SDK is only compatible with Turbopack on Next.js version 15.4.1 or later.',
+      options: [
+        {
+          label: 'I understand.',
+          hint: 'press enter',
+          value: true,
+        },
+      ],
+      initialValue: true,
+    });
   }
 
   const mightBeUsingVercel = fs.existsSync(
@@ -453,6 +462,12 @@ ${chalk.dim(
 
 type SDKConfigOptions = {
   tunnelRoute: boolean;
+  /** The `--features` arg */
+  featureFlags?: string[];
+  /** The `Sentry.init` options passed via the CLI args */
+  sdkInitOptions?: Partial<SdkInitOptions>;
+  /** The `--dsn-in-env` arg */
+  dsnInEnv?: boolean;
 };
 
 async function createOrMergeNextJsFiles(
@@ -463,29 +478,23 @@ async function createOrMergeNextJsFiles(
   spotlight = false,
 ): Promise<{ logsEnabled: boolean }> {
   const dsn = selectedProject.keys[0].dsn.public;
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to get a video-like reproduction of errors during a user session?`,
-      enabledHint: 'recommended, but increases bundle size',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
+  const selectedFeatures = await featureSelectionPrompt(
+    [TRACING_FEATURE, REPLAY_FEATURE, LOGS_FEATURE] as const,
+    sdkConfigOptions.featureFlags,
+  );
+  const sdkInitOptions = await askForSdkInitOptions(sdkConfigOptions, {
+    selectedFeatures: {
+      tracing: selectedFeatures.performance,
+      replay: selectedFeatures.replay,
     },
-  ] as const);
+    envVarConvention: 'process.env',
+    // Environment variables are only available in the browser with this prefix
+    envVarPrefix: 'NEXT_PUBLIC_',
+  });
+  sdkInitOptions.dsnEnvVar = await writeDsnToEnvFile(sdkConfigOptions, dsn, {
+    envFileName: '.env.local',
+    envVarName: 'NEXT_PUBLIC_SENTRY_DSN',
+  });
 
   const typeScriptDetected = isUsingTypeScript();
 
@@ -512,12 +521,13 @@ async function createOrMergeNextJsFiles(
           existingConfigs.push(tsConfig);
         }
 
-        const overwriteExistingConfigs = await abortIfCancelled(
-          clack.confirm({
+        const overwriteExistingConfigs = await confirmPrompt(
+          'overwriteExistingConfigs',
+          {
             message: `Found existing Sentry ${configVariant} config (${existingConfigs.join(
               ', ',
             )}). Overwrite ${existingConfigs.length > 1 ? 'them' : 'it'}?`,
-          }),
+          },
         );
         Sentry.setTag(
           `overwrite-${configVariant}-config`,
@@ -546,6 +556,7 @@ async function createOrMergeNextJsFiles(
             configVariant,
             selectedFeatures,
             spotlight,
+            sdkInitOptions,
           ),
           { encoding: 'utf8', flag: 'w' },
         );
@@ -713,7 +724,12 @@ async function createOrMergeNextJsFiles(
 
       const successfullyCreated = await createNewConfigFile(
         newInstrumentationClientHookPath,
-        getInstrumentationClientFileContents(dsn, selectedFeatures, spotlight),
+        getInstrumentationClientFileContents(
+          dsn,
+          selectedFeatures,
+          spotlight,
+          sdkInitOptions,
+        ),
       );
 
       if (!successfullyCreated) {
@@ -723,6 +739,7 @@ async function createOrMergeNextJsFiles(
             dsn,
             selectedFeatures,
             spotlight,
+            sdkInitOptions,
           ),
           hint: "create the file if it doesn't already exist",
         });
@@ -739,6 +756,7 @@ async function createOrMergeNextJsFiles(
           dsn,
           selectedFeatures,
           spotlight,
+          sdkInitOptions,
         ),
       });
     }
@@ -825,13 +843,11 @@ async function createOrMergeNextJsFiles(
       let shouldInject = true;
 
       if (probablyIncludesSdk) {
-        const injectAnyhow = await abortIfCancelled(
-          clack.confirm({
-            message: `${chalk.cyan(
-              foundNextConfigFileFilename,
-            )} already contains Sentry SDK configuration. Should the wizard modify it anyways?`,
-          }),
-        );
+        const injectAnyhow = await confirmPrompt('modifyExistingSentryConfig', {
+          message: `${chalk.cyan(
+            foundNextConfigFileFilename,
+          )} already contains Sentry SDK configuration. Should the wizard modify it anyways?`,
+        });
 
         shouldInject = injectAnyhow;
       }
@@ -871,13 +887,11 @@ async function createOrMergeNextJsFiles(
       let shouldInject = true;
 
       if (probablyIncludesSdk) {
-        const injectAnyhow = await abortIfCancelled(
-          clack.confirm({
-            message: `${chalk.cyan(
-              foundNextConfigFileFilename,
-            )} already contains Sentry SDK configuration. Should the wizard modify it anyways?`,
-          }),
-        );
+        const injectAnyhow = await confirmPrompt('modifyExistingSentryConfig', {
+          message: `${chalk.cyan(
+            foundNextConfigFileFilename,
+          )} already contains Sentry SDK configuration. Should the wizard modify it anyways?`,
+        });
 
         shouldInject = injectAnyhow;
       }
@@ -991,15 +1005,13 @@ async function createOrMergeNextJsFiles(
           getNextjsConfigEsmCopyPasteSnippet(withSentryConfigOptionsTemplate),
         );
 
-        const shouldContinue = await abortIfCancelled(
-          clack.confirm({
-            message: `Are you done putting the snippet above into ${chalk.cyan(
-              foundNextConfigFileFilename,
-            )}?`,
-            active: 'Yes',
-            inactive: 'No, get me out of here',
-          }),
-        );
+        const shouldContinue = await confirmPrompt('snippetApplied', {
+          message: `Are you done putting the snippet above into ${chalk.cyan(
+            foundNextConfigFileFilename,
+          )}?`,
+          active: 'Yes',
+          inactive: 'No, get me out of here',
+        });
 
         if (!shouldContinue) {
           await abort();
@@ -1199,25 +1211,23 @@ async function createExamplePage(
  */
 async function askShouldSetTunnelRoute() {
   return await traceStep('ask-tunnelRoute-option', async (span) => {
-    const shouldSetTunnelRoute = await abortIfCancelled(
-      clack.select({
-        message:
-          'Do you want to route Sentry requests in the browser through your Next.js server to avoid ad blockers?',
-        options: [
-          {
-            label: 'Yes',
-            value: true,
-            hint: 'Can increase your server load and hosting bill',
-          },
-          {
-            label: 'No',
-            value: false,
-            hint: 'Browser errors and events might be blocked by ad blockers before being sent to Sentry',
-          },
-        ],
-        initialValue: true,
-      }),
-    );
+    const shouldSetTunnelRoute = await selectPrompt('tunnelRoute', {
+      message:
+        'Do you want to route Sentry requests in the browser through your Next.js server to avoid ad blockers?',
+      options: [
+        {
+          label: 'Yes',
+          value: true,
+          hint: 'Can increase your server load and hosting bill',
+        },
+        {
+          label: 'No',
+          value: false,
+          hint: 'Browser errors and events might be blocked by ad blockers before being sent to Sentry',
+        },
+      ],
+      initialValue: true,
+    });
 
     if (!shouldSetTunnelRoute) {
       clack.log.info(
@@ -1,5 +1,12 @@
 import chalk from 'chalk';
 import { makeCodeSnippet } from '../utils/clack';
+import {
+  DEFAULT_SDK_INIT_OPTIONS,
+  formatPercentage,
+  formatSampleRate,
+  getSdkInitValueCode,
+} from '../utils/sdk-init-options';
+import type { SdkInitOptions } from '../utils/types';
 
 type WithSentryConfigOptions = {
   orgSlug: string;
@@ -118,6 +125,35 @@ function getClientIntegrationsSnippet(features: { replay: boolean }) {
   return '';
 }
 
+function getEnvironmentAndReleaseOptions(
+  sdkInitOptions: SdkInitOptions,
+): string {
+  let options = '';
+
+  if (sdkInitOptions.environment) {
+    options += `
+
+  environment: ${getSdkInitValueCode(
+    sdkInitOptions.environment,
+    'process.env',
+  )},`;
+  }
+
+  if (sdkInitOptions.release) {
+    options += `
+
+  release: ${getSdkInitValueCode(sdkInitOptions.release, 'process.env')},`;
+  }
+
+  return options;
+}
+
+function getDsnOption(dsn: string, sdkInitOptions: SdkInitOptions): string {
+  return sdkInitOptions.dsnEnvVar
+    ? getSdkInitValueCode({ envVar: sdkInitOptions.dsnEnvVar }, 'process.env')
+    : `"${dsn}"`;
+}
+
 function getSpotlightOption(spotlight: boolean): string {
   if (!spotlight) {
     return '';
@@ -138,6 +174,7 @@ export function getSentryServersideConfigContents(
     logs: boolean;
   },
   spotlight = false,
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ): string {
   let primer = '';
   if (config === 'server') {
@@ -156,7 +193,7 @@ export function getSentryServersideConfigContents(
     performanceOptions += `
 
   // Define how likely traces are sampled. Adjust this value in production, or use tracesSampler for greater control.
-  tracesSampleRate: 1,`;
+  tracesSampleRate: ${sdkInitOptions.tracesSampleRate},`;
   }
 
   let logsOptions = '';
@@ -167,6 +204,8 @@ export function getSentryServersideConfigContents(
   enableLogs: true,`;
   }
 
+  const environmentAndReleaseOptions =
+    getEnvironmentAndReleaseOptions(sdkInitOptions);
   const spotlightOptions = getSpotlightOption(spotlight);
 
   // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
@@ -175,7 +214,10 @@ export function getSentryServersideConfigContents(
 import * as Sentry from "@sentry/nextjs";
 
 Sentry.init({
-  dsn: "${dsn}",${performanceOptions}${logsOptions}
+  dsn: ${getDsnOption(
+    dsn,
+    sdkInitOptions,
+  )},${performanceOptions}${logsOptions}${environmentAndReleaseOptions}
 
   dataCollection: {
     // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
@@ -195,6 +237,7 @@ export function getInstrumentationClientFileContents(
     logs: boolean;
   },
   spotlight = false,
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ): string {
   const integrationsOptions = getClientIntegrationsSnippet({
     replay: selectedFeaturesMap.replay,
@@ -206,12 +249,18 @@ export function getInstrumentationClientFileContents(
     replayOptions += `
 
   // Define how likely Replay events are sampled.
-  // This sets the sample rate to be 10%. You may want this to be 100% while
+  // This sets the sample rate to be ${formatPercentage(
+    sdkInitOptions.replaysSessionSampleRate,
+  )}. You may want this to be 100% while
   // in development and sample at a lower rate in production
-  replaysSessionSampleRate: 0.1,
+  replaysSessionSampleRate: ${formatSampleRate(
+    sdkInitOptions.replaysSessionSampleRate,
+  )},
 
   // Define how likely Replay events are sampled when an error occurs.
-  replaysOnErrorSampleRate: 1.0,`;
+  replaysOnErrorSampleRate: ${formatSampleRate(
+    sdkInitOptions.replaysOnErrorSampleRate,
+  )},`;
   }
 
   let performanceOptions = '';
@@ -219,7 +268,7 @@ export function getInstrumentationClientFileContents(
     performanceOptions += `
 
   // Define how likely traces are sampled. Adjust this value in production, or use tracesSampler for greater control.
-  tracesSampleRate: 1,`;
+  tracesSampleRate: ${sdkInitOptions.tracesSampleRate},`;
   }
 
   let logsOptions = '';
@@ -229,6 +278,8 @@ export function getInstrumentationClientFileContents(
   enableLogs: true,`;
   }
 
+  const environmentAndReleaseOptions =
+    getEnvironmentAndReleaseOptions(sdkInitOptions);
   const spotlightOptions = getSpotlightOption(spotlight);
 
   return `// This file configures the initialization of Sentry on the client.
@@ -238,7 +289,10 @@ export function getInstrumentationClientFileContents(
 import * as Sentry from "@sentry/nextjs";
 
 Sentry.init({
-  dsn: "${dsn}",${integrationsOptions}${performanceOptions}${logsOptions}${replayOptions}
+  dsn: ${getDsnOption(
+    dsn,
+    sdkInitOptions,
+  )},${integrationsOptions}${performanceOptions}${logsOptions}${replayOptions}${environmentAndReleaseOptions}
 
   dataCollection: {
     // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
@@ -721,10 +775,16 @@ export function getInstrumentationClientHookCopyPasteSnippet(
     logs: boolean;
   },
   spotlight = false,
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ) {
   return makeCodeSnippet(true, (_unchanged, plus) => {
     return plus(
-      getInstrumentationClientFileContents(dsn, selectedFeaturesMap, spotlight),
+      getInstrumentationClientFileContents(
+        dsn,
+        selectedFeaturesMap,
+        spotlight,
+        sdkInitOptions,
+      ),
     );
   });
 }
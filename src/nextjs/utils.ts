@@ -1,9 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { major, minVersion } from 'semver';
+import type { ExportDefaultDeclaration, Program } from '@babel/types';
 
 // @ts-expect-error - magicast is ESM and TS complains about that. It works though
-import { builders } from 'magicast';
+import { builders, parseModule } from 'magicast';
 
 export function getNextJsVersionBucket(version: string | undefined) {
   if (!version) {
@@ -63,6 +64,37 @@ export function unwrapSentryConfigAst(astNode: unknown): any {
   return astNode;
 }
 
+/**
+ * Removes the withSentryConfig wrapper and its import from an ESM or TS Next.js config.
+ *
+ * @returns the new config file contents or undefined if the config couldn't be modified
+ */
+export function removeSentryConfigFromNextConfig(
+  nextConfigContent: string,
+): string | undefined {
+  try {
+    const mod = parseModule(nextConfigContent);
+
+    const exportDefault = (mod.$ast as Program).body.find(
+      (node): node is ExportDefaultDeclaration =>
+        node.type === 'ExportDefaultDeclaration',
+    );
+    if (!exportDefault) {
+      return undefined;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    exportDefault.declaration = unwrapSentryConfigAst(
+      exportDefault.declaration,
+    );
+    delete mod.imports.withSentryConfig;
+
+    return mod.generate().code;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Wraps a magicast module export with withSentryConfig using magicast
  */
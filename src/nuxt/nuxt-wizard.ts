@@ -6,7 +6,6 @@ import { lt, minVersion } from 'semver';
 import { traceStep, withTelemetry } from '../telemetry';
 import {
   abort,
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
   askShouldCreateExampleComponent,
   askShouldCreateExamplePage,
@@ -18,8 +17,10 @@ import {
   installPackage,
   printWelcome,
   runPrettierIfInstalled,
+  selectPrompt,
 } from '../utils/clack';
 import { getPackageVersion, hasPackageInstalled } from '../utils/package-json';
+import { writeDsnToEnvFile } from '../utils/sdk-init-options';
 import type { WizardOptions } from '../utils/types';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import {
@@ -78,8 +79,9 @@ export async function runNuxtWizardWithTelemetry(
     clack.log.warn(
       "It seems you're using a Nuxt version <3.7.0 which is not supported by Sentry.\nWe recommend upgrading to the latest version before you continue.",
     );
-    const shouldContinue = await abortIfCancelled(
-      clack.select({
+    const shouldContinue = await selectPrompt(
+      'continueWithUnsupportedVersion',
+      {
         message: 'Do you want to continue anyway?',
         options: [
           {
@@ -89,7 +91,7 @@ export async function runNuxtWizardWithTelemetry(
           },
           { label: "No, I'll upgrade first", value: false },
         ],
-      }),
+      },
     );
     if (!shouldContinue) {
       await abort('Exiting Wizard', 0);
@@ -138,9 +140,21 @@ export async function runNuxtWizardWithTelemetry(
   const deploymentPlatform = await askDeploymentPlatform();
   Sentry.setTag('deployment-platform', deploymentPlatform);
 
+  const dsn = selectedProject.keys[0].dsn.public;
+  // Nuxt sets `runtimeConfig.public.sentry.dsn` from this variable
+  const dsnEnvVar = await writeDsnToEnvFile(options, dsn, {
+    envFileName: '.env',
+    envVarName: 'NUXT_PUBLIC_SENTRY_DSN',
+  });
+
   await traceStep('configure-sdk', async () => {
-    await addSDKModule(nuxtConfig, projectData, deploymentPlatform);
-    await createConfigFiles(selectedProject.keys[0].dsn.public);
+    await addSDKModule(
+      nuxtConfig,
+      projectData,
+      deploymentPlatform,
+      !!dsnEnvVar,
+    );
+    await createConfigFiles(dsn, options.features, dsnEnvVar);
   });
 
   let shouldCreateExamplePage = false;
@@ -12,13 +12,19 @@ import opn from 'opn';
 import { type SemVer, lt } from 'semver';
 import { traceStep } from '../telemetry';
 import {
-  abortIfCancelled,
   askShouldAddPackageOverride,
   askShouldInstallPackage,
+  confirmPrompt,
   featureSelectionPrompt,
   installPackage,
   isUsingTypeScript,
+  selectPrompt,
 } from '../utils/clack';
+import {
+  LOGS_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../utils/features';
 import {
   type PackageDotJson,
   hasPackageInstalled,
@@ -67,21 +73,24 @@ export async function getNuxtConfig(): Promise<string> {
 export async function askDeploymentPlatform(): Promise<
   DeploymentPlatform | symbol
 > {
-  return await abortIfCancelled(
-    clack.select({
-      message: 'Please select your deployment platform.',
-      options: deploymentPlatforms.map((platform) => ({
-        value: platform,
-        label: `${platform.charAt(0).toUpperCase()}${platform.slice(1)}`,
-      })),
-    }),
-  );
+  return await selectPrompt('deploymentPlatform', {
+    message: 'Please select your deployment platform.',
+    options: deploymentPlatforms.map((platform) => ({
+      value: platform,
+      label: `${platform.charAt(0).toUpperCase()}${platform.slice(1)}`,
+    })),
+  });
 }
 
+/**
+ * @param dsnInRuntimeConfig if true, the DSN is added to the public runtime
+ * config, so that it can be set via the `NUXT_PUBLIC_SENTRY_DSN` env variable
+ */
 export async function addSDKModule(
   config: string,
   options: { org: string; project: string; url: string; selfHosted: boolean },
   deploymentPlatform: DeploymentPlatform | symbol,
+  dsnInRuntimeConfig = false,
 ): Promise<void> {
   const failureTagKey = 'modify-nuxt-config-error';
 
@@ -124,7 +133,12 @@ export async function addSDKModule(
       }`,
     );
 
-    showFallbackInstructions(config, options, shouldTopLevelImport);
+    showFallbackInstructions(
+      config,
+      options,
+      shouldTopLevelImport,
+      dsnInRuntimeConfig,
+    );
     throw e;
   }
 
@@ -146,10 +160,39 @@ export async function addSDKModule(
       }`,
     );
 
-    showFallbackInstructions(config, options, shouldTopLevelImport);
+    showFallbackInstructions(
+      config,
+      options,
+      shouldTopLevelImport,
+      dsnInRuntimeConfig,
+    );
     throw e;
   }
 
+  if (dsnInRuntimeConfig) {
+    try {
+      addNuxtModule(module, '@sentry/nuxt/module', 'runtimeConfig', {
+        public: { sentry: { dsn: '' } },
+      });
+    } catch (e) {
+      Sentry.setTag(failureTagKey, 'adding-runtime-config-failed');
+
+      clack.log.error(
+        `Error while modifying 'runtimeConfig' in Nuxt config: ${
+          e instanceof Error ? e.message : 'Unknown'
+        }`,
+      );
+
+      showFallbackInstructions(
+        config,
+        options,
+        shouldTopLevelImport,
+        dsnInRuntimeConfig,
+      );
+      throw e;
+    }
+  }
+
   try {
     addNuxtModule(module, '@sentry/nuxt/module', 'sourcemap', {
       client: 'hidden',
@@ -163,7 +206,12 @@ export async function addSDKModule(
       }`,
     );
 
-    showFallbackInstructions(config, options, shouldTopLevelImport);
+    showFallbackInstructions(
+      config,
+      options,
+      shouldTopLevelImport,
+      dsnInRuntimeConfig,
+    );
     throw e;
   }
 
@@ -180,7 +228,12 @@ export async function addSDKModule(
       }`,
     );
 
-    showFallbackInstructions(config, options, shouldTopLevelImport);
+    showFallbackInstructions(
+      config,
+      options,
+      shouldTopLevelImport,
+      dsnInRuntimeConfig,
+    );
     throw e;
   }
 
@@ -199,7 +252,12 @@ export async function addSDKModule(
       }`,
     );
 
-    showFallbackInstructions(config, options, shouldTopLevelImport);
+    showFallbackInstructions(
+      config,
+      options,
+      shouldTopLevelImport,
+      dsnInRuntimeConfig,
+    );
     throw e;
   }
 }
@@ -208,6 +266,7 @@ function showFallbackInstructions(
   config: string,
   options: { org: string; project: string; url: string; selfHosted: boolean },
   shouldTopLevelImport: boolean,
+  dsnInRuntimeConfig: boolean,
 ) {
   clack.log.warn(
     `Please add the following settings to ${chalk.cyan(
@@ -216,34 +275,27 @@ function showFallbackInstructions(
   );
   // eslint-disable-next-line no-console
   console.log(
-    `\n\n${getNuxtModuleFallbackTemplate(options, shouldTopLevelImport)}\n\n`,
+    `\n\n${getNuxtModuleFallbackTemplate(
+      options,
+      shouldTopLevelImport,
+      dsnInRuntimeConfig,
+    )}\n\n`,
   );
 }
 
-export async function createConfigFiles(dsn: string) {
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to get a video-like reproduction of errors during a user session?`,
-      enabledHint: 'recommended, but increases bundle size',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
-    },
-  ] as const);
+/**
+ * @param featureFlags the `--features` arg
+ * @param dsnEnvVar the environment variable to read the DSN from instead of the code
+ */
+export async function createConfigFiles(
+  dsn: string,
+  featureFlags?: string[],
+  dsnEnvVar?: string,
+) {
+  const selectedFeatures = await featureSelectionPrompt(
+    [TRACING_FEATURE, REPLAY_FEATURE, LOGS_FEATURE] as const,
+    featureFlags,
+  );
 
   const typeScriptDetected = isUsingTypeScript();
 
@@ -270,12 +322,13 @@ export async function createConfigFiles(dsn: string) {
           existingConfigs.push(tsConfig);
         }
 
-        const overwriteExistingConfigs = await abortIfCancelled(
-          clack.confirm({
+        const overwriteExistingConfigs = await confirmPrompt(
+          'overwriteExistingConfigs',
+          {
             message: `Found existing Sentry ${configVariant} config (${existingConfigs.join(
               ', ',
             )}). Overwrite ${existingConfigs.length > 1 ? 'them' : 'it'}?`,
-          }),
+          },
         );
         Sentry.setTag(
           `overwrite-${configVariant}-config`,
@@ -299,7 +352,12 @@ export async function createConfigFiles(dsn: string) {
       if (shouldWriteFile) {
         await fs.promises.writeFile(
           path.join(process.cwd(), typeScriptDetected ? tsConfig : jsConfig),
-          getSentryConfigContents(dsn, configVariant, selectedFeatures),
+          getSentryConfigContents(
+            dsn,
+            configVariant,
+            selectedFeatures,
+            dsnEnvVar,
+          ),
           { encoding: 'utf8', flag: 'w' },
         );
         clack.log.success(
@@ -317,7 +375,7 @@ export async function createConfigFiles(dsn: string) {
         // eslint-disable-next-line no-console
         console.log(
           '\n\n  ' +
-            getConfigBody(dsn, configVariant, selectedFeatures) +
+            getConfigBody(dsn, configVariant, selectedFeatures, dsnEnvVar) +
             '\n\n',
         );
       }
@@ -414,9 +472,9 @@ export async function confirmReadImportDocs(
     )}`,
   );
 
-  const shouldOpenDocs = await abortIfCancelled(
-    clack.confirm({ message: 'Do you want to open the docs?' }),
-  );
+  const shouldOpenDocs = await confirmPrompt('openDocs', {
+    message: 'Do you want to open the docs?',
+  });
 
   Sentry.setTag('init-with-import-docs-opened', shouldOpenDocs);
 
@@ -23,8 +23,11 @@ export function getNuxtModuleFallbackTemplate(
     selfHosted: boolean;
   },
   shouldTopLevelImport: boolean,
+  dsnInRuntimeConfig = false,
 ): string {
-  return `  modules: ["@sentry/nuxt/module"],
+  return `  modules: ["@sentry/nuxt/module"],${
+    dsnInRuntimeConfig ? `\n${DSN_RUNTIME_CONFIG_TEMPLATE}` : ''
+  }
   sentry: {
     org: "${options.org}",
     project: "${options.project}",${
@@ -43,16 +46,26 @@ export function getNuxtModuleFallbackTemplate(
   sourcemap: { client: "hidden" },`;
 }
 
+const DSN_RUNTIME_CONFIG_TEMPLATE = `  runtimeConfig: {
+    // Set via the NUXT_PUBLIC_SENTRY_DSN environment variable
+    public: { sentry: { dsn: "" } },
+  },`;
+
+/**
+ * @param dsnEnvVar if set, the configs read the DSN from the runtime config
+ * (client) or from this environment variable (server) instead of the code
+ */
 export function getSentryConfigContents(
   dsn: string,
   config: 'client' | 'server',
   selectedFeatures: SelectedSentryFeatures,
+  dsnEnvVar?: string,
 ): string {
   if (config === 'client') {
-    return getSentryClientConfigContents(dsn, selectedFeatures);
+    return getSentryClientConfigContents(dsn, selectedFeatures, dsnEnvVar);
   }
 
-  return getSentryServerConfigContents(dsn, selectedFeatures);
+  return getSentryServerConfigContents(dsn, selectedFeatures, dsnEnvVar);
 }
 
 const featuresConfigMap: Record<keyof SelectedSentryFeatures, string> = {
@@ -90,9 +103,10 @@ export function getConfigBody(
   dsn: string,
   variant: 'client' | 'server',
   selectedFeatures: SelectedSentryFeatures,
+  dsnEnvVar?: string,
 ) {
   return [
-    `dsn: "${dsn}",`,
+    getDsnLine(dsn, variant, dsnEnvVar),
     Object.entries(selectedFeatures)
       .map(([feature, activated]: [keyof SelectedSentryFeatures, boolean]) => {
         return featuresMap[variant].includes(feature) && activated
@@ -106,16 +120,36 @@ export function getConfigBody(
     .join('\n\n');
 }
 
+function getDsnLine(
+  dsn: string,
+  variant: 'client' | 'server',
+  dsnEnvVar?: string,
+): string {
+  if (!dsnEnvVar) {
+    return `dsn: "${dsn}",`;
+  }
+
+  // The server config is loaded before Nuxt, so it can't use the runtime config
+  return variant === 'client'
+    ? 'dsn: useRuntimeConfig().public.sentry.dsn,'
+    : `dsn: process.env.${dsnEnvVar},`;
+}
+
 function getSentryClientConfigContents(
   dsn: string,
   selectedFeatures: SelectedSentryFeatures,
+  dsnEnvVar?: string,
 ): string {
   return `import * as Sentry from "@sentry/nuxt";
 
-Sentry.init({
+Sentry.init({${
+    dsnEnvVar
+      ? ''
+      : `
   // If set up, you can use your runtime config here
-  // dsn: useRuntimeConfig().public.sentry.dsn,
-  ${getConfigBody(dsn, 'client', selectedFeatures)}
+  // dsn: useRuntimeConfig().public.sentry.dsn,`
+  }
+  ${getConfigBody(dsn, 'client', selectedFeatures, dsnEnvVar)}
 
   dataCollection: {
     // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
@@ -133,11 +167,12 @@ Sentry.init({
 function getSentryServerConfigContents(
   dsn: string,
   selectedFeatures: SelectedSentryFeatures,
+  dsnEnvVar?: string,
 ): string {
   return `import * as Sentry from "@sentry/nuxt";
  
 Sentry.init({
-  ${getConfigBody(dsn, 'server', selectedFeatures)}
+  ${getConfigBody(dsn, 'server', selectedFeatures, dsnEnvVar)}
 
   dataCollection: {
     // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
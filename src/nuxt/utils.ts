@@ -1,9 +1,7 @@
-// @ts-expect-error - clack is ESM and TS complains about that. It works though
-import * as clack from '@clack/prompts';
 import { gte, minVersion } from 'semver';
 // @ts-expect-error - magicast is ESM and TS complains about that. It works though
 import { loadFile } from 'magicast';
-import { abortIfCancelled } from '../utils/clack';
+import { confirmPrompt } from '../utils/clack';
 
 export async function isNuxtV4(
   nuxtConfig: string,
@@ -36,9 +34,9 @@ export async function isNuxtV4(
     /* eslint-enable @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-assignment */
   } catch {
     // If we cannot parse their config, just ask.
-    return await abortIfCancelled(
-      clack.confirm({ message: 'Are you using Nuxt version 4?' }),
-    );
+    return await confirmPrompt('usingNuxt4', {
+      message: 'Are you using Nuxt version 4?',
+    });
   }
 
   return false;
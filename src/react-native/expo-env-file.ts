@@ -5,13 +5,37 @@ import fs from 'fs';
 import * as Sentry from '@sentry/node';
 import { RNCliSetupConfigContent } from './react-native-wizard';
 import { addToGitignore } from './git';
+import { emitEvent } from '../utils/json-output';
 
 const EXPO_ENV_LOCAL_FILE = '.env.local';
 
+// Expo inlines `EXPO_PUBLIC_*` variables into the JS bundle
+export const EXPO_DSN_ENV_VAR = 'EXPO_PUBLIC_SENTRY_DSN';
+
+/**
+ * @param dsn if set, the DSN is written to the file as well (`--dsn-in-env`)
+ */
 export async function addExpoEnvLocal(
   options: RNCliSetupConfigContent,
+  dsn?: string,
 ): Promise<boolean> {
-  const newContent = `#DO NOT COMMIT THIS\nSENTRY_AUTH_TOKEN=${options.authToken}\n`;
+  const newContent = `#DO NOT COMMIT THIS\nSENTRY_AUTH_TOKEN=${
+    options.authToken
+  }\n${dsn ? `${EXPO_DSN_ENV_VAR}=${dsn}\n` : ''}`;
+
+  emitEvent({
+    type: 'env_var',
+    name: 'SENTRY_AUTH_TOKEN',
+    description: `Uploads source maps and debug files in EAS Build and CI. Locally, it is read from ${EXPO_ENV_LOCAL_FILE}, which must not be committed.`,
+  });
+
+  if (dsn) {
+    emitEvent({
+      type: 'env_var',
+      name: EXPO_DSN_ENV_VAR,
+      description: `The DSN of the Sentry project. Locally, it is read from ${EXPO_ENV_LOCAL_FILE}.`,
+    });
+  }
 
   const added = await addToGitignore(EXPO_ENV_LOCAL_FILE);
   if (added) {
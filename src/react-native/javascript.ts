@@ -25,11 +25,14 @@ export async function addSentryInit({
   enableSessionReplay = false,
   enableFeedbackWidget = false,
   enableLogs = false,
+  dsnEnvVar,
 }: {
   dsn: string;
   enableSessionReplay?: boolean;
   enableFeedbackWidget?: boolean;
   enableLogs?: boolean;
+  /** the environment variable to read the DSN from instead of the code */
+  dsnEnvVar?: string;
 }) {
   const jsPath = getMainAppFilePath();
   Sentry.setTag('app-js-file-status', jsPath ? 'found' : 'not-found');
@@ -45,6 +48,7 @@ export async function addSentryInit({
         enableSessionReplay,
         enableFeedbackWidget,
         enableLogs,
+        dsnEnvVar,
       ),
       hint: 'This ensures the Sentry SDK is ready to capture errors.',
     });
@@ -72,6 +76,7 @@ export async function addSentryInit({
       enableSessionReplay,
       enableFeedbackWidget,
       enableLogs,
+      dsnEnvVar,
     });
 
     try {
@@ -98,11 +103,13 @@ export function addSentryInitWithSdkImport(
     enableSessionReplay = false,
     enableFeedbackWidget = false,
     enableLogs = false,
+    dsnEnvVar,
   }: {
     dsn: string;
     enableSessionReplay?: boolean;
     enableFeedbackWidget?: boolean;
     enableLogs?: boolean;
+    dsnEnvVar?: string;
   },
 ): string {
   return js.replace(
@@ -113,6 +120,7 @@ ${getSentryInitPlainTextSnippet(
   enableSessionReplay,
   enableFeedbackWidget,
   enableLogs,
+  dsnEnvVar,
 )}`,
   );
 }
@@ -129,6 +137,7 @@ export function getSentryInitColoredCodeSnippet(
   enableSessionReplay = false,
   enableFeedbackWidget = false,
   enableLogs = false,
+  dsnEnvVar?: string,
 ) {
   return makeCodeSnippet(true, (_unchanged, plus, _minus) => {
     return plus(
@@ -137,6 +146,7 @@ export function getSentryInitColoredCodeSnippet(
         enableSessionReplay,
         enableFeedbackWidget,
         enableLogs,
+        dsnEnvVar,
       ),
     );
   });
@@ -147,11 +157,12 @@ export function getSentryInitPlainTextSnippet(
   enableSessionReplay = false,
   enableFeedbackWidget = false,
   enableLogs = false,
+  dsnEnvVar?: string,
 ) {
   return `import * as Sentry from '@sentry/react-native';
 
 Sentry.init({
-  dsn: '${dsn}',
+  dsn: ${dsnEnvVar ? `process.env.${dsnEnvVar}` : `'${dsn}'`},
 
   // Adds more context data to events (IP address, cookies, user, etc.)
   // For more information, visit: https://docs.sentry.io/platforms/react-native/data-management/data-collected/
@@ -7,8 +7,8 @@ import * as Sentry from '@sentry/node';
 
 import { getLastRequireIndex, hasSentryContent } from '../utils/ast-utils';
 import {
-  abortIfCancelled,
   makeCodeSnippet,
+  selectPrompt,
   showCopyPasteInstructions,
 } from '../utils/clack';
 
@@ -362,22 +362,20 @@ function createSentryMetroRequire() {
 }
 
 async function confirmPathMetroConfig() {
-  const shouldContinue = await abortIfCancelled(
-    clack.select({
-      message: `Metro Config already contains Sentry-related code. Should the wizard modify it anyway?`,
-      options: [
-        {
-          label: 'Yes, add the Sentry Metro plugin',
-          value: true,
-        },
-        {
-          label: 'No, show me instructions to manually add the plugin',
-          value: false,
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const shouldContinue = await selectPrompt('modifyExistingSentryConfig', {
+    message: `Metro Config already contains Sentry-related code. Should the wizard modify it anyway?`,
+    options: [
+      {
+        label: 'Yes, add the Sentry Metro plugin',
+        value: true,
+      },
+      {
+        label: 'No, show me instructions to manually add the plugin',
+        value: false,
+      },
+    ],
+    initialValue: true,
+  });
 
   if (!shouldContinue) {
     Sentry.setTag('ast-mod-fail-reason', 'has-sentry-content');
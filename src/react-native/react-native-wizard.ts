@@ -12,10 +12,10 @@ import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import {
   CliSetupConfigContent,
   abort,
-  abortIfCancelled,
   addSentryCliConfig,
   confirmContinueIfNoOrDirtyGitRepo,
   confirmContinueIfPackageVersionNotSupported,
+  confirmPrompt,
   ensurePackageIsInstalled,
   getOrAskForProjectData,
   getPackageDotJson,
@@ -23,6 +23,7 @@ import {
   printWelcome,
   propertiesCliSetupConfig,
   runPrettierIfInstalled,
+  selectPrompt,
 } from '../utils/clack';
 import { getPackageVersion, hasPackageInstalled } from '../utils/package-json';
 import { getIssueStreamUrl } from '../utils/url';
@@ -31,7 +32,7 @@ import {
   patchExpoAppConfig,
   printSentryExpoMigrationOutro,
 } from './expo';
-import { addExpoEnvLocal } from './expo-env-file';
+import { EXPO_DSN_ENV_VAR, addExpoEnvLocal } from './expo-env-file';
 import { addSentryToExpoMetroConfig } from './expo-metro';
 import { APP_BUILD_GRADLE, XCODE_PROJECT, getFirstMatchedPath } from './glob';
 import {
@@ -146,12 +147,10 @@ Or setup using ${chalk.cyan(
       note: `Please upgrade to ${RN_SDK_SUPPORTED_RANGE} to continue with the wizard in this project.`,
     });
   } else {
-    const continueWithoutSdk = await abortIfCancelled(
-      clack.confirm({
-        message:
-          'Could not detect Sentry React Native SDK version. Do you want to continue anyway?',
-      }),
-    );
+    const continueWithoutSdk = await confirmPrompt('continueWithoutSdk', {
+      message:
+        'Could not detect Sentry React Native SDK version. Do you want to continue anyway?',
+    });
     if (!continueWithoutSdk) {
       await abort(undefined, 0);
     }
@@ -170,6 +169,15 @@ Or setup using ${chalk.cyan(
     });
   }
 
+  if (options.dsnInEnv && !isExpo) {
+    // Bare React Native apps have no built-in way to read environment variables
+    await abort(
+      `${chalk.cyan(
+        '--dsn-in-env',
+      )} is only supported in Expo projects. Please run the wizard without it.`,
+    );
+  }
+
   const projectData = await getOrAskForProjectData(options, 'react-native');
 
   if (projectData.spotlight) {
@@ -188,12 +196,10 @@ Or setup using ${chalk.cyan(
   };
 
   // Ask if user wants to enable Session Replay
-  const enableSessionReplay = await abortIfCancelled(
-    clack.confirm({
-      message:
-        'Do you want to enable Session Replay to help debug issues? (See https://docs.sentry.io/platforms/react-native/session-replay/)',
-    }),
-  );
+  const enableSessionReplay = await confirmPrompt('features.replay', {
+    message:
+      'Do you want to enable Session Replay to help debug issues? (See https://docs.sentry.io/platforms/react-native/session-replay/)',
+  });
   Sentry.setTag('enable-session-replay', enableSessionReplay);
 
   if (enableSessionReplay) {
@@ -206,12 +212,10 @@ Or setup using ${chalk.cyan(
   }
 
   // Ask if user wants to enable the Feedback Widget
-  const enableFeedbackWidget = await abortIfCancelled(
-    clack.confirm({
-      message:
-        'Do you want to enable the Feedback Widget to collect feedback from your users? (See https://docs.sentry.io/platforms/react-native/user-feedback/)',
-    }),
-  );
+  const enableFeedbackWidget = await confirmPrompt('features.feedbackWidget', {
+    message:
+      'Do you want to enable the Feedback Widget to collect feedback from your users? (See https://docs.sentry.io/platforms/react-native/user-feedback/)',
+  });
   Sentry.setTag('enable-feedback-widget', enableFeedbackWidget);
 
   if (enableFeedbackWidget) {
@@ -221,12 +225,10 @@ Or setup using ${chalk.cyan(
   }
 
   // Ask if user wants to enable Logs
-  const enableLogs = await abortIfCancelled(
-    clack.confirm({
-      message:
-        'Do you want to enable Logs? (See https://docs.sentry.io/platforms/react-native/logs/)',
-    }),
-  );
+  const enableLogs = await confirmPrompt('features.logs', {
+    message:
+      'Do you want to enable Logs? (See https://docs.sentry.io/platforms/react-native/logs/)',
+  });
   Sentry.setTag('enable-logs', enableLogs);
 
   if (enableLogs) {
@@ -235,12 +237,30 @@ Or setup using ${chalk.cyan(
     );
   }
 
+  const dsn = selectedProject.keys[0].dsn.public;
+  let dsnEnvVar: string | undefined;
+
+  if (isExpo) {
+    const envLocalWritten = await traceStep('add-expo-env-local', () =>
+      addExpoEnvLocal(cliConfig, options.dsnInEnv ? dsn : undefined),
+    );
+    if (options.dsnInEnv && envLocalWritten) {
+      dsnEnvVar = EXPO_DSN_ENV_VAR;
+      clack.log.info(
+        `Make sure to set ${chalk.cyan(
+          EXPO_DSN_ENV_VAR,
+        )} in your EAS Build and CI environments as well.`,
+      );
+    }
+  }
+
   await traceStep('patch-app-js', () =>
     addSentryInit({
-      dsn: selectedProject.keys[0].dsn.public,
+      dsn,
       enableSessionReplay,
       enableFeedbackWidget,
       enableLogs,
+      dsnEnvVar,
     }),
   );
 
@@ -250,7 +270,6 @@ Or setup using ${chalk.cyan(
     await traceStep('patch-expo-app-config', () =>
       patchExpoAppConfig(cliConfig),
     );
-    await traceStep('add-expo-env-local', () => addExpoEnvLocal(cliConfig));
   }
 
   if (isExpo) {
@@ -334,7 +353,7 @@ ${chalk.cyan(issuesStreamUrl)}`);
 `),
   );
 
-  const firstErrorConfirmed = clack.confirm({
+  const firstErrorConfirmed = confirmPrompt('testEventSent', {
     message: `Have you successfully sent a test event?`,
   });
 
@@ -486,20 +505,18 @@ async function patchAndroidFiles(config: RNCliSetupConfigContent) {
 
 async function confirmPodInstall(): Promise<boolean> {
   return traceStep('confirm-pod-install', async () => {
-    const continueWithPodInstall = await abortIfCancelled(
-      clack.select({
-        message: 'Do you want to run `pod install` now?',
-        options: [
-          {
-            value: true,
-            label: 'Yes',
-            hint: 'Recommended for smaller projects, this might take several minutes',
-          },
-          { value: false, label: `No, I'll do it later` },
-        ],
-        initialValue: true,
-      }),
-    );
+    const continueWithPodInstall = await selectPrompt('podInstall', {
+      message: 'Do you want to run `pod install` now?',
+      options: [
+        {
+          value: true,
+          label: 'Yes',
+          hint: 'Recommended for smaller projects, this might take several minutes',
+        },
+        { value: false, label: `No, I'll do it later` },
+      ],
+      initialValue: true,
+    });
     Sentry.setTag('continue-with-pod-install', continueWithPodInstall);
     return continueWithPodInstall;
   });
@@ -19,6 +19,12 @@ import {
   makeCodeSnippet,
   runPrettierIfInstalled,
 } from '../utils/clack';
+import {
+  LOGS_FEATURE,
+  PROFILING_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../utils/features';
 import { offerProjectScopedMcpConfig } from '../utils/clack/mcp-config';
 import { hasPackageInstalled } from '../utils/package-json';
 import { debug } from '../utils/debug';
@@ -110,51 +116,22 @@ async function runReactRouterWizardWithTelemetry(
     alreadyInstalled: sentryAlreadyInstalled,
   });
 
-  const featureSelection = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to get a video-like reproduction of errors during a user session?`,
-      enabledHint: 'recommended, but increases bundle size',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'profiling',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Profiling',
-      )} to track application performance in detail?`,
-      enabledHint: 'recommended for production debugging',
-    },
-  ]);
-
-  // Only ask about Instrumentation API when Tracing is enabled, since it depends on it
-  let instrumentationAPISelected = false;
-  if (featureSelection.performance) {
-    const instrumentationAPISelection = await featureSelectionPrompt([
+  const featureSelection = await featureSelectionPrompt(
+    [
+      TRACING_FEATURE,
+      REPLAY_FEATURE,
+      LOGS_FEATURE,
+      PROFILING_FEATURE,
       {
         id: 'instrumentationAPI',
-        prompt: `Do you want to use the ${chalk.bold(
-          'Instrumentation API',
-        )} for automatic tracing of loaders, actions, and middleware?`,
-        enabledHint: 'recommended',
+        label: 'Instrumentation API',
+        hint: 'automatic tracing of loaders, actions, and middleware',
+        requires: [TRACING_FEATURE.id],
       },
-    ]);
-    instrumentationAPISelected = instrumentationAPISelection.instrumentationAPI;
-  }
+    ] as const,
+    options.features,
+  );
+  const instrumentationAPISelected = featureSelection.instrumentationAPI;
 
   if (featureSelection.profiling) {
     const profilingAlreadyInstalled = hasPackageInstalled(
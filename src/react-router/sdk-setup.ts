@@ -12,7 +12,7 @@ import { getPackageVersion } from '../utils/package-json';
 import { debug } from '../utils/debug';
 import { getSentryInstrumentationServerContent } from './templates';
 import { instrumentServerEntry } from './codemods/server-entry';
-import { getPackageDotJson } from '../utils/clack';
+import { confirmPrompt, getPackageDotJson } from '../utils/clack';
 import { instrumentClientEntry } from './codemods/client.entry';
 import { instrumentViteConfig } from './codemods/vite';
 import { instrumentReactRouterConfig } from './codemods/react-router-config';
@@ -57,7 +57,7 @@ export async function tryRevealAndGetManualInstructions(
   missingFilename: string,
   filePath: string,
 ): Promise<boolean> {
-  const shouldTryReveal = await clack.confirm({
+  const shouldTryReveal = await confirmPrompt('revealEntryFiles', {
     message: `Would you like to try running ${chalk.cyan(
       REACT_ROUTER_REVEAL_COMMAND,
     )} to generate entry files?`,
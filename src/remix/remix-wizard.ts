@@ -20,6 +20,11 @@ import {
   rcCliSetupConfig,
   runPrettierIfInstalled,
 } from '../utils/clack';
+import {
+  LOGS_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../utils/features';
 import { debug } from '../utils/debug';
 import { hasPackageInstalled } from '../utils/package-json';
 import type { WizardOptions } from '../utils/types';
@@ -97,29 +102,10 @@ async function runRemixWizardWithTelemetry(
 
   const isTS = isUsingTypeScript();
   const viteConfig = findFile('vite.config');
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to get a video-like reproduction of errors during a user session?`,
-      enabledHint: 'recommended, but increases bundle size',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
-    },
-  ] as const);
+  const selectedFeatures = await featureSelectionPrompt(
+    [TRACING_FEATURE, REPLAY_FEATURE, LOGS_FEATURE] as const,
+    options.features,
+  );
 
   if (viteConfig) {
     await traceStep(
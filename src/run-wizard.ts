@@ -0,0 +1,173 @@
+import { runAndroidWizard } from './android/android-wizard';
+import { runAngularWizard } from './angular/angular-wizard';
+import { runAppleWizard } from './apple/apple-wizard';
+import { runCloudflareWizard } from './cloudflare/cloudflare-wizard';
+import { runFlutterWizard } from './flutter/flutter-wizard';
+import { runNextjsWizard } from './nextjs/nextjs-wizard';
+import { runNuxtWizard } from './nuxt/nuxt-wizard';
+import { runReactNativeWizard } from './react-native/react-native-wizard';
+import { runReactRouterWizard } from './react-router/react-router-wizard';
+import { runRemixWizard } from './remix/remix-wizard';
+import { runSourcemapsWizard } from './sourcemaps/sourcemaps-wizard';
+import { runSvelteKitWizard } from './sveltekit/sveltekit-wizard';
+import {
+  saveChangeManifest,
+  startRecordingChanges,
+} from './utils/change-manifest';
+import {
+  type WizardPrompter,
+  disableEmbeddedMode,
+  enableEmbeddedMode,
+} from './utils/embedded';
+import {
+  type WizardEventListener,
+  redirectOutputToEvents,
+  resetRunSummary,
+  restoreOutput,
+} from './utils/json-output';
+import type { WizardIntegration, WizardOptions } from './utils/types';
+import {
+  type FileChange,
+  disableVirtualFs,
+  enableVirtualFs,
+  getFileChanges,
+} from './utils/virtual-fs';
+
+/**
+ * The integrations which can be run programmatically.
+ * The Cordova and Electron wizards and the Apple Snapshots wizard
+ * are only available via the CLI.
+ */
+export type ProgrammaticIntegration = Exclude<
+  WizardIntegration,
+  'cordova' | 'electron' | 'appleSnapshots'
+>;
+
+/**
+ * Receives the file changes of the wizard instead of writing them to disk.
+ * Paths are absolute and `writeFile` has to create missing directories.
+ */
+export type WizardFileSystem = {
+  writeFile(filePath: string, contents: string): void | Promise<void>;
+  deleteFile(filePath: string): void | Promise<void>;
+};
+
+export type RunWizardOptions = {
+  integration: ProgrammaticIntegration;
+  /**
+   * The wizard options, e.g. to pre-select the Sentry project.
+   * Telemetry is disabled unless `telemetryEnabled` is set.
+   */
+  options?: Partial<Omit<WizardOptions, 'dryRun'>>;
+  /**
+   * The project directory. Defaults to the current working directory.
+   */
+  cwd?: string;
+  /**
+   * Renders the prompts of the wizard. Defaults to the interactive
+   * `@clack/prompts` in the terminal.
+   */
+  prompter?: WizardPrompter;
+  /**
+   * Receives all output of the wizard as events instead of printing it
+   * to the terminal.
+   */
+  logger?: WizardEventListener;
+  /**
+   * Receives all file changes at the end of the wizard run. If set, the wizard
+   * only changes files in memory and doesn't record the changes for `--uninstall`.
+   *
+   * Packages are still installed by the package manager of the project.
+   */
+  fs?: WizardFileSystem;
+};
+
+export type RunWizardResult = {
+  /** All files the wizard created, modified or deleted, sorted by path */
+  fileChanges: FileChange[];
+};
+
+const WIZARDS: Record<
+  ProgrammaticIntegration,
+  (options: WizardOptions) => Promise<void>
+> = {
+  reactNative: runReactNativeWizard,
+  flutter: runFlutterWizard,
+  ios: runAppleWizard,
+  android: runAndroidWizard,
+  angular: runAngularWizard,
+  nextjs: runNextjsWizard,
+  nuxt: runNuxtWizard,
+  remix: runRemixWizard,
+  reactRouter: runReactRouterWizard,
+  sveltekit: runSvelteKitWizard,
+  cloudflare: runCloudflareWizard,
+  sourcemaps: (options) => runSourcemapsWizard(options),
+};
+
+/**
+ * Runs a wizard programmatically, e.g. as a step of a scaffolding tool.
+ *
+ * Unlike the CLI, this function never exits the process. If the wizard is
+ * aborted or cancelled, the returned promise rejects with an error whose
+ * `exitCode` is the code the CLI would have exited with.
+ *
+ * Only one wizard can run at a time, because wizards change the working
+ * directory and patch global modules like `node:fs`.
+ */
+export async function runWizard(
+  params: RunWizardOptions,
+): Promise<RunWizardResult> {
+  const { integration, options, cwd, prompter, logger, fs } = params;
+
+  const wizard = WIZARDS[integration];
+  if (!wizard) {
+    throw new Error(`Unknown integration: ${String(integration)}`);
+  }
+
+  const originalCwd = process.cwd();
+  if (cwd) {
+    process.chdir(cwd);
+  }
+
+  enableEmbeddedMode({ prompter });
+  if (logger) {
+    redirectOutputToEvents(logger);
+  } else {
+    resetRunSummary();
+  }
+
+  if (fs) {
+    enableVirtualFs();
+  } else {
+    startRecordingChanges();
+  }
+
+  try {
+    await wizard({ telemetryEnabled: false, ...options });
+
+    const fileChanges = getFileChanges();
+
+    if (fs) {
+      disableVirtualFs();
+      for (const change of fileChanges) {
+        if (change.after === null) {
+          await fs.deleteFile(change.path);
+        } else {
+          await fs.writeFile(change.path, change.after);
+        }
+      }
+    } else {
+      saveChangeManifest(integration);
+    }
+
+    return { fileChanges };
+  } finally {
+    disableVirtualFs();
+    if (logger) {
+      restoreOutput();
+    }
+    disableEmbeddedMode();
+    process.chdir(originalCwd);
+  }
+}
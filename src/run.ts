@@ -1,9 +1,15 @@
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import * as path from 'node:path';
 import { runReactNativeWizard } from './react-native/react-native-wizard';
-import { abortIfCancelled } from './utils/clack';
+import { abort, confirmPrompt, selectPrompt } from './utils/clack';
 
-import { Integration, type Platform } from '../lib/Constants';
+import {
+  Integration,
+  type Platform,
+  getIntegrationDescription,
+} from '../lib/Constants';
 import { readEnvironment } from '../lib/Helper/Env';
 import { run as legacyRun } from '../lib/Setup';
 import { runAndroidWizard } from './android/android-wizard';
@@ -18,31 +24,83 @@ import { runSourcemapsWizard } from './sourcemaps/sourcemaps-wizard';
 import { runSvelteKitWizard } from './sveltekit/sveltekit-wizard';
 import { runReactRouterWizard } from './react-router/react-router-wizard';
 import { runCloudflareWizard } from './cloudflare/cloudflare-wizard';
+import { runUninstallWizard } from './uninstall/uninstall-wizard';
+import { runDoctorWizard } from './doctor/doctor-wizard';
+import { runMigrateWizard } from './migrate/migrate-wizard';
+import {
+  getUnusedAnswerKeys,
+  hasAnswers,
+  loadAnswersFile,
+  setAnswers,
+  setAnswersIntegration,
+} from './utils/answers';
+import {
+  saveChangeManifest,
+  startRecordingChanges,
+} from './utils/change-manifest';
+import {
+  commitChangesToBranch,
+  getDefaultBranchName,
+  validateCommitBranch,
+} from './utils/commit-to-branch';
 import { enableDebugLogs } from './utils/debug';
-import type { PreselectedProject, WizardOptions } from './utils/types';
+import {
+  INTEGRATION_DETECTORS,
+  detectIntegrations,
+} from './utils/detect-integration';
+import { enableDryRun, printDryRunSummary } from './utils/dry-run';
+import { getChangedFiles } from './utils/git';
+import { getSdkInitArgName, parseSdkInitArgs } from './utils/sdk-init-options';
+import { DEFAULT_REPORT_FILE, writeSetupReport } from './utils/setup-report';
+import {
+  FEATURE_FLAG_NAMES,
+  getUnknownFeatureFlags,
+  parseFeatureFlags,
+} from './utils/features';
+import {
+  emitResultEvent,
+  enableJsonOutput,
+  isJsonOutput,
+} from './utils/json-output';
+import type {
+  PreselectedProject,
+  WizardIntegration,
+  WizardOptions,
+} from './utils/types';
+import {
+  disableSharedSession,
+  enableSharedSession,
+  getSharedSession,
+} from './utils/shared-session';
+import { type FileChange, getFileChanges } from './utils/virtual-fs';
+import { askForWorkspacePackage, resetWorkspace } from './utils/workspace';
 import { WIZARD_VERSION } from './version';
 
-type WizardIntegration =
-  | 'angular'
-  | 'reactNative'
-  | 'flutter'
-  | 'ios'
-  | 'appleSnapshots'
-  | 'android'
-  | 'cordova'
-  | 'electron'
-  | 'nextjs'
-  | 'nuxt'
-  | 'remix'
-  | 'reactRouter'
-  | 'sveltekit'
-  | 'cloudflare'
-  | 'sourcemaps';
+/**
+ * The packages which identify an app of a JS integration in a monorepo.
+ * An empty list means that any workspace package can be set up.
+ */
+const WORKSPACE_FRAMEWORK_PACKAGES: Partial<
+  Record<WizardIntegration, string[]>
+> = {
+  angular: ['@angular/core'],
+  reactNative: ['react-native'],
+  nextjs: ['next'],
+  nuxt: ['nuxt'],
+  remix: ['@remix-run/react', '@remix-run/node'],
+  reactRouter: ['@react-router/dev'],
+  sveltekit: ['@sveltejs/kit'],
+  cloudflare: ['wrangler'],
+  sourcemaps: [],
+};
 
 type Args = {
-  integration?: WizardIntegration;
+  /** A single integration or a comma-separated list of integrations */
+  integration?: string | string[];
 
-  uninstall: boolean; // used in Cordova
+  uninstall: boolean; // reverts a previous wizard run (or used in Cordova)
+  doctor?: boolean; // checks an existing setup without changing files
+  migrate?: boolean; // upgrades the SDK to the latest major version
   signup: boolean;
   skipConnect: boolean;
   debug: boolean;
@@ -73,6 +131,25 @@ type Args = {
   xcodeProjectDir?: string;
   appTarget?: string;
   hostedTestTarget?: string;
+  dryRun?: boolean;
+  answers?: string;
+  keepPartialChanges?: boolean;
+  features?: string | string[];
+  tracesSampleRate?: number | string;
+  profilesSampleRate?: number | string;
+  replaysSessionSampleRate?: number | string;
+  replaysOnErrorSampleRate?: number | string;
+  environment?: string;
+  release?: string;
+  dsnInEnv?: boolean;
+  dsnKey?: string;
+  artifacts?: string;
+  /** The branch to commit the changes to, the default branch name if empty */
+  commitToBranch?: string;
+  /** The path of the setup report, the default path if empty */
+  report?: string;
+  output?: 'text' | 'json';
+  authToken?: string;
 };
 
 function preSelectedProjectArgsToObject(
@@ -115,39 +192,71 @@ export async function run(argv: Args) {
     enableDebugLogs();
   }
 
-  let integration = finalArgs.integration;
-  if (!integration) {
+  if (finalArgs.output === 'json') {
+    enableJsonOutput();
+  }
+
+  if (finalArgs.answers) {
+    try {
+      loadAnswersFile(finalArgs.answers);
+    } catch (e) {
+      clack.log.error(
+        `Could not read the answers file ${chalk.cyan(finalArgs.answers)}:\n${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return abort();
+    }
+  } else if (isJsonOutput()) {
+    // Prompts can't be shown in the JSON output mode, so we abort
+    // with the key of the first prompt that needs an answer.
+    setAnswers({});
+  }
+
+  let integrations = parseIntegrations(finalArgs.integration);
+  if (!integrations.length && !finalArgs.migrate) {
     clack.intro(`Sentry Wizard ${WIZARD_VERSION}`);
 
-    integration = await abortIfCancelled(
-      clack.select({
-        message: 'What do you want to set up?',
-        options: [
-          { value: 'reactNative', label: 'React Native' },
-          { value: 'flutter', label: 'Flutter' },
-          { value: 'ios', label: 'iOS' },
-          { value: 'appleSnapshots', label: 'Apple Snapshots' },
-          { value: 'angular', label: 'Angular' },
-          { value: 'android', label: 'Android' },
-          { value: 'cordova', label: 'Cordova' },
-          { value: 'electron', label: 'Electron' },
-          { value: 'nextjs', label: 'Next.js' },
-          { value: 'nuxt', label: 'Nuxt' },
-          { value: 'remix', label: 'Remix' },
-          { value: 'reactRouter', label: 'React Router' },
-          { value: 'sveltekit', label: 'SvelteKit' },
-          { value: 'cloudflare', label: 'Cloudflare' },
-          { value: 'sourcemaps', label: 'Configure Source Maps Upload' },
-        ],
-      }),
+    const detectedIntegrations = detectIntegrations();
+    const detected = new Set(
+      detectedIntegrations.map(({ integration }) => integration),
     );
 
+    const integration = await selectPrompt<WizardIntegration>('integration', {
+      message: 'What do you want to set up?',
+      // Detected integrations come first, ranked by confidence
+      options: [
+        ...detectedIntegrations.map(({ integration, label }) => ({
+          value: integration,
+          label,
+          hint: 'detected',
+        })),
+        ...INTEGRATION_DETECTORS.filter(
+          ({ integration }) => !detected.has(integration),
+        ).map(({ integration, label }) => ({ value: integration, label })),
+      ],
+      initialValue: detectedIntegrations[0]?.integration,
+    });
+
     if (!integration) {
       clack.log.error('No integration selected. Exiting.');
       return;
     }
 
     clack.outro(`Starting ${integration} setup`);
+    integrations = [integration];
+  }
+
+  const { sdkInitOptions, invalidArgs } = parseSdkInitArgs(finalArgs);
+  if (invalidArgs.length) {
+    clack.log.error(
+      `Invalid value(s) for ${invalidArgs
+        .map((arg) => chalk.cyan(arg))
+        .join(
+          ', ',
+        )}. Sample rates must be between 0 and 1 and environment variable names can only contain letters, digits and underscores.`,
+    );
+    return abort();
   }
 
   const wizardOptions: WizardOptions = {
@@ -158,11 +267,415 @@ export async function run(argv: Args) {
     projectSlug: finalArgs.project,
     saas: finalArgs.saas,
     preSelectedProject: preSelectedProjectArgsToObject(finalArgs),
+    authToken: finalArgs.authToken ?? process.env.SENTRY_AUTH_TOKEN,
     forceInstall: finalArgs.forceInstall,
     comingFrom: finalArgs.comingFrom,
     ignoreGitChanges: finalArgs.ignoreGitChanges,
     spotlight: finalArgs.spotlight,
+    dryRun: finalArgs.dryRun,
+    features: parseFeatureFlags(finalArgs.features),
+    sdkInitOptions,
+    dsnInEnv: finalArgs.dsnInEnv,
+    dsnKey: finalArgs.dsnKey,
+    artifacts: finalArgs.artifacts,
+  };
+
+  if (finalArgs.features !== undefined && !wizardOptions.features?.length) {
+    clack.log.error(
+      `No features passed to --features. To disable a feature, pass it with an equals sign, e.g. ${chalk.cyan(
+        '--features=-replay',
+      )}.`,
+    );
+    return abort();
+  }
+
+  const unknownFeatures = getUnknownFeatureFlags(wizardOptions.features ?? []);
+  if (unknownFeatures.length) {
+    clack.log.error(
+      `Unknown feature(s) passed to --features: ${unknownFeatures.join(
+        ', ',
+      )}\nAvailable features: ${FEATURE_FLAG_NAMES.join(', ')}`,
+    );
+    return abort();
+  }
+
+  const legacyIntegration = integrations.find(isLegacyIntegration);
+
+  if (legacyIntegration && integrations.length > 1) {
+    clack.log.error(
+      `The ${legacyIntegration} wizard can't be combined with other integrations.`,
+    );
+    return abort();
+  }
+
+  if (hasAnswers() && legacyIntegration) {
+    clack.log.error(
+      isJsonOutput()
+        ? `The ${legacyIntegration} wizard doesn't support the JSON output mode yet.`
+        : `The ${legacyIntegration} wizard doesn't support answers files yet.`,
+    );
+    return abort();
+  }
+
+  if (finalArgs.migrate) {
+    if (wizardOptions.dryRun) {
+      enableDryRun();
+    } else {
+      startRecordingChanges({
+        rollbackOnAbort: !finalArgs.keepPartialChanges,
+      });
+    }
+
+    await runMigrateWizard(wizardOptions);
+
+    if (wizardOptions.dryRun) {
+      printDryRunSummary();
+    } else {
+      saveChangeManifest('migrate');
+    }
+    return;
+  }
+
+  if (finalArgs.doctor || (finalArgs.uninstall && !legacyIntegration)) {
+    for (const integration of integrations) {
+      await prepareIntegration(integration);
+
+      if (finalArgs.doctor) {
+        await runDoctorWizard(wizardOptions, integration);
+      } else {
+        await runUninstallWizard(wizardOptions, integration);
+      }
+    }
+    return;
+  }
+
+  const reportPath =
+    finalArgs.report === undefined
+      ? undefined
+      : path.resolve(finalArgs.report || DEFAULT_REPORT_FILE);
+
+  if (reportPath && wizardOptions.dryRun) {
+    clack.log.error(
+      `${chalk.cyan('--report')} can't be combined with ${chalk.cyan(
+        '--dry-run',
+      )}.`,
+    );
+    return abort();
+  }
+
+  if (reportPath && legacyIntegration) {
+    clack.log.error(
+      `The ${legacyIntegration} wizard doesn't support ${chalk.cyan(
+        '--report',
+      )} yet.`,
+    );
+    return abort();
+  }
+
+  const dsnInEnvUnsupported = integrations.filter(
+    (integration) => !DSN_IN_ENV_INTEGRATIONS.includes(integration),
+  );
+
+  if (wizardOptions.dsnInEnv && dsnInEnvUnsupported.length) {
+    clack.log.error(
+      `${chalk.cyan(
+        '--dsn-in-env',
+      )} isn't supported by the ${dsnInEnvUnsupported
+        .map(getIntegrationDescription)
+        .join(
+          ', ',
+        )} wizard yet. Supported wizards: ${DSN_IN_ENV_INTEGRATIONS.map(
+        getIntegrationDescription,
+      ).join(', ')}`,
+    );
+    return abort();
+  }
+
+  const sdkInitArgNames = (
+    Object.keys(sdkInitOptions) as (keyof typeof sdkInitOptions)[]
+  ).map(getSdkInitArgName);
+  const sdkInitOptionsUnsupported = integrations.filter(
+    (integration) => !SDK_INIT_OPTIONS_INTEGRATIONS.includes(integration),
+  );
+
+  if (sdkInitArgNames.length && sdkInitOptionsUnsupported.length) {
+    clack.log.error(
+      `${sdkInitArgNames
+        .map((arg) => chalk.cyan(arg))
+        .join(', ')} isn't supported by the ${sdkInitOptionsUnsupported
+        .map(getIntegrationDescription)
+        .join(
+          ', ',
+        )} wizard yet. Supported wizards: ${SDK_INIT_OPTIONS_INTEGRATIONS.map(
+        getIntegrationDescription,
+      ).join(', ')}`,
+    );
+    return abort();
+  }
+
+  const commitBranchName =
+    finalArgs.commitToBranch === undefined
+      ? undefined
+      : finalArgs.commitToBranch || getDefaultBranchName(integrations);
+  let filesChangedBeforeRun: string[] = [];
+
+  if (commitBranchName) {
+    const commitBranchError = wizardOptions.dryRun
+      ? `${chalk.cyan(
+          '--commit-to-branch',
+        )} can't be combined with ${chalk.cyan('--dry-run')}.`
+      : legacyIntegration
+      ? `The ${legacyIntegration} wizard doesn't support ${chalk.cyan(
+          '--commit-to-branch',
+        )} yet.`
+      : validateCommitBranch(commitBranchName);
+
+    if (commitBranchError) {
+      clack.log.error(commitBranchError);
+      return abort();
+    }
+
+    filesChangedBeforeRun = getChangedFiles();
+  }
+
+  if (wizardOptions.dryRun) {
+    if (legacyIntegration) {
+      clack.log.error(
+        `The ${legacyIntegration} wizard doesn't support the --dry-run mode yet.`,
+      );
+      return;
+    }
+
+    enableDryRun();
+  }
+
+  const isMultiRun = integrations.length > 1;
+  const originalCwd = process.cwd();
+  const fileChanges: FileChange[] = [];
+  let restoreOutros: (() => void) | undefined;
+
+  if (isMultiRun) {
+    // Subsequent wizards reuse the login and project of the first one
+    enableSharedSession();
+    restoreOutros = deferOutros();
+  }
+
+  try {
+    for (const [index, integration] of integrations.entries()) {
+      if (index > 0) {
+        // Each integration can be set up in another package of a monorepo
+        process.chdir(originalCwd);
+        resetWorkspace();
+        clack.log.step(
+          chalk.bold(`Setting up ${getIntegrationDescription(integration)}`),
+        );
+      }
+
+      await prepareIntegration(integration);
+
+      fileChanges.push(
+        ...(await runIntegration(
+          integration,
+          {
+            ...wizardOptions,
+            ...(await askForSharedSessionOptions(integration, wizardOptions)),
+          },
+          { argv, finalArgs },
+        )),
+      );
+    }
+  } finally {
+    restoreOutros?.();
+    disableSharedSession();
+  }
+
+  if (isMultiRun) {
+    process.chdir(originalCwd);
+    clack.outro(
+      `${chalk.green('Sentry is set up for')} ${integrations
+        .map((integration) =>
+          chalk.cyan(getIntegrationDescription(integration)),
+        )
+        .join(', ')}${chalk.green('!')}`,
+    );
+  }
+
+  if (wizardOptions.dryRun) {
+    // The dry run doesn't save a change manifest, so all changes of all
+    // integrations are still recorded.
+    fileChanges.push(...getFileChanges());
+    printDryRunSummary();
+  }
+
+  if (reportPath) {
+    // Written before committing, so that the report is part of the commit
+    writeSetupReport({ reportPath, integrations, fileChanges });
+  }
+
+  if (commitBranchName) {
+    commitChangesToBranch({
+      branchName: commitBranchName,
+      integrations,
+      fileChanges,
+      filesChangedBeforeRun,
+    });
+  }
+
+  const unusedAnswerKeys = getUnusedAnswerKeys();
+  if (unusedAnswerKeys.length) {
+    clack.log.warn(
+      `The following answers from the answers file were not used:\n${unusedAnswerKeys
+        .map((key) => `- ${chalk.cyan(key)}`)
+        .join('\n')}`,
+    );
+  }
+
+  if (isJsonOutput()) {
+    emitResultEvent({
+      integration: integrations.join(','),
+      dryRun: !!wizardOptions.dryRun,
+      fileChanges,
+    });
+  }
+}
+
+/**
+ * Parses the `--integration` arg, which can be a single integration or a
+ * comma-separated list (e.g. `-i nextjs,cloudflare`).
+ */
+function parseIntegrations(
+  integrationArg: string | string[] | undefined,
+): WizardIntegration[] {
+  const integrations = (
+    Array.isArray(integrationArg) ? integrationArg : [integrationArg ?? '']
+  )
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean) as WizardIntegration[];
+
+  return [...new Set(integrations)];
+}
+
+/**
+ * The integrations which can read the DSN from an environment file or the
+ * build config (`--dsn-in-env`).
+ */
+const DSN_IN_ENV_INTEGRATIONS: WizardIntegration[] = [
+  'nextjs',
+  'nuxt',
+  'sveltekit',
+  'reactNative',
+  'flutter',
+  'android',
+  'ios',
+];
+
+/**
+ * The integrations which apply the `Sentry.init` options passed via the CLI
+ * args (e.g. `--traces-sample-rate` or `--environment`).
+ */
+const SDK_INIT_OPTIONS_INTEGRATIONS: WizardIntegration[] = [
+  'nextjs',
+  'sveltekit',
+  'flutter',
+];
+
+function isLegacyIntegration(integration: WizardIntegration): boolean {
+  return integration === 'cordova' || integration === 'electron';
+}
+
+/**
+ * Scopes the answers file to the integration and asks for the
+ * workspace package to set up in monorepos.
+ */
+async function prepareIntegration(
+  integration: WizardIntegration,
+): Promise<void> {
+  if (hasAnswers()) {
+    setAnswersIntegration(integration);
+  }
+
+  const frameworkPackages = WORKSPACE_FRAMEWORK_PACKAGES[integration];
+  if (frameworkPackages) {
+    await askForWorkspacePackage(frameworkPackages);
+  }
+}
+
+/**
+ * Asks whether to set up the integration for the same Sentry project
+ * as the previous integration. If not, the projects are loaded with the
+ * auth token of the previous login, so that users don't need to log in again.
+ */
+async function askForSharedSessionOptions(
+  integration: WizardIntegration,
+  wizardOptions: WizardOptions,
+): Promise<Partial<WizardOptions>> {
+  const session = getSharedSession();
+  if (!session || wizardOptions.preSelectedProject) {
+    return {};
+  }
+
+  const { sentryUrl, selfHosted, authToken, project } = session;
+  const sessionOptions = { url: sentryUrl, saas: !selfHosted };
+
+  const useSameProject =
+    !!wizardOptions.projectSlug ||
+    (await confirmPrompt('useSameProject', {
+      message: `Do you want to use the ${chalk.cyan(
+        `${project.organization.slug}/${project.slug}`,
+      )} project for ${getIntegrationDescription(integration)} as well?`,
+    }));
+
+  return useSameProject
+    ? {
+        ...sessionOptions,
+        preSelectedProject: { project, authToken, selfHosted },
+      }
+    : { ...sessionOptions, authToken };
+}
+
+/**
+ * Logs the outros of the wizards as steps, so that running several
+ * wizards ends with one combined outro.
+ *
+ * @returns a function to restore the original outro
+ */
+function deferOutros(): () => void {
+  // `import * as clack` creates a read-only copy of clack's exports,
+  // so we patch the CommonJS exports (see `redirectOutputToEvents`).
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const clackExports = require('@clack/prompts') as typeof clack;
+  const originalOutro = clackExports.outro;
+
+  clackExports.outro = (message?: string) => {
+    if (message) {
+      clackExports.log.success(message);
+    }
+  };
+
+  return () => {
+    clackExports.outro = originalOutro;
   };
+}
+
+/**
+ * Runs the wizard of a single integration.
+ *
+ * @returns the file changes of the wizard, unless it runs in the dry run mode
+ */
+async function runIntegration(
+  integration: WizardIntegration,
+  wizardOptions: WizardOptions,
+  { argv, finalArgs }: { argv: Args; finalArgs: Args },
+): Promise<FileChange[]> {
+  const recordChanges =
+    !wizardOptions.dryRun && !isLegacyIntegration(integration);
+
+  if (recordChanges) {
+    startRecordingChanges({
+      rollbackOnAbort: !finalArgs.keepPartialChanges,
+    });
+  }
 
   switch (integration) {
     case 'reactNative':
@@ -257,4 +770,14 @@ export async function run(argv: Args) {
     default:
       clack.log.error('No setup wizard selected!');
   }
+
+  if (!recordChanges) {
+    return [];
+  }
+
+  // Saving the change manifest stops recording file changes
+  const fileChanges = getFileChanges();
+  saveChangeManifest(integration);
+
+  return fileChanges;
 }
@@ -6,15 +6,16 @@ import chalk from 'chalk';
 import { traceStep, withTelemetry } from '../telemetry';
 import {
   abort,
-  abortIfCancelled,
   confirmContinueIfNoOrDirtyGitRepo,
   getOrAskForProjectData,
   getPackageManager,
   printWelcome,
   runPrettierIfInstalled,
+  selectPrompt,
   SENTRY_CLI_RC_FILE,
   SENTRY_DOT_ENV_FILE,
 } from '../utils/clack';
+import { emitEvent } from '../utils/json-output';
 import { NPM } from '../utils/package-manager';
 import type { WizardOptions } from '../utils/types';
 import { getIssueStreamUrl } from '../utils/url';
@@ -23,15 +24,27 @@ import { configureAngularSourcemapGenerationFlow } from './tools/angular';
 import { configureCRASourcemapGenerationFlow } from './tools/create-react-app';
 import { configureEsbuildPlugin } from './tools/esbuild';
 import { configureRollupPlugin } from './tools/rollup';
-import { configureSentryCLI, setupNpmScriptInCI } from './tools/sentry-cli';
+import {
+  configureSentryCLI,
+  getNpmScriptCommandForCI,
+  getNpmScriptToRunAfterBuild,
+  setupNpmScriptInCI,
+} from './tools/sentry-cli';
+import { configureNodeServerSourcemapGenerationFlow } from './tools/node-server';
 import { configureTscSourcemapGenerationFlow } from './tools/tsc';
 import type { SourceMapUploadToolConfigurationOptions } from './tools/types';
 import { configureVitePlugin } from './tools/vite';
 import { configureWebPackPlugin } from './tools/webpack';
+import { configureRspackPlugin } from './tools/rspack';
 import type { SupportedTools } from './utils/detect-tool';
 import { detectUsedTool } from './utils/detect-tool';
 import { checkIfMoreSuitableWizardExistsAndAskForRedirect } from './utils/other-wizards';
+import { type CiConfig, configureCiConfig } from './utils/ci-config';
 import { ensureMinimumSdkVersionIsInstalled } from './utils/sdk-version';
+import {
+  buildForSourcemapsVerification,
+  runSourcemapsVerification,
+} from './utils/verify-sourcemaps';
 import { sep } from 'path';
 import { configureWrangler } from './tools/wrangler';
 
@@ -69,13 +82,18 @@ You can turn this off by running the wizard with the '--disable-telemetry' flag.
     });
   }
 
-  const moreSuitableWizard = await traceStep(
-    'check-framework-wizard',
-    checkIfMoreSuitableWizardExistsAndAskForRedirect,
-  );
-  if (moreSuitableWizard) {
-    await traceStep('run-framework-wizard', () => moreSuitableWizard(options));
-    return;
+  // Other wizards (e.g. Angular) pre-select the tool when they set up source maps
+  if (!preSelectedTool) {
+    const moreSuitableWizard = await traceStep(
+      'check-framework-wizard',
+      checkIfMoreSuitableWizardExistsAndAskForRedirect,
+    );
+    if (moreSuitableWizard) {
+      await traceStep('run-framework-wizard', () =>
+        moreSuitableWizard(options),
+      );
+      return;
+    }
   }
 
   if (!preSelectedTool) {
@@ -120,7 +138,7 @@ You can turn this off by running the wizard with the '--disable-telemetry' flag.
     return;
   }
 
-  await traceStep('tool-setup', () =>
+  const toolArtifactPath = await traceStep('tool-setup', () =>
     startToolSetupFlow(
       selectedTool,
       {
@@ -145,6 +163,25 @@ You can turn this off by running the wizard with the '--disable-telemetry' flag.
     await runPrettierIfInstalled({ cwd: process.cwd() });
   }
 
+  // `--artifacts` overrides the build output folder entered during the tool setup
+  const artifacts = options.artifacts ?? toolArtifactPath;
+  if (!preSelectedTool && artifacts) {
+    await traceStep('verify-sourcemaps', async () => {
+      // Artifacts of the tool setup were built before the debug IDs were set up
+      const canVerify =
+        !!options.artifacts ||
+        (await buildForSourcemapsVerification(getNpmScriptToRunAfterBuild()));
+
+      if (canVerify) {
+        await runSourcemapsVerification(
+          artifacts,
+          // Node.js needs the `sourceMappingURL` comments to apply the source maps
+          selectedTool !== 'node-server',
+        );
+      }
+    });
+  }
+
   if (!preSelectedTool) {
     await traceStep('outro', () =>
       printOutro(
@@ -157,78 +194,92 @@ You can turn this off by running the wizard with the '--disable-telemetry' flag.
 }
 
 async function askForUsedBundlerTool(): Promise<SupportedTools> {
-  const selectedTool = await abortIfCancelled(
-    clack.select({
-      message: 'Which framework, bundler or build tool are you using?',
-      options: [
-        {
-          label: 'Angular',
-          value: 'angular',
-          hint: 'Select this option if you are using Angular.',
-        },
-        {
-          label: 'Create React App',
-          value: 'create-react-app',
-          hint: 'Select this option if you set up your app with Create React App.',
-        },
-        {
-          label: 'Cloudflare Wrangler',
-          value: 'wrangler',
-          hint: "You're using `wrangler deploy` to build and deploy your Cloudflare Worker.",
-        },
-        {
-          label: 'Webpack',
-          value: 'webpack',
-          hint: 'Select this if you are using Webpack and you have access to your Webpack config.',
-        },
-        {
-          label: 'Vite',
-          value: 'vite',
-          hint: 'Select this if you are using Vite and you have access to your Vite config.',
-        },
-        {
-          label: 'esbuild',
-          value: 'esbuild',
-          hint: 'Select this if you are using esbuild and you have access to your esbuild config.',
-        },
-        {
-          label: 'Rollup',
-          value: 'rollup',
-          hint: 'Select this if you are using Rollup and you have access to your Rollup config.',
-        },
-        {
-          label: 'tsc',
-          value: 'tsc',
-          hint: 'Configure source maps when using tsc as build tool',
-        },
-        {
-          label: 'I use another tool',
-          value: 'sentry-cli',
-          hint: 'This will configure source maps upload for you using sentry-cli',
-        },
-        {
-          label: "I don't minify, transpile or bundle my code",
-          value: 'no-tool',
-          hint: 'This will exit the wizard',
-        },
-      ],
-      initialValue: await detectUsedTool(),
-    }),
-  );
+  const selectedTool = await selectPrompt<SupportedTools>('buildTool', {
+    message: 'Which framework, bundler or build tool are you using?',
+    options: [
+      {
+        label: 'Angular',
+        value: 'angular',
+        hint: 'Select this option if you are using Angular.',
+      },
+      {
+        label: 'Create React App',
+        value: 'create-react-app',
+        hint: 'Select this option if you set up your app with Create React App.',
+      },
+      {
+        label: 'Cloudflare Wrangler',
+        value: 'wrangler',
+        hint: "You're using `wrangler deploy` to build and deploy your Cloudflare Worker.",
+      },
+      {
+        label: 'Webpack',
+        value: 'webpack',
+        hint: 'Select this if you are using Webpack and you have access to your Webpack config.',
+      },
+      {
+        label: 'Rspack / Rsbuild',
+        value: 'rspack',
+        hint: 'Select this if you are using Rspack or Rsbuild and you have access to your config.',
+      },
+      {
+        label: 'Vite',
+        value: 'vite',
+        hint: 'Select this if you are using Vite and you have access to your Vite config.',
+      },
+      {
+        label: 'esbuild',
+        value: 'esbuild',
+        hint: 'Select this if you are using esbuild and you have access to your esbuild config.',
+      },
+      {
+        label: 'Rollup',
+        value: 'rollup',
+        hint: 'Select this if you are using Rollup and you have access to your Rollup config.',
+      },
+      {
+        label: 'tsc',
+        value: 'tsc',
+        hint: 'Configure source maps when using tsc as build tool',
+      },
+      {
+        label: 'Node.js server bundle',
+        value: 'node-server',
+        hint: 'Select this if you build a Node.js server (e.g. with esbuild, tsc or webpack) and run it with node',
+      },
+      {
+        label: 'I use another tool',
+        value: 'sentry-cli',
+        hint: 'This will configure source maps upload for you using sentry-cli',
+      },
+      {
+        label: "I don't minify, transpile or bundle my code",
+        value: 'no-tool',
+        hint: 'This will exit the wizard',
+      },
+    ],
+    initialValue: await detectUsedTool(),
+  });
 
   return selectedTool;
 }
 
+/**
+ * @returns the path of the build artifacts if the tool setup asked for it
+ */
 async function startToolSetupFlow(
   selectedTool: SupportedTools,
   options: SourceMapUploadToolConfigurationOptions,
   wizardOptions: WizardOptions,
   preSelectedTool?: SupportedTools,
-): Promise<void> {
+): Promise<string | undefined> {
   switch (selectedTool) {
     case 'webpack':
       await configureWebPackPlugin(options);
       break;
+    case 'rspack':
+      await configureRspackPlugin(options);
+      break;
     case 'vite':
       await configureVitePlugin(options);
       break;
@@ -239,28 +290,31 @@ async function startToolSetupFlow(
       await configureRollupPlugin(options);
       break;
     case 'tsc':
-      await configureSentryCLI(options, configureTscSourcemapGenerationFlow);
-      break;
+      return configureSentryCLI(options, configureTscSourcemapGenerationFlow);
+    case 'node-server':
+      return configureSentryCLI(
+        { ...options, defaultArtifactPath: `.${sep}dist` },
+        configureNodeServerSourcemapGenerationFlow,
+      );
     case 'create-react-app':
-      await configureSentryCLI(
+      return configureSentryCLI(
         { ...options, defaultArtifactPath: `.${sep}build` },
         configureCRASourcemapGenerationFlow,
       );
-      break;
     case 'wrangler':
       await configureWrangler(options);
       break;
     case 'angular':
-      await configureSentryCLI(
+      return configureSentryCLI(
         { ...options, defaultArtifactPath: `.${sep}dist` },
         configureAngularSourcemapGenerationFlow,
         preSelectedTool === 'angular',
       );
-      break;
     default:
-      await configureSentryCLI(options);
-      break;
+      return configureSentryCLI(options);
   }
+
+  return undefined;
 }
 export async function setupCI(
   selectedTool: SupportedTools,
@@ -281,30 +335,29 @@ export async function configureCI(
   selectedTool: SupportedTools,
   authToken: string,
 ): Promise<void> {
-  const isUsingCI = await abortIfCancelled(
-    clack.select({
-      message: `Are you using a CI/CD tool to build and deploy your application?`,
-      options: [
-        {
-          label: 'Yes',
-          hint: 'I use a tool like GitHub Actions, GitLab, CircleCI, TravisCI, Jenkins, Vercel, ...',
-          value: true,
-        },
-        {
-          label: 'No',
-          hint: 'I build and deploy my application manually',
-          value: false,
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const isUsingCI = await selectPrompt('usingCi', {
+    message: `Are you using a CI/CD tool to build and deploy your application?`,
+    options: [
+      {
+        label: 'Yes',
+        hint: 'I use a tool like GitHub Actions, GitLab, CircleCI, TravisCI, Jenkins, Vercel, ...',
+        value: true,
+      },
+      {
+        label: 'No',
+        hint: 'I build and deploy my application manually',
+        value: false,
+      },
+    ],
+    initialValue: true,
+  });
 
   Sentry.setTag('using-ci', isUsingCI);
 
   const isCliBasedFlowTool = [
     'sentry-cli',
     'tsc',
+    'node-server',
     'angular',
     'create-react-app',
   ].includes(selectedTool);
@@ -322,16 +375,39 @@ export async function configureCI(
     return;
   }
 
-  if (isCliBasedFlowTool) {
+  const ciConfig = await traceStep('ci-config-setup', async () =>
+    configureCiConfig({
+      uploadCommand: isCliBasedFlowTool
+        ? await getNpmScriptCommandForCI()
+        : undefined,
+    }),
+  );
+
+  if (isCliBasedFlowTool && !ciConfig?.configured) {
     await traceStep('ci-npm-script-setup', setupNpmScriptInCI);
   }
 
-  await traceStep('ci-auth-token-setup', () => setupAuthTokenInCI(authToken));
+  await traceStep('ci-auth-token-setup', () =>
+    setupAuthTokenInCI(authToken, ciConfig),
+  );
 }
 
-async function setupAuthTokenInCI(authToken: string) {
+async function setupAuthTokenInCI(authToken: string, ciConfig?: CiConfig) {
+  emitEvent({
+    type: 'env_var',
+    name: 'SENTRY_AUTH_TOKEN',
+    description: 'Uploads source maps in CI.',
+  });
+
+  // We can't create secrets, so we tell users where to create them
   clack.log.step(
-    'Add the Sentry authentication token as an environment variable to your CI setup:',
+    ciConfig
+      ? `In ${ciConfig.provider.name}, add the Sentry authentication token as ${
+          ciConfig.provider.secretLocation
+        }. Name it ${chalk.cyan('SENTRY_AUTH_TOKEN')}, so that ${chalk.cyan(
+          ciConfig.configFile,
+        )} can use it:`
+      : 'Add the Sentry authentication token as an environment variable to your CI setup:',
   );
 
   // Intentially logging directly to console here so that the code can be copied/pasted directly
@@ -346,22 +422,20 @@ SENTRY_AUTH_TOKEN=${authToken}
     chalk.yellow('DO NOT commit this auth token to your repository!'),
   );
 
-  const addedEnvVarToCI = await abortIfCancelled(
-    clack.select({
-      message: 'Did you configure CI as shown above?',
-      options: [
-        { label: 'Yes, continue!', value: true },
-        {
-          label: "I'll do it later...",
-          value: false,
-          hint: chalk.yellow(
-            'You need to set the auth token to upload source maps in CI',
-          ),
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const addedEnvVarToCI = await selectPrompt('addedAuthTokenToCi', {
+    message: 'Did you configure CI as shown above?',
+    options: [
+      { label: 'Yes, continue!', value: true },
+      {
+        label: "I'll do it later...",
+        value: false,
+        hint: chalk.yellow(
+          'You need to set the auth token to upload source maps in CI',
+        ),
+      },
+    ],
+    initialValue: true,
+  });
 
   Sentry.setTag('added-env-var-to-ci', addedEnvVarToCI);
 
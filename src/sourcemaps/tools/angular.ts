@@ -1,7 +1,7 @@
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import clack from '@clack/prompts';
 import chalk from 'chalk';
-import { abortIfCancelled, makeCodeSnippet } from '../../utils/clack';
+import { makeCodeSnippet, selectPrompt } from '../../utils/clack';
 
 export const angularJsonTemplate = makeCodeSnippet(true, (unchanged, plus) =>
   unchanged(`{
@@ -28,17 +28,15 @@ export async function configureAngularSourcemapGenerationFlow(): Promise<void> {
   // eslint-disable-next-line no-console
   console.log(angularJsonTemplate);
 
-  await abortIfCancelled(
-    clack.select({
-      message: `Verify that you are generating source maps when building your Angular app.`,
-      options: [
-        {
-          label: 'I checked!',
-          hint: 'My build output folder contains .js.map files after a build.',
-          value: true,
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  await selectPrompt('sourcemapsGenerationVerified', {
+    message: `Verify that you are generating source maps when building your Angular app.`,
+    options: [
+      {
+        label: 'I checked!',
+        hint: 'My build output folder contains .js.map files after a build.',
+        value: true,
+      },
+    ],
+    initialValue: true,
+  });
 }
@@ -4,8 +4,8 @@ import chalk from 'chalk';
 import { runNextjsWizard } from '../../nextjs/nextjs-wizard';
 import { traceStep } from '../../telemetry';
 import {
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
+  selectPrompt,
 } from '../../utils/clack';
 import type { WizardOptions } from '../../utils/types';
 
@@ -54,22 +54,20 @@ In case you already tried the wizard, we can also show you how to configure your
     'next.config.js',
   )} file manually instead.`);
 
-  const shouldRedirect: boolean = await abortIfCancelled(
-    clack.select({
-      message: 'Do you want to run the Sentry Wizard for Next.JS now?',
-      options: [
-        {
-          label: 'Yes, run the wizard!',
-          value: true,
-          hint: 'The wizard can also configure your SDK setup',
-        },
-        {
-          label: 'No, show me how to configure it manually',
-          value: false,
-        },
-      ],
-    }),
-  );
+  const shouldRedirect: boolean = await selectPrompt('runNextjsWizard', {
+    message: 'Do you want to run the Sentry Wizard for Next.JS now?',
+    options: [
+      {
+        label: 'Yes, run the wizard!',
+        value: true,
+        hint: 'The wizard can also configure your SDK setup',
+      },
+      {
+        label: 'No, show me how to configure it manually',
+        value: false,
+      },
+    ],
+  });
 
   Sentry.setTag('redirect-nextjs-wizard', shouldRedirect);
 
@@ -89,13 +87,11 @@ In case you already tried the wizard, we can also show you how to configure your
     console.log(getCodeSnippet(options));
 
     await traceStep('nextjs-manual-nextconfigjs', () =>
-      abortIfCancelled(
-        clack.select({
-          message: 'Did you copy the code above?',
-          options: [{ label: 'Yes, continue!', value: true }],
-          initialValue: true,
-        }),
-      ),
+      selectPrompt('snippetApplied', {
+        message: 'Did you copy the code above?',
+        options: [{ label: 'Yes, continue!', value: true }],
+        initialValue: true,
+      }),
     );
 
     await traceStep('nextjs-manual-sentryclirc', () =>
@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import * as Sentry from '@sentry/node';
+import chalk from 'chalk';
+
+import {
+  confirmPrompt,
+  getPackageDotJson,
+  selectPrompt,
+  updatePackageDotJson,
+} from '../../utils/clack';
+
+const ENABLE_SOURCE_MAPS_FLAG = '--enable-source-maps';
+
+// Matches `node` invocations, e.g. `node dist/index.js` or `NODE_ENV=production node --import ./instrument.mjs dist/index.js`
+const NODE_COMMAND_REGEX =
+  /(^|[\s;&|(])node((?:\s+-[^\s]+(?:\s+[^-\s][^\s]*)?)*)\s+([^-\s][^\s]*)/;
+
+const PRELOAD_FLAG_REGEX =
+  /(?:^|\s)(?:--import|--require|-r)(?:=|\s+)([^\s]+)/g;
+
+// Matches the first `import ... from 'module'`, `import 'module'` or `require('module')`
+const IMPORT_REGEX =
+  /(?:^|[\s;])(?:import\s+(?:[^'"]*?\s+from\s+)?|require\s*\(\s*)["']([^"']+)["']/;
+
+const JS_FILE_EXTENSIONS = ['.js', '.mjs', '.cjs'];
+
+export async function configureNodeServerSourcemapGenerationFlow(): Promise<void> {
+  await selectPrompt('sourcemapsGenerationVerified', {
+    message: `Verify that your server build generates source maps. ${chalk.dim(
+      '(Your server build output folder should contain .js.map files after a build)',
+    )}`,
+    options: [
+      {
+        label: 'I checked!',
+        hint: 'e.g. `sourcemap: true` in esbuild, `"sourceMap": true` in tsconfig.json or `devtool: "source-map"` in webpack',
+        value: true,
+      },
+    ],
+    initialValue: true,
+  });
+
+  await checkStartScript();
+}
+
+/**
+ * Checks that the start script of the server applies source maps and
+ * initializes the Sentry SDK before all other modules.
+ */
+async function checkStartScript(): Promise<void> {
+  const packageDotJson = await getPackageDotJson();
+  const startScript = packageDotJson.scripts?.start;
+
+  if (typeof startScript !== 'string' || !getNodeCommand(startScript)) {
+    Sentry.setTag('node-start-script', 'not-found');
+    clack.log.info(
+      `Make sure to start your server with ${chalk.cyan(
+        `node ${ENABLE_SOURCE_MAPS_FLAG}`,
+      )} and to initialize ${chalk.cyan(
+        '@sentry/node',
+      )} before all other modules.`,
+    );
+    return;
+  }
+
+  const startScriptWithFlag = addEnableSourceMapsFlag(startScript);
+
+  if (startScriptWithFlag) {
+    const shouldAddFlag = await confirmPrompt('addEnableSourceMapsFlag', {
+      message: `Add ${chalk.cyan(ENABLE_SOURCE_MAPS_FLAG)} to your ${chalk.cyan(
+        'start',
+      )} script? ${chalk.dim(
+        '(Node.js then applies the source maps to the stack traces of your server)',
+      )}`,
+      initialValue: true,
+    });
+
+    Sentry.setTag('node-enable-source-maps', shouldAddFlag);
+
+    if (shouldAddFlag) {
+      packageDotJson.scripts = {
+        ...packageDotJson.scripts,
+        start: startScriptWithFlag,
+      };
+
+      await updatePackageDotJson(packageDotJson);
+
+      clack.log.success(
+        `Added ${chalk.cyan(ENABLE_SOURCE_MAPS_FLAG)} to your ${chalk.cyan(
+          'start',
+        )} script.`,
+      );
+    }
+  }
+
+  const preloadedModules = getPreloadedModules(startScript);
+
+  if (!preloadedModules.length) {
+    if (importsSentryFirst(getNodeCommand(startScript)?.entry)) {
+      Sentry.setTag('node-start-script', 'entry-imports-sentry');
+      return;
+    }
+
+    Sentry.setTag('node-start-script', 'no-preload');
+    clack.log.warn(
+      `${chalk.cyan(
+        '@sentry/node',
+      )} must be initialized before all other modules. Start your server with ${chalk.cyan(
+        'node --import ./instrument.mjs',
+      )} (ESM) or require the file that calls ${chalk.cyan(
+        'Sentry.init',
+      )} in the first line of your entry file (CommonJS).`,
+    );
+    return;
+  }
+
+  if (!preloadedModules.some((module) => initializesSentry(module))) {
+    Sentry.setTag('node-start-script', 'preload-without-sentry');
+    clack.log.warn(
+      `Your ${chalk.cyan('start')} script preloads ${preloadedModules
+        .map((module) => chalk.cyan(module))
+        .join(', ')}, but we couldn't find ${chalk.cyan(
+        'Sentry.init',
+      )} in it. Make sure it initializes ${chalk.cyan(
+        '@sentry/node',
+      )} before all other modules.`,
+    );
+    return;
+  }
+
+  Sentry.setTag('node-start-script', 'success');
+}
+
+/**
+ * @returns the flags and the entry file of the first `node` command in the script
+ */
+export function getNodeCommand(
+  script: string,
+): { flags: string; entry: string } | undefined {
+  const match = script.match(NODE_COMMAND_REGEX);
+  return match ? { flags: match[2].trim(), entry: match[3] } : undefined;
+}
+
+/**
+ * @returns the script with `--enable-source-maps` added to the `node` command
+ * or undefined if the flag is already set or there is no `node` command
+ */
+export function addEnableSourceMapsFlag(script: string): string | undefined {
+  if (!getNodeCommand(script) || script.includes(ENABLE_SOURCE_MAPS_FLAG)) {
+    return undefined;
+  }
+
+  return script.replace(
+    NODE_COMMAND_REGEX,
+    (_, prefix: string, flags: string, entry: string) =>
+      `${prefix}node ${ENABLE_SOURCE_MAPS_FLAG}${flags} ${entry}`,
+  );
+}
+
+/**
+ * @returns the modules preloaded via `--import` or `--require` in the script
+ */
+export function getPreloadedModules(script: string): string[] {
+  const flags = getNodeCommand(script)?.flags ?? '';
+  return Array.from(flags.matchAll(PRELOAD_FLAG_REGEX), (match) =>
+    match[1].replace(/^["']|["']$/g, ''),
+  );
+}
+
+/**
+ * @returns the module imported or required first in the code
+ */
+export function getFirstImportedModule(code: string): string | undefined {
+  return code.match(IMPORT_REGEX)?.[1];
+}
+
+function importsSentryFirst(entry: string | undefined): boolean {
+  if (!entry) {
+    return false;
+  }
+
+  const entryPath = path.resolve(process.cwd(), entry);
+
+  let code: string;
+  try {
+    code = fs.readFileSync(entryPath, 'utf8');
+  } catch {
+    // The entry file is usually a build output and might not exist yet
+    return false;
+  }
+
+  const firstImportedModule = getFirstImportedModule(code);
+
+  return (
+    !!firstImportedModule &&
+    initializesSentry(firstImportedModule, path.dirname(entryPath))
+  );
+}
+
+function initializesSentry(modulePath: string, dir = process.cwd()): boolean {
+  // `require('./instrument')` omits the file extension
+  const filePath = ['', ...JS_FILE_EXTENSIONS]
+    .map((extension) => path.resolve(dir, `${modulePath}${extension}`))
+    .find((file) => fs.existsSync(file) && fs.statSync(file).isFile());
+
+  if (!filePath) {
+    // Preloaded packages (e.g. `--import @sentry/node/preload`) aren't files
+    return modulePath.startsWith('@sentry/');
+  }
+
+  const content = fs.readFileSync(filePath, 'utf8');
+  return content.includes('@sentry/') && content.includes('.init(');
+}
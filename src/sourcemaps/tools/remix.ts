@@ -3,7 +3,7 @@ import * as clack from '@clack/prompts';
 import chalk from 'chalk';
 import { runRemixWizard } from '../../remix/remix-wizard';
 import { traceStep } from '../../telemetry';
-import { abortIfCancelled } from '../../utils/clack';
+import { selectPrompt } from '../../utils/clack';
 import type { WizardOptions } from '../../utils/types';
 import type { SourceMapUploadToolConfigurationOptions } from './types';
 
@@ -20,22 +20,20 @@ In case you already tried the wizard, we can also show you how to configure your
     'remix.config.js',
   )} file manually instead.`);
 
-  const shouldRedirect: boolean = await abortIfCancelled(
-    clack.select({
-      message: 'Do you want to run the Sentry Wizard for Remix now?',
-      options: [
-        {
-          label: 'Yes, run the wizard!',
-          value: true,
-          hint: 'The wizard can also configure your SDK setup',
-        },
-        {
-          label: 'No, show me how to configure it manually',
-          value: false,
-        },
-      ],
-    }),
-  );
+  const shouldRedirect: boolean = await selectPrompt('runRemixWizard', {
+    message: 'Do you want to run the Sentry Wizard for Remix now?',
+    options: [
+      {
+        label: 'Yes, run the wizard!',
+        value: true,
+        hint: 'The wizard can also configure your SDK setup',
+      },
+      {
+        label: 'No, show me how to configure it manually',
+        value: false,
+      },
+    ],
+  });
 
   Sentry.setTag('redirect-remix-wizard', shouldRedirect);
 
@@ -71,13 +69,11 @@ To see all available options, run ${chalk.cyan(
     )}
 `);
 
-    await abortIfCancelled(
-      clack.select({
-        message: 'Did you finish configuring your build and prod scripts?',
-        options: [{ label: 'Yes, continue!', value: true }],
-        initialValue: true,
-      }),
-    );
+    await selectPrompt('snippetApplied', {
+      message: 'Did you finish configuring your build and prod scripts?',
+      options: [{ label: 'Yes, continue!', value: true }],
+      initialValue: true,
+    });
   }
 };
 
@@ -1,11 +1,11 @@
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
-import clack, { select } from '@clack/prompts';
+import clack from '@clack/prompts';
 import chalk from 'chalk';
 import {
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
   getPackageDotJson,
   installPackage,
+  selectPrompt,
 } from '../../utils/clack';
 import { hasPackageInstalled } from '../../utils/package-json';
 
@@ -55,13 +55,11 @@ export const configureRollupPlugin: SourceMapUploadToolConfigurationFunction =
     // eslint-disable-next-line no-console
     console.log(getCodeSnippet(options));
 
-    await abortIfCancelled(
-      select({
-        message: 'Did you copy the snippet above?',
-        options: [{ label: 'Yes, continue!', value: true }],
-        initialValue: true,
-      }),
-    );
+    await selectPrompt('snippetApplied', {
+      message: 'Did you copy the snippet above?',
+      options: [{ label: 'Yes, continue!', value: true }],
+      initialValue: true,
+    });
 
     await addDotEnvSentryBuildPluginFile(options.authToken);
   };
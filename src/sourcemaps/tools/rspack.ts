@@ -0,0 +1,516 @@
+import * as path from 'node:path';
+import * as fs from 'node:fs';
+
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+// @ts-expect-error - magicast is ESM and TS complains about that. It works though
+import { generateCode, parseModule, type ProxifiedModule } from 'magicast';
+
+import type { namedTypes as t } from 'ast-types';
+import * as recast from 'recast';
+
+import * as Sentry from '@sentry/node';
+
+import {
+  addDotEnvSentryBuildPluginFile,
+  askForToolConfigPath,
+  createNewConfigFile,
+  getPackageDotJson,
+  installPackage,
+  makeCodeSnippet,
+  selectPrompt,
+  showCopyPasteInstructions,
+} from '../../utils/clack';
+import { hasPackageInstalled } from '../../utils/package-json';
+
+import type {
+  SourceMapUploadToolConfigurationFunction,
+  SourceMapUploadToolConfigurationOptions,
+} from './types';
+
+import {
+  findFile,
+  hasSentryContent,
+  preserveTrailingNewline,
+} from '../../utils/ast-utils';
+import { debug } from '../../utils/debug';
+
+const b = recast.types.builders;
+
+/**
+ * Rsbuild is built on top of Rspack, but has its own config file and options.
+ */
+export type RspackBundler = 'rspack' | 'rsbuild';
+
+const BUNDLER_NAMES: Record<RspackBundler, string> = {
+  rspack: 'Rspack',
+  rsbuild: 'Rsbuild',
+};
+
+const CONFIG_FILE_TYPES = ['.ts', '.mts', '.mjs', '.js', '.cjs'];
+
+const getCodeSnippet = (
+  bundler: RspackBundler,
+  options: SourceMapUploadToolConfigurationOptions,
+  colors: boolean,
+) =>
+  makeCodeSnippet(colors, (unchanged, plus) => {
+    const pluginCall = plus(`sentryWebpackPlugin({
+      authToken: process.env.SENTRY_AUTH_TOKEN,
+      org: "${options.orgSlug}",
+      project: "${options.projectSlug}",${
+      options.selfHosted ? `\n      url: "${options.url}",` : ''
+    }
+    }),`);
+
+    if (bundler === 'rsbuild') {
+      return unchanged(`import { defineConfig } from "@rsbuild/core";
+${plus('import { sentryWebpackPlugin } from "@sentry/webpack-plugin";')}
+
+export default defineConfig({
+  // ... other options
+  output: {
+    ${plus(
+      'sourceMap: { js: "hidden-source-map" }, // Source map generation must be turned on',
+    )}
+  },
+  tools: {
+    rspack: {
+      plugins: [
+        // Put the Sentry Webpack plugin after all other plugins
+        ${pluginCall.replace(/\n/g, '\n    ')}
+      ],
+    },
+  },
+});`);
+    }
+
+    return unchanged(`import { defineConfig } from "@rspack/cli";
+${plus('import { sentryWebpackPlugin } from "@sentry/webpack-plugin";')}
+
+export default defineConfig({
+  // ... other options
+  ${plus(
+    'devtool: "hidden-source-map", // Source map generation must be turned on',
+  )}
+  plugins: [
+    // Put the Sentry Webpack plugin after all other plugins
+    ${pluginCall}
+  ],
+});`);
+  });
+
+/**
+ * Configures the Sentry Webpack plugin, which is compatible with Rspack,
+ * in Rspack and Rsbuild projects.
+ */
+export const configureRspackPlugin: SourceMapUploadToolConfigurationFunction =
+  async (options) => {
+    const packageJson = await getPackageDotJson();
+
+    const bundler: RspackBundler =
+      hasPackageInstalled('@rsbuild/core', packageJson) ||
+      findFile(path.resolve(process.cwd(), 'rsbuild.config'), CONFIG_FILE_TYPES)
+        ? 'rsbuild'
+        : 'rspack';
+    const bundlerName = BUNDLER_NAMES[bundler];
+
+    Sentry.setTag('rspack-bundler', bundler);
+
+    await installPackage({
+      packageName: '@sentry/webpack-plugin',
+      alreadyInstalled: hasPackageInstalled(
+        '@sentry/webpack-plugin',
+        packageJson,
+      ),
+    });
+
+    const configPath =
+      findFile(
+        path.resolve(process.cwd(), `${bundler}.config`),
+        CONFIG_FILE_TYPES,
+      ) ?? (await askForToolConfigPath(bundlerName, `${bundler}.config.mjs`));
+
+    let successfullyAdded = false;
+    if (configPath) {
+      successfullyAdded = await modifyRspackConfig(
+        configPath,
+        bundler,
+        options,
+      );
+    } else {
+      successfullyAdded = await createNewConfigFile(
+        path.join(process.cwd(), `${bundler}.config.mjs`),
+        getCodeSnippet(bundler, options, false),
+        `More information about ${bundlerName} configs: ${
+          bundler === 'rsbuild'
+            ? 'https://rsbuild.dev/config/'
+            : 'https://rspack.dev/config/'
+        }`,
+      );
+      Sentry.setTag(
+        'created-new-config',
+        successfullyAdded ? 'success' : 'fail',
+      );
+    }
+
+    if (successfullyAdded) {
+      clack.log.info(
+        `We recommend checking the ${
+          configPath ? 'modified' : 'added'
+        } file after the wizard finished to ensure it works with your build setup.`,
+      );
+
+      Sentry.setTag('ast-mod', 'success');
+    } else {
+      Sentry.setTag('ast-mod', 'fail');
+      await showCopyPasteInstructions({
+        filename: path.basename(configPath || `${bundler}.config.mjs`),
+        codeSnippet: getCodeSnippet(bundler, options, true),
+      });
+    }
+
+    await addDotEnvSentryBuildPluginFile(options.authToken);
+  };
+
+/**
+ * Modifies an Rspack or Rsbuild config file to enable hidden source maps
+ * and add the Sentry webpack plugin.
+ * exported only for testing
+ */
+export async function modifyRspackConfig(
+  configPath: string,
+  bundler: RspackBundler,
+  options: SourceMapUploadToolConfigurationOptions,
+): Promise<boolean> {
+  try {
+    const configContent = await fs.promises.readFile(configPath, 'utf-8');
+    const prettyConfigFilename = chalk.cyan(path.basename(configPath));
+
+    const mod = parseModule(configContent);
+    const program = mod.$ast as t.Program;
+
+    if (hasSentryContent(program)) {
+      const shouldContinue = await selectPrompt('modifyExistingSentryConfig', {
+        message: `${prettyConfigFilename} already contains Sentry-related code. Should the wizard modify it anyway?`,
+        options: [
+          {
+            label: 'Yes, add the Sentry Webpack plugin',
+            value: true,
+          },
+          {
+            label: 'No, show me instructions to manually add the plugin',
+            value: false,
+          },
+        ],
+        initialValue: true,
+      });
+
+      if (!shouldContinue) {
+        Sentry.setTag('ast-mod-fail-reason', 'has-sentry-content');
+        return false;
+      }
+    }
+
+    const configObject = getConfigObject(program);
+    if (!configObject) {
+      debug(`Couldn't find the config object in ${configPath}`);
+      Sentry.setTag('ast-mod-fail-reason', 'config-object-not-found');
+      return false;
+    }
+
+    const pluginsParent =
+      bundler === 'rsbuild'
+        ? getObjectProperty(getObjectProperty(configObject, 'tools'), 'rspack')
+        : configObject;
+
+    const enabledSourcemaps =
+      bundler === 'rsbuild'
+        ? enableRsbuildSourcemaps(configObject)
+        : enableRspackSourcemaps(configObject);
+
+    if (
+      !enabledSourcemaps ||
+      !pluginsParent ||
+      !addSentryPlugin(pluginsParent, options)
+    ) {
+      clack.log.warn(
+        `Couldn't add the Sentry Webpack plugin to ${prettyConfigFilename}. Please follow the instructions below.`,
+      );
+      Sentry.setTag('ast-mod-fail-reason', 'insertion-fail');
+      return false;
+    }
+
+    addSentryPluginImport(mod, program);
+
+    const code = preserveTrailingNewline(
+      configContent,
+      generateCode(mod.$ast).code,
+    );
+    await fs.promises.writeFile(configPath, code);
+
+    clack.log.success(
+      `Added the Sentry Webpack plugin to ${prettyConfigFilename} and enabled source maps.`,
+    );
+
+    return true;
+  } catch (e) {
+    Sentry.setTag('ast-mod-fail-reason', 'insertion-fail');
+    debug(e);
+    return false;
+  }
+}
+
+/**
+ * Sets `devtool` to `hidden-source-map`, unless it already generates
+ * complete source maps.
+ */
+function enableRspackSourcemaps(configObject: t.ObjectExpression): boolean {
+  const devtoolProp = findProperty(configObject, 'devtool');
+
+  if (!devtoolProp) {
+    configObject.properties.push(
+      b.objectProperty(
+        b.identifier('devtool'),
+        b.stringLiteral('hidden-source-map'),
+      ),
+    );
+    return true;
+  }
+
+  if (!isCompleteSourcemapDevtool(devtoolProp.value)) {
+    devtoolProp.value = b.stringLiteral('hidden-source-map');
+  }
+  return true;
+}
+
+/**
+ * Sets `output.sourceMap.js` to `hidden-source-map`, unless source maps
+ * are already enabled for all JavaScript files.
+ */
+function enableRsbuildSourcemaps(configObject: t.ObjectExpression): boolean {
+  const output = getObjectProperty(configObject, 'output');
+  if (!output) {
+    return false;
+  }
+
+  const sourceMapProp = findProperty(output, 'sourceMap');
+  const hiddenJsSourceMap = b.objectProperty(
+    b.identifier('js'),
+    b.stringLiteral('hidden-source-map'),
+  );
+
+  if (!sourceMapProp) {
+    output.properties.push(
+      b.objectProperty(
+        b.identifier('sourceMap'),
+        b.objectExpression([hiddenJsSourceMap]),
+      ),
+    );
+    return true;
+  }
+
+  const sourceMap = sourceMapProp.value;
+
+  // `sourceMap: true` enables source maps for JavaScript and CSS files
+  if (sourceMap.type === 'BooleanLiteral' && sourceMap.value) {
+    return true;
+  }
+
+  if (sourceMap.type !== 'ObjectExpression') {
+    sourceMapProp.value = b.objectExpression([hiddenJsSourceMap]);
+    return true;
+  }
+
+  const jsProp = findProperty(sourceMap, 'js');
+  if (!jsProp) {
+    sourceMap.properties.push(hiddenJsSourceMap);
+  } else if (!isCompleteSourcemapDevtool(jsProp.value)) {
+    jsProp.value = b.stringLiteral('hidden-source-map');
+  }
+  return true;
+}
+
+function isCompleteSourcemapDevtool(value: t.ObjectProperty['value']) {
+  return (
+    value.type === 'StringLiteral' &&
+    ['source-map', 'hidden-source-map'].includes(value.value)
+  );
+}
+
+function addSentryPlugin(
+  pluginsParent: t.ObjectExpression,
+  options: SourceMapUploadToolConfigurationOptions,
+): boolean {
+  const sentryPluginCall = b.callExpression(
+    b.identifier('sentryWebpackPlugin'),
+    [
+      b.objectExpression([
+        b.objectProperty(
+          b.identifier('authToken'),
+          b.memberExpression(
+            b.memberExpression(b.identifier('process'), b.identifier('env')),
+            b.identifier('SENTRY_AUTH_TOKEN'),
+          ),
+        ),
+        b.objectProperty(b.identifier('org'), b.stringLiteral(options.orgSlug)),
+        b.objectProperty(
+          b.identifier('project'),
+          b.stringLiteral(options.projectSlug),
+        ),
+        ...(options.selfHosted
+          ? [
+              b.objectProperty(
+                b.identifier('url'),
+                b.stringLiteral(options.url),
+              ),
+            ]
+          : []),
+      ]),
+    ],
+  );
+
+  const pluginsProp = findProperty(pluginsParent, 'plugins');
+
+  if (!pluginsProp) {
+    pluginsParent.properties.push(
+      b.objectProperty(
+        b.identifier('plugins'),
+        b.arrayExpression([sentryPluginCall]),
+      ),
+    );
+    return true;
+  }
+
+  if (pluginsProp.value.type !== 'ArrayExpression') {
+    return false;
+  }
+
+  pluginsProp.value.elements.push(sentryPluginCall);
+  return true;
+}
+
+function addSentryPluginImport(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  mod: ProxifiedModule<any>,
+  program: t.Program,
+): void {
+  const isEsm = program.body.some(
+    (node) =>
+      node.type === 'ImportDeclaration' ||
+      node.type === 'ExportDefaultDeclaration' ||
+      node.type === 'ExportNamedDeclaration',
+  );
+
+  if (isEsm) {
+    mod.imports.$add({
+      imported: 'sentryWebpackPlugin',
+      from: '@sentry/webpack-plugin',
+    });
+    return;
+  }
+
+  program.body.unshift(
+    b.variableDeclaration('const', [
+      b.variableDeclarator(
+        b.objectPattern([
+          b.objectProperty.from({
+            key: b.identifier('sentryWebpackPlugin'),
+            value: b.identifier('sentryWebpackPlugin'),
+            shorthand: true,
+          }),
+        ]),
+        b.callExpression(b.identifier('require'), [
+          b.stringLiteral('@sentry/webpack-plugin'),
+        ]),
+      ),
+    ]),
+  );
+}
+
+/**
+ * @returns the object of `export default {...}` or `module.exports = {...}`,
+ * also if it's wrapped in `defineConfig` or declared as a variable
+ */
+function getConfigObject(program: t.Program): t.ObjectExpression | undefined {
+  let exported: t.Node | null | undefined;
+
+  for (const node of program.body) {
+    if (node.type === 'ExportDefaultDeclaration') {
+      exported = node.declaration;
+    } else if (
+      node.type === 'ExpressionStatement' &&
+      node.expression.type === 'AssignmentExpression' &&
+      node.expression.left.type === 'MemberExpression' &&
+      node.expression.left.object.type === 'Identifier' &&
+      node.expression.left.object.name === 'module' &&
+      node.expression.left.property.type === 'Identifier' &&
+      node.expression.left.property.name === 'exports'
+    ) {
+      exported = node.expression.right;
+    }
+  }
+
+  if (exported?.type === 'Identifier') {
+    const configId = (exported as t.Identifier).name;
+    exported = program.body
+      .filter(
+        (node): node is t.VariableDeclaration =>
+          node.type === 'VariableDeclaration',
+      )
+      .flatMap((node) => node.declarations)
+      .find(
+        (declarator): declarator is t.VariableDeclarator =>
+          declarator.type === 'VariableDeclarator' &&
+          declarator.id.type === 'Identifier' &&
+          declarator.id.name === configId,
+      )?.init;
+  }
+
+  // defineConfig({...})
+  if (exported?.type === 'CallExpression') {
+    exported = (exported as t.CallExpression).arguments[0];
+  }
+
+  return exported?.type === 'ObjectExpression'
+    ? (exported as t.ObjectExpression)
+    : undefined;
+}
+
+function findProperty(
+  object: t.ObjectExpression,
+  name: string,
+): t.ObjectProperty | undefined {
+  return object.properties.find(
+    (property): property is t.ObjectProperty =>
+      property.type === 'ObjectProperty' &&
+      ((property.key.type === 'Identifier' && property.key.name === name) ||
+        (property.key.type === 'StringLiteral' && property.key.value === name)),
+  );
+}
+
+/**
+ * @returns the object of the property, which is added if it doesn't exist,
+ * or undefined if the property isn't an object (e.g. a function)
+ */
+function getObjectProperty(
+  object: t.ObjectExpression | undefined,
+  name: string,
+): t.ObjectExpression | undefined {
+  if (!object) {
+    return undefined;
+  }
+
+  const property = findProperty(object, name);
+
+  if (!property) {
+    const value = b.objectExpression([]);
+    object.properties.push(b.objectProperty(b.identifier(name), value));
+    return value;
+  }
+
+  return property.value.type === 'ObjectExpression'
+    ? property.value
+    : undefined;
+}
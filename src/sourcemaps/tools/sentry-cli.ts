@@ -5,13 +5,15 @@ import * as Sentry from '@sentry/node';
 import * as path from 'path';
 import * as fs from 'fs';
 import {
-  abortIfCancelled,
   addSentryCliConfig,
+  confirmPrompt,
   getPackageDotJson,
   getPackageManager,
   installPackage,
   artifactsExist,
   askToRunBuildOrEnterPathOrProceed,
+  selectPrompt,
+  textPrompt,
 } from '../../utils/clack';
 
 import { SourceMapUploadToolConfigurationOptions } from './types';
@@ -27,11 +29,14 @@ type configureSentryCLIOptions = SourceMapUploadToolConfigurationOptions & {
   defaultArtifactPath?: string;
 };
 
+/**
+ * @returns the path of the build artifacts entered by the user
+ */
 export async function configureSentryCLI(
   options: configureSentryCLIOptions,
   configureSourcemapGenerationFlow: () => Promise<void> = defaultConfigureSourcemapGenerationFlow,
   skipValidation = false,
-): Promise<void> {
+): Promise<string> {
   const packageDotJson = await getPackageDotJson();
 
   await installPackage({
@@ -42,24 +47,22 @@ export async function configureSentryCLI(
   let validPath = false;
   let relativeArtifactPath: string | undefined;
   do {
-    const rawArtifactPath = await abortIfCancelled(
-      clack.text({
-        message: 'Where are your build artifacts located?',
-        placeholder:
-          relativeArtifactPath ??
-          options.defaultArtifactPath ??
-          `.${path.sep}out`,
-        initialValue:
-          relativeArtifactPath ??
-          options.defaultArtifactPath ??
-          `.${path.sep}out`,
-        validate(value) {
-          if (!value) {
-            return 'Please enter a path.';
-          }
-        },
-      }),
-    );
+    const rawArtifactPath = await textPrompt('buildArtifactsPath', {
+      message: 'Where are your build artifacts located?',
+      placeholder:
+        relativeArtifactPath ??
+        options.defaultArtifactPath ??
+        `.${path.sep}out`,
+      initialValue:
+        relativeArtifactPath ??
+        options.defaultArtifactPath ??
+        `.${path.sep}out`,
+      validate(value) {
+        if (!value) {
+          return 'Please enter a path.';
+        }
+      },
+    });
 
     if (path.isAbsolute(rawArtifactPath)) {
       relativeArtifactPath = path.relative(process.cwd(), rawArtifactPath);
@@ -106,6 +109,29 @@ export async function configureSentryCLI(
   }
 
   await addSentryCliConfig({ authToken: options.authToken });
+
+  return relativeArtifactPath;
+}
+
+/**
+ * @returns the command to run the source maps upload script in CI or
+ * undefined if the script already runs as part of the build command
+ */
+export async function getNpmScriptCommandForCI(): Promise<string | undefined> {
+  if (addedToBuildCommand) {
+    return undefined;
+  }
+
+  const packageManager = await getPackageManager(NPM);
+  return `${packageManager.runScriptCommand} ${SENTRY_NPM_SCRIPT_NAME}`;
+}
+
+/**
+ * @returns the name of the source maps upload script or undefined if the
+ * script already runs as part of the build command
+ */
+export function getNpmScriptToRunAfterBuild(): string | undefined {
+  return addedToBuildCommand ? undefined : SENTRY_NPM_SCRIPT_NAME;
 }
 
 export async function setupNpmScriptInCI(): Promise<void> {
@@ -115,26 +141,24 @@ export async function setupNpmScriptInCI(): Promise<void> {
     return;
   }
 
-  const addedToCI = await abortIfCancelled(
-    clack.select({
-      message: `Add a step to your CI pipeline that runs the ${chalk.cyan(
-        SENTRY_NPM_SCRIPT_NAME,
-      )} script ${chalk.bold('right after')} building your application.`,
-      options: [
-        { label: 'I did, continue!', value: true },
-        {
-          label: "I'll do it later...",
-          value: false,
-          hint: chalk.yellow(
-            `You need to run ${chalk.cyan(
-              SENTRY_NPM_SCRIPT_NAME,
-            )} after each build for source maps to work properly.`,
-          ),
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const addedToCI = await selectPrompt('addedToCi', {
+    message: `Add a step to your CI pipeline that runs the ${chalk.cyan(
+      SENTRY_NPM_SCRIPT_NAME,
+    )} script ${chalk.bold('right after')} building your application.`,
+    options: [
+      { label: 'I did, continue!', value: true },
+      {
+        label: "I'll do it later...",
+        value: false,
+        hint: chalk.yellow(
+          `You need to run ${chalk.cyan(
+            SENTRY_NPM_SCRIPT_NAME,
+          )} after each build for source maps to work properly.`,
+        ),
+      },
+    ],
+    initialValue: true,
+  });
 
   Sentry.setTag('added-ci-script', addedToCI);
 
@@ -175,22 +199,20 @@ async function createAndAddNpmScript(
 }
 
 async function askShouldAddToBuildCommand(): Promise<boolean> {
-  const shouldAddToBuildCommand = await abortIfCancelled(
-    clack.select({
-      message: `Do you want to automatically run the ${chalk.cyan(
-        SENTRY_NPM_SCRIPT_NAME,
-      )} script after each production build?`,
-      options: [
-        {
-          label: 'Yes',
-          value: true,
-          hint: 'This will modify your prod build command',
-        },
-        { label: 'No', value: false },
-      ],
-      initialValue: true,
-    }),
-  );
+  const shouldAddToBuildCommand = await selectPrompt('addToBuildCommand', {
+    message: `Do you want to automatically run the ${chalk.cyan(
+      SENTRY_NPM_SCRIPT_NAME,
+    )} script after each production build?`,
+    options: [
+      {
+        label: 'Yes',
+        value: true,
+        hint: 'This will modify your prod build command',
+      },
+      { label: 'No', value: false },
+    ],
+    initialValue: true,
+  });
 
   Sentry.setTag('modify-build-command', shouldAddToBuildCommand);
 
@@ -226,28 +248,24 @@ export async function addSentryCommandToBuildCommand(): Promise<void> {
 
   const isProdBuildCommand =
     !!buildCommand &&
-    (await abortIfCancelled(
-      clack.confirm({
-        message: `Is ${chalk.cyan(
-          `${packageManager.runScriptCommand} ${buildCommand}`,
-        )} your production build command?`,
-      }),
-    ));
+    (await confirmPrompt('isProdBuildCommand', {
+      message: `Is ${chalk.cyan(
+        `${packageManager.runScriptCommand} ${buildCommand}`,
+      )} your production build command?`,
+    }));
 
   if (allNpmScripts.length && (!buildCommand || !isProdBuildCommand)) {
-    buildCommand = await abortIfCancelled(
-      clack.select({
-        message: `Which ${packageManager.name} command in your ${chalk.cyan(
-          'package.json',
-        )} builds your application for production?`,
-        options: allNpmScripts
-          .map((script) => ({
-            label: script,
-            value: script,
-          }))
-          .concat({ label: 'None of the above', value: 'none' }),
-      }),
-    );
+    buildCommand = await selectPrompt('prodBuildCommand', {
+      message: `Which ${packageManager.name} command in your ${chalk.cyan(
+        'package.json',
+      )} builds your application for production?`,
+      options: allNpmScripts
+        .map((script) => ({
+          label: script,
+          value: script,
+        }))
+        .concat({ label: 'None of the above', value: 'none' }),
+    });
   }
 
   if (!buildCommand || buildCommand === 'none') {
@@ -302,13 +320,11 @@ Would have injected: ${chalk.dim(newCommand)}`,
 }
 
 async function defaultConfigureSourcemapGenerationFlow(): Promise<void> {
-  await abortIfCancelled(
-    clack.select({
-      message: `Verify that your build tool is generating source maps. ${chalk.dim(
-        '(Your build output folder should contain .js.map files after a build)',
-      )}`,
-      options: [{ label: 'I checked. Continue!', value: true }],
-      initialValue: true,
-    }),
-  );
+  await selectPrompt('sourcemapsGenerationVerified', {
+    message: `Verify that your build tool is generating source maps. ${chalk.dim(
+      '(Your build output folder should contain .js.map files after a build)',
+    )}`,
+    options: [{ label: 'I checked. Continue!', value: true }],
+    initialValue: true,
+  });
 }
@@ -13,13 +13,13 @@ import * as Sentry from '@sentry/node';
 
 import chalk from 'chalk';
 import {
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
   askForToolConfigPath,
   createNewConfigFile,
   getPackageDotJson,
   installPackage,
   makeCodeSnippet,
+  selectPrompt,
   showCopyPasteInstructions,
 } from '../../utils/clack';
 import { hasPackageInstalled } from '../../utils/package-json';
@@ -125,22 +125,20 @@ export async function addVitePluginToConfig(
     const mod = parseModule(viteConfigContent);
 
     if (hasSentryContent(mod.$ast as t.Program)) {
-      const shouldContinue = await abortIfCancelled(
-        clack.select({
-          message: `${prettyViteConfigFilename} already contains Sentry-related code. Should the wizard modify it anyway?`,
-          options: [
-            {
-              label: 'Yes, add the Sentry Vite plugin',
-              value: true,
-            },
-            {
-              label: 'No, show me instructions to manually add the plugin',
-              value: false,
-            },
-          ],
-          initialValue: true,
-        }),
-      );
+      const shouldContinue = await selectPrompt('modifyExistingSentryConfig', {
+        message: `${prettyViteConfigFilename} already contains Sentry-related code. Should the wizard modify it anyway?`,
+        options: [
+          {
+            label: 'Yes, add the Sentry Vite plugin',
+            value: true,
+          },
+          {
+            label: 'No, show me instructions to manually add the plugin',
+            value: false,
+          },
+        ],
+        initialValue: true,
+      });
 
       if (!shouldContinue) {
         Sentry.setTag('ast-mod-fail-reason', 'has-sentry-content');
@@ -12,13 +12,13 @@ import t = x.namedTypes;
 import * as Sentry from '@sentry/node';
 
 import {
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
   askForToolConfigPath,
   createNewConfigFile,
   getPackageDotJson,
   installPackage,
   makeCodeSnippet,
+  selectPrompt,
   showCopyPasteInstructions,
 } from '../../utils/clack';
 import { hasPackageInstalled } from '../../utils/package-json';
@@ -187,22 +187,20 @@ async function shouldModifyWebpackConfig(
   prettyConfigFilename: string,
 ) {
   if (hasSentryContent(program)) {
-    const shouldContinue = await abortIfCancelled(
-      clack.select({
-        message: `Seems like ${prettyConfigFilename} already contains Sentry-related code. Should the wizard modify it anyway?`,
-        options: [
-          {
-            label: 'Yes, add the Sentry Webpack plugin',
-            value: true,
-          },
-          {
-            label: 'No, show me instructions to manually add the plugin',
-            value: false,
-          },
-        ],
-        initialValue: true,
-      }),
-    );
+    const shouldContinue = await selectPrompt('modifyExistingSentryConfig', {
+      message: `Seems like ${prettyConfigFilename} already contains Sentry-related code. Should the wizard modify it anyway?`,
+      options: [
+        {
+          label: 'Yes, add the Sentry Webpack plugin',
+          value: true,
+        },
+        {
+          label: 'No, show me instructions to manually add the plugin',
+          value: false,
+        },
+      ],
+      initialValue: true,
+    });
 
     if (!shouldContinue) {
       Sentry.setTag('ast-mod-fail-reason', 'has-sentry-content');
@@ -3,11 +3,12 @@ import * as clack from '@clack/prompts';
 import chalk from 'chalk';
 import {
   abort,
-  abortIfCancelled,
   addSentryCliConfig,
+  confirmPrompt,
   getPackageDotJson,
   getPackageManager,
   installPackage,
+  selectPrompt,
   showCopyPasteInstructions,
 } from '../../utils/clack';
 import { hasPackageInstalled } from '../../utils/package-json';
@@ -51,11 +52,9 @@ Otherwise, let's proceed with the Wrangler setup.`,
     'Before we get started',
   );
 
-  const proceed = await abortIfCancelled(
-    clack.confirm({
-      message: 'Do you want to proceed with the Wrangler setup?',
-    }),
-  );
+  const proceed = await confirmPrompt('proceedWithWrangler', {
+    message: 'Do you want to proceed with the Wrangler setup?',
+  });
 
   if (!proceed) {
     await abort(
@@ -145,15 +144,13 @@ This likely means that you already ran this wizard once.
 If things don't work yet, try overwriting the script and continue with the wizard.`,
     );
 
-    const overwrite = await abortIfCancelled(
-      clack.select({
-        message: 'Do you want to overwrite it?',
-        options: [
-          { label: 'Yes', value: true, hint: 'Overwrite the existing script' },
-          { label: 'No', value: false, hint: 'This will exit the wizard' },
-        ],
-      }),
-    );
+    const overwrite = await selectPrompt('overwriteSentryScript', {
+      message: 'Do you want to overwrite it?',
+      options: [
+        { label: 'Yes', value: true, hint: 'Overwrite the existing script' },
+        { label: 'No', value: false, hint: 'This will exit the wizard' },
+      ],
+    });
 
     if (!overwrite) {
       return false;
@@ -174,28 +171,24 @@ async function getDeployCommand(): Promise<string | undefined> {
   const packageManager = await getPackageManager(NPM);
   const isDeployCommand =
     !!deployCommand &&
-    (await abortIfCancelled(
-      clack.confirm({
-        message: `Is ${chalk.cyan(
-          `${packageManager.runScriptCommand} ${deployCommand}`,
-        )} your build and deploy command?`,
-      }),
-    ));
+    (await confirmPrompt('isDeployCommand', {
+      message: `Is ${chalk.cyan(
+        `${packageManager.runScriptCommand} ${deployCommand}`,
+      )} your build and deploy command?`,
+    }));
 
   if (Object.keys(scripts).length && (!deployCommand || !isDeployCommand)) {
-    deployCommand = await abortIfCancelled(
-      clack.select({
-        message: `Which ${packageManager.name} command in your ${chalk.cyan(
-          'package.json',
-        )} builds your worker and deploys it?`,
-        options: Object.keys(scripts)
-          .map((script) => ({
-            label: script,
-            value: script,
-          }))
-          .concat({ label: 'None of the above', value: 'none' }),
-      }),
-    );
+    deployCommand = await selectPrompt('deployCommand', {
+      message: `Which ${packageManager.name} command in your ${chalk.cyan(
+        'package.json',
+      )} builds your worker and deploys it?`,
+      options: Object.keys(scripts)
+        .map((script) => ({
+          label: script,
+          value: script,
+        }))
+        .concat({ label: 'None of the above', value: 'none' }),
+    });
   }
 
   if (!deployCommand || deployCommand === 'none') {
@@ -0,0 +1,652 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import clack from '@clack/prompts';
+import * as Sentry from '@sentry/node';
+import chalk from 'chalk';
+import yaml from 'js-yaml';
+
+import { selectPrompt } from '../../utils/clack';
+import { debug } from '../../utils/debug';
+
+const AUTH_TOKEN_ENV_VAR = 'SENTRY_AUTH_TOKEN';
+const AUTH_TOKEN_SECRET = '${{ secrets.SENTRY_AUTH_TOKEN }}';
+
+const UPLOAD_STEP_NAME = 'Upload source maps to Sentry';
+
+// Matches e.g. `npm run build`, `yarn build` or `pnpm run build:prod`
+const BUILD_COMMAND_REGEX = /\b(?:npm|yarn|pnpm|bun)\b[^\n]*\bbuild\b/;
+
+export type CiProvider = {
+  id: 'github' | 'gitlab' | 'circleci' | 'bitbucket';
+  name: string;
+  /**
+   * Where to create the auth token secret in the provider's UI,
+   * e.g. `a masked variable in Settings > CI/CD > Variables`
+   */
+  secretLocation: string;
+  /**
+   * @returns the paths of the provider's config files relative to @param cwd
+   */
+  findConfigFiles: (cwd: string) => string[];
+  /**
+   * @returns the modified config, the unchanged config if it's already set up
+   * or undefined if the build couldn't be found
+   */
+  addSentryToConfig: (
+    content: string,
+    options: { uploadCommand?: string },
+  ) => string | undefined;
+};
+
+export type CiConfig = {
+  provider: CiProvider;
+  /** The path of the config file relative to the current working directory */
+  configFile: string;
+  /** The config is set up to upload source maps, no manual changes are needed */
+  configured: boolean;
+};
+
+type GitHubStep = {
+  run?: unknown;
+  env?: unknown;
+};
+
+type GitHubWorkflow = {
+  env?: unknown;
+  jobs?: Record<
+    string,
+    { env?: unknown; steps?: GitHubStep[] } | null | undefined
+  >;
+};
+
+type CircleCiStep = { run?: unknown } | string | null;
+
+type CircleCiConfig = {
+  jobs?: Record<string, { steps?: CircleCiStep[] } | null | undefined>;
+};
+
+export const CI_PROVIDERS: CiProvider[] = [
+  {
+    id: 'github',
+    name: 'GitHub Actions',
+    secretLocation:
+      'a repository secret in Settings > Secrets and variables > Actions',
+    findConfigFiles: (cwd) => {
+      const workflowsDir = path.join('.github', 'workflows');
+      return readDir(path.join(cwd, workflowsDir))
+        .filter((file) => /\.ya?ml$/.test(file))
+        .map((file) => path.join(workflowsDir, file));
+    },
+    addSentryToConfig: addSentryToGitHubWorkflow,
+  },
+  {
+    id: 'gitlab',
+    name: 'GitLab CI/CD',
+    secretLocation: 'a masked variable in Settings > CI/CD > Variables',
+    findConfigFiles: (cwd) => findFiles(cwd, ['.gitlab-ci.yml']),
+    addSentryToConfig: addUploadCommandToScript,
+  },
+  {
+    id: 'circleci',
+    name: 'CircleCI',
+    // CircleCI masks all environment variables in the job output
+    secretLocation:
+      'an environment variable in Project Settings > Environment Variables',
+    findConfigFiles: (cwd) =>
+      findFiles(cwd, [path.join('.circleci', 'config.yml')]),
+    addSentryToConfig: addSentryToCircleCiConfig,
+  },
+  {
+    id: 'bitbucket',
+    name: 'Bitbucket Pipelines',
+    secretLocation:
+      'a secured variable in Repository settings > Pipelines > Repository variables',
+    findConfigFiles: (cwd) => findFiles(cwd, ['bitbucket-pipelines.yml']),
+    addSentryToConfig: addUploadCommandToScript,
+  },
+];
+
+/**
+ * Asks which CI config builds the application and sets up the source maps
+ * upload in it:
+ * - GitHub Actions: passes the auth token secret to the build step
+ * - All providers: adds @param options.uploadCommand (e.g. `npm run sentry:sourcemaps`)
+ *   after the build if it's set
+ *
+ * GitLab, CircleCI and Bitbucket expose project variables to all jobs,
+ * so the auth token doesn't need to be referenced in their configs.
+ *
+ * @returns the selected CI config or undefined if there is none
+ */
+export async function configureCiConfig(options: {
+  uploadCommand?: string;
+}): Promise<CiConfig | undefined> {
+  const configFiles = CI_PROVIDERS.flatMap((provider) =>
+    provider
+      .findConfigFiles(process.cwd())
+      .map((configFile) => ({ provider, configFile })),
+  );
+
+  if (!configFiles.length) {
+    return undefined;
+  }
+
+  const selectedConfig = await selectPrompt<
+    (typeof configFiles)[number] | false
+  >('ciConfigFile', {
+    message: 'Which CI config builds your application?',
+    options: [
+      ...configFiles.map((config) => ({
+        label: config.configFile,
+        hint: config.provider.name,
+        value: config,
+        answer: config.configFile,
+      })),
+      {
+        label: 'None of these',
+        value: false,
+        hint: "I'll configure CI manually",
+      },
+    ],
+    initialValue: configFiles[0],
+  });
+
+  if (!selectedConfig) {
+    Sentry.setTag('ci-config', 'skipped');
+    return undefined;
+  }
+
+  const { provider, configFile } = selectedConfig;
+  Sentry.setTag('ci-provider', provider.id);
+
+  if (provider.id !== 'github' && !options.uploadCommand) {
+    // Nothing to add, the build can read the auth token variable
+    return { provider, configFile, configured: true };
+  }
+
+  const configPath = path.join(process.cwd(), configFile);
+  const prettyConfigFile = chalk.cyan(configFile);
+
+  let modifiedConfig: string | undefined;
+  try {
+    const config = await fs.promises.readFile(configPath, 'utf8');
+    modifiedConfig = provider.addSentryToConfig(config, options);
+
+    if (modifiedConfig === config) {
+      clack.log.info(`${prettyConfigFile} already uploads source maps.`);
+      Sentry.setTag('ci-config', 'already-configured');
+      return { provider, configFile, configured: true };
+    }
+
+    if (modifiedConfig) {
+      await fs.promises.writeFile(configPath, modifiedConfig);
+    }
+  } catch (e) {
+    debug(e);
+    modifiedConfig = undefined;
+  }
+
+  if (!modifiedConfig) {
+    clack.log.warn(
+      `Couldn't find the build in ${prettyConfigFile}. Please follow the instructions below.`,
+    );
+    Sentry.setTag('ci-config', 'fail');
+    return { provider, configFile, configured: false };
+  }
+
+  const changes = [
+    ...(provider.id === 'github'
+      ? [`passed the ${chalk.cyan(AUTH_TOKEN_ENV_VAR)} secret to the build`]
+      : []),
+    ...(options.uploadCommand
+      ? [`added ${chalk.cyan(options.uploadCommand)} after the build`]
+      : []),
+  ];
+  clack.log.success(`Updated ${prettyConfigFile}: ${changes.join(' and ')}.`);
+  Sentry.setTag('ci-config', 'success');
+
+  return { provider, configFile, configured: true };
+}
+
+/**
+ * Passes the Sentry auth token secret to the first step that runs the build
+ * and optionally adds a step that runs @param options.uploadCommand after it.
+ *
+ * The workflow is parsed to find the build step, but it's modified as text
+ * to keep its formatting and comments.
+ *
+ * @returns the modified workflow or undefined if the build step wasn't found
+ */
+export function addSentryToGitHubWorkflow(
+  workflowContent: string,
+  options: { uploadCommand?: string },
+): string | undefined {
+  const workflow = yaml.load(workflowContent) as GitHubWorkflow | undefined;
+  const buildStep = findBuildStep(workflow, (step: GitHubStep) => step.run);
+
+  if (!workflow || !buildStep) {
+    return undefined;
+  }
+
+  const { jobId, stepIndex } = buildStep;
+  const job = workflow.jobs?.[jobId];
+  const steps = job?.steps ?? [];
+
+  const hasAuthToken = [workflow.env, job?.env, steps[stepIndex].env].some(
+    (env) => hasAuthTokenEnvVar(env),
+  );
+  const hasUploadStep =
+    !options.uploadCommand ||
+    steps.some((step) => runsCommand(step?.run, options.uploadCommand));
+
+  if (hasAuthToken && hasUploadStep) {
+    return workflowContent;
+  }
+
+  const lines = workflowContent.split('\n');
+  const stepRange = findStepLines(lines, jobId, stepIndex);
+
+  if (!stepRange) {
+    return undefined;
+  }
+
+  const { itemIndent, bodyIndent, end } = stepRange;
+  const linesToInsert: string[] = [];
+
+  if (!hasAuthToken) {
+    const envLine = findLine(lines, stepRange.start, end, (line) =>
+      new RegExp(`^ {${bodyIndent}}env:\\s*(#.*)?$`).test(line),
+    );
+
+    if (envLine !== undefined) {
+      const envEnd = findBlockEnd(lines, envLine, end, bodyIndent);
+      const envIndent = getIndent(lines[nextContentLine(lines, envLine)]);
+      lines.splice(
+        envEnd,
+        0,
+        `${' '.repeat(envIndent)}${AUTH_TOKEN_ENV_VAR}: ${AUTH_TOKEN_SECRET}`,
+      );
+    } else if (
+      findLine(lines, stepRange.start, end, (line) =>
+        line.startsWith(`${' '.repeat(bodyIndent)}env:`),
+      ) !== undefined
+    ) {
+      // Flow style env objects aren't supported
+      return undefined;
+    } else {
+      linesToInsert.push(
+        `${' '.repeat(bodyIndent)}env:`,
+        `${' '.repeat(
+          bodyIndent + 2,
+        )}${AUTH_TOKEN_ENV_VAR}: ${AUTH_TOKEN_SECRET}`,
+      );
+    }
+  }
+
+  if (!hasUploadStep && options.uploadCommand) {
+    linesToInsert.push(
+      `${' '.repeat(itemIndent)}- name: ${UPLOAD_STEP_NAME}`,
+      `${' '.repeat(bodyIndent)}run: ${options.uploadCommand}`,
+      `${' '.repeat(bodyIndent)}env:`,
+      `${' '.repeat(
+        bodyIndent + 2,
+      )}${AUTH_TOKEN_ENV_VAR}: ${AUTH_TOKEN_SECRET}`,
+    );
+  }
+
+  // The env line might have been inserted into the step already
+  const insertAt = lines.length - (workflowContent.split('\n').length - end);
+  lines.splice(insertAt, 0, ...linesToInsert);
+
+  const modifiedContent = lines.join('\n');
+
+  // Make sure we didn't break the workflow
+  try {
+    const modifiedWorkflow = yaml.load(modifiedContent) as GitHubWorkflow;
+    const modifiedSteps = modifiedWorkflow.jobs?.[jobId]?.steps ?? [];
+    if (!hasAuthToken && !hasAuthTokenEnvVar(modifiedSteps[stepIndex]?.env)) {
+      return undefined;
+    }
+  } catch (e) {
+    debug(e);
+    return undefined;
+  }
+
+  return modifiedContent;
+}
+
+/**
+ * Adds a step that runs @param options.uploadCommand after the first step
+ * that runs the build.
+ *
+ * @returns the modified config or undefined if the build step wasn't found
+ */
+export function addSentryToCircleCiConfig(
+  configContent: string,
+  options: { uploadCommand?: string },
+): string | undefined {
+  const { uploadCommand } = options;
+  const config = yaml.load(configContent) as CircleCiConfig | undefined;
+  const buildStep = findBuildStep(config, getCircleCiCommand);
+
+  if (!config || !buildStep) {
+    return undefined;
+  }
+
+  const steps = config.jobs?.[buildStep.jobId]?.steps ?? [];
+  if (
+    !uploadCommand ||
+    steps.some((step) => runsCommand(getCircleCiCommand(step), uploadCommand))
+  ) {
+    return configContent;
+  }
+
+  const lines = configContent.split('\n');
+  const stepRange = findStepLines(lines, buildStep.jobId, buildStep.stepIndex);
+
+  if (!stepRange) {
+    return undefined;
+  }
+
+  const { itemIndent, bodyIndent, end } = stepRange;
+  lines.splice(
+    end,
+    0,
+    `${' '.repeat(itemIndent)}- run:`,
+    `${' '.repeat(bodyIndent + 2)}name: ${UPLOAD_STEP_NAME}`,
+    `${' '.repeat(bodyIndent + 2)}command: ${uploadCommand}`,
+  );
+
+  return validateModifiedConfig(lines.join('\n'), (modifiedConfig) =>
+    ((modifiedConfig as CircleCiConfig).jobs?.[buildStep.jobId]?.steps ?? [])
+      .map(getCircleCiCommand)
+      .includes(uploadCommand),
+  );
+}
+
+/**
+ * Adds @param options.uploadCommand after the build command in the first
+ * `script` list that runs the build. Used for GitLab CI/CD and Bitbucket
+ * Pipelines, which both run the commands of a `script` list.
+ *
+ * @returns the modified config or undefined if the build command wasn't found
+ */
+export function addUploadCommandToScript(
+  configContent: string,
+  options: { uploadCommand?: string },
+): string | undefined {
+  const { uploadCommand } = options;
+  const scripts = findScripts(yaml.load(configContent));
+  const buildCommand = scripts
+    .flat()
+    .find((command) => BUILD_COMMAND_REGEX.test(command));
+
+  if (!buildCommand) {
+    return undefined;
+  }
+
+  if (
+    !uploadCommand ||
+    scripts.some((script) => script.includes(uploadCommand))
+  ) {
+    return configContent;
+  }
+
+  const lines = configContent.split('\n');
+  const buildLine = findLine(lines, 0, lines.length, (line) =>
+    new RegExp(
+      `^\\s*-\\s+(["']?)${escapeRegExp(buildCommand)}\\1\\s*(#.*)?$`,
+    ).test(line),
+  );
+
+  // Multi-line commands aren't supported
+  if (buildLine === undefined) {
+    return undefined;
+  }
+
+  const itemPrefix = lines[buildLine].match(/^\s*-\s+/)?.[0] ?? '- ';
+  lines.splice(buildLine + 1, 0, `${itemPrefix}${uploadCommand}`);
+
+  return validateModifiedConfig(lines.join('\n'), (modifiedConfig) =>
+    findScripts(modifiedConfig).some(
+      (script) => script[script.indexOf(buildCommand) + 1] === uploadCommand,
+    ),
+  );
+}
+
+function validateModifiedConfig(
+  modifiedContent: string,
+  isValid: (modifiedConfig: unknown) => boolean,
+): string | undefined {
+  try {
+    return isValid(yaml.load(modifiedContent)) ? modifiedContent : undefined;
+  } catch (e) {
+    debug(e);
+    return undefined;
+  }
+}
+
+/**
+ * @returns all `script` lists in the config, in the order of the config
+ */
+function findScripts(value: unknown): string[][] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => findScripts(item));
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return [];
+  }
+
+  return Object.entries(value).flatMap(([key, item]) =>
+    key === 'script' && Array.isArray(item)
+      ? [
+          item.filter(
+            (command): command is string => typeof command === 'string',
+          ),
+        ]
+      : findScripts(item),
+  );
+}
+
+function findBuildStep<Step>(
+  config:
+    | { jobs?: Record<string, { steps?: Step[] } | null | undefined> }
+    | undefined,
+  getCommand: (step: Step) => unknown,
+): { jobId: string; stepIndex: number } | undefined {
+  for (const [jobId, job] of Object.entries(config?.jobs ?? {})) {
+    const stepIndex = (job?.steps ?? []).findIndex((step) => {
+      const command = step ? getCommand(step) : undefined;
+      return typeof command === 'string' && BUILD_COMMAND_REGEX.test(command);
+    });
+
+    if (stepIndex >= 0) {
+      return { jobId, stepIndex };
+    }
+  }
+
+  return undefined;
+}
+
+function getCircleCiCommand(step: CircleCiStep): unknown {
+  if (typeof step !== 'object' || step === null) {
+    return undefined;
+  }
+
+  // `- run: npm run build` or `- run: { command: npm run build }`
+  return typeof step.run === 'object' && step.run !== null
+    ? (step.run as { command?: unknown }).command
+    : step.run;
+}
+
+function runsCommand(run: unknown, command: string | undefined): boolean {
+  return typeof run === 'string' && !!command && run.includes(command);
+}
+
+function hasAuthTokenEnvVar(env: unknown): boolean {
+  return (
+    typeof env === 'object' &&
+    env !== null &&
+    AUTH_TOKEN_ENV_VAR in (env as Record<string, unknown>)
+  );
+}
+
+function findFiles(cwd: string, files: string[]): string[] {
+  return files.filter((file) => fs.existsSync(path.join(cwd, file)));
+}
+
+function readDir(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).sort();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Finds the lines of a step in the workflow.
+ *
+ * @returns the first line of the step, the line after its last content line
+ * and the indentation of the step's `-` and keys
+ */
+function findStepLines(
+  lines: string[],
+  jobId: string,
+  stepIndex: number,
+):
+  | { start: number; end: number; itemIndent: number; bodyIndent: number }
+  | undefined {
+  const jobsLine = findLine(lines, 0, lines.length, (line) =>
+    /^jobs:\s*(#.*)?$/.test(line),
+  );
+  if (jobsLine === undefined) {
+    return undefined;
+  }
+  const jobsEnd = findBlockEnd(lines, jobsLine, lines.length, 0);
+
+  const jobIndent = getIndent(lines[nextContentLine(lines, jobsLine)]);
+  const jobLine = findLine(lines, jobsLine, jobsEnd, (line) =>
+    new RegExp(
+      `^ {${jobIndent}}(?:${escapeRegExp(jobId)}|(["'])${escapeRegExp(
+        jobId,
+      )}\\1):\\s*(#.*)?$`,
+    ).test(line),
+  );
+  if (jobLine === undefined) {
+    return undefined;
+  }
+  const jobEnd = findBlockEnd(lines, jobLine, jobsEnd, jobIndent);
+
+  const jobBodyIndent = getIndent(lines[nextContentLine(lines, jobLine)]);
+  const stepsLine = findLine(lines, jobLine, jobEnd, (line) =>
+    new RegExp(`^ {${jobBodyIndent}}steps:\\s*(#.*)?$`).test(line),
+  );
+  if (stepsLine === undefined) {
+    return undefined;
+  }
+
+  // Steps can be indented at the same level as the `steps` key
+  const itemIndent = getIndent(lines[nextContentLine(lines, stepsLine)]);
+  const itemPrefix = new RegExp(`^ {${itemIndent}}-(?: |$)`);
+
+  const stepStarts: number[] = [];
+  let stepsEnd = jobEnd;
+  for (let i = stepsLine + 1; i < jobEnd; i++) {
+    if (!isContentLine(lines[i])) {
+      continue;
+    }
+    if (itemPrefix.test(lines[i])) {
+      stepStarts.push(i);
+    } else if (getIndent(lines[i]) <= itemIndent) {
+      stepsEnd = i;
+      break;
+    }
+  }
+
+  const start = stepStarts[stepIndex];
+  if (start === undefined) {
+    return undefined;
+  }
+
+  const dashMatch = lines[start].match(/^(\s*-\s+)\S/);
+  const bodyIndent = dashMatch
+    ? dashMatch[1].length
+    : getIndent(lines[nextContentLine(lines, start)]);
+
+  return {
+    start,
+    end: lastContentLine(lines, start, stepStarts[stepIndex + 1] ?? stepsEnd),
+    itemIndent,
+    bodyIndent,
+  };
+}
+
+/**
+ * @returns the line after the last content line of the block that starts
+ * at @param start and contains all following lines indented deeper than
+ * @param indent
+ */
+function findBlockEnd(
+  lines: string[],
+  start: number,
+  end: number,
+  indent: number,
+): number {
+  for (let i = start + 1; i < end; i++) {
+    if (isContentLine(lines[i]) && getIndent(lines[i]) <= indent) {
+      return lastContentLine(lines, start, i);
+    }
+  }
+  return lastContentLine(lines, start, end);
+}
+
+/**
+ * @returns the line after the last content line between @param start and @param end
+ */
+function lastContentLine(lines: string[], start: number, end: number): number {
+  for (let i = end - 1; i > start; i--) {
+    if (isContentLine(lines[i])) {
+      return i + 1;
+    }
+  }
+  return start + 1;
+}
+
+function nextContentLine(lines: string[], start: number): number {
+  for (let i = start + 1; i < lines.length; i++) {
+    if (isContentLine(lines[i])) {
+      return i;
+    }
+  }
+  return start;
+}
+
+function findLine(
+  lines: string[],
+  start: number,
+  end: number,
+  predicate: (line: string) => boolean,
+): number | undefined {
+  for (let i = start; i < end; i++) {
+    if (predicate(lines[i])) {
+      return i;
+    }
+  }
+  return undefined;
+}
+
+function isContentLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length > 0 && !trimmed.startsWith('#');
+}
+
+function getIndent(line: string | undefined): number {
+  return line?.match(/^ */)?.[0].length ?? 0;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
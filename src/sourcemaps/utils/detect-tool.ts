@@ -3,10 +3,12 @@ import { findInstalledPackageFromList } from '../../utils/package-json';
 
 export type SupportedTools =
   | 'webpack'
+  | 'rspack'
   | 'vite'
   | 'rollup'
   | 'esbuild'
   | 'tsc'
+  | 'node-server'
   | 'sentry-cli'
   | 'create-react-app'
   | 'angular'
@@ -23,6 +25,8 @@ export const TOOL_PACKAGE_MAP: Record<string, SupportedTools> = {
   '@angular/core': 'angular',
   'create-react-app': 'create-react-app',
   wrangler: 'wrangler',
+  '@rsbuild/core': 'rspack',
+  '@rspack/core': 'rspack',
   webpack: 'webpack',
   vite: 'vite',
   esbuild: 'esbuild',
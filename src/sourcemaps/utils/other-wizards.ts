@@ -1,16 +1,20 @@
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import clack from '@clack/prompts';
 import chalk from 'chalk';
+import { runNuxtWizard } from '../../nuxt/nuxt-wizard';
+import { runReactRouterWizard } from '../../react-router/react-router-wizard';
+import { runRemixWizard } from '../../remix/remix-wizard';
 import { runSvelteKitWizard } from '../../sveltekit/sveltekit-wizard';
 
-import { abort, abortIfCancelled, getPackageDotJson } from '../../utils/clack';
+import { recordRedirectedIntegration } from '../../utils/change-manifest';
+import { abort, selectPrompt } from '../../utils/clack';
 import {
-  findInstalledPackageFromList,
-  hasPackageInstalled,
-} from '../../utils/package-json';
+  FRAMEWORK_CONFIDENCE,
+  detectIntegrations,
+} from '../../utils/detect-integration';
 
 import * as Sentry from '@sentry/node';
-import { WizardOptions } from '../../utils/types';
+import type { WizardIntegration, WizardOptions } from '../../utils/types';
 
 import * as childProcess from 'child_process';
 
@@ -18,80 +22,125 @@ type WizardFunction = (options: WizardOptions) => Promise<void>;
 
 type FrameworkInfo = {
   frameworkName: string;
-  frameworkPackage: string;
+  sdkPackage: string;
   troubleshootingDocsLink: string;
   sourcemapsDocsLink: string;
   wizard: WizardFunction;
 };
 
-const sdkMap: Record<string, FrameworkInfo> = {
-  '@sentry/sveltekit': {
+/**
+ * The integrations whose wizards also set up source maps upload.
+ *
+ * Wizards which import the source maps wizard themselves are started
+ * in a child process to avoid circular imports.
+ */
+const frameworkWizards: Partial<Record<WizardIntegration, FrameworkInfo>> = {
+  sveltekit: {
     frameworkName: 'SvelteKit',
-    frameworkPackage: '@sveltejs/kit',
+    sdkPackage: '@sentry/sveltekit',
     sourcemapsDocsLink:
       'https://docs.sentry.io/platforms/javascript/guides/sveltekit/manual-setup/#configure-source-maps-upload',
     troubleshootingDocsLink:
       'https://docs.sentry.io/platforms/javascript/guides/sveltekit/sourcemaps/troubleshooting_js/',
     wizard: runSvelteKitWizard,
   },
-  '@sentry/react-native': {
+  reactNative: {
     frameworkName: 'React Native',
-    frameworkPackage: 'react-native',
+    sdkPackage: '@sentry/react-native',
     sourcemapsDocsLink:
       'https://docs.sentry.io/platforms/react-native/sourcemaps/',
     troubleshootingDocsLink:
       'https://docs.sentry.io/platforms/react-native/troubleshooting/#source-maps',
-    wizard: runReactNativeWizard,
+    wizard: () => runWizardInChildProcess('reactNative'),
+  },
+  nextjs: {
+    frameworkName: 'Next.js',
+    sdkPackage: '@sentry/nextjs',
+    sourcemapsDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/nextjs/sourcemaps/',
+    troubleshootingDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/nextjs/sourcemaps/troubleshooting_js/',
+    wizard: () => runWizardInChildProcess('nextjs'),
+  },
+  nuxt: {
+    frameworkName: 'Nuxt',
+    sdkPackage: '@sentry/nuxt',
+    sourcemapsDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/nuxt/sourcemaps/',
+    troubleshootingDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/nuxt/sourcemaps/troubleshooting_js/',
+    wizard: runNuxtWizard,
+  },
+  remix: {
+    frameworkName: 'Remix',
+    sdkPackage: '@sentry/remix',
+    sourcemapsDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/remix/sourcemaps/',
+    troubleshootingDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/remix/sourcemaps/troubleshooting_js/',
+    wizard: runRemixWizard,
+  },
+  reactRouter: {
+    frameworkName: 'React Router',
+    sdkPackage: '@sentry/react-router',
+    sourcemapsDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/react-router/sourcemaps/',
+    troubleshootingDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/react-router/sourcemaps/troubleshooting_js/',
+    wizard: runReactRouterWizard,
+  },
+  angular: {
+    frameworkName: 'Angular',
+    sdkPackage: '@sentry/angular',
+    sourcemapsDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/angular/sourcemaps/',
+    troubleshootingDocsLink:
+      'https://docs.sentry.io/platforms/javascript/guides/angular/sourcemaps/troubleshooting_js/',
+    wizard: () => runWizardInChildProcess('angular'),
   },
 };
 
 export async function checkIfMoreSuitableWizardExistsAndAskForRedirect(): Promise<
   WizardFunction | undefined
 > {
-  const sdkName = await checkIfMoreSuitableWizardExists();
+  const integration = checkIfMoreSuitableWizardExists();
 
-  if (!sdkName) {
+  if (!integration) {
     return undefined;
   }
 
-  return await askForRedirect(sdkName);
+  return await askForRedirect(integration);
 }
 
-async function checkIfMoreSuitableWizardExists(): Promise<string | undefined> {
+function checkIfMoreSuitableWizardExists(): WizardIntegration | undefined {
   Sentry.setTag('using-wrong-wizard', false);
 
-  const packageJson = await getPackageDotJson();
-
-  const installedSdkPackage = findInstalledPackageFromList(
-    Object.keys(sdkMap),
-    packageJson,
+  // Only a framework package is a strong enough signal to recommend
+  // another wizard, so we ignore integrations detected by config files.
+  const suitableIntegration = detectIntegrations().find(
+    ({ integration, confidence }) =>
+      !!frameworkWizards[integration] && confidence >= FRAMEWORK_CONFIDENCE,
   );
 
-  if (!installedSdkPackage) {
-    return undefined;
-  }
-
-  const sdkPackageName = installedSdkPackage.name;
-
-  const { frameworkPackage } = sdkMap[sdkPackageName];
-
-  if (!hasPackageInstalled(frameworkPackage, packageJson)) {
-    // The user has installed the SDK but not the framework.
-    // Maybe it's a false positive and the user is using a different framework.
-    // Let's not redirect them to the framework wizard in that case.
+  if (!suitableIntegration) {
     return undefined;
   }
 
   Sentry.setTag('using-wrong-wizard', true);
 
-  return sdkPackageName;
+  return suitableIntegration.integration;
 }
 
 async function askForRedirect(
-  sdkName: string,
+  integration: WizardIntegration,
 ): Promise<WizardFunction | undefined> {
-  const { frameworkName, sourcemapsDocsLink, troubleshootingDocsLink, wizard } =
-    sdkMap[sdkName];
+  const {
+    frameworkName,
+    sdkPackage,
+    sourcemapsDocsLink,
+    troubleshootingDocsLink,
+    wizard,
+  } = frameworkWizards[integration] as FrameworkInfo;
 
   clack.log.warn(
     `${chalk.yellow(
@@ -99,7 +148,7 @@ async function askForRedirect(
     )}
 
 We recommend using our dedicated ${frameworkName} wizard instead of this wizard.
-The ${frameworkName} wizard will set up our ${sdkName} SDK and also configure uploading source maps for you.
+The ${frameworkName} wizard will set up our ${sdkPackage} SDK and also configure uploading source maps for you.
 
 If you already tried the ${frameworkName} wizard and it didn't work for you, check out the following guides:
 
@@ -111,8 +160,9 @@ ${troubleshootingDocsLink}
 `,
   );
 
-  const nextStep: 'redirect' | 'continue' | 'stop' = await abortIfCancelled(
-    clack.select({
+  const nextStep: 'redirect' | 'continue' | 'stop' = await selectPrompt(
+    'runFrameworkWizard',
+    {
       message: `Do you want to run the ${frameworkName} wizard now?`,
       options: [
         {
@@ -130,14 +180,17 @@ ${troubleshootingDocsLink}
           hint: 'Exit this wizard',
         },
       ],
-    }),
+    },
   );
 
   Sentry.setTag('wrong-wizard-decision', nextStep);
 
   switch (nextStep) {
     case 'redirect':
-      return wizard;
+      return (options) => {
+        recordRedirectedIntegration(integration);
+        return wizard(options);
+      };
     case 'stop':
       await abort('Exiting Wizard', 0);
       break;
@@ -146,9 +199,11 @@ ${troubleshootingDocsLink}
   }
 }
 
-function runReactNativeWizard(): Promise<void> {
-  const [runner, ...wizardArgs] = [...process.argv];
-  wizardArgs.push('--integration', 'reactNative');
+function runWizardInChildProcess(
+  integration: WizardIntegration,
+): Promise<void> {
+  const [runner, ...args] = [...process.argv];
+  const wizardArgs = replaceIntegrationArg(args, integration);
 
   try {
     childProcess.spawnSync(runner, wizardArgs, {
@@ -161,3 +216,44 @@ function runReactNativeWizard(): Promise<void> {
 
   return Promise.resolve();
 }
+
+// Only the parent process commits the changes and writes the setup report
+const PARENT_PROCESS_ARGS = [
+  '--commit-to-branch',
+  '--commitToBranch',
+  '--report',
+];
+
+/**
+ * Replaces the `--integration` arg, so that the child process doesn't
+ * run the source maps wizard again before the redirected wizard. Also removes
+ * the args that only the parent process handles.
+ *
+ * exported only for testing
+ */
+export function replaceIntegrationArg(
+  args: string[],
+  integration: WizardIntegration,
+): string[] {
+  const wizardArgs: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '-i' || arg === '--integration') {
+      // Skip the value of the arg as well
+      i++;
+    } else if (PARENT_PROCESS_ARGS.includes(arg)) {
+      // The value of these args is optional
+      if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+        i++;
+      }
+    } else if (
+      !/^(-i|--integration)=/.test(arg) &&
+      !PARENT_PROCESS_ARGS.some((parentArg) => arg.startsWith(`${parentArg}=`))
+    ) {
+      wizardArgs.push(arg);
+    }
+  }
+
+  return [...wizardArgs, '--integration', integration];
+}
@@ -3,9 +3,9 @@ import clack from '@clack/prompts';
 import chalk from 'chalk';
 import { minVersion, satisfies } from 'semver';
 import {
-  abortIfCancelled,
   getPackageDotJson,
   installPackage,
+  selectPrompt,
 } from '../../utils/clack';
 
 import * as Sentry from '@sentry/node';
@@ -17,7 +17,7 @@ const MINIMUM_DEBUG_ID_SDK_VERSION = '7.47.0';
 // The reason is that some SDKs depend on others and some users might
 // have added the dependencies to their package.json. We want to make sure
 // that we actually detect the "top-level" SDK first.
-const SENTRY_SDK_PACKAGE_NAMES = [
+export const SENTRY_SDK_PACKAGE_NAMES = [
   // SDKs using other framework SDKs need to be checked first
   '@sentry/astro',
   '@sentry/gatsby',
@@ -135,25 +135,23 @@ async function handleManuallyUpdateSdk(minInstalledVersion: string) {
 https://github.com/getsentry/sentry-javascript/blob/develop/MIGRATION.md#upgrading-from-6x-to-7x
 `);
 
-  const didUpdate = await abortIfCancelled(
-    clack.select({
-      message: 'Did you update your SDK to the latest version?',
-      options: [
-        {
-          label: 'Yes!',
-          value: true,
-        },
-        {
-          label: "No, I'll do it later...",
-          value: false,
-          hint: chalk.yellow(
-            `Remember to update your SDK to at least ${MINIMUM_DEBUG_ID_SDK_VERSION}.`,
-          ),
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const didUpdate = await selectPrompt('updatedSdk', {
+    message: 'Did you update your SDK to the latest version?',
+    options: [
+      {
+        label: 'Yes!',
+        value: true,
+      },
+      {
+        label: "No, I'll do it later...",
+        value: false,
+        hint: chalk.yellow(
+          `Remember to update your SDK to at least ${MINIMUM_DEBUG_ID_SDK_VERSION}.`,
+        ),
+      },
+    ],
+    initialValue: true,
+  });
 
   Sentry.setTag(
     'resolved-sdk-status',
@@ -164,27 +162,25 @@ https://github.com/getsentry/sentry-javascript/blob/develop/MIGRATION.md#upgradi
 async function handleAutoUpdateSdk(packageName: string) {
   Sentry.setTag('initial-sdk-version', '>=7.0.0 <7.47.0');
 
-  const shouldUpdate = await abortIfCancelled(
-    clack.select({
-      message:
-        'Do you want to automatically update your SDK to the latest version?',
-      options: [
-        {
-          label: 'Yes!',
-          value: true,
-          hint: chalk.green('Recommended'),
-        },
-        {
-          label: "No, I'll do it later...",
-          value: false,
-          hint: chalk.yellow(
-            `Remember to update your SDK to at least ${MINIMUM_DEBUG_ID_SDK_VERSION}.`,
-          ),
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const shouldUpdate = await selectPrompt('updateSdk', {
+    message:
+      'Do you want to automatically update your SDK to the latest version?',
+    options: [
+      {
+        label: 'Yes!',
+        value: true,
+        hint: chalk.green('Recommended'),
+      },
+      {
+        label: "No, I'll do it later...",
+        value: false,
+        hint: chalk.yellow(
+          `Remember to update your SDK to at least ${MINIMUM_DEBUG_ID_SDK_VERSION}.`,
+        ),
+      },
+    ],
+    initialValue: true,
+  });
 
   if (shouldUpdate) {
     await installPackage({
@@ -214,22 +210,20 @@ ${chalk.dim(`Take a look at our docs to get started:
 https://docs.sentry.io/`)}`,
   );
 
-  const installedSDK = await abortIfCancelled(
-    clack.select({
-      message: 'Did you set up your Sentry SDK?',
-      options: [
-        { label: 'Yes, continue!', value: true },
-        {
-          label: "I'll do it later...",
-          value: false,
-          hint: chalk.yellow(
-            'You need to set up an SDK before you can use Sentry',
-          ),
-        },
-      ],
-      initialValue: true,
-    }),
-  );
+  const installedSDK = await selectPrompt('setUpSdk', {
+    message: 'Did you set up your Sentry SDK?',
+    options: [
+      { label: 'Yes, continue!', value: true },
+      {
+        label: "I'll do it later...",
+        value: false,
+        hint: chalk.yellow(
+          'You need to set up an SDK before you can use Sentry',
+        ),
+      },
+    ],
+    initialValue: true,
+  });
 
   Sentry.setTag(
     'resolved-sdk-status',
@@ -0,0 +1,405 @@
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import clack from '@clack/prompts';
+import chalk from 'chalk';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as Sentry from '@sentry/node';
+
+import { hasAnswers } from '../../utils/answers';
+import {
+  artifactsExist,
+  askToRunBuildOrEnterPathOrProceed,
+  confirmPrompt,
+  getBuildCommand,
+  runBuildCommand,
+} from '../../utils/clack';
+import { stripAnsii } from '../../utils/string';
+
+const JS_FILE_EXTENSIONS = ['.js', '.mjs'];
+
+// Large builds emit hundreds of chunks, so we only show the first ones
+const MAX_TABLE_ROWS = 25;
+
+const SOURCE_MAPPING_URL_REGEX = /^\/\/[#@] sourceMappingURL=(\S+)\s*$/m;
+const DEBUG_ID_COMMENT_REGEX = /^\/\/# debugId=\S+/m;
+const DEBUG_ID_SNIPPET = '_sentryDebugIds';
+
+export type SourcemapVerificationResult = {
+  /** The path of the JS file relative to the artifacts folder */
+  file: string;
+  /** The source map exists next to the file, at the referenced path or inline */
+  hasSourceMap: boolean;
+  /** The file contains the `//# debugId=` comment */
+  hasDebugIdComment: boolean;
+  /** The file contains the `_sentryDebugIds` snippet */
+  hasDebugIdSnippet: boolean;
+  /** The source map contains the original source code */
+  hasSourcesContent: boolean;
+  /**
+   * The file references its source map via `sourceMappingURL`, so browsers
+   * and everyone else can download it if it's deployed
+   */
+  exposesSourceMap: boolean;
+};
+
+/**
+ * Checks the emitted JS files in the build artifacts folder for the most
+ * common reasons of minified stack traces in Sentry.
+ */
+export function verifySourcemaps(
+  artifactsDir: string,
+): SourcemapVerificationResult[] {
+  return findJsFiles(artifactsDir)
+    .map((file) => verifyJsFile(artifactsDir, file))
+    .sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Offers to build the app before verifying its source maps, so that the
+ * verification doesn't check artifacts of a build without the new source maps
+ * setup.
+ *
+ * @param injectScript the npm script that injects the debug IDs, if it
+ * doesn't run as part of the build command
+ *
+ * @returns true if the app was built and its source maps can be verified
+ */
+export async function buildForSourcemapsVerification(
+  injectScript?: string,
+): Promise<boolean> {
+  // The build command isn't part of the answers file, so we don't run it
+  const buildCommand = hasAnswers() ? null : await getBuildCommand();
+
+  const shouldBuild =
+    !!buildCommand &&
+    (await confirmPrompt('buildBeforeVerification', {
+      message: `Do you want to build your app${
+        injectScript ? ` and run the ${chalk.cyan(injectScript)} script` : ''
+      } to verify your source maps?`,
+    }));
+
+  if (
+    !buildCommand ||
+    !shouldBuild ||
+    !(await runBuildCommand(buildCommand)) ||
+    (injectScript && !(await runBuildCommand(injectScript)))
+  ) {
+    clack.log.warn(
+      `Skipped verifying your source maps. Build your app and run the wizard with the ${chalk.cyan(
+        '--artifacts',
+      )} option to verify them.`,
+    );
+    Sentry.setTag('sourcemaps-verification', 'not-built');
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Verifies the source maps of the build artifacts at @param relativeArtifactPath
+ * and prints a table of the results. Offers to run the build if the
+ * artifacts don't exist yet.
+ *
+ * @param checkExposedSourceMaps false if the artifacts aren't deployed publicly
+ * and need `sourceMappingURL` (e.g. a Node.js server)
+ */
+export async function runSourcemapsVerification(
+  relativeArtifactPath: string,
+  checkExposedSourceMaps = true,
+): Promise<void> {
+  let artifactPath = relativeArtifactPath;
+
+  // In `--answers` mode, missing artifacts would abort the wizard after a successful setup
+  if (!artifactsExist(artifactPath) && !hasAnswers()) {
+    const runBuildOrEnterPathOrProceed =
+      await askToRunBuildOrEnterPathOrProceed({
+        relativeArtifactPath: artifactPath,
+      });
+
+    artifactPath =
+      runBuildOrEnterPathOrProceed.relativeArtifactPath ?? artifactPath;
+  }
+
+  if (!artifactsExist(artifactPath)) {
+    clack.log.warn(
+      `Skipped verifying your source maps because there are no build artifacts at ${chalk.cyan(
+        artifactPath,
+      )}. Run the wizard with the correct ${chalk.cyan(
+        '--artifacts',
+      )} path to verify them.`,
+    );
+    Sentry.setTag('sourcemaps-verification', 'no-artifacts');
+    return;
+  }
+
+  const results = verifySourcemaps(path.resolve(process.cwd(), artifactPath));
+
+  if (!results.length) {
+    clack.log.warn(
+      `Couldn't find any JavaScript files in ${chalk.cyan(
+        artifactPath,
+      )} to verify.`,
+    );
+    Sentry.setTag('sourcemaps-verification', 'no-js-files');
+    return;
+  }
+
+  clack.note(
+    formatVerificationTable(results, checkExposedSourceMaps),
+    `Source maps in ${artifactPath}`,
+  );
+
+  const problems = getVerificationProblems(results, checkExposedSourceMaps);
+
+  Sentry.setTag(
+    'sourcemaps-verification',
+    problems.length ? 'problems' : 'success',
+  );
+
+  if (!problems.length) {
+    clack.log.success(
+      checkExposedSourceMaps
+        ? 'All JavaScript files have source maps with debug IDs and no source map is exposed publicly.'
+        : 'All JavaScript files have source maps with debug IDs.',
+    );
+    return;
+  }
+
+  clack.log.warn(
+    `We found problems that can lead to minified stack traces in Sentry:
+
+${problems.map((problem) => `- ${problem}`).join('\n')}
+
+Please check your build config and make sure to build your app after setting up source maps.`,
+  );
+}
+
+/**
+ * exported only for testing
+ */
+export function formatVerificationTable(
+  results: SourcemapVerificationResult[],
+  checkExposedSourceMaps = true,
+): string {
+  const hasProblems = (result: SourcemapVerificationResult) =>
+    hasVerificationProblems(result, checkExposedSourceMaps);
+
+  // Show the files with problems first
+  const sortedResults = [
+    ...results.filter((result) => hasProblems(result)),
+    ...results.filter((result) => !hasProblems(result)),
+  ];
+
+  const header = [
+    'File',
+    'Source map',
+    'Debug ID',
+    'Sources content',
+    ...(checkExposedSourceMaps ? ['Public source map'] : []),
+  ];
+  const rows = sortedResults
+    .slice(0, MAX_TABLE_ROWS)
+    .map((result) => [
+      result.file,
+      formatCheck(result.hasSourceMap),
+      result.hasDebugIdComment && result.hasDebugIdSnippet
+        ? formatCheck(true)
+        : result.hasDebugIdComment || result.hasDebugIdSnippet
+        ? chalk.yellow('partial')
+        : formatCheck(false),
+      result.hasSourceMap ? formatCheck(result.hasSourcesContent) : '-',
+      ...(checkExposedSourceMaps
+        ? [result.exposesSourceMap ? chalk.red('yes') : chalk.green('no')]
+        : []),
+    ]);
+
+  const columnWidths = header.map((cell, column) =>
+    Math.max(cell.length, ...rows.map((row) => stripAnsii(row[column]).length)),
+  );
+
+  const lines = [header, ...rows].map((row) =>
+    row
+      .map((cell, column) =>
+        column === row.length - 1
+          ? cell
+          : `${cell}${' '.repeat(
+              columnWidths[column] - stripAnsii(cell).length,
+            )}`,
+      )
+      .join('  '),
+  );
+
+  if (sortedResults.length > MAX_TABLE_ROWS) {
+    lines.push(
+      chalk.dim(`... and ${sortedResults.length - MAX_TABLE_ROWS} more files`),
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * exported only for testing
+ */
+export function getVerificationProblems(
+  results: SourcemapVerificationResult[],
+  checkExposedSourceMaps = true,
+): string[] {
+  const countFiles = (
+    predicate: (result: SourcemapVerificationResult) => boolean,
+  ) => results.filter(predicate).length;
+
+  const problems: string[] = [];
+
+  const withoutSourceMap = countFiles((result) => !result.hasSourceMap);
+  if (withoutSourceMap) {
+    problems.push(
+      `${withoutSourceMap} file(s) have no source map. Make sure source map generation is turned on.`,
+    );
+  }
+
+  const withoutDebugId = countFiles(
+    (result) => !result.hasDebugIdComment || !result.hasDebugIdSnippet,
+  );
+  if (withoutDebugId) {
+    problems.push(
+      `${withoutDebugId} file(s) have no debug ID injected. Make sure the Sentry plugin or ${chalk.cyan(
+        'sentry-cli sourcemaps inject',
+      )} runs on your build output.`,
+    );
+  }
+
+  const withoutSourcesContent = countFiles(
+    (result) => result.hasSourceMap && !result.hasSourcesContent,
+  );
+  if (withoutSourcesContent) {
+    problems.push(
+      `${withoutSourcesContent} source map(s) don't contain ${chalk.cyan(
+        'sourcesContent',
+      )}, so Sentry can't show your original source code.`,
+    );
+  }
+
+  const exposingSourceMap = countFiles((result) => result.exposesSourceMap);
+  if (checkExposedSourceMaps && exposingSourceMap) {
+    problems.push(
+      `${exposingSourceMap} file(s) reference their source map via ${chalk.cyan(
+        'sourceMappingURL',
+      )}, which exposes your source code publicly once deployed. Use hidden source maps or delete the source maps after uploading them.`,
+    );
+  }
+
+  return problems;
+}
+
+function verifyJsFile(
+  artifactsDir: string,
+  filePath: string,
+): SourcemapVerificationResult {
+  const content = fs.readFileSync(filePath, 'utf8');
+  const sourceMappingUrl = content.match(SOURCE_MAPPING_URL_REGEX)?.[1];
+
+  let sourceMapContent: string | undefined;
+  if (sourceMappingUrl?.startsWith('data:')) {
+    sourceMapContent = decodeDataUrl(sourceMappingUrl);
+  } else {
+    const sourceMapPath = sourceMappingUrl
+      ? path.resolve(path.dirname(filePath), sourceMappingUrl.split('?')[0])
+      : `${filePath}.map`;
+    sourceMapContent = readFileIfExists(sourceMapPath);
+  }
+
+  return {
+    file: path.relative(artifactsDir, filePath).split(path.sep).join('/'),
+    hasSourceMap: sourceMapContent !== undefined,
+    hasDebugIdComment: DEBUG_ID_COMMENT_REGEX.test(content),
+    hasDebugIdSnippet: content.includes(DEBUG_ID_SNIPPET),
+    hasSourcesContent:
+      sourceMapContent !== undefined && hasSourcesContent(sourceMapContent),
+    exposesSourceMap:
+      !!sourceMappingUrl &&
+      (sourceMappingUrl.startsWith('data:') || sourceMapContent !== undefined),
+  };
+}
+
+function findJsFiles(dir: string): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  return entries.flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      return entry.name === 'node_modules' ? [] : findJsFiles(entryPath);
+    }
+
+    return entry.isFile() &&
+      JS_FILE_EXTENSIONS.includes(path.extname(entry.name))
+      ? [entryPath]
+      : [];
+  });
+}
+
+function hasSourcesContent(sourceMapContent: string): boolean {
+  try {
+    const sourceMap = JSON.parse(sourceMapContent) as {
+      sourcesContent?: unknown;
+      sections?: { map?: { sourcesContent?: unknown } }[];
+    };
+
+    // Index maps contain the actual source maps in sections
+    const sourcesContents = sourceMap.sections
+      ? sourceMap.sections.map((section) => section.map?.sourcesContent)
+      : [sourceMap.sourcesContent];
+
+    return sourcesContents.some(
+      (sourcesContent) =>
+        Array.isArray(sourcesContent) &&
+        sourcesContent.some((source) => typeof source === 'string'),
+    );
+  } catch {
+    return false;
+  }
+}
+
+function decodeDataUrl(dataUrl: string): string | undefined {
+  const [meta, data] = dataUrl.split(',', 2);
+  if (data === undefined) {
+    return undefined;
+  }
+
+  return meta.endsWith(';base64')
+    ? Buffer.from(data, 'base64').toString('utf8')
+    : decodeURIComponent(data);
+}
+
+function readFileIfExists(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+function hasVerificationProblems(
+  result: SourcemapVerificationResult,
+  checkExposedSourceMaps: boolean,
+): boolean {
+  return (
+    !result.hasSourceMap ||
+    !result.hasDebugIdComment ||
+    !result.hasDebugIdSnippet ||
+    !result.hasSourcesContent ||
+    (checkExposedSourceMaps && result.exposesSourceMap)
+  );
+}
+
+function formatCheck(passed: boolean): string {
+  return passed ? chalk.green('yes') : chalk.red('no');
+}
@@ -21,6 +21,18 @@ import {
   isUsingTypeScript,
   showCopyPasteInstructions,
 } from '../../utils/clack';
+import {
+  LOGS_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../../utils/features';
+import {
+  DEFAULT_SDK_INIT_OPTIONS,
+  askForSdkInitOptions,
+  getSdkInitValueCode,
+  writeDsnToEnvFile,
+} from '../../utils/sdk-init-options';
+import type { SdkInitOptions, WizardOptions } from '../../utils/types';
 import { findFile, hasSentryContent } from '../../utils/ast-utils';
 
 import * as recast from 'recast';
@@ -39,30 +51,21 @@ export async function createOrMergeSvelteKitFiles(
   projectInfo: ProjectInfo,
   svelteConfig: PartialBackwardsForwardsCompatibleSvelteConfig,
   setupForSvelteKitTracing: boolean,
+  options: Pick<WizardOptions, 'features' | 'sdkInitOptions' | 'dsnInEnv'> = {},
 ): Promise<void> {
-  const selectedFeatures = await featureSelectionPrompt([
-    {
-      id: 'performance',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Tracing',
-      )} to track the performance of your application?`,
-      enabledHint: 'recommended',
-    },
-    {
-      id: 'replay',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Session Replay',
-      )} to get a video-like reproduction of errors during a user session?`,
-      enabledHint: 'recommended, but increases bundle size',
-    },
-    {
-      id: 'logs',
-      prompt: `Do you want to enable ${chalk.bold(
-        'Logs',
-      )} to send your application logs to Sentry?`,
-      enabledHint: 'recommended',
+  const selectedFeatures = await featureSelectionPrompt(
+    [TRACING_FEATURE, REPLAY_FEATURE, LOGS_FEATURE] as const,
+    options.features,
+  );
+  const sdkInitOptions = await askForSdkInitOptions(options, {
+    selectedFeatures: {
+      tracing: selectedFeatures.performance,
+      replay: selectedFeatures.replay,
     },
-  ] as const);
+    envVarConvention: 'import.meta.env',
+    // Environment variables are only available in the browser with this prefix
+    envVarPrefix: 'VITE_',
+  });
 
   const { clientHooksPath, serverHooksPath } = getHooksConfigDirs(svelteConfig);
 
@@ -78,6 +81,10 @@ export async function createOrMergeSvelteKitFiles(
   const fileEnding = isUsingTypeScript() ? 'ts' : 'js';
 
   const { dsn } = projectInfo;
+  sdkInitOptions.dsnEnvVar = await writeDsnToEnvFile(options, dsn, {
+    envFileName: '.env.local',
+    envVarName: 'VITE_SENTRY_DSN',
+  });
 
   if (setupForSvelteKitTracing) {
     await enableTracingAndInstrumentation(
@@ -87,12 +94,17 @@ export async function createOrMergeSvelteKitFiles(
 
     try {
       if (!originalInstrumentationServerFile) {
-        await createNewInstrumentationServerFile(dsn, selectedFeatures);
+        await createNewInstrumentationServerFile(
+          dsn,
+          selectedFeatures,
+          sdkInitOptions,
+        );
       } else {
         await mergeInstrumentationServerFile(
           originalInstrumentationServerFile,
           dsn,
           selectedFeatures,
+          sdkInitOptions,
         );
       }
     } catch (e) {
@@ -106,7 +118,11 @@ export async function createOrMergeSvelteKitFiles(
       debug(e);
 
       await showCopyPasteInstructions({
-        codeSnippet: getInstrumentationServerTemplate(dsn, selectedFeatures),
+        codeSnippet: getInstrumentationServerTemplate(
+          dsn,
+          selectedFeatures,
+          sdkInitOptions,
+        ),
         filename: `instrumentation.server.${
           fileEnding ?? isUsingTypeScript() ? 'ts' : 'js'
         }`,
@@ -127,6 +143,7 @@ export async function createOrMergeSvelteKitFiles(
       'server',
       dsn,
       selectedFeatures,
+      sdkInitOptions,
       !setupForSvelteKitTracing,
     );
   } else {
@@ -135,6 +152,7 @@ export async function createOrMergeSvelteKitFiles(
       'server',
       dsn,
       selectedFeatures,
+      sdkInitOptions,
       !setupForSvelteKitTracing,
     );
   }
@@ -149,6 +167,7 @@ export async function createOrMergeSvelteKitFiles(
       'client',
       dsn,
       selectedFeatures,
+      sdkInitOptions,
       true,
     );
   } else {
@@ -157,6 +176,7 @@ export async function createOrMergeSvelteKitFiles(
       'client',
       dsn,
       selectedFeatures,
+      sdkInitOptions,
       true,
     );
   }
@@ -207,12 +227,18 @@ async function createNewHooksFile(
     replay: boolean;
     logs: boolean;
   },
+  sdkInitOptions: SdkInitOptions,
   setupForSvelteKitTracing: boolean,
 ): Promise<void> {
   const filledTemplate =
     hooktype === 'client'
-      ? getClientHooksTemplate(dsn, selectedFeatures)
-      : getServerHooksTemplate(dsn, selectedFeatures, setupForSvelteKitTracing);
+      ? getClientHooksTemplate(dsn, selectedFeatures, sdkInitOptions)
+      : getServerHooksTemplate(
+          dsn,
+          selectedFeatures,
+          setupForSvelteKitTracing,
+          sdkInitOptions,
+        );
 
   await fs.promises.mkdir(path.dirname(hooksFileDest), { recursive: true });
   await fs.promises.writeFile(hooksFileDest, filledTemplate);
@@ -227,10 +253,12 @@ async function createNewInstrumentationServerFile(
     performance: boolean;
     logs: boolean;
   },
+  sdkInitOptions: SdkInitOptions,
 ): Promise<void> {
   const filledTemplate = getInstrumentationServerTemplate(
     dsn,
     selectedFeatures,
+    sdkInitOptions,
   );
 
   const fileEnding = isUsingTypeScript() ? 'ts' : 'js';
@@ -273,6 +301,7 @@ async function mergeHooksFile(
     replay: boolean;
     logs: boolean;
   },
+  sdkInitOptions: SdkInitOptions,
   includeSentryInit: boolean,
 ): Promise<void> {
   const originalHooksMod = await loadFile(hooksFile);
@@ -308,9 +337,19 @@ Skipping adding Sentry functionality to.`,
     await modifyAndRecordFail(
       () => {
         if (hookType === 'client') {
-          insertClientInitCall(dsn, originalHooksMod, selectedFeatures);
+          insertClientInitCall(
+            dsn,
+            originalHooksMod,
+            selectedFeatures,
+            sdkInitOptions,
+          );
         } else {
-          insertServerInitCall(dsn, originalHooksMod, selectedFeatures);
+          insertServerInitCall(
+            dsn,
+            originalHooksMod,
+            selectedFeatures,
+            sdkInitOptions,
+          );
         }
       },
       'init-call-injection',
@@ -364,6 +403,7 @@ async function mergeInstrumentationServerFile(
     replay: boolean;
     logs: boolean;
   },
+  sdkInitOptions: SdkInitOptions,
 ): Promise<void> {
   const originalInstrumentationServerMod = await loadFile(
     instrumentationServerFilePath,
@@ -399,6 +439,7 @@ Skipping adding Sentry functionality to it.`,
         dsn,
         originalInstrumentationServerMod,
         selectedFeatures,
+        sdkInitOptions,
       );
     },
     'init-call-injection',
@@ -437,6 +478,7 @@ export function insertClientInitCall(
     replay: boolean;
     logs: boolean;
   },
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ): void {
   const initCallComment = `
     // If you don't want to use Session Replay, remove the \`Replay\` integration,
@@ -454,12 +496,12 @@ export function insertClientInitCall(
   };
 
   if (selectedFeatures.performance) {
-    initArgs.tracesSampleRate = 1.0;
+    initArgs.tracesSampleRate = sdkInitOptions.tracesSampleRate;
   }
 
   if (selectedFeatures.replay) {
-    initArgs.replaysSessionSampleRate = 0.1;
-    initArgs.replaysOnErrorSampleRate = 1.0;
+    initArgs.replaysSessionSampleRate = sdkInitOptions.replaysSessionSampleRate;
+    initArgs.replaysOnErrorSampleRate = sdkInitOptions.replaysOnErrorSampleRate;
     initArgs.integrations = [builders.functionCall('Sentry.replayIntegration')];
   }
 
@@ -471,11 +513,16 @@ export function insertClientInitCall(
   // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
   const initCall = builders.functionCall('Sentry.init', initArgs);
 
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-  const generatedInitCode = generateCode(initCall).code;
+  const generatedInitCode = replaceDsnWithEnvVar(
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+    generateCode(initCall).code,
+    sdkInitOptions,
+  );
   const initCodeWithHint = generatedInitCode.replace(
     /\n\}\)$/,
-    `,${DATA_COLLECTION_HINT}\n})`,
+    `,${getEnvironmentAndReleaseCode(
+      sdkInitOptions,
+    )}${DATA_COLLECTION_HINT}\n})`,
   );
 
   // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
@@ -505,6 +552,7 @@ function insertServerInitCall(
     performance: boolean;
     logs: boolean;
   },
+  sdkInitOptions: SdkInitOptions,
 ): void {
   const initArgs: {
     dsn: string;
@@ -515,7 +563,7 @@ function insertServerInitCall(
   };
 
   if (selectedFeatures.performance) {
-    initArgs.tracesSampleRate = 1.0;
+    initArgs.tracesSampleRate = sdkInitOptions.tracesSampleRate;
   }
 
   if (selectedFeatures.logs) {
@@ -526,11 +574,16 @@ function insertServerInitCall(
   // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
   const initCall = builders.functionCall('Sentry.init', initArgs);
 
-  // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
-  const generatedInitCode = generateCode(initCall).code;
+  const generatedInitCode = replaceDsnWithEnvVar(
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-argument
+    generateCode(initCall).code,
+    sdkInitOptions,
+  );
   const initCodeWithHint = generatedInitCode.replace(
     /\n\}\)$/,
-    `,${DATA_COLLECTION_HINT}\n})`,
+    `,${getEnvironmentAndReleaseCode(
+      sdkInitOptions,
+    )}${DATA_COLLECTION_HINT}\n})`,
   );
 
   const originalModAST = originalMod.$ast as Program;
@@ -546,6 +599,42 @@ function insertServerInitCall(
   );
 }
 
+/**
+ * magicast can't build the member expressions that read environment variables,
+ * so the options are added to the generated code like the `dataCollection` hint.
+ */
+function getEnvironmentAndReleaseCode(sdkInitOptions: SdkInitOptions): string {
+  return (['environment', 'release'] as const)
+    .map((key) => {
+      const value = sdkInitOptions[key];
+      return value
+        ? `
+    ${key}: ${getSdkInitValueCode(value, 'import.meta.env')},`
+        : '';
+    })
+    .join('');
+}
+
+/**
+ * For the same reason, the DSN is replaced with the environment variable
+ * in the generated code if it should be read from there.
+ */
+function replaceDsnWithEnvVar(
+  initCode: string,
+  sdkInitOptions: SdkInitOptions,
+): string {
+  const { dsnEnvVar } = sdkInitOptions;
+  if (!dsnEnvVar) {
+    return initCode;
+  }
+
+  return initCode.replace(
+    /dsn: (["']).*?\1/,
+    () =>
+      `dsn: ${getSdkInitValueCode({ envVar: dsnEnvVar }, 'import.meta.env')}`,
+  );
+}
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 function wrapHandleError(mod: ProxifiedModule<any>): void {
   const modAst = mod.exports.$ast as Program;
@@ -19,7 +19,7 @@ import {
   preserveTrailingNewline,
 } from '../../utils/ast-utils';
 import { debug } from '../../utils/debug';
-import { abortIfCancelled } from '../../utils/clack';
+import { selectPrompt } from '../../utils/clack';
 import type { ProjectInfo } from './types';
 import { modifyAndRecordFail } from './utils';
 
@@ -111,15 +111,13 @@ It may not seem like it but sometimes our magical powers are limited ;)`)}`,
   // eslint-disable-next-line no-console
   console.log(codeSnippet);
 
-  await abortIfCancelled(
-    clack.select({
-      message: 'Did you copy the snippet above?',
-      options: [
-        { label: 'Yes!', value: true, hint: "Great, that's already it!" },
-      ],
-      initialValue: true,
-    }),
-  );
+  await selectPrompt('snippetApplied', {
+    message: 'Did you copy the snippet above?',
+    options: [
+      { label: 'Yes!', value: true, hint: "Great, that's already it!" },
+    ],
+    initialValue: true,
+  });
 }
 
 const getViteConfigCodeSnippet = (
@@ -7,7 +7,6 @@ import * as Sentry from '@sentry/node';
 import { traceStep, withTelemetry } from '../telemetry';
 import {
   abort,
-  abortIfCancelled,
   addDotEnvSentryBuildPluginFile,
   askShouldCreateExamplePage,
   confirmContinueIfNoOrDirtyGitRepo,
@@ -18,6 +17,7 @@ import {
   installPackage,
   printWelcome,
   runPrettierIfInstalled,
+  selectPrompt,
 } from '../utils/clack';
 import { getPackageVersion, hasPackageInstalled } from '../utils/package-json';
 import { NPM } from '../utils/package-manager';
@@ -70,8 +70,9 @@ export async function runSvelteKitWizardWithTelemetry(
     clack.log.warn(
       "It seems you're using a SvelteKit version <1.0.0 which is not supported by Sentry.\nWe recommend upgrading to the latest 1.x version before you continue.",
     );
-    const shouldContinue = await abortIfCancelled(
-      clack.select({
+    const shouldContinue = await selectPrompt(
+      'continueWithUnsupportedVersion',
+      {
         message: 'Do you want to continue anyway?',
         options: [
           {
@@ -81,7 +82,7 @@ export async function runSvelteKitWizardWithTelemetry(
           },
           { label: "No, I'll upgrade first", value: false },
         ],
-      }),
+      },
     );
     if (!shouldContinue) {
       await abort('Exiting Wizard', 0);
@@ -108,28 +109,26 @@ If you prefer, you can stay on your current version and use the Sentry SDK
 without SvelteKit's builtin observability.`,
     );
 
-    const decision = await abortIfCancelled(
-      clack.select({
-        message: 'Do you want to continue anyway?',
-        options: [
-          {
-            label: "No, I'll upgrade SvelteKit first",
-            hint: 'Recommended',
-            value: 'exit-to-upgrade',
-          },
-          {
-            label: "I'm already on SvelteKit >=2.31.0",
-            hint: 'Sorry, my bad!',
-            value: 'install-with-kit-tracing',
-          },
-          {
-            label: 'Yes, continue',
-            hint: 'No Problem!',
-            value: 'install-without-kit-tracing',
-          },
-        ],
-      }),
-    );
+    const decision = await selectPrompt('kitTracing', {
+      message: 'Do you want to continue anyway?',
+      options: [
+        {
+          label: "No, I'll upgrade SvelteKit first",
+          hint: 'Recommended',
+          value: 'exit-to-upgrade',
+        },
+        {
+          label: "I'm already on SvelteKit >=2.31.0",
+          hint: 'Sorry, my bad!',
+          value: 'install-with-kit-tracing',
+        },
+        {
+          label: 'Yes, continue',
+          hint: 'No Problem!',
+          value: 'install-without-kit-tracing',
+        },
+      ],
+    });
 
     if (decision === 'install-with-kit-tracing') {
       setupForSvelteKitTracing = true;
@@ -186,6 +185,7 @@ without SvelteKit's builtin observability.`,
         },
         svelteConfig,
         setupForSvelteKitTracing,
+        options,
       ),
     );
   } catch (e: unknown) {
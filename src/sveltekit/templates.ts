@@ -1,3 +1,41 @@
+import {
+  DEFAULT_SDK_INIT_OPTIONS,
+  formatPercentage,
+  formatSampleRate,
+  getSdkInitValueCode,
+} from '../utils/sdk-init-options';
+import type { SdkInitOptions } from '../utils/types';
+
+function getEnvironmentAndReleaseOptions(
+  sdkInitOptions: SdkInitOptions,
+): string {
+  let options = '';
+
+  if (sdkInitOptions.environment) {
+    options += `
+  environment: ${getSdkInitValueCode(
+    sdkInitOptions.environment,
+    'import.meta.env',
+  )},`;
+  }
+
+  if (sdkInitOptions.release) {
+    options += `
+  release: ${getSdkInitValueCode(sdkInitOptions.release, 'import.meta.env')},`;
+  }
+
+  return options;
+}
+
+function getDsnOption(dsn: string, sdkInitOptions: SdkInitOptions): string {
+  return sdkInitOptions.dsnEnvVar
+    ? getSdkInitValueCode(
+        { envVar: sdkInitOptions.dsnEnvVar },
+        'import.meta.env',
+      )
+    : `'${dsn}'`;
+}
+
 export function getClientHooksTemplate(
   dsn: string,
   selectedFeatures: {
@@ -5,16 +43,17 @@ export function getClientHooksTemplate(
     replay: boolean;
     logs: boolean;
   },
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ) {
   return `import { handleErrorWithSentry, replayIntegration } from "@sentry/sveltekit";
 import * as Sentry from '@sentry/sveltekit';
 
 Sentry.init({
-  dsn: '${dsn}',
+  dsn: ${getDsnOption(dsn, sdkInitOptions)},
 ${
   selectedFeatures.performance
     ? `
-  tracesSampleRate: 1.0,
+  tracesSampleRate: ${formatSampleRate(sdkInitOptions.tracesSampleRate)},
 `
     : ''
 }
@@ -27,18 +66,24 @@ ${
 }
 ${
   selectedFeatures.replay
-    ? `  // This sets the sample rate to be 10%. You may want this to be 100% while
+    ? `  // This sets the sample rate to be ${formatPercentage(
+        sdkInitOptions.replaysSessionSampleRate,
+      )}. You may want this to be 100% while
   // in development and sample at a lower rate in production
-  replaysSessionSampleRate: 0.1,
+  replaysSessionSampleRate: ${formatSampleRate(
+    sdkInitOptions.replaysSessionSampleRate,
+  )},
 
   // If the entire session is not sampled, use the below sample rate to sample
   // sessions when an error occurs.
-  replaysOnErrorSampleRate: 1.0,
+  replaysOnErrorSampleRate: ${formatSampleRate(
+    sdkInitOptions.replaysOnErrorSampleRate,
+  )},
 
   // If you don't want to use Session Replay, just remove the line below:
   integrations: [replayIntegration()],`
     : ''
-}
+}${getEnvironmentAndReleaseOptions(sdkInitOptions)}
 
   dataCollection: {
     // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
@@ -61,16 +106,17 @@ export function getServerHooksTemplate(
     logs: boolean;
   },
   includeSentryInit: boolean,
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ) {
   const sentryInit = includeSentryInit
     ? `import * as Sentry from '@sentry/sveltekit';
 
 Sentry.init({
-  dsn: '${dsn}',
+  dsn: ${getDsnOption(dsn, sdkInitOptions)},
 ${
   selectedFeatures.performance
     ? `
-  tracesSampleRate: 1.0,
+  tracesSampleRate: ${formatSampleRate(sdkInitOptions.tracesSampleRate)},
 `
     : ''
 }
@@ -80,7 +126,7 @@ ${
   enableLogs: true,
 `
     : ''
-}
+}${getEnvironmentAndReleaseOptions(sdkInitOptions)}
 
   dataCollection: {
     // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
@@ -112,15 +158,16 @@ export function getInstrumentationServerTemplate(
     performance: boolean;
     logs: boolean;
   },
+  sdkInitOptions = DEFAULT_SDK_INIT_OPTIONS,
 ) {
   return `import * as Sentry from '@sentry/sveltekit';
 
 Sentry.init({
-  dsn: '${dsn}',
+  dsn: ${getDsnOption(dsn, sdkInitOptions)},
 ${
   selectedFeatures.performance
     ? `
-  tracesSampleRate: 1.0,
+  tracesSampleRate: ${formatSampleRate(sdkInitOptions.tracesSampleRate)},
 `
     : ''
 }
@@ -130,7 +177,7 @@ ${
   enableLogs: true,
 `
     : ''
-}
+}${getEnvironmentAndReleaseOptions(sdkInitOptions)}
   // uncomment the line below to enable Spotlight (https://spotlightjs.com)
   // spotlight: import.meta.env.DEV,
 });`;
@@ -1,5 +1,7 @@
 import * as Sentry from '@sentry/node';
 import type { Span } from '@sentry/node';
+import { rollbackRecordedChanges } from './utils/change-manifest';
+import { emitEvent } from './utils/json-output';
 import type { WizardOptions } from './utils/types';
 import { WIZARD_VERSION } from './version';
 
@@ -20,6 +22,7 @@ export async function withTelemetry<F>(
   Sentry.setTag('args.project', !!options.wizardOptions.projectSlug);
   Sentry.setTag('args.org', !!options.wizardOptions.orgSlug);
   Sentry.setTag('args.saas', !!options.wizardOptions.saas);
+  Sentry.setTag('args.dry-run', !!options.wizardOptions.dryRun);
 
   try {
     return await Sentry.startSpan(
@@ -36,6 +39,7 @@ export async function withTelemetry<F>(
       },
     );
   } catch (e) {
+    rollbackRecordedChanges();
     Sentry.captureException('Error during wizard execution.');
     const currentSession = Sentry.getCurrentScope().getSession();
     if (currentSession) {
@@ -108,9 +112,27 @@ export function traceStep<T>(
   callback: (span: Span | undefined) => T,
 ): T {
   updateProgress(step);
-  return Sentry.startSpan({ name: step, op: 'wizard.step' }, (span) =>
+  emitEvent({ type: 'step', step, status: 'start' });
+
+  const result = Sentry.startSpan({ name: step, op: 'wizard.step' }, (span) =>
     callback(span),
   );
+
+  if (result instanceof Promise) {
+    return result.then(
+      (value) => {
+        emitEvent({ type: 'step', step, status: 'finish' });
+        return value as unknown;
+      },
+      (e) => {
+        emitEvent({ type: 'step', step, status: 'error' });
+        throw e;
+      },
+    ) as T;
+  }
+
+  emitEvent({ type: 'step', step, status: 'finish' });
+  return result;
 }
 
 export function updateProgress(step: string) {
@@ -0,0 +1,264 @@
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+import * as Sentry from '@sentry/node';
+
+import { getIntegrationDescription } from '../../lib/Constants';
+import { removeSentryConfigFromNextConfig } from '../nextjs/utils';
+import { traceStep, withTelemetry } from '../telemetry';
+import {
+  type ChangeManifestEntry,
+  type ManifestFileChange,
+  getChangeManifestPath,
+  readChangeManifest,
+  writeChangeManifest,
+} from '../utils/change-manifest';
+import {
+  abort,
+  confirmContinueIfNoOrDirtyGitRepo,
+  confirmPrompt,
+  printWelcome,
+  uninstallPackage,
+} from '../utils/clack';
+import { debug } from '../utils/debug';
+import { packageManagers } from '../utils/package-manager';
+import type { WizardOptions } from '../utils/types';
+
+/**
+ * Reverts changes to files which users modified after the wizard changed them.
+ * A reverter returns the reverted file contents or `undefined` if it can't
+ * revert the change.
+ */
+const FILE_REVERTERS: {
+  matches: (filePath: string) => boolean;
+  revert: (contents: string) => string | undefined;
+}[] = [
+  {
+    matches: (filePath) =>
+      /^next\.config\.(mjs|ts|mts|cts)$/.test(path.basename(filePath)),
+    revert: removeSentryConfigFromNextConfig,
+  },
+];
+
+export function runUninstallWizard(
+  options: WizardOptions,
+  integration: string,
+): Promise<void> {
+  return withTelemetry(
+    {
+      enabled: options.telemetryEnabled,
+      integration: 'uninstall',
+      wizardOptions: options,
+    },
+    () => runUninstallWizardWithTelemetry(options, integration),
+  );
+}
+
+async function runUninstallWizardWithTelemetry(
+  options: WizardOptions,
+  integration: string,
+): Promise<void> {
+  const integrationName = getIntegrationDescription(integration);
+
+  Sentry.setTag('uninstall-integration', integration);
+
+  printWelcome({
+    wizardName: 'Sentry Uninstall Wizard',
+    message: `This wizard will revert the changes a previous run of the Sentry ${integrationName} wizard made to your project.`,
+    telemetryEnabled: options.telemetryEnabled,
+  });
+
+  const manifest = readChangeManifest();
+  const entries =
+    manifest?.entries.filter((entry) => entry.integration === integration) ??
+    [];
+
+  if (!manifest || !entries.length) {
+    clack.log.error(
+      `Couldn't find any recorded ${integrationName} setup in ${chalk.cyan(
+        path.relative(process.cwd(), getChangeManifestPath()),
+      )}.`,
+    );
+    clack.log.info(
+      'The wizard can only revert setups made by a wizard version that records its changes.',
+    );
+    return abort('Nothing to uninstall.', 0);
+  }
+
+  await confirmContinueIfNoOrDirtyGitRepo({
+    ignoreGitChanges: options.ignoreGitChanges,
+    cwd: undefined,
+  });
+
+  clack.note(getUninstallSummary(entries), 'The wizard will revert');
+
+  const shouldRevert = await confirmPrompt('revertChanges', {
+    message: 'Do you want to revert these changes?',
+  });
+
+  if (!shouldRevert) {
+    return abort(undefined, 0);
+  }
+
+  const filesToRevertManually: string[] = [];
+
+  // Revert the most recent changes first
+  for (const entry of [...entries].reverse()) {
+    await traceStep('revert-files', async () => {
+      for (const change of [...entry.files].reverse()) {
+        const reverted = await revertFile(change);
+        if (!reverted) {
+          filesToRevertManually.push(change.path);
+        }
+      }
+
+      removeEmptyDirectories(entry.directories);
+    });
+
+    await traceStep('remove-packages', async () => {
+      for (const pkg of entry.packages) {
+        const packageManager = packageManagers.find(
+          (manager) => manager.name === pkg.packageManager,
+        );
+        if (packageManager) {
+          await uninstallPackage({ packageName: pkg.name, packageManager });
+        }
+      }
+    });
+  }
+
+  writeChangeManifest({
+    ...manifest,
+    entries: manifest.entries.filter((entry) => !entries.includes(entry)),
+  });
+
+  Sentry.setTag('files-to-revert-manually', filesToRevertManually.length);
+
+  if (filesToRevertManually.length) {
+    clack.log.warn(
+      `The following files were changed after the wizard modified them and need to be reverted manually:
+
+${filesToRevertManually.map((file) => `- ${chalk.cyan(file)}`).join('\n')}`,
+    );
+  }
+
+  clack.outro(
+    `${chalk.green(
+      `Successfully reverted the Sentry ${integrationName} setup!`,
+    )}\n\n${chalk.dim(
+      'Check your git status to review the changes before committing.',
+    )}`,
+  );
+}
+
+function getUninstallSummary(entries: ChangeManifestEntry[]): string {
+  const files = entries.flatMap((entry) => entry.files);
+  const packages = entries.flatMap((entry) => entry.packages);
+
+  return [
+    ...files.map((change) =>
+      change.before === null
+        ? `${chalk.red('delete')}  ${change.path}`
+        : `${chalk.yellow('restore')} ${change.path}`,
+    ),
+    ...packages.map((pkg) => `${chalk.red('remove')}  ${pkg.name}`),
+  ].join('\n');
+}
+
+/**
+ * Computes the contents a file should have after reverting the wizard's change.
+ *
+ * Exported for testing.
+ *
+ * @param change the change recorded by the wizard
+ * @param currentContents the current file contents or `null` if the file doesn't exist anymore
+ *
+ * @returns `{ contents }` with the reverted contents (`null` means the file should be deleted)
+ * or `undefined` if the change can't be reverted automatically.
+ */
+export function getRevertedFileContents(
+  change: ManifestFileChange,
+  currentContents: string | null,
+): { contents: string | null } | undefined {
+  if (currentContents === change.after) {
+    return { contents: change.before };
+  }
+
+  if (currentContents === null || change.before === null) {
+    return undefined;
+  }
+
+  // Most changes to existing files (e.g. `.gitignore` or `.sentryclirc`)
+  // append content. We can remove it even if users changed other parts of the file.
+  if (change.after !== null && change.after.startsWith(change.before)) {
+    const appendedContent = change.after.slice(change.before.length);
+    if (appendedContent && currentContents.includes(appendedContent)) {
+      return { contents: currentContents.replace(appendedContent, '') };
+    }
+  }
+
+  const reverter = FILE_REVERTERS.find((r) => r.matches(change.path));
+  const revertedContents = reverter?.revert(currentContents);
+  if (revertedContents !== undefined) {
+    return { contents: revertedContents };
+  }
+
+  return undefined;
+}
+
+async function revertFile(change: ManifestFileChange): Promise<boolean> {
+  const filePath = path.join(process.cwd(), change.path);
+  const prettyPath = chalk.cyan(change.path);
+
+  const currentContents = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, 'utf8')
+    : null;
+
+  let reverted = getRevertedFileContents(change, currentContents);
+
+  if (!reverted && change.before === null && currentContents !== null) {
+    const deleteAnyway = await confirmPrompt('deleteChangedFile', {
+      message: `${prettyPath} was created by the wizard but changed afterwards. Delete it anyway?`,
+      initialValue: false,
+    });
+    reverted = deleteAnyway ? { contents: null } : undefined;
+  }
+
+  if (!reverted) {
+    return false;
+  }
+
+  try {
+    if (reverted.contents === null) {
+      if (currentContents !== null) {
+        fs.unlinkSync(filePath);
+        clack.log.success(`Removed ${prettyPath}.`);
+      }
+    } else {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, reverted.contents, 'utf8');
+      clack.log.success(`Restored ${prettyPath}.`);
+    }
+    return true;
+  } catch (e) {
+    debug(e);
+    return false;
+  }
+}
+
+function removeEmptyDirectories(directories: string[]): void {
+  // Remove nested directories before their parents
+  for (const dir of [...directories].reverse()) {
+    const dirPath = path.join(process.cwd(), dir);
+    try {
+      if (fs.existsSync(dirPath) && !fs.readdirSync(dirPath).length) {
+        fs.rmdirSync(dirPath);
+      }
+    } catch (e) {
+      debug(e);
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import yaml from 'js-yaml';
+
+/**
+ * Answers for the wizard prompts, loaded from the file passed via `--answers`.
+ *
+ * Answers at the top level apply to all integrations. Answers nested under an
+ * integration name (e.g. `nextjs: { tunnelRoute: true }`) only apply to that
+ * integration and take precedence over top-level answers.
+ */
+export type WizardAnswers = Record<string, unknown>;
+
+let answers: WizardAnswers | undefined;
+let answersIntegration: string | undefined;
+const usedAnswerKeys = new Set<string>();
+
+/**
+ * Reads a JSON or YAML answers file and uses its answers for all subsequent prompts.
+ *
+ * @throws if the file can't be read or doesn't contain an object
+ */
+export function loadAnswersFile(filePath: string): void {
+  const contents = fs.readFileSync(filePath, 'utf8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  const parsed: unknown =
+    extension === '.yaml' || extension === '.yml'
+      ? yaml.load(contents)
+      : JSON.parse(contents);
+
+  if (!isAnswersObject(parsed)) {
+    throw new Error(
+      `Expected the answers file ${filePath} to contain an object with answers.`,
+    );
+  }
+
+  setAnswers(parsed);
+}
+
+export function setAnswers(newAnswers: WizardAnswers | undefined): void {
+  answers = newAnswers;
+  answersIntegration = undefined;
+  usedAnswerKeys.clear();
+}
+
+/**
+ * Sets the integration whose section in the answers file takes precedence
+ * over the top-level answers.
+ */
+export function setAnswersIntegration(integration: string): void {
+  answersIntegration = integration;
+}
+
+/**
+ * Returns `true` if the wizard was started with an answers file. In this case,
+ * prompts must be resolved from the answers file instead of asking the user.
+ */
+export function hasAnswers(): boolean {
+  return answers !== undefined;
+}
+
+/**
+ * Looks up the answer for a prompt. Keys can use dots to access nested
+ * answers (e.g. `features.replay`).
+ *
+ * @returns the answer or `undefined` if the answers file doesn't contain it
+ */
+export function getAnswer(key: string): unknown {
+  if (!answers) {
+    return undefined;
+  }
+
+  const integrationAnswers = answersIntegration
+    ? answers[answersIntegration]
+    : undefined;
+
+  const answer =
+    (isAnswersObject(integrationAnswers)
+      ? getNestedValue(integrationAnswers, key)
+      : undefined) ?? getNestedValue(answers, key);
+
+  if (answer !== undefined) {
+    usedAnswerKeys.add(key);
+  }
+
+  return answer;
+}
+
+/**
+ * Returns the keys of the answers file that were never used by a prompt.
+ * This usually means that a key has a typo or the answer isn't needed.
+ *
+ * Sections of other integrations are ignored, so that one answers file
+ * can be shared across integrations.
+ */
+export function getUnusedAnswerKeys(): string[] {
+  if (!answers) {
+    return [];
+  }
+
+  const usedRootKeys = new Set(
+    [...usedAnswerKeys].map((key) => key.split('.')[0]),
+  );
+
+  const integrationAnswers = answersIntegration
+    ? answers[answersIntegration]
+    : undefined;
+
+  const unusedKeys = Object.entries(answers)
+    .filter(
+      ([key, value]) =>
+        key !== answersIntegration &&
+        !usedRootKeys.has(key) &&
+        !isAnswersObject(value),
+    )
+    .map(([key]) => key);
+
+  const integration = answersIntegration;
+  if (integration && isAnswersObject(integrationAnswers)) {
+    unusedKeys.push(
+      ...Object.keys(integrationAnswers)
+        .filter((key) => !usedRootKeys.has(key))
+        .map((key) => `${integration}.${key}`),
+    );
+  }
+
+  return unusedKeys;
+}
+
+function getNestedValue(object: WizardAnswers, key: string): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>(
+      (value, part) => (isAnswersObject(value) ? value[part] : undefined),
+      object,
+    );
+}
+
+function isAnswersObject(value: unknown): value is WizardAnswers {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
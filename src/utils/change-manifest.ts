@@ -0,0 +1,311 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import { debug } from './debug';
+import { stripPackageVersion } from './package-json';
+import { WIZARD_VERSION } from '../version';
+import {
+  disableVirtualFs,
+  enableVirtualFs,
+  getCreatedDirectories,
+  getFileChanges,
+} from './virtual-fs';
+
+export const CHANGE_MANIFEST_DIR = '.sentry-wizard';
+export const CHANGE_MANIFEST_FILE = 'manifest.json';
+
+const INSTALLATION_ERROR_LOG_PREFIX = 'sentry-wizard-installation-error-';
+
+export type ManifestFileChange = {
+  /** Path relative to the project root */
+  path: string;
+  /** The file contents before the wizard run or `null` if the wizard created the file */
+  before: string | null;
+  /** The file contents after the wizard run or `null` if the wizard deleted the file */
+  after: string | null;
+};
+
+export type ManifestPackage = {
+  /** The package name without a version (e.g. `@sentry/nextjs`) */
+  name: string;
+  /** The name of the package manager used to install the package */
+  packageManager: string;
+};
+
+export type ChangeManifestEntry = {
+  integration: string;
+  wizardVersion: string;
+  createdAt: string;
+  files: ManifestFileChange[];
+  /** Directories created by the wizard, relative to the project root */
+  directories: string[];
+  packages: ManifestPackage[];
+};
+
+export type ChangeManifest = {
+  version: 1;
+  entries: ChangeManifestEntry[];
+};
+
+const installedPackages: ManifestPackage[] = [];
+
+let recording = false;
+let rollbackOnAbort = true;
+let redirectedIntegration: string | undefined;
+
+/**
+ * Starts recording all file changes of the wizard, so that they can be
+ * stored in the change manifest via {@link saveChangeManifest} later on.
+ *
+ * @param options.rollbackOnAbort if false, {@link rollbackRecordedChanges}
+ * keeps the changes made so far (`--keep-partial-changes`). Defaults to true.
+ */
+export function startRecordingChanges(options?: {
+  rollbackOnAbort?: boolean;
+}): void {
+  installedPackages.length = 0;
+  redirectedIntegration = undefined;
+  recording = true;
+  rollbackOnAbort = options?.rollbackOnAbort ?? true;
+  enableVirtualFs({ writeThrough: true });
+}
+
+/**
+ * Records a package that was newly installed by the wizard.
+ *
+ * @param packageName the package identifier passed to the package manager,
+ * optionally including a version (e.g. `@sentry/nextjs@^10`)
+ */
+export function recordInstalledPackage(
+  packageName: string,
+  packageManager: string,
+): void {
+  const name = stripPackageVersion(packageName);
+
+  if (!installedPackages.some((pkg) => pkg.name === name)) {
+    installedPackages.push({ name, packageManager });
+  }
+}
+
+/**
+ * Records that the wizard redirected to the wizard of another integration
+ * (e.g. from the source maps wizard to the Nuxt wizard), so that the changes
+ * are stored under that integration and `--uninstall -i <integration>` finds them.
+ */
+export function recordRedirectedIntegration(integration: string): void {
+  redirectedIntegration = integration;
+}
+
+/**
+ * Stops recording changes and appends the recorded changes as a new entry
+ * to the change manifest in the project directory.
+ *
+ * The manifest is used by `--uninstall` to revert the changes of the wizard.
+ */
+export function saveChangeManifest(integration: string): void {
+  const cwd = process.cwd();
+  const isRelevant = (filePath: string) => isRecordedPath(filePath, cwd);
+
+  recording = false;
+
+  const fileChanges = getFileChanges().filter((change) =>
+    isRelevant(change.path),
+  );
+
+  const directories = getCreatedDirectories()
+    .filter(isRelevant)
+    .map((dir) => path.relative(cwd, dir));
+
+  disableVirtualFs();
+
+  // Formatters and package managers change the files in child processes
+  // after the wizard wrote them, so we store the final contents on disk.
+  const files = fileChanges
+    .map((change) => ({
+      path: path.relative(cwd, change.path),
+      before: change.before,
+      after: readFileIfExists(change.path),
+    }))
+    .filter((change) => change.before !== change.after);
+
+  if (!files.length && !installedPackages.length) {
+    return;
+  }
+
+  const manifest = readChangeManifest() ?? { version: 1, entries: [] };
+
+  manifest.entries.push({
+    integration: redirectedIntegration ?? integration,
+    wizardVersion: WIZARD_VERSION,
+    createdAt: new Date().toISOString(),
+    files,
+    directories,
+    packages: [...installedPackages],
+  });
+
+  writeChangeManifest(manifest);
+}
+
+/**
+ * Restores all files changed since {@link startRecordingChanges} to their
+ * original contents and removes the directories the wizard created, so that
+ * an aborted wizard run doesn't leave the project half-configured.
+ *
+ * Does nothing if no changes are being recorded or if the user opted out via
+ * `--keep-partial-changes`.
+ */
+export function rollbackRecordedChanges(): void {
+  if (!recording) {
+    return;
+  }
+  recording = false;
+
+  const cwd = process.cwd();
+  const fileChanges = getFileChanges().filter((change) =>
+    isRecordedPath(change.path, cwd),
+  );
+  const directories = getCreatedDirectories().filter((dir) =>
+    isRecordedPath(dir, cwd),
+  );
+
+  // Stop recording before restoring the files
+  disableVirtualFs();
+
+  if (!fileChanges.length) {
+    return;
+  }
+
+  if (!rollbackOnAbort) {
+    clack.log.warn(
+      `The wizard was aborted. Your project keeps the partial changes to:\n${fileChanges
+        .map((change) => `- ${path.relative(cwd, change.path)}`)
+        .join('\n')}`,
+    );
+    return;
+  }
+
+  const failedFiles: string[] = [];
+
+  for (const change of fileChanges) {
+    try {
+      if (change.before === null) {
+        fs.rmSync(change.path, { force: true });
+      } else {
+        fs.mkdirSync(path.dirname(change.path), { recursive: true });
+        fs.writeFileSync(change.path, change.before);
+      }
+    } catch (e) {
+      debug(`Could not restore ${change.path}:`, e);
+      failedFiles.push(path.relative(cwd, change.path));
+    }
+  }
+
+  // Remove nested directories first and keep directories that aren't empty
+  for (const dir of [...directories].reverse()) {
+    try {
+      fs.rmdirSync(dir);
+    } catch (e) {
+      debug(`Could not remove ${dir}:`, e);
+    }
+  }
+
+  const revertedCount = fileChanges.length - failedFiles.length;
+  clack.log.info(
+    `Reverted the changes to ${revertedCount} ${
+      revertedCount === 1 ? 'file' : 'files'
+    } made before the wizard was aborted.`,
+  );
+
+  if (failedFiles.length) {
+    clack.log.warn(
+      `Could not revert the changes to:\n${failedFiles
+        .map((file) => `- ${file}`)
+        .join('\n')}`,
+    );
+  }
+
+  if (installedPackages.length) {
+    clack.log.warn(
+      `The wizard doesn't uninstall packages. Remove ${installedPackages
+        .map((pkg) => chalk.cyan(pkg.name))
+        .join(', ')} manually if you don't need them.`,
+    );
+  }
+}
+
+function readFileIfExists(filePath: string): string | null {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files of the wizard itself, like the manifest or installation error logs,
+ * are neither recorded in the manifest nor rolled back.
+ */
+function isRecordedPath(filePath: string, cwd: string): boolean {
+  return (
+    !filePath.startsWith(path.join(cwd, CHANGE_MANIFEST_DIR)) &&
+    !path.basename(filePath).startsWith(INSTALLATION_ERROR_LOG_PREFIX)
+  );
+}
+
+/**
+ * @returns true if the file belongs to the wizard itself, like the manifest
+ * or installation error logs, in any directory
+ */
+export function isWizardFile(filePath: string): boolean {
+  return (
+    filePath.split(path.sep).includes(CHANGE_MANIFEST_DIR) ||
+    path.basename(filePath).startsWith(INSTALLATION_ERROR_LOG_PREFIX)
+  );
+}
+
+export function getChangeManifestPath(): string {
+  return path.join(process.cwd(), CHANGE_MANIFEST_DIR, CHANGE_MANIFEST_FILE);
+}
+
+export function readChangeManifest(): ChangeManifest | undefined {
+  const manifestPath = getChangeManifestPath();
+
+  if (!fs.existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as ChangeManifest;
+  } catch (e) {
+    debug('Could not read the change manifest:', e);
+    return undefined;
+  }
+}
+
+/**
+ * Writes the change manifest to the project directory.
+ * If the manifest has no entries left, the manifest directory is removed.
+ */
+export function writeChangeManifest(manifest: ChangeManifest): void {
+  const manifestDir = path.join(process.cwd(), CHANGE_MANIFEST_DIR);
+
+  try {
+    if (!manifest.entries.length) {
+      fs.rmSync(manifestDir, { recursive: true, force: true });
+      return;
+    }
+
+    fs.mkdirSync(manifestDir, { recursive: true });
+    // The manifest contains file contents which might include auth tokens,
+    // so we make sure the whole directory is never committed.
+    fs.writeFileSync(path.join(manifestDir, '.gitignore'), '*\n');
+    fs.writeFileSync(
+      getChangeManifestPath(),
+      JSON.stringify(manifest, null, 2),
+    );
+  } catch (e) {
+    debug('Could not write the change manifest:', e);
+  }
+}
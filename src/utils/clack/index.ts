@@ -15,15 +15,54 @@ import opn from 'opn';
 import { traceStep } from '../../telemetry';
 import { WIZARD_VERSION } from '../../version';
 import { debug } from '../debug';
-import { type PackageDotJson, hasPackageInstalled } from '../package-json';
+import {
+  type PackageDotJson,
+  hasPackageInstalled,
+  readPackageVersion,
+  stripPackageVersion,
+} from '../package-json';
 import {
   type PackageManager,
   _detectPackageManger,
   packageManagers,
 } from '../package-manager';
 import { fulfillsVersionRange } from '../semver';
-import type { Feature, SentryProjectData, WizardOptions } from '../types';
+import type {
+  Feature,
+  SentryProjectData,
+  SentryProjectKey,
+  WizardOptions,
+} from '../types';
 import { getUncommittedOrUntrackedFiles, isInGitRepo } from '../git';
+import { isDryRun, recordSkippedCommand } from '../dry-run';
+import {
+  recordInstalledPackage,
+  rollbackRecordedChanges,
+} from '../change-manifest';
+import { emitEvent, toPlainText } from '../json-output';
+import {
+  type SentryOrganization,
+  type SentryProjectWithoutKeys,
+  type SentryTeam,
+  createProject,
+  fetchOrganizations,
+  fetchProjectWithKeys,
+  fetchProjects,
+  fetchTeams,
+} from '../sentry-api';
+import { recordSharedSession } from '../shared-session';
+import {
+  type StoredAuthToken,
+  findStoredAuthTokens,
+} from '../stored-auth-tokens';
+import { getIssueStreamUrl } from '../url';
+import { getSelectedWorkspacePackage, getWorkspaceRoot } from '../workspace';
+import { getAnswer, hasAnswers } from '../answers';
+import {
+  getFeaturesWithMissingRequirements,
+  selectFeaturesFromFlags,
+} from '../features';
+import { createAbortError, getPrompter, isEmbedded } from '../embedded';
 
 export const SENTRY_DOT_ENV_FILE = '.env.sentry-build-plugin';
 export const SENTRY_CLI_RC_FILE = '.sentryclirc';
@@ -113,12 +152,26 @@ export const propertiesCliSetupConfig: Required<CliSetupConfig> = {
 
 /**
  * Aborts the wizard and sets the Sentry transaction status to `cancelled` or `aborted`.
+ * File changes made so far are rolled back unless `--keep-partial-changes` is set.
  *
  * @param message The message to display to the user.
  * @param status The status to set on the Sentry transaction. Defaults to `1`.
  */
 export async function abort(message?: string, status?: number): Promise<never> {
+  rollbackRecordedChanges();
   clack.outro(message ?? 'Wizard setup cancelled.');
+  emitEvent({
+    type: 'abort',
+    message: toPlainText(message ?? 'Wizard setup cancelled.'),
+    exitCode: status ?? 1,
+  });
+  if (isEmbedded()) {
+    // Don't exit the process of the program that embeds the wizard
+    throw createAbortError(
+      toPlainText(message ?? 'Wizard setup cancelled.'),
+      status ?? 1,
+    );
+  }
   const activeSpan = Sentry.getActiveSpan();
   const rootSpan = activeSpan ? Sentry.getRootSpan(activeSpan) : undefined;
   // 'cancelled' doesn't increase the `failureRate()` shown in the Sentry UI
@@ -146,7 +199,11 @@ export async function abortIfCancelled<T>(
   input: T | Promise<T>,
 ): Promise<Exclude<T, symbol>> {
   if (clack.isCancel(await input)) {
+    rollbackRecordedChanges();
     clack.cancel('Wizard setup cancelled.');
+    if (isEmbedded()) {
+      throw createAbortError('Wizard setup cancelled.', 0);
+    }
     const activeSpan = Sentry.getActiveSpan();
     const rootSpan = activeSpan ? Sentry.getRootSpan(activeSpan) : undefined;
     if (rootSpan) {
@@ -163,6 +220,232 @@ export async function abortIfCancelled<T>(
   }
 }
 
+type AnswerValue = string | number | boolean;
+
+type SelectOption<T> = {
+  value: T;
+  label: string;
+  hint?: string;
+  /**
+   * The value matching this option in the answers file.
+   * Defaults to `value` if it is a string, number or boolean.
+   */
+  answer?: AnswerValue;
+};
+
+function isAnswerValue(value: unknown): value is AnswerValue {
+  return (
+    typeof value === 'string' ||
+    typeof value === 'number' ||
+    typeof value === 'boolean'
+  );
+}
+
+function getOptionAnswer<T>(option: SelectOption<T>): AnswerValue | undefined {
+  return (
+    option.answer ?? (isAnswerValue(option.value) ? option.value : undefined)
+  );
+}
+
+async function abortWithInvalidAnswer(
+  key: string,
+  message: string,
+  expected: string,
+): Promise<never> {
+  const answer = getAnswer(key);
+
+  clack.log.error(
+    `${
+      answer === undefined
+        ? `The answers file is missing an answer for ${chalk.cyan(key)}.`
+        : `The answers file contains an invalid answer for ${chalk.cyan(
+            key,
+          )}: ${chalk.red(JSON.stringify(answer))}`
+    }
+Prompt: ${message}
+Expected: ${expected}`,
+  );
+
+  return abort('Please update your answers file and run the wizard again.', 1);
+}
+
+function logAnswer(message: string, answer: string): void {
+  clack.log.step(
+    `${message}\n${chalk.cyan(answer)} ${chalk.dim('(answers file)')}`,
+  );
+}
+
+/**
+ * Asks a yes/no question or resolves it from the `--answers` file.
+ * In the embedded mode, a custom prompter may render the prompt instead.
+ *
+ * @param key the key of the answer in the answers file
+ */
+export async function confirmPrompt(
+  key: string,
+  options: {
+    message: string;
+    initialValue?: boolean;
+    active?: string;
+    inactive?: string;
+  },
+): Promise<boolean> {
+  if (!hasAnswers()) {
+    const prompter = getPrompter();
+    return prompter
+      ? prompter.confirm({ key, ...options })
+      : abortIfCancelled(clack.confirm(options));
+  }
+
+  const answer = getAnswer(key);
+  if (typeof answer !== 'boolean') {
+    return abortWithInvalidAnswer(key, options.message, '`true` or `false`');
+  }
+
+  logAnswer(options.message, answer ? 'Yes' : 'No');
+  return answer;
+}
+
+/**
+ * Asks to select one of the options or resolves the selection from the `--answers` file.
+ *
+ * @param key the key of the answer in the answers file
+ */
+export async function selectPrompt<T>(
+  key: string,
+  options: {
+    message: string;
+    options: SelectOption<T>[];
+    initialValue?: T;
+    maxItems?: number;
+  },
+): Promise<T> {
+  if (!hasAnswers()) {
+    const promptOptions = options.options.map(
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      ({ answer, ...option }) => option,
+    );
+
+    const prompter = getPrompter();
+    if (prompter) {
+      return prompter.select<T>({ key, ...options, options: promptOptions });
+    }
+
+    return abortIfCancelled(
+      clack.select<Omit<SelectOption<unknown>, 'answer'>[], unknown>({
+        ...options,
+        options: promptOptions,
+      }),
+    ) as Promise<T>;
+  }
+
+  const answer = getAnswer(key);
+  const selectedOption = options.options.find(
+    (option) => getOptionAnswer(option) === answer,
+  );
+
+  if (!selectedOption) {
+    return abortWithInvalidAnswer(
+      key,
+      options.message,
+      `one of ${options.options
+        .map((option) => JSON.stringify(getOptionAnswer(option)))
+        .join(', ')}`,
+    );
+  }
+
+  logAnswer(options.message, selectedOption.label);
+  return selectedOption.value;
+}
+
+/**
+ * Asks to select any number of options or resolves the selection from the `--answers` file.
+ * The answer must be an array of option values.
+ *
+ * @param key the key of the answer in the answers file
+ */
+export async function multiselectPrompt<T extends AnswerValue>(
+  key: string,
+  options: {
+    message: string;
+    options: Omit<SelectOption<T>, 'answer'>[];
+    initialValues?: T[];
+    required?: boolean;
+  },
+): Promise<T[]> {
+  if (!hasAnswers()) {
+    const prompter = getPrompter();
+    if (prompter) {
+      return prompter.multiselect<T>({ key, ...options });
+    }
+
+    return abortIfCancelled(
+      clack.multiselect<Omit<SelectOption<unknown>, 'answer'>[], unknown>(
+        options,
+      ),
+    ) as Promise<T[]>;
+  }
+
+  const answer = getAnswer(key);
+  const optionValues = options.options.map((option) => option.value);
+
+  if (
+    !Array.isArray(answer) ||
+    !answer.every((value) => optionValues.includes(value as T)) ||
+    (options.required && !answer.length)
+  ) {
+    return abortWithInvalidAnswer(
+      key,
+      options.message,
+      `an array containing any of ${optionValues
+        .map((value) => JSON.stringify(value))
+        .join(', ')}`,
+    );
+  }
+
+  logAnswer(options.message, answer.join(', ') || 'None');
+  return answer as T[];
+}
+
+/**
+ * Asks for text input or resolves it from the `--answers` file.
+ * Answers are validated with the same `validate` function as the user input.
+ *
+ * @param key the key of the answer in the answers file
+ */
+export async function textPrompt(
+  key: string,
+  options: {
+    message: string;
+    placeholder?: string;
+    initialValue?: string;
+    validate?: (value: string) => string | void;
+  },
+): Promise<string> {
+  if (!hasAnswers()) {
+    const prompter = getPrompter();
+    return prompter
+      ? prompter.text({ key, ...options })
+      : abortIfCancelled(clack.text(options));
+  }
+
+  const rawAnswer = getAnswer(key);
+  // Numbers are accepted as well, e.g. for sample rates
+  const answer = typeof rawAnswer === 'number' ? String(rawAnswer) : rawAnswer;
+  if (typeof answer !== 'string' || options.validate?.(answer)) {
+    return abortWithInvalidAnswer(
+      key,
+      options.message,
+      options.validate && typeof answer === 'string'
+        ? String(options.validate(answer))
+        : 'a string',
+    );
+  }
+
+  logAnswer(options.message, answer);
+  return answer;
+}
+
 export function printWelcome(options: {
   wizardName: string;
   promoCode?: string;
@@ -211,6 +494,12 @@ export async function confirmContinueIfNoOrDirtyGitRepo({
   nonInteractive?: boolean;
 }): Promise<void> {
   return traceStep('check-git-status', async () => {
+    if (isDryRun()) {
+      // Nothing is written to disk in dry run mode, so there's no need to
+      // warn users about uncommitted changes.
+      return;
+    }
+
     if (
       !isInGitRepo({
         cwd: cwd,
@@ -225,12 +514,10 @@ export async function confirmContinueIfNoOrDirtyGitRepo({
         await abort();
       }
 
-      const continueWithoutGit = await abortIfCancelled(
-        clack.confirm({
-          message:
-            'You are not inside a git repository. The wizard will create and update files. Do you want to continue anyway?',
-        }),
-      );
+      const continueWithoutGit = await confirmPrompt('continueWithoutGit', {
+        message:
+          'You are not inside a git repository. The wizard will create and update files. Do you want to continue anyway?',
+      });
 
       Sentry.setTag('continue-without-git', continueWithoutGit);
 
@@ -261,10 +548,9 @@ The wizard will create and update files.`,
         await abort();
       }
 
-      const continueWithDirtyRepo = await abortIfCancelled(
-        clack.confirm({
-          message: 'Do you want to continue anyway?',
-        }),
+      const continueWithDirtyRepo = await confirmPrompt(
+        'continueWithDirtyRepo',
+        { message: 'Do you want to continue anyway?' },
       );
 
       Sentry.setTag('continue-with-dirty-repo', continueWithDirtyRepo);
@@ -277,31 +563,33 @@ The wizard will create and update files.`,
 }
 
 export async function askToInstallSentryCLI(): Promise<boolean> {
-  return await abortIfCancelled(
-    clack.confirm({
-      message:
-        "You don't have Sentry CLI installed. Do you want to install it?",
-    }),
-  );
+  return await confirmPrompt('installSentryCli', {
+    message: "You don't have Sentry CLI installed. Do you want to install it?",
+  });
 }
 
+/**
+ * @param answerKey the key of the answer in the `--answers` file, the answer must be one of the items
+ */
 export async function askForItemSelection(
   items: string[],
   message: string,
+  answerKey: string,
 ): Promise<{ value: string; index: number }> {
-  const selection: { value: string; index: number } | symbol =
-    await abortIfCancelled(
-      clack.select({
-        maxItems: 12,
-        message: message,
-        options: items.map((item, index) => {
-          return {
-            value: { value: item, index: index },
-            label: item,
-          };
-        }),
+  const selection: { value: string; index: number } = await selectPrompt(
+    answerKey,
+    {
+      maxItems: 12,
+      message: message,
+      options: items.map((item, index) => {
+        return {
+          value: { value: item, index: index },
+          label: item,
+          answer: item,
+        };
       }),
-    );
+    },
+  );
 
   return selection;
 }
@@ -342,10 +630,9 @@ export async function confirmContinueIfPackageVersionNotSupported({
       note ??
         `Please upgrade to ${acceptableVersions} if you wish to use the Sentry Wizard.`,
     );
-    const continueWithUnsupportedVersion = await abortIfCancelled(
-      clack.confirm({
-        message: 'Do you want to continue anyway?',
-      }),
+    const continueWithUnsupportedVersion = await confirmPrompt(
+      'continueWithUnsupportedVersion',
+      { message: 'Do you want to continue anyway?' },
     );
     Sentry.setTag(
       `${packageName.toLowerCase()}-continue-with-unsupported-version`,
@@ -389,22 +676,39 @@ export async function installPackage({
 }: InstallPackageOptions): Promise<{ packageManager?: PackageManager }> {
   return traceStep('install-package', async () => {
     if (alreadyInstalled && askBeforeUpdating) {
-      const shouldUpdatePackage = await abortIfCancelled(
-        clack.confirm({
-          message: `The ${chalk.bold.cyan(
-            packageNameDisplayLabel ?? packageName,
-          )} package is already installed. Do you want to update it to the latest version?`,
-        }),
-      );
+      const shouldUpdatePackage = await confirmPrompt('updatePackage', {
+        message: `The ${chalk.bold.cyan(
+          packageNameDisplayLabel ?? packageName,
+        )} package is already installed. Do you want to update it to the latest version?`,
+      });
 
       if (!shouldUpdatePackage) {
         return {};
       }
     }
 
-    const sdkInstallSpinner = clack.spinner();
-
     const pkgManager = packageManager || (await getPackageManager());
+    const workspaceArgs = getWorkspaceArgs(pkgManager);
+
+    const installArgs = [
+      ...(workspaceArgs ?? []),
+      pkgManager.installCommand,
+      ...(devDependency ? ['-D'] : []),
+      pkgManager.registry
+        ? `${pkgManager.registry}:${packageName}`
+        : packageName,
+      ...(pkgManager.flags ? pkgManager.flags.split(' ') : []),
+      ...(forceInstall ? [pkgManager.forceInstallFlag] : []),
+    ];
+
+    const stringifiedInstallCmd = `${pkgManager.name} ${installArgs.join(' ')}`;
+
+    if (isDryRun()) {
+      recordSkippedCommand(stringifiedInstallCmd);
+      return { packageManager: pkgManager };
+    }
+
+    const sdkInstallSpinner = clack.spinner();
 
     sdkInstallSpinner.start(
       `${alreadyInstalled ? 'Updating' : 'Installing'} ${chalk.bold.cyan(
@@ -414,20 +718,6 @@ export async function installPackage({
 
     try {
       await new Promise<void>((resolve, reject) => {
-        const installArgs = [
-          pkgManager.installCommand,
-          ...(devDependency ? ['-D'] : []),
-          pkgManager.registry
-            ? `${pkgManager.registry}:${packageName}`
-            : packageName,
-          ...(pkgManager.flags ? pkgManager.flags.split(' ') : []),
-          ...(forceInstall ? [pkgManager.forceInstallFlag] : []),
-        ];
-
-        const stringifiedInstallCmd = `${pkgManager.name} ${installArgs.join(
-          ' ',
-        )}`;
-
         function handleErrorAndReject(
           code: number | null,
           cause: Error | string,
@@ -469,6 +759,8 @@ export async function installPackage({
           installArgs,
           {
             shell: true,
+            // Workspace packages are installed from the workspace root
+            cwd: workspaceArgs ? getWorkspaceRoot() : undefined,
             // Ignoring `stdout` to prevent certain node + yarn v4 (observed on ubuntu + snap)
             // combinations from crashing here. See #851
             stdio: ['pipe', 'ignore', 'pipe'],
@@ -515,10 +807,100 @@ export async function installPackage({
       )} with ${chalk.bold(pkgManager.label)}.`,
     );
 
+    if (!alreadyInstalled) {
+      recordInstalledPackage(packageName, pkgManager.name);
+    }
+
+    emitEvent({
+      type: 'package',
+      name: stripPackageVersion(packageName),
+      version: readPackageVersion(stripPackageVersion(packageName)),
+      packageManager: pkgManager.name,
+      status: alreadyInstalled ? 'updated' : 'installed',
+    });
+
     return { packageManager: pkgManager };
   });
 }
 
+/**
+ * Removes a package with the given package manager.
+ *
+ * Unlike {@link installPackage}, this function doesn't abort the wizard if
+ * the removal fails but asks users to remove the package manually.
+ *
+ * @returns true if the package was removed, false otherwise
+ */
+export async function uninstallPackage({
+  packageName,
+  packageManager,
+}: {
+  packageName: string;
+  packageManager: PackageManager;
+}): Promise<boolean> {
+  return traceStep('uninstall-package', async () => {
+    const workspaceArgs = getWorkspaceArgs(packageManager);
+    const uninstallCommand = [
+      packageManager.name,
+      ...(workspaceArgs ?? []),
+      packageManager.uninstallCommand,
+      packageName,
+    ].join(' ');
+
+    const uninstallSpinner = clack.spinner();
+    uninstallSpinner.start(
+      `Removing ${chalk.bold.cyan(packageName)} with ${chalk.bold(
+        packageManager.label,
+      )}.`,
+    );
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const cwd = workspaceArgs ? getWorkspaceRoot() : undefined;
+        childProcess.exec(uninstallCommand, { cwd }, (err) => {
+          if (err) {
+            reject(err);
+          } else {
+            resolve();
+          }
+        });
+      });
+    } catch (e) {
+      debug(e);
+      uninstallSpinner.stop(
+        `Failed to remove ${chalk.bold.cyan(packageName)}.`,
+      );
+      clack.log.warn(
+        `Please remove the package manually by running ${chalk.cyan(
+          uninstallCommand,
+        )}`,
+      );
+      return false;
+    }
+
+    uninstallSpinner.stop(
+      `Removed ${chalk.bold.cyan(packageName)} with ${chalk.bold(
+        packageManager.label,
+      )}.`,
+    );
+    return true;
+  });
+}
+
+/**
+ * Returns the arguments to install packages into the selected workspace package
+ * from the workspace root or `undefined` if no workspace package is selected or
+ * the package manager doesn't support workspaces.
+ */
+function getWorkspaceArgs(
+  packageManager: PackageManager,
+): string[] | undefined {
+  const workspacePackage = getSelectedWorkspacePackage();
+  return workspacePackage && packageManager.workspaceArgs
+    ? packageManager.workspaceArgs(workspacePackage)
+    : undefined;
+}
+
 export async function addSentryCliConfig(
   { authToken, org, project, url }: CliSetupConfigContent,
   setupConfig: CliSetupConfig = rcCliSetupConfig,
@@ -667,6 +1049,12 @@ export async function addDotEnvSentryBuildPluginFile(
 SENTRY_AUTH_TOKEN=${authToken}
 `;
 
+  emitEvent({
+    type: 'env_var',
+    name: 'SENTRY_AUTH_TOKEN',
+    description: `Uploads source maps during the build. Locally, it is read from ${SENTRY_DOT_ENV_FILE}, which must not be committed.`,
+  });
+
   const dotEnvFilePath = join(process.cwd(), SENTRY_DOT_ENV_FILE);
   const dotEnvFileExists = fs.existsSync(dotEnvFilePath);
 
@@ -786,6 +1174,12 @@ export async function runFormatters(_opts: {
   cwd: string | undefined;
 }): Promise<void> {
   return traceStep('run-formatters', async () => {
+    if (isDryRun()) {
+      // Formatters would operate on the real files on disk which
+      // don't contain the changes made in dry run mode.
+      return;
+    }
+
     const targetFiles = getFormatterTargetFiles();
     if (!targetFiles) {
       return;
@@ -814,7 +1208,7 @@ export async function runFormatters(_opts: {
             ' and ',
           )} in your project. Do you want to run them on your files?`;
 
-    const shouldRun = await abortIfCancelled(clack.confirm({ message }));
+    const shouldRun = await confirmPrompt('runFormatters', { message });
 
     if (!shouldRun) {
       return;
@@ -887,6 +1281,10 @@ export async function runPrettierIfInstalled(opts: {
   cwd: string | undefined;
 }): Promise<void> {
   return traceStep('run-prettier', async () => {
+    if (isDryRun()) {
+      return;
+    }
+
     if (!isInGitRepo({ cwd: opts.cwd })) {
       // We only run formatting on changed files. If we're not in a git repo, we can't find
       // changed files. So let's early-return without showing any formatting-related messages.
@@ -914,12 +1312,10 @@ export async function runPrettierIfInstalled(opts: {
     }
 
     // prompt the user if they want to run prettier
-    const shouldRunPrettier = await abortIfCancelled(
-      clack.confirm({
-        message:
-          'Looks like you have Prettier in your project. Do you want to run it on your files?',
-      }),
-    );
+    const shouldRunPrettier = await confirmPrompt('runFormatters', {
+      message:
+        'Looks like you have Prettier in your project. Do you want to run it on your files?',
+    });
 
     if (!shouldRunPrettier) {
       return;
@@ -962,6 +1358,10 @@ export async function runBiomeIfInstalled(opts: {
   cwd: string | undefined;
 }): Promise<void> {
   return traceStep('run-biome', async () => {
+    if (isDryRun()) {
+      return;
+    }
+
     if (!isInGitRepo({ cwd: opts.cwd })) {
       // We only run formatting on changed files. If we're not in a git repo, we can't find
       // changed files. So let's early-return without showing any formatting-related messages.
@@ -989,12 +1389,10 @@ export async function runBiomeIfInstalled(opts: {
     }
 
     // prompt the user if they want to run biome
-    const shouldRunBiome = await abortIfCancelled(
-      clack.confirm({
-        message:
-          'Looks like you have Biome in your project. Do you want to run it on your files?',
-      }),
-    );
+    const shouldRunBiome = await confirmPrompt('runFormatters', {
+      message:
+        'Looks like you have Biome in your project. Do you want to run it on your files?',
+    });
 
     if (!shouldRunBiome) {
       return;
@@ -1060,11 +1458,12 @@ export async function ensurePackageIsInstalled(
 
     if (!installed) {
       Sentry.setTag(`${packageName.toLowerCase()}-installed`, false);
-      const continueWithoutPackage = await abortIfCancelled(
-        clack.confirm({
+      const continueWithoutPackage = await confirmPrompt(
+        'continueWithoutPackage',
+        {
           message: `${packageName} does not seem to be installed. Do you still want to continue?`,
           initialValue: false,
-        }),
+        },
       );
 
       if (!continueWithoutPackage) {
@@ -1074,9 +1473,14 @@ export async function ensurePackageIsInstalled(
   });
 }
 
-export async function getPackageDotJson(): Promise<PackageDotJson> {
+/**
+ * @param dir the directory of the package.json. Defaults to the current working directory.
+ */
+export async function getPackageDotJson(
+  dir = process.cwd(),
+): Promise<PackageDotJson> {
   const packageJsonFileContents = await fs.promises
-    .readFile(join(process.cwd(), 'package.json'), 'utf8')
+    .readFile(join(dir, 'package.json'), 'utf8')
     .catch(() => {
       clack.log.error(
         'Could not find package.json. Make sure to run the wizard in the root of your app!',
@@ -1104,10 +1508,11 @@ export async function getPackageDotJson(): Promise<PackageDotJson> {
 
 export async function updatePackageDotJson(
   packageDotJson: PackageDotJson,
+  dir = process.cwd(),
 ): Promise<void> {
   try {
     await fs.promises.writeFile(
-      join(process.cwd(), 'package.json'),
+      join(dir, 'package.json'),
       // TODO: maybe figure out the original indentation
       JSON.stringify(packageDotJson, null, 2),
       {
@@ -1162,16 +1567,17 @@ export async function getPackageManager(
     return fallback;
   }
 
-  const selectedPackageManager: PackageManager | symbol =
-    await abortIfCancelled(
-      clack.select({
-        message: 'Please select your package manager.',
-        options: packageManagers.map((packageManager) => ({
-          value: packageManager,
-          label: packageManager.label,
-        })),
-      }),
-    );
+  const selectedPackageManager: PackageManager = await selectPrompt(
+    'packageManager',
+    {
+      message: 'Please select your package manager.',
+      options: packageManagers.map((packageManager) => ({
+        value: packageManager,
+        label: packageManager.label,
+        answer: packageManager.label,
+      })),
+    },
+  );
 
   globalWithSentryWizard.__sentry_wizard_cached_package_manager =
     selectedPackageManager;
@@ -1237,9 +1643,12 @@ export async function getOrAskForProjectData(
   }
 
   if (options.preSelectedProject) {
+    const sentryUrl = options.url ?? SAAS_URL;
+    emitProjectEvent(sentryUrl, options.preSelectedProject.project);
+
     return {
       selfHosted: options.preSelectedProject.selfHosted,
-      sentryUrl: options.url ?? SAAS_URL,
+      sentryUrl,
       authToken: options.preSelectedProject.authToken,
       selectedProject: options.preSelectedProject.project,
       spotlight: false,
@@ -1250,6 +1659,57 @@ export async function getOrAskForProjectData(
     () => askForSelfHosted(options.url, options.saas),
   );
 
+  const storedAuthToken = options.authToken
+    ? undefined
+    : await traceStep('find-stored-auth-token', () =>
+        askForStoredAuthToken({ url: sentryUrl, orgSlug: options.orgSlug }),
+      );
+
+  const authToken = options.authToken ?? storedAuthToken?.token;
+
+  if (authToken) {
+    const authTokenSource: AuthTokenSource = storedAuthToken
+      ? { type: 'stored', file: storedAuthToken.source }
+      : {
+          type:
+            authToken === process.env.SENTRY_AUTH_TOKEN ? 'env' : 'argument',
+        };
+
+    const project = await traceStep('login-with-auth-token', () =>
+      askForProjectWithAuthToken({
+        url: sentryUrl,
+        authToken,
+        authTokenSource,
+        orgSlug: options.orgSlug,
+        projectSlug: options.projectSlug,
+        platform,
+      }),
+    );
+
+    // If Sentry rejected a stored auth token, we fall back to the browser login
+    if (project) {
+      const selectedProject = await traceStep('select-dsn-key', () =>
+        askForDsnKey(project, options.dsnKey),
+      );
+
+      emitProjectEvent(sentryUrl, selectedProject);
+      recordSharedSession({
+        sentryUrl,
+        selfHosted,
+        authToken,
+        project: selectedProject,
+      });
+
+      return {
+        sentryUrl,
+        selfHosted,
+        authToken,
+        selectedProject,
+        spotlight: false,
+      };
+    }
+  }
+
   const { projects, apiKeys } = await traceStep('login', () =>
     askForWizardLogin({
       promoCode: options.promoCode,
@@ -1261,7 +1721,9 @@ export async function getOrAskForProjectData(
     }),
   );
 
-  if (!projects || !projects.length) {
+  const token = apiKeys?.token;
+
+  if ((!projects || !projects.length) && !token) {
     clack.log.error(
       'No projects found. Please create a project in Sentry and try again.',
     );
@@ -1271,13 +1733,39 @@ export async function getOrAskForProjectData(
     return Promise.reject();
   }
 
-  const selectedProject = await traceStep('select-project', () =>
-    askForProjectSelection(projects, options.orgSlug, options.projectSlug),
+  const project = await traceStep('select-project', () =>
+    askForProjectSelection(
+      projects ?? [],
+      options.orgSlug,
+      options.projectSlug,
+      token
+        ? (suggestedName) =>
+            askForNewProject({
+              url: sentryUrl,
+              authToken: token,
+              authTokenSource: { type: 'login' },
+              platform,
+              organizations: getOrganizations(projects ?? []),
+              orgSlug: options.orgSlug,
+              suggestedName,
+            })
+        : undefined,
+    ),
+  );
+  const selectedProject = await traceStep('select-dsn-key', () =>
+    askForDsnKey(project, options.dsnKey),
   );
 
-  const { token } = apiKeys ?? {};
+  emitProjectEvent(sentryUrl, selectedProject);
 
-  if (!token) {
+  if (token) {
+    recordSharedSession({
+      sentryUrl,
+      selfHosted,
+      authToken: token,
+      project: selectedProject,
+    });
+  } else {
     clack.log.error(`Didn't receive an auth token. This shouldn't happen :(
 
 Please let us know if you think this is a bug in the wizard:
@@ -1303,6 +1791,90 @@ ${chalk.cyan(
   };
 }
 
+/**
+ * Selects the client key (DSN) the wizard should use if the project has
+ * multiple keys, either via the `--dsn-key` arg or by asking users.
+ * Inactive keys are only used if they are selected explicitly.
+ *
+ * @returns the project with the selected key as the first key
+ */
+export async function askForDsnKey(
+  project: SentryProjectData,
+  dsnKeyName?: string,
+): Promise<SentryProjectData> {
+  const keyLabel = (key: SentryProjectKey) => key.name ?? key.dsn.public;
+  const isActive = (key: SentryProjectKey) => key.isActive !== false;
+  const withSelectedKey = (key: SentryProjectKey): SentryProjectData => ({
+    ...project,
+    keys: [key, ...project.keys.filter((other) => other !== key)],
+  });
+
+  if (dsnKeyName !== undefined) {
+    const key = project.keys.find((key) => key.name === dsnKeyName);
+
+    if (!key) {
+      clack.log.error(
+        `The project ${chalk.cyan(
+          project.slug,
+        )} doesn't have a client key named ${chalk.cyan(
+          dsnKeyName,
+        )}. Available keys: ${project.keys.map(keyLabel).join(', ')}`,
+      );
+      return abort();
+    }
+
+    if (!isActive(key)) {
+      clack.log.warn(
+        `The client key ${chalk.cyan(
+          keyLabel(key),
+        )} is inactive, so Sentry will drop the events sent with it until you activate it in the project settings.`,
+      );
+    }
+
+    return withSelectedKey(key);
+  }
+
+  const activeKeys = project.keys.filter(isActive);
+
+  if (activeKeys.length === 1) {
+    return withSelectedKey(activeKeys[0]);
+  }
+
+  const selectableKeys = activeKeys.length ? activeKeys : project.keys;
+
+  const selectedKey = await selectPrompt('dsnKey', {
+    message: activeKeys.length
+      ? 'Which client key (DSN) of the project do you want to use?'
+      : 'All client keys (DSNs) of the project are inactive. Which one do you want to use?',
+    options: selectableKeys.map((key) => ({
+      value: key,
+      label: keyLabel(key),
+      hint: isActive(key) ? key.dsn.public : 'inactive',
+      answer: keyLabel(key),
+    })),
+  });
+
+  return withSelectedKey(selectedKey);
+}
+
+function emitProjectEvent(
+  sentryUrl: string,
+  selectedProject: SentryProjectData,
+): void {
+  emitEvent({
+    type: 'project',
+    org: selectedProject.organization.slug,
+    project: selectedProject.slug,
+    projectId: selectedProject.id,
+    url: sentryUrl,
+    issueStreamUrl: getIssueStreamUrl({
+      url: sentryUrl,
+      orgSlug: selectedProject.organization.slug,
+      projectId: selectedProject.id,
+    }),
+  });
+}
+
 /**
  * Asks users if they are using SaaS or self-hosted Sentry and returns the validated URL.
  *
@@ -1326,18 +1898,16 @@ async function askForSelfHosted(
   }
 
   if (!urlFromArgs) {
-    const choice: 'saas' | 'self-hosted' | symbol = await abortIfCancelled(
-      clack.select({
-        message: 'Are you using Sentry SaaS or self-hosted Sentry?',
-        options: [
-          { value: 'saas', label: 'Sentry SaaS (sentry.io)' },
-          {
-            value: 'self-hosted',
-            label: 'Self-hosted/on-premise/single-tenant',
-          },
-        ],
-      }),
-    );
+    const choice: 'saas' | 'self-hosted' = await selectPrompt('hosting', {
+      message: 'Are you using Sentry SaaS or self-hosted Sentry?',
+      options: [
+        { value: 'saas', label: 'Sentry SaaS (sentry.io)' },
+        {
+          value: 'self-hosted',
+          label: 'Self-hosted/on-premise/single-tenant',
+        },
+      ],
+    });
 
     if (choice === 'saas') {
       Sentry.setTag('url', SAAS_URL);
@@ -1352,14 +1922,17 @@ async function askForSelfHosted(
   while (validUrl === undefined) {
     const url =
       tmpUrlFromArgs ||
-      (await abortIfCancelled(
-        clack.text({
-          message: `Please enter the URL of your ${
-            urlFromArgs ? '' : 'self-hosted '
-          }Sentry instance.`,
-          placeholder: 'https://sentry.io/',
-        }),
-      ));
+      (await textPrompt('url', {
+        message: `Please enter the URL of your ${
+          urlFromArgs ? '' : 'self-hosted '
+        }Sentry instance.`,
+        placeholder: 'https://sentry.io/',
+        validate: (value) => {
+          if (!URL.canParse(value)) {
+            return `Please enter a valid URL. (It should look something like "https://sentry.mydomain.com/")`;
+          }
+        },
+      }));
     tmpUrlFromArgs = undefined;
 
     try {
@@ -1533,23 +2106,451 @@ async function makeInitialWizardHashRequest(url: string): Promise<string> {
   return 'invalid hash';
 }
 
+/**
+ * Uses an existing auth token to fetch the projects from the Sentry API instead of
+ * logging in via the browser, and asks users to select one of the projects.
+ *
+ * @returns the selected project or `undefined` if Sentry rejected a stored
+ * auth token, so that users can log in via the browser instead
+ */
+async function askForProjectWithAuthToken(options: {
+  url: string;
+  authToken: string;
+  authTokenSource: AuthTokenSource;
+  orgSlug?: string;
+  projectSlug?: string;
+  platform?: string;
+}): Promise<SentryProjectData | undefined> {
+  const { url, authToken, authTokenSource, orgSlug, projectSlug, platform } =
+    options;
+
+  Sentry.setTag('login-with-auth-token', true);
+
+  const projectsSpinner = clack.spinner();
+  projectsSpinner.start('Loading your Sentry projects with the auth token');
+
+  let projects: SentryProjectWithoutKeys[] = [];
+  try {
+    projects = await fetchProjects({ url, authToken, orgSlug });
+    projectsSpinner.stop('Loaded your Sentry projects.');
+  } catch (e) {
+    projectsSpinner.stop('Loading your Sentry projects failed.');
+    if (isRejectedStoredAuthToken(e, authTokenSource)) {
+      return undefined;
+    }
+    await abortWithSentryApiError(
+      e,
+      'Loading your Sentry projects',
+      authTokenSource,
+    );
+  }
+
+  const selection = await askForProjectSelection(
+    projects,
+    orgSlug,
+    projectSlug,
+    (suggestedName) =>
+      askForNewProject({
+        url,
+        authToken,
+        authTokenSource,
+        platform,
+        organizations: getOrganizations(projects),
+        orgSlug,
+        suggestedName,
+      }),
+  );
+
+  let selectedProject: SentryProjectData | undefined;
+  try {
+    // New projects already come with their keys
+    selectedProject =
+      'keys' in selection
+        ? (selection as SentryProjectData)
+        : await fetchProjectWithKeys({
+            url,
+            authToken,
+            project: selection,
+          });
+  } catch (e) {
+    if (isRejectedStoredAuthToken(e, authTokenSource)) {
+      return undefined;
+    }
+    await abortWithSentryApiError(
+      e,
+      'Loading the project keys',
+      authTokenSource,
+    );
+  }
+
+  if (!selectedProject) {
+    clack.log.error(
+      `The project ${chalk.cyan(
+        `${selection.organization.slug}/${selection.slug}`,
+      )} doesn't have a client key (DSN). Please create one in the project settings and try again.`,
+    );
+    return abort();
+  }
+
+  return selectedProject;
+}
+
+/**
+ * Auth tokens stored by previous wizard runs are usually organization tokens
+ * that can upload source maps but might not be able to read projects or
+ * their client keys. In that case, users can still log in via the browser.
+ */
+function isRejectedStoredAuthToken(
+  e: unknown,
+  authTokenSource: AuthTokenSource,
+): boolean {
+  const status = axios.isAxiosError(e) ? e.response?.status : undefined;
+
+  if (authTokenSource.type !== 'stored' || (status !== 401 && status !== 403)) {
+    return false;
+  }
+
+  debug(e);
+  clack.log.warn(
+    `The auth token in ${chalk.cyan(
+      authTokenSource.file,
+    )} doesn't have access to your projects. Please log in via the browser instead.`,
+  );
+  Sentry.setTag('stored-auth-token-rejected', true);
+
+  return true;
+}
+
+/**
+ * Looks for auth tokens stored by previous wizard runs or the Sentry CLI
+ * and asks users to reuse the first valid one instead of logging in again.
+ *
+ * @param options.orgSlug if set, only tokens with access to this organization are offered
+ * @returns the stored token to use or `undefined` to log in via the browser
+ */
+async function askForStoredAuthToken(options: {
+  url: string;
+  orgSlug?: string;
+}): Promise<StoredAuthToken | undefined> {
+  const { url, orgSlug } = options;
+
+  const storedTokens = findStoredAuthTokens().filter(
+    (stored) => stored.token !== DUMMY_AUTH_TOKEN,
+  );
+
+  if (!storedTokens.length) {
+    return undefined;
+  }
+
+  const tokensSpinner = clack.spinner();
+  tokensSpinner.start('Checking your stored Sentry auth tokens');
+
+  let validToken: (typeof storedTokens)[number] | undefined;
+  for (const stored of storedTokens) {
+    try {
+      const organizations = await fetchOrganizations({
+        url,
+        authToken: stored.token,
+      });
+      const organization = organizations.find(
+        (org) => !orgSlug || org.slug === orgSlug,
+      );
+      if (organization) {
+        // Organization tokens can list organizations but not always their projects
+        await fetchProjects({
+          url,
+          authToken: stored.token,
+          orgSlug: organization.slug,
+        });
+        validToken = stored;
+        break;
+      }
+    } catch (e) {
+      debug(`The auth token in ${stored.source} can't be used:`, e);
+    }
+  }
+
+  tokensSpinner.stop(
+    validToken
+      ? `Found a valid auth token in ${chalk.cyan(validToken.source)}.`
+      : 'None of your stored auth tokens can be used.',
+  );
+
+  if (!validToken) {
+    return undefined;
+  }
+
+  const reuseToken = await confirmPrompt('reuseAuthToken', {
+    message: 'Do you want to use this auth token instead of logging in again?',
+  });
+
+  Sentry.setTag('reuse-stored-auth-token', reuseToken);
+
+  return reuseToken ? validToken : undefined;
+}
+
+/**
+ * Asks users for the organization, team and name of a new project and creates it.
+ *
+ * @param options.organizations the organizations to choose from. If empty, they are fetched from the Sentry API.
+ * @param options.suggestedName the initial value for the project name
+ */
+async function askForNewProject(options: {
+  url: string;
+  authToken: string;
+  authTokenSource: AuthTokenSource;
+  platform?: string;
+  organizations: SentryOrganization[];
+  orgSlug?: string;
+  suggestedName?: string;
+}): Promise<SentryProjectData> {
+  const { url, authToken, authTokenSource, platform, orgSlug } = options;
+
+  Sentry.setTag('create-project', true);
+
+  let organizations = options.organizations;
+  if (!organizations.length) {
+    try {
+      organizations = await fetchOrganizations({ url, authToken });
+    } catch (e) {
+      await abortWithSentryApiError(
+        e,
+        'Loading your organizations',
+        authTokenSource,
+      );
+    }
+  }
+
+  const matchingOrganizations = organizations.filter(
+    (org) => !orgSlug || org.slug === orgSlug,
+  );
+
+  const organization =
+    matchingOrganizations.length === 1
+      ? matchingOrganizations[0]
+      : await selectPrompt('newProjectOrg', {
+          message: 'Select the organization for your new project.',
+          options: organizations.map((org) => ({
+            value: org,
+            label: org.slug,
+            answer: org.slug,
+          })),
+        });
+
+  let teams: SentryTeam[] = [];
+  try {
+    teams = await fetchTeams({ url, authToken, orgSlug: organization.slug });
+  } catch (e) {
+    await abortWithSentryApiError(e, 'Loading your teams', authTokenSource);
+  }
+
+  if (!teams.length) {
+    clack.log.error(
+      `The organization ${chalk.cyan(
+        organization.slug,
+      )} doesn't have any teams. Please create a team in Sentry and try again.`,
+    );
+    return abort();
+  }
+
+  const team =
+    teams.length === 1
+      ? teams[0]
+      : await selectPrompt('newProjectTeam', {
+          message: 'Select the team for your new project.',
+          options: teams.map((team) => ({
+            value: team,
+            label: team.slug,
+            hint: team.name,
+            answer: team.slug,
+          })),
+        });
+
+  const name = await textPrompt('newProjectName', {
+    message: 'What should your new project be called?',
+    initialValue:
+      options.suggestedName ?? toProjectSlug(path.basename(process.cwd())),
+    validate: (value) =>
+      value.trim() ? undefined : 'Please enter a project name.',
+  });
+
+  if (isDryRun()) {
+    clack.log.info(
+      `${chalk.dim('[dry run]')} Skipped creating project ${chalk.cyan(
+        `${organization.slug}/${name.trim()}`,
+      )} for team ${chalk.cyan(team.slug)}.`,
+    );
+    return getDryRunProject(organization, name.trim());
+  }
+
+  const createSpinner = clack.spinner();
+  createSpinner.start(`Creating project ${chalk.cyan(name)}`);
+
+  let project: SentryProjectData | undefined;
+  try {
+    const createdProject = await createProject({
+      url,
+      authToken,
+      organization,
+      teamSlug: team.slug,
+      name: name.trim(),
+      platform,
+    });
+    project = await fetchProjectWithKeys({
+      url,
+      authToken,
+      project: createdProject,
+    });
+  } catch (e) {
+    createSpinner.stop('Creating the project failed.');
+    if (axios.isAxiosError(e) && e.response?.status === 409) {
+      clack.log.error(
+        `A project named ${chalk.cyan(
+          name,
+        )} already exists. Please choose a different name.`,
+      );
+      return abort();
+    }
+    await abortWithSentryApiError(e, 'Creating the project', authTokenSource, [
+      'org:read',
+      'project:write',
+    ]);
+  }
+
+  if (!project) {
+    createSpinner.stop('Creating the project failed.');
+    clack.log.error(
+      "The new project doesn't have a client key (DSN). Please check the project settings in Sentry.",
+    );
+    return abort();
+  }
+
+  createSpinner.stop(
+    `Created project ${chalk.cyan(
+      `${project.organization.slug}/${project.slug}`,
+    )}.`,
+  );
+
+  return project;
+}
+
+/**
+ * @returns a placeholder for a project that wasn't created because of the
+ * dry run mode. Its DSN shows up in the diff of the dry run summary.
+ */
+function getDryRunProject(
+  organization: SentryOrganization,
+  name: string,
+): SentryProjectData {
+  return {
+    id: '0',
+    slug: toProjectSlug(name),
+    organization,
+    keys: [
+      {
+        name: 'Default',
+        isActive: true,
+        dsn: {
+          public: 'https://dry-run-public-key@dry-run.ingest.sentry.io/0',
+        },
+      },
+    ],
+  };
+}
+
+function getOrganizations(
+  projects: SentryProjectWithoutKeys[],
+): SentryOrganization[] {
+  return projects
+    .map((project) => project.organization)
+    .filter(
+      (org, index, orgs) =>
+        orgs.findIndex((other) => other.slug === org.slug) === index,
+    );
+}
+
+function toProjectSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Where the auth token for the Sentry API requests comes from,
+ * so that errors can tell users how to use a different one.
+ */
+type AuthTokenSource =
+  | { type: 'argument' | 'env' | 'login' }
+  | { type: 'stored'; file: string };
+
+async function abortWithSentryApiError(
+  e: unknown,
+  action: string,
+  authTokenSource: AuthTokenSource,
+  requiredScopes = ['org:read', 'project:read', 'project:releases'],
+): Promise<never> {
+  const status = axios.isAxiosError(e) ? e.response?.status : undefined;
+
+  clack.log.error(
+    status === 401 || status === 403
+      ? `${action} failed because Sentry rejected the auth token (status ${status}).
+Please make sure it is valid and has the ${requiredScopes
+          .map((scope) => chalk.cyan(scope))
+          .join(', ')} scopes.`
+      : `${action} failed${status ? ` (status ${status})` : ''}.`,
+  );
+  debug(e);
+
+  return abort(
+    chalk.red(
+      `${getAuthTokenHint(
+        authTokenSource,
+      )}\n\n   Let us know if you think this is an issue with the wizard or Sentry: https://github.com/getsentry/sentry-wizard/issues`,
+    ),
+  );
+}
+
+function getAuthTokenHint(authTokenSource: AuthTokenSource): string {
+  switch (authTokenSource.type) {
+    case 'argument':
+      return 'Please check the auth token passed via --auth-token and try again, or remove the argument to log in via the browser.';
+    case 'env':
+      return 'Please check your auth token and try again, or unset SENTRY_AUTH_TOKEN to log in via the browser.';
+    case 'stored':
+      return `Please check the auth token in ${authTokenSource.file} and try again, or don't reuse it to log in via the browser.`;
+    case 'login':
+      return 'Please restart the wizard and log in again.';
+  }
+}
+
 async function askHasSentryAccount(): Promise<boolean> {
-  const hasSentryAccount = await clack.confirm({
+  return confirmPrompt('hasSentryAccount', {
     message: 'Do you already have a Sentry account?',
   });
-
-  return abortIfCancelled(hasSentryAccount);
 }
 
-async function askForProjectSelection(
-  projects: SentryProjectData[],
+/**
+ * Asks users to select one of their projects.
+ *
+ * @param createProject if set, users can create a new project instead.
+ * It receives the `projectSlug` as a suggested name if no project matches it.
+ */
+async function askForProjectSelection<P extends SentryProjectWithoutKeys>(
+  projects: P[],
   orgSlug?: string,
   projectSlug?: string,
-): Promise<SentryProjectData> {
-  const label = (project: SentryProjectData): string => {
+  createProject?: (suggestedName?: string) => Promise<P>,
+): Promise<P> {
+  const label = (project: P): string => {
     return `${project.organization.slug}/${project.slug}`;
   };
 
+  if (!projects.length && createProject) {
+    clack.log.info("You don't have any Sentry projects yet. Let's create one!");
+    return createProject(projectSlug);
+  }
+
   const filteredProjects = filterProjectsBySlugs(
     projects,
     orgSlug,
@@ -1571,22 +2572,38 @@ async function askForProjectSelection(
   }
 
   const sortedProjects = filteredProjects.length ? filteredProjects : projects;
-  sortedProjects.sort((a: SentryProjectData, b: SentryProjectData) => {
+  sortedProjects.sort((a: P, b: P) => {
     return label(a).localeCompare(label(b));
   });
 
-  const selection: SentryProjectData | symbol = await abortIfCancelled(
-    clack.select({
-      maxItems: 12,
-      message: 'Select your Sentry project.',
-      options: sortedProjects.map((project) => {
+  const selection = await selectPrompt<P | 'create'>('project', {
+    maxItems: 12,
+    message: 'Select your Sentry project.',
+    options: [
+      ...sortedProjects.map((project) => {
         return {
           value: project,
           label: label(project),
+          answer: label(project),
         };
       }),
-    }),
-  );
+      ...(createProject
+        ? [
+            {
+              value: 'create' as const,
+              label: 'Create a new project',
+              answer: 'create',
+            },
+          ]
+        : []),
+    ],
+  });
+
+  if (selection === 'create') {
+    return createProject
+      ? createProject(filteredProjects.length ? undefined : projectSlug)
+      : abort();
+  }
 
   Sentry.setTag('project', selection.slug);
   Sentry.setUser({ id: selection.organization.slug });
@@ -1594,11 +2611,11 @@ async function askForProjectSelection(
   return selection;
 }
 
-function filterProjectsBySlugs(
-  projects: SentryProjectData[],
+function filterProjectsBySlugs<P extends SentryProjectWithoutKeys>(
+  projects: P[],
   orgSlug?: string,
   projectSlug?: string,
-): SentryProjectData[] {
+): P[] {
   if (!orgSlug && !projectSlug) {
     return projects;
   }
@@ -1630,36 +2647,32 @@ export async function askForToolConfigPath(
   toolName: string,
   configFileName: string,
 ): Promise<string | undefined> {
-  const hasConfig = await abortIfCancelled(
-    clack.confirm({
-      message: `Do you have a ${toolName} config file (e.g. ${chalk.cyan(
-        configFileName,
-      )})?`,
-      initialValue: true,
-    }),
-  );
+  const hasConfig = await confirmPrompt('hasConfigFile', {
+    message: `Do you have a ${toolName} config file (e.g. ${chalk.cyan(
+      configFileName,
+    )})?`,
+    initialValue: true,
+  });
 
   if (!hasConfig) {
     return undefined;
   }
 
-  return await abortIfCancelled(
-    clack.text({
-      message: `Please enter the path to your ${toolName} config file:`,
-      placeholder: join('.', configFileName),
-      validate: (value) => {
-        if (!value) {
-          return 'Please enter a path.';
-        }
+  return await textPrompt('configFilePath', {
+    message: `Please enter the path to your ${toolName} config file:`,
+    placeholder: join('.', configFileName),
+    validate: (value) => {
+      if (!value) {
+        return 'Please enter a path.';
+      }
 
-        try {
-          fs.accessSync(value);
-        } catch {
-          return 'Could not access the file at this path.';
-        }
-      },
-    }),
-  );
+      try {
+        fs.accessSync(value);
+      } catch {
+        return 'Could not access the file at this path.';
+      }
+    },
+  });
 }
 
 type ShowCopyPasteInstructionsOptions = { codeSnippet: string } & (
@@ -1700,15 +2713,21 @@ type ShowCopyPasteInstructionsOptions = { codeSnippet: string } & (
 export async function showCopyPasteInstructions(
   opts: ShowCopyPasteInstructionsOptions,
 ): Promise<void> {
-  if ('instructions' in opts) {
-    clack.log.step(opts.instructions);
-  } else {
-    const defaultInstructions = `Add the following code to your ${chalk.cyan(
-      basename(opts.filename),
-    )} file:${opts.hint ? chalk.dim(` (${chalk.dim(opts.hint)})`) : ''}`;
-
-    clack.log.step(defaultInstructions);
-  }
+  const instructions =
+    'instructions' in opts
+      ? opts.instructions
+      : `Add the following code to your ${chalk.cyan(
+          basename(opts.filename),
+        )} file:${opts.hint ? chalk.dim(` (${chalk.dim(opts.hint)})`) : ''}`;
+
+  clack.log.step(instructions);
+
+  emitEvent({
+    type: 'manual_step',
+    message: toPlainText(instructions),
+    filename: 'filename' in opts ? opts.filename : undefined,
+    codeSnippet: toPlainText(opts.codeSnippet),
+  });
 
   // Padding the code snippet to be printed with a \n at the beginning and end
   // This makes it easier to distinguish the snippet from the rest of the output
@@ -1716,13 +2735,11 @@ export async function showCopyPasteInstructions(
   // eslint-disable-next-line no-console
   console.log(`\n${opts.codeSnippet}\n`);
 
-  await abortIfCancelled(
-    clack.select({
-      message: 'Did you apply the snippet above?',
-      options: [{ label: 'Yes, continue!', value: true }],
-      initialValue: true,
-    }),
-  );
+  await selectPrompt('snippetApplied', {
+    message: 'Did you apply the snippet above?',
+    options: [{ label: 'Yes, continue!', value: true }],
+    initialValue: true,
+  });
 }
 
 /**
@@ -1821,20 +2838,18 @@ export async function askShouldCreateExamplePage(
   const route = chalk.cyan(customRoute ?? '/sentry-example-page');
 
   const createExamplePage = await traceStep('ask-create-example-page', () =>
-    abortIfCancelled(
-      clack.select({
-        message: `Do you want to create an example page ("${route}") to test your Sentry setup?`,
-        initialValue: true,
-        options: [
-          {
-            value: true,
-            label: 'Yes',
-            hint: 'Recommended - Check your git status before committing!',
-          },
-          { value: false, label: 'No' },
-        ],
-      }),
-    ),
+    selectPrompt('createExamplePage', {
+      message: `Do you want to create an example page ("${route}") to test your Sentry setup?`,
+      initialValue: true,
+      options: [
+        {
+          value: true,
+          label: 'Yes',
+          hint: 'Recommended - Check your git status before committing!',
+        },
+        { value: false, label: 'No' },
+      ],
+    }),
   );
 
   Sentry.setTag('create-example-page', createExamplePage);
@@ -1843,52 +2858,103 @@ export async function askShouldCreateExamplePage(
 
 export async function askShouldCreateExampleComponent(): Promise<boolean> {
   return traceStep('ask-create-example-component', () =>
-    abortIfCancelled(
-      clack.select({
-        message: `Do you want to create an example component to test your Sentry setup?`,
-        options: [
-          {
-            value: true,
-            label: 'Yes',
-            hint: 'Recommended - Check your git status before committing!',
-          },
-          { value: false, label: 'No' },
-        ],
-      }),
-    ),
+    selectPrompt('createExampleComponent', {
+      message: `Do you want to create an example component to test your Sentry setup?`,
+      options: [
+        {
+          value: true,
+          label: 'Yes',
+          hint: 'Recommended - Check your git status before committing!',
+        },
+        { value: false, label: 'No' },
+      ],
+    }),
   );
 }
 
+/**
+ * Asks which features to enable in one multi-select prompt.
+ *
+ * With an answers file, each feature is resolved from its `features.<id>` answer.
+ * Features whose required features (e.g. Tracing for Profiling) aren't
+ * selected are disabled.
+ *
+ * @param featureFlags the `--features` arg, which skips the prompt if set
+ */
 export async function featureSelectionPrompt<F extends ReadonlyArray<Feature>>(
   features: F,
+  featureFlags?: string[],
 ): Promise<{ [key in F[number]['id']]: boolean }> {
   return traceStep('feature-selection', async () => {
-    const selectedFeatures: Record<string, boolean> = {};
-
-    for (const feature of features) {
-      const selected = await abortIfCancelled(
-        clack.select({
-          message: feature.prompt,
-          initialValue: true,
-          options: [
-            {
-              value: true,
-              label: 'Yes',
-              hint: feature.enabledHint,
-            },
-            {
-              value: false,
-              label: 'No',
-              hint: feature.disabledHint,
-            },
-          ],
-        }),
+    let selectedIds: string[];
+
+    if (featureFlags?.length) {
+      selectedIds = selectFeaturesFromFlags(features, featureFlags);
+      clack.log.step(
+        `Selected features from ${chalk.cyan('--features')}: ${
+          features
+            .filter((feature) => selectedIds.includes(feature.id))
+            .map((feature) => feature.label)
+            .join(', ') || 'None'
+        }`,
       );
+    } else if (hasAnswers()) {
+      selectedIds = [];
+      for (const feature of features) {
+        const selected = await confirmPrompt(`features.${feature.id}`, {
+          message: `Do you want to enable ${chalk.bold(feature.label)}?`,
+        });
+        if (selected) {
+          selectedIds.push(feature.id);
+        }
+      }
+    } else {
+      selectedIds = await multiselectPrompt<string>('features', {
+        message: `Which features do you want to enable? ${chalk.dim(
+          '(space to toggle, enter to confirm)',
+        )}`,
+        options: features.map((feature) => ({
+          value: feature.id,
+          label: feature.label,
+          hint: [
+            feature.hint,
+            ...(feature.requires ?? []).map(
+              (id) =>
+                `requires ${
+                  features.find((other) => other.id === id)?.label ?? id
+                }`,
+            ),
+          ]
+            .filter(Boolean)
+            .join(', '),
+        })),
+        initialValues: features.map((feature) => feature.id),
+        required: false,
+      });
+    }
 
-      selectedFeatures[feature.id] = selected;
+    for (const { feature, missing } of getFeaturesWithMissingRequirements(
+      features,
+      selectedIds,
+    )) {
+      clack.log.warn(
+        `${feature.label} requires ${missing
+          .map((other) => other.label)
+          .join(' and ')}, so it won't be enabled.`,
+      );
+      selectedIds = selectedIds.filter((id) => id !== feature.id);
     }
 
-    return selectedFeatures as { [key in F[number]['id']]: boolean };
+    emitEvent({
+      type: 'features',
+      features: features
+        .filter((feature) => selectedIds.includes(feature.id))
+        .map((feature) => feature.label),
+    });
+
+    return Object.fromEntries(
+      features.map((feature) => [feature.id, selectedIds.includes(feature.id)]),
+    ) as { [key in F[number]['id']]: boolean };
   });
 }
 
@@ -1896,11 +2962,9 @@ export async function askShouldInstallPackage(
   pkgName: string,
 ): Promise<boolean> {
   return traceStep(`ask-install-package`, () =>
-    abortIfCancelled(
-      clack.confirm({
-        message: `Do you want to install ${chalk.cyan(pkgName)}?`,
-      }),
-    ),
+    confirmPrompt('installPackage', {
+      message: `Do you want to install ${chalk.cyan(pkgName)}?`,
+    }),
   );
 }
 
@@ -1909,17 +2973,20 @@ export async function askShouldAddPackageOverride(
   pkgVersion: string,
 ): Promise<boolean> {
   return traceStep(`ask-add-package-override`, () =>
-    abortIfCancelled(
-      clack.confirm({
-        message: `Do you want to add an override for ${chalk.cyan(
-          pkgName,
-        )} version ${chalk.cyan(pkgVersion)}?`,
-      }),
-    ),
+    confirmPrompt('addPackageOverride', {
+      message: `Do you want to add an override for ${chalk.cyan(
+        pkgName,
+      )} version ${chalk.cyan(pkgVersion)}?`,
+    }),
   );
 }
 
-async function getBuildCommand(): Promise<string | null> {
+export async function getBuildCommand(): Promise<string | null> {
+  if (isDryRun()) {
+    // Don't offer running the build in dry run mode as it writes to disk
+    return null;
+  }
+
   const packageDotJson = await getPackageDotJson();
   return typeof packageDotJson.scripts?.build === 'string' ? 'build' : null;
 }
@@ -1955,13 +3022,11 @@ export async function askToRunBuildOrEnterPathOrProceed({
     },
   );
 
-  const whatToDo = await abortIfCancelled(
-    clack.select({
-      message: `We couldn't find build artifacts at "${relativeArtifactPath}". What would you like to do?`,
-      options,
-      initialValue: buildCommand ? 'run-build' : 'manual',
-    }),
-  );
+  const whatToDo = await selectPrompt('missingBuildArtifacts', {
+    message: `We couldn't find build artifacts at "${relativeArtifactPath}". What would you like to do?`,
+    options,
+    initialValue: buildCommand ? 'run-build' : 'manual',
+  });
 
   if (whatToDo === 'proceed') {
     return {
@@ -1976,17 +3041,34 @@ export async function askToRunBuildOrEnterPathOrProceed({
     );
 
     if (ranBuildAndCheckArtifacts.validPath === false) {
+      if (hasAnswers()) {
+        return abortWithMissingBuildArtifacts(relativeArtifactPath);
+      }
       return await askToRunBuildOrEnterPathOrProceed({ relativeArtifactPath });
     }
 
     return ranBuildAndCheckArtifacts;
   }
 
+  if (hasAnswers()) {
+    // Entering a different path would resolve the same answer again
+    return abortWithMissingBuildArtifacts(relativeArtifactPath);
+  }
+
   return {
     validPath: false,
   };
 }
 
+async function abortWithMissingBuildArtifacts(
+  relativeArtifactPath: string,
+): Promise<never> {
+  clack.log.error(
+    `Couldn't find build artifacts at "${relativeArtifactPath}". Please check the build artifacts path in your answers file.`,
+  );
+  return abort('Please update your answers file and run the wizard again.', 1);
+}
+
 function getPossibleBuildFolders(): string[] {
   const commonBuildFolders = ['build', 'dist', 'out', '.next'];
 
@@ -2005,31 +3087,27 @@ async function promptForAlternativeArtifactPath(): Promise<string | undefined> {
   if (folders.length === 1) {
     const [onlyFolder] = folders;
 
-    const confirmed = await abortIfCancelled(
-      clack.select({
-        message: `Detected one possible build folder. Use "${onlyFolder}" as your build artifacts folder?`,
-        options: [
-          {
-            value: true,
-            label: 'Yes',
-          },
-          { value: false, label: 'No' },
-        ],
-      }),
-    );
+    const confirmed = await selectPrompt('useDetectedBuildFolder', {
+      message: `Detected one possible build folder. Use "${onlyFolder}" as your build artifacts folder?`,
+      options: [
+        {
+          value: true,
+          label: 'Yes',
+        },
+        { value: false, label: 'No' },
+      ],
+    });
 
     return confirmed ? onlyFolder : undefined;
   }
 
-  const selected = await abortIfCancelled(
-    clack.select({
-      message: `Detected multiple possible build folders. Is one of these your build artifacts folder?`,
-      options: [
-        ...folders.map((f) => ({ value: f, label: f })),
-        { value: false, label: 'No' },
-      ],
-    }),
-  );
+  const selected = await selectPrompt<string | false>('buildFolder', {
+    message: `Detected multiple possible build folders. Is one of these your build artifacts folder?`,
+    options: [
+      ...folders.map((f) => ({ value: f, label: f })),
+      { value: false, label: 'No' },
+    ],
+  });
 
   if (selected) {
     return String(selected);
@@ -2038,7 +3116,7 @@ async function promptForAlternativeArtifactPath(): Promise<string | undefined> {
   return undefined;
 }
 
-async function runBuildCommand(buildCommand: string): Promise<boolean> {
+export async function runBuildCommand(buildCommand: string): Promise<boolean> {
   const packageManager = await getPackageManager(NPM);
   const command = `${packageManager.runScriptCommand} ${buildCommand}`;
   const spinner = clack.spinner();
@@ -5,7 +5,11 @@ import * as Sentry from '@sentry/node';
 import chalk from 'chalk';
 // @ts-expect-error - clack is ESM and TS complains about that. It works though
 import * as clack from '@clack/prompts';
-import { abortIfCancelled, showCopyPasteInstructions } from './index';
+import {
+  multiselectPrompt,
+  selectPrompt,
+  showCopyPasteInstructions,
+} from './index';
 
 const SENTRY_MCP_BASE_URL = 'https://mcp.sentry.dev/mcp';
 
@@ -317,16 +321,14 @@ async function showJetBrainsMcpConfig(
   console.log('\n' + chalk.green(configSnippet) + '\n');
 
   // Ask if user wants to copy to clipboard
-  const shouldCopy: boolean = await abortIfCancelled(
-    clack.select({
-      message: 'Copy configuration to clipboard?',
-      options: [
-        { label: 'Yes', value: true },
-        { label: 'No', value: false },
-      ],
-      initialValue: true,
-    }),
-  );
+  const shouldCopy: boolean = await selectPrompt('copyMcpConfig', {
+    message: 'Copy configuration to clipboard?',
+    options: [
+      { label: 'Yes', value: true },
+      { label: 'No', value: false },
+    ],
+    initialValue: true,
+  });
 
   if (shouldCopy) {
     const copied = await copyToClipboard(configSnippet);
@@ -373,16 +375,14 @@ async function showGenericMcpConfig(
   console.log('\n' + chalk.green(configSnippet) + '\n');
 
   // Ask if user wants to copy to clipboard
-  const shouldCopy: boolean = await abortIfCancelled(
-    clack.select({
-      message: 'Copy configuration to clipboard?',
-      options: [
-        { label: 'Yes', value: true },
-        { label: 'No', value: false },
-      ],
-      initialValue: true,
-    }),
-  );
+  const shouldCopy: boolean = await selectPrompt('copyMcpConfig', {
+    message: 'Copy configuration to clipboard?',
+    options: [
+      { label: 'Yes', value: true },
+      { label: 'No', value: false },
+    ],
+    initialValue: true,
+  });
 
   if (shouldCopy) {
     const copied = await copyToClipboard(configSnippet);
@@ -430,15 +430,16 @@ async function explainMCP(): Promise<boolean> {
   );
 
   // Ask again after explanation
-  const shouldAddAfterExplanation: boolean = await abortIfCancelled(
-    clack.select({
+  const shouldAddAfterExplanation: boolean = await selectPrompt(
+    'configureMcp',
+    {
       message: 'Would you like to configure MCP for your IDE now?',
       options: [
         { label: 'Yes', value: true },
         { label: 'No', value: false, hint: 'You can add it later anytime' },
       ],
       initialValue: true,
-    }),
+    },
   );
 
   return shouldAddAfterExplanation;
@@ -456,11 +457,9 @@ export async function offerProjectScopedMcpConfig(
 ): Promise<void> {
   type InitialChoice = 'yes' | 'no' | 'explain';
 
-  const initialChoice: InitialChoice = await abortIfCancelled(
-    clack.select<
-      { value: InitialChoice; label: string; hint?: string }[],
-      InitialChoice
-    >({
+  const initialChoice: InitialChoice = await selectPrompt<InitialChoice>(
+    'mcp',
+    {
       message:
         'Optionally add a project-scoped MCP server configuration for the Sentry MCP?',
       options: [
@@ -473,7 +472,7 @@ export async function offerProjectScopedMcpConfig(
         },
       ],
       initialValue: 'yes',
-    }),
+    },
   );
 
   let shouldAdd: boolean;
@@ -501,28 +500,26 @@ export async function offerProjectScopedMcpConfig(
     | 'openCode'
     | 'jetbrains'
     | 'other';
-  const editors: EditorChoice[] = await abortIfCancelled(
-    clack.multiselect({
-      message: 'Which editor(s) do you want to configure?',
-      options: [
-        { value: 'cursor', label: 'Cursor (project .cursor/mcp.json)' },
-        { value: 'vscode', label: 'VS Code (project .vscode/mcp.json)' },
-        { value: 'claudeCode', label: 'Claude Code (project .mcp.json)' },
-        { value: 'openCode', label: 'OpenCode (project opencode.json)' },
-        {
-          value: 'jetbrains',
-          label: 'JetBrains IDE (WebStorm, IntelliJ IDEA, PyCharm, etc.)',
-          hint: 'Manual configuration required',
-        },
-        {
-          value: 'other',
-          label: 'I use a different IDE',
-          hint: "We'll show you the configuration to copy",
-        },
-      ],
-      required: false,
-    }),
-  );
+  const editors: EditorChoice[] = await multiselectPrompt('mcpClients', {
+    message: 'Which editor(s) do you want to configure?',
+    options: [
+      { value: 'cursor', label: 'Cursor (project .cursor/mcp.json)' },
+      { value: 'vscode', label: 'VS Code (project .vscode/mcp.json)' },
+      { value: 'claudeCode', label: 'Claude Code (project .mcp.json)' },
+      { value: 'openCode', label: 'OpenCode (project opencode.json)' },
+      {
+        value: 'jetbrains',
+        label: 'JetBrains IDE (WebStorm, IntelliJ IDEA, PyCharm, etc.)',
+        hint: 'Manual configuration required',
+      },
+      {
+        value: 'other',
+        label: 'I use a different IDE',
+        hint: "We'll show you the configuration to copy",
+      },
+    ],
+    required: false,
+  });
 
   // If no editors were selected, return early
   if (!editors || editors.length === 0) {
@@ -0,0 +1,139 @@
+import * as path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import { getIntegrationDescription } from '../../lib/Constants';
+import { traceStep } from '../telemetry';
+import { isWizardFile } from './change-manifest';
+import { debug } from './debug';
+import {
+  commitFilesToNewBranch,
+  getChangedFiles,
+  isAvailableBranchName,
+  isInGitRepo,
+} from './git';
+import { getRunSummary } from './json-output';
+import type { FileChange } from './virtual-fs';
+
+/**
+ * @returns the default branch for the changes of the wizard,
+ * e.g. `sentry/setup-nextjs` or `sentry/setup-react-native`
+ */
+export function getDefaultBranchName(integrations: string[]): string {
+  return `sentry/setup-${integrations
+    .map((integration) =>
+      integration.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`),
+    )
+    .join('-')}`;
+}
+
+/**
+ * Checks that the changes of the wizard can be committed to the branch
+ * before the wizard runs.
+ *
+ * @returns an error message or undefined if the branch can be used
+ */
+export function validateCommitBranch(branchName: string): string | undefined {
+  if (!isInGitRepo({ cwd: undefined })) {
+    return `${chalk.cyan(
+      '--commit-to-branch',
+    )} requires a git repository, but the current directory isn't one.`;
+  }
+
+  if (!isAvailableBranchName(branchName)) {
+    return `Can't commit the changes to ${chalk.cyan(
+      branchName,
+    )}, the branch already exists or its name is invalid.`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Commits the files changed by the wizard and by the package manager
+ * (e.g. lock files) to a new branch. Files that had uncommitted changes
+ * before the wizard ran are left alone, so that the commit doesn't contain
+ * unrelated work.
+ *
+ * @param options.filesChangedBeforeRun the absolute paths of the files with
+ * uncommitted changes before the wizard ran (see {@link getChangedFiles})
+ */
+export function commitChangesToBranch(options: {
+  branchName: string;
+  integrations: string[];
+  fileChanges: FileChange[];
+  filesChangedBeforeRun: string[];
+}): void {
+  const { branchName, integrations, fileChanges, filesChangedBeforeRun } =
+    options;
+
+  traceStep('commit-to-branch', () => {
+    const cwd = process.cwd();
+    const changedBefore = new Set(filesChangedBeforeRun);
+
+    const files = getChangedFiles().filter(
+      (file) => !changedBefore.has(file) && !isWizardFile(file),
+    );
+    const skippedFiles = fileChanges
+      .map((change) => change.path)
+      .filter((file) => changedBefore.has(file));
+
+    if (skippedFiles.length) {
+      clack.log.warn(
+        `These files already had uncommitted changes before the wizard ran, please commit them manually:\n${skippedFiles
+          .map((file) => `- ${path.relative(cwd, file)}`)
+          .join('\n')}`,
+      );
+    }
+
+    if (!files.length) {
+      clack.log.info(
+        `The wizard didn't change any files to commit to ${chalk.cyan(
+          branchName,
+        )}.`,
+      );
+      return;
+    }
+
+    try {
+      commitFilesToNewBranch({
+        branchName,
+        files,
+        message: getCommitMessage(integrations),
+      });
+    } catch (e) {
+      debug(e);
+      clack.log.warn(
+        `Failed to commit the changes to ${chalk.cyan(
+          branchName,
+        )}. Please commit them manually:\n${
+          e instanceof Error ? e.message : String(e)
+        }`,
+      );
+      return;
+    }
+
+    clack.log.success(
+      `Committed ${files.length} ${
+        files.length === 1 ? 'file' : 'files'
+      } to the new branch ${chalk.cyan(branchName)}.`,
+    );
+  });
+}
+
+function getCommitMessage(integrations: string[]): string {
+  const { project, features } = getRunSummary();
+
+  const details = [
+    project && `Project: ${project.org}/${project.project}`,
+    features.length && `Features: ${features.join(', ')}`,
+  ].filter(Boolean);
+
+  return [
+    `feat: Set up Sentry for ${integrations
+      .map((integration) => getIntegrationDescription(integration))
+      .join(', ')}`,
+    ...(details.length ? [details.join('\n')] : []),
+    'Created by the Sentry Wizard.',
+  ].join('\n\n');
+}
@@ -0,0 +1,289 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { debug } from './debug';
+import { type PackageDotJson, hasPackageInstalled } from './package-json';
+import type { WizardIntegration } from './types';
+
+type DetectionContext = {
+  /** The absolute path of the directory to check */
+  dir: string;
+  /** The names of all files and directories in `dir` */
+  files: string[];
+  /** The parsed package.json of `dir`, if there is one */
+  packageJson: PackageDotJson | undefined;
+};
+
+type IntegrationDetector = {
+  integration: WizardIntegration;
+  label: string;
+  /**
+   * Returns how confident we are that the project uses this integration,
+   * from 0 (not detected) to 1 (definitely detected).
+   *
+   * Integrations without a detector can only be selected manually.
+   */
+  detect?: (context: DetectionContext) => number;
+};
+
+export type DetectedIntegration = {
+  integration: WizardIntegration;
+  label: string;
+  confidence: number;
+};
+
+/**
+ * The confidence levels of the detectors.
+ * Framework packages (or files only a single platform uses, like pubspec.yaml)
+ * are more specific than config files, which are more specific than the
+ * native project files of the mobile platforms.
+ */
+export const FRAMEWORK_CONFIDENCE = 0.9;
+const CONFIG_FILE_CONFIDENCE = 0.7;
+const PROJECT_FILE_CONFIDENCE = 0.6;
+const ANY_PACKAGE_CONFIDENCE = 0.1;
+
+/**
+ * All integrations in the order in which they're shown
+ * in the "What do you want to set up?" menu.
+ */
+export const INTEGRATION_DETECTORS: IntegrationDetector[] = [
+  {
+    integration: 'reactNative',
+    label: 'React Native',
+    detect: ({ dir, files, packageJson }) => {
+      if (
+        hasAnyPackage(['react-native', 'expo'], packageJson) ||
+        isExpoAppJson(dir, files)
+      ) {
+        return FRAMEWORK_CONFIDENCE;
+      }
+      return 0;
+    },
+  },
+  {
+    integration: 'flutter',
+    label: 'Flutter',
+    detect: ({ files }) =>
+      files.includes('pubspec.yaml') ? FRAMEWORK_CONFIDENCE : 0,
+  },
+  {
+    integration: 'ios',
+    label: 'iOS',
+    detect: ({ files }) =>
+      files.some(
+        (file) =>
+          file.endsWith('.xcodeproj') ||
+          file.endsWith('.xcworkspace') ||
+          file === 'Package.swift',
+      )
+        ? PROJECT_FILE_CONFIDENCE
+        : 0,
+  },
+  {
+    integration: 'appleSnapshots',
+    label: 'Apple Snapshots',
+  },
+  {
+    integration: 'angular',
+    label: 'Angular',
+    detect: ({ files, packageJson }) => {
+      if (hasAnyPackage(['@angular/core'], packageJson)) {
+        return FRAMEWORK_CONFIDENCE;
+      }
+      return files.includes('angular.json') ? CONFIG_FILE_CONFIDENCE : 0;
+    },
+  },
+  {
+    integration: 'android',
+    label: 'Android',
+    detect: ({ files }) =>
+      hasAnyFile(files, [
+        'build.gradle',
+        'build.gradle.kts',
+        'settings.gradle',
+        'settings.gradle.kts',
+      ])
+        ? PROJECT_FILE_CONFIDENCE
+        : 0,
+  },
+  {
+    integration: 'cordova',
+    label: 'Cordova',
+    detect: ({ files, packageJson }) => {
+      if (hasAnyPackage(['cordova'], packageJson)) {
+        return FRAMEWORK_CONFIDENCE;
+      }
+      return files.includes('config.xml') && files.includes('www')
+        ? CONFIG_FILE_CONFIDENCE
+        : 0;
+    },
+  },
+  {
+    integration: 'electron',
+    label: 'Electron',
+    detect: ({ packageJson }) =>
+      hasAnyPackage(['electron'], packageJson) ? FRAMEWORK_CONFIDENCE : 0,
+  },
+  {
+    integration: 'nextjs',
+    label: 'Next.js',
+    detect: ({ files, packageJson }) =>
+      detectFramework({
+        files,
+        packageJson,
+        packages: ['next'],
+        configFilePrefix: 'next.config.',
+      }),
+  },
+  {
+    integration: 'nuxt',
+    label: 'Nuxt',
+    detect: ({ files, packageJson }) =>
+      detectFramework({
+        files,
+        packageJson,
+        packages: ['nuxt'],
+        configFilePrefix: 'nuxt.config.',
+      }),
+  },
+  {
+    integration: 'remix',
+    label: 'Remix',
+    detect: ({ files, packageJson }) =>
+      detectFramework({
+        files,
+        packageJson,
+        packages: ['@remix-run/react', '@remix-run/node', '@remix-run/dev'],
+        configFilePrefix: 'remix.config.',
+      }),
+  },
+  {
+    integration: 'reactRouter',
+    label: 'React Router',
+    detect: ({ files, packageJson }) =>
+      detectFramework({
+        files,
+        packageJson,
+        packages: ['@react-router/dev'],
+        configFilePrefix: 'react-router.config.',
+      }),
+  },
+  {
+    integration: 'sveltekit',
+    label: 'SvelteKit',
+    // svelte.config.* files are also used by plain Svelte projects
+    detect: ({ packageJson }) =>
+      hasAnyPackage(['@sveltejs/kit'], packageJson) ? FRAMEWORK_CONFIDENCE : 0,
+  },
+  {
+    integration: 'cloudflare',
+    label: 'Cloudflare',
+    detect: ({ files, packageJson }) => {
+      // Wrangler is also used to deploy apps of other frameworks, so
+      // we rank it lower than the framework packages.
+      if (
+        hasAnyFile(files, ['wrangler.toml', 'wrangler.json', 'wrangler.jsonc'])
+      ) {
+        return CONFIG_FILE_CONFIDENCE;
+      }
+      return hasAnyPackage(['wrangler'], packageJson)
+        ? PROJECT_FILE_CONFIDENCE
+        : 0;
+    },
+  },
+  {
+    integration: 'sourcemaps',
+    label: 'Configure Source Maps Upload',
+    detect: ({ packageJson }) => (packageJson ? ANY_PACKAGE_CONFIDENCE : 0),
+  },
+];
+
+/**
+ * Detects the integrations which fit the project in @param dir.
+ *
+ * @returns the detected integrations, sorted by confidence (highest first)
+ */
+export function detectIntegrations(dir = process.cwd()): DetectedIntegration[] {
+  const context = getDetectionContext(dir);
+
+  const detected: DetectedIntegration[] = [];
+  for (const { integration, label, detect } of INTEGRATION_DETECTORS) {
+    const confidence = detect?.(context) ?? 0;
+    if (confidence > 0) {
+      detected.push({ integration, label, confidence });
+    }
+  }
+
+  // Array.prototype.sort is stable, so integrations with the same
+  // confidence keep the order of the registry
+  return detected.sort((a, b) => b.confidence - a.confidence);
+}
+
+function getDetectionContext(dir: string): DetectionContext {
+  let files: string[] = [];
+  try {
+    files = fs.readdirSync(dir);
+  } catch (e) {
+    debug(`Could not read directory ${dir}:`, e);
+  }
+
+  let packageJson: PackageDotJson | undefined;
+  if (files.includes('package.json')) {
+    try {
+      packageJson = JSON.parse(
+        fs.readFileSync(path.join(dir, 'package.json'), 'utf8'),
+      ) as PackageDotJson;
+    } catch (e) {
+      debug('Could not parse package.json:', e);
+    }
+  }
+
+  return { dir, files, packageJson };
+}
+
+function detectFramework({
+  files,
+  packageJson,
+  packages,
+  configFilePrefix,
+}: {
+  files: string[];
+  packageJson: PackageDotJson | undefined;
+  packages: string[];
+  configFilePrefix: string;
+}): number {
+  if (hasAnyPackage(packages, packageJson)) {
+    return FRAMEWORK_CONFIDENCE;
+  }
+  return files.some((file) => file.startsWith(configFilePrefix))
+    ? CONFIG_FILE_CONFIDENCE
+    : 0;
+}
+
+function hasAnyPackage(
+  packages: string[],
+  packageJson: PackageDotJson | undefined,
+): boolean {
+  return (
+    !!packageJson &&
+    packages.some((name) => hasPackageInstalled(name, packageJson))
+  );
+}
+
+function hasAnyFile(files: string[], names: string[]): boolean {
+  return names.some((name) => files.includes(name));
+}
+
+function isExpoAppJson(dir: string, files: string[]): boolean {
+  if (!files.includes('app.json')) {
+    return false;
+  }
+  try {
+    const appJson = JSON.parse(
+      fs.readFileSync(path.join(dir, 'app.json'), 'utf8'),
+    ) as { expo?: unknown };
+    return !!appJson.expo;
+  } catch {
+    return false;
+  }
+}
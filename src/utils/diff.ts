@@ -0,0 +1,202 @@
+/**
+ * Above this number of (trimmed) line comparisons, we don't try to find the
+ * minimal diff anymore and fall back to replacing the changed block as a whole.
+ * This keeps memory usage in check for huge files like Xcode project files.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOperation = {
+  type: ' ' | '-' | '+';
+  line: string;
+};
+
+/**
+ * Creates a unified diff (as printed by `git diff` or `diff -u`) of two file contents.
+ *
+ * Pass `null` as @param oldContent for files that don't exist yet and `null` as
+ * @param newContent for files that are deleted.
+ *
+ * @returns the unified diff or an empty string if the contents are equal.
+ */
+export function createUnifiedDiff({
+  fileName,
+  oldContent,
+  newContent,
+  context = 3,
+}: {
+  fileName: string;
+  oldContent: string | null;
+  newContent: string | null;
+  context?: number;
+}): string {
+  if (oldContent === newContent) {
+    return '';
+  }
+
+  const operations = diffLines(
+    splitLines(oldContent ?? ''),
+    splitLines(newContent ?? ''),
+  );
+
+  const changeIndices = operations
+    .map((op, index) => (op.type === ' ' ? -1 : index))
+    .filter((index) => index >= 0);
+
+  if (!changeIndices.length) {
+    // Only the trailing newline changed
+    return '';
+  }
+
+  const header = [
+    `--- ${oldContent === null ? '/dev/null' : `a/${fileName}`}`,
+    `+++ ${newContent === null ? '/dev/null' : `b/${fileName}`}`,
+  ];
+
+  const hunks: string[] = [];
+
+  let groupStart = changeIndices[0];
+  let groupEnd = changeIndices[0];
+
+  for (const index of [...changeIndices.slice(1), Infinity]) {
+    if (index - groupEnd <= context * 2) {
+      groupEnd = index;
+      continue;
+    }
+
+    hunks.push(
+      createHunk(
+        operations,
+        Math.max(0, groupStart - context),
+        Math.min(operations.length, groupEnd + context + 1),
+      ),
+    );
+
+    groupStart = index;
+    groupEnd = index;
+  }
+
+  return [...header, ...hunks].join('\n');
+}
+
+function createHunk(
+  operations: DiffOperation[],
+  start: number,
+  end: number,
+): string {
+  const before = operations.slice(0, start);
+  const hunkOperations = operations.slice(start, end);
+
+  const oldLinesBefore = before.filter((op) => op.type !== '+').length;
+  const newLinesBefore = before.filter((op) => op.type !== '-').length;
+  const oldCount = hunkOperations.filter((op) => op.type !== '+').length;
+  const newCount = hunkOperations.filter((op) => op.type !== '-').length;
+
+  const oldStart = oldCount === 0 ? oldLinesBefore : oldLinesBefore + 1;
+  const newStart = newCount === 0 ? newLinesBefore : newLinesBefore + 1;
+
+  return [
+    `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`,
+    ...hunkOperations.map((op) => `${op.type}${op.line}`),
+  ].join('\n');
+}
+
+function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+
+  const lines = content.split(/\r?\n/);
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOperation[] {
+  let prefixLength = 0;
+  while (
+    prefixLength < oldLines.length &&
+    prefixLength < newLines.length &&
+    oldLines[prefixLength] === newLines[prefixLength]
+  ) {
+    prefixLength++;
+  }
+
+  let suffixLength = 0;
+  while (
+    suffixLength < oldLines.length - prefixLength &&
+    suffixLength < newLines.length - prefixLength &&
+    oldLines[oldLines.length - 1 - suffixLength] ===
+      newLines[newLines.length - 1 - suffixLength]
+  ) {
+    suffixLength++;
+  }
+
+  const oldMiddle = oldLines.slice(
+    prefixLength,
+    oldLines.length - suffixLength,
+  );
+  const newMiddle = newLines.slice(
+    prefixLength,
+    newLines.length - suffixLength,
+  );
+
+  return [
+    ...oldLines
+      .slice(0, prefixLength)
+      .map((line): DiffOperation => ({ type: ' ', line })),
+    ...diffMiddle(oldMiddle, newMiddle),
+    ...oldLines
+      .slice(oldLines.length - suffixLength)
+      .map((line): DiffOperation => ({ type: ' ', line })),
+  ];
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffOperation[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n === 0 || m === 0 || n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((line): DiffOperation => ({ type: '-', line })),
+      ...newLines.map((line): DiffOperation => ({ type: '+', line })),
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = length of the longest common subsequence
+  // of oldLines[i..] and newLines[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const operations: DiffOperation[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      operations.push({ type: ' ', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      operations.push({ type: '-', line: oldLines[i] });
+      i++;
+    } else {
+      operations.push({ type: '+', line: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) {
+    operations.push({ type: '-', line: oldLines[i++] });
+  }
+  while (j < m) {
+    operations.push({ type: '+', line: newLines[j++] });
+  }
+
+  return operations;
+}
@@ -0,0 +1,108 @@
+import * as path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import { createUnifiedDiff } from './diff';
+import { enableVirtualFs, getFileChanges } from './virtual-fs';
+
+let dryRunEnabled = false;
+const skippedCommands: string[] = [];
+
+/**
+ * Enables the dry run mode. In this mode, all file changes of the wizard
+ * are kept in memory and commands that would modify the project (e.g.
+ * package installations) are skipped.
+ *
+ * Call {@link printDryRunSummary} at the end of the wizard run to show
+ * what would have been changed.
+ */
+export function enableDryRun(): void {
+  dryRunEnabled = true;
+  enableVirtualFs();
+}
+
+export function isDryRun(): boolean {
+  return dryRunEnabled;
+}
+
+/**
+ * Records a command that was skipped because of the dry run mode,
+ * so that it can be listed in the dry run summary.
+ */
+export function recordSkippedCommand(command: string): void {
+  skippedCommands.push(command);
+  clack.log.info(
+    `${chalk.dim('[dry run]')} Skipped running ${chalk.cyan(command)}.`,
+  );
+}
+
+/**
+ * Prints a colored unified diff of all file changes, the list of files
+ * the wizard would create and the commands it would have run.
+ */
+export function printDryRunSummary(): void {
+  const changes = getFileChanges();
+  const cwd = process.cwd();
+
+  clack.intro(chalk.inverse(' Dry run summary '));
+
+  if (!changes.length) {
+    clack.log.info('The wizard would not change any files.');
+  }
+
+  for (const change of changes) {
+    const fileName = path.relative(cwd, change.path);
+    const diff = createUnifiedDiff({
+      fileName,
+      oldContent: change.before,
+      newContent: change.after,
+    });
+
+    // Intentionally logging directly to console here so that the diff can be copied or piped
+    // eslint-disable-next-line no-console
+    console.log(`\n${colorizeDiff(diff)}\n`);
+  }
+
+  const createdFiles = changes
+    .filter((change) => change.before === null)
+    .map((change) => path.relative(cwd, change.path));
+
+  if (createdFiles.length) {
+    clack.note(
+      createdFiles.map((file) => `${chalk.green('+')} ${file}`).join('\n'),
+      'Files that would be created',
+    );
+  }
+
+  if (skippedCommands.length) {
+    clack.note(
+      skippedCommands.map((command) => chalk.cyan(command)).join('\n'),
+      'Commands that would be run',
+    );
+  }
+
+  clack.outro(
+    `Dry run complete. ${chalk.bold('No files were changed on disk.')}`,
+  );
+}
+
+function colorizeDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      if (line.startsWith('+++') || line.startsWith('---')) {
+        return chalk.bold(line);
+      }
+      if (line.startsWith('@@')) {
+        return chalk.cyan(line);
+      }
+      if (line.startsWith('+')) {
+        return chalk.green(line);
+      }
+      if (line.startsWith('-')) {
+        return chalk.red(line);
+      }
+      return line;
+    })
+    .join('\n');
+}
@@ -0,0 +1,81 @@
+type PromptOption<T> = {
+  value: T;
+  label: string;
+  hint?: string;
+};
+
+/**
+ * Renders the prompts of the wizard instead of `@clack/prompts`.
+ *
+ * Every prompt has a stable `key`, which is the same key used in `--answers` files.
+ * To cancel the wizard, reject the returned promise.
+ */
+export type WizardPrompter = {
+  confirm(prompt: {
+    key: string;
+    message: string;
+    initialValue?: boolean;
+  }): Promise<boolean>;
+  select<T>(prompt: {
+    key: string;
+    message: string;
+    options: PromptOption<T>[];
+    initialValue?: T;
+  }): Promise<T>;
+  multiselect<T>(prompt: {
+    key: string;
+    message: string;
+    options: PromptOption<T>[];
+    initialValues?: T[];
+    required?: boolean;
+  }): Promise<T[]>;
+  text(prompt: {
+    key: string;
+    message: string;
+    placeholder?: string;
+    initialValue?: string;
+    /** Returns an error message if the value is invalid */
+    validate?: (value: string) => string | void;
+  }): Promise<string>;
+};
+
+let embedded = false;
+let prompter: WizardPrompter | undefined;
+
+/**
+ * Enables the embedded mode used by the programmatic API. In this mode,
+ * aborting the wizard throws an error instead of exiting the process.
+ *
+ * @param options.prompter renders the prompts instead of `@clack/prompts`
+ */
+export function enableEmbeddedMode(options?: {
+  prompter?: WizardPrompter;
+}): void {
+  embedded = true;
+  prompter = options?.prompter;
+}
+
+export function disableEmbeddedMode(): void {
+  embedded = false;
+  prompter = undefined;
+}
+
+export function isEmbedded(): boolean {
+  return embedded;
+}
+
+export function getPrompter(): WizardPrompter | undefined {
+  return prompter;
+}
+
+/**
+ * Creates the error thrown instead of exiting the process in the embedded mode.
+ *
+ * @param exitCode the code the CLI would have exited with
+ */
+export function createAbortError(
+  message: string,
+  exitCode: number,
+): Error & { exitCode: number } {
+  return Object.assign(new Error(message), { exitCode });
+}
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as path from 'path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+
+/**
+ * Sets variables in a dotenv file of the project (e.g. `.env.local`) and
+ * creates the file if it doesn't exist. Existing values of the variables
+ * are replaced.
+ *
+ * @returns true if the file was written
+ */
+export async function setEnvFileVariables(
+  fileName: string,
+  variables: Record<string, string>,
+): Promise<boolean> {
+  const filePath = path.join(process.cwd(), fileName);
+  const fileExists = fs.existsSync(filePath);
+
+  let contents = fileExists ? fs.readFileSync(filePath, 'utf8') : '';
+
+  for (const [name, value] of Object.entries(variables)) {
+    const line = `${name}=${value}`;
+    const existingLine = new RegExp(`^\\s*${name}\\s*=.*$`, 'm');
+
+    if (existingLine.test(contents)) {
+      contents = contents.replace(existingLine, line);
+    } else {
+      contents += `${
+        contents && !contents.endsWith('\n') ? '\n' : ''
+      }${line}\n`;
+    }
+  }
+
+  const variableNames = chalk.cyan(Object.keys(variables).join(', '));
+
+  try {
+    await fs.promises.writeFile(filePath, contents, 'utf8');
+    clack.log.success(
+      fileExists
+        ? `Added ${variableNames} to ${chalk.cyan(fileName)}.`
+        : `Created ${chalk.cyan(fileName)} with ${variableNames}.`,
+    );
+    return true;
+  } catch {
+    clack.log.warn(
+      `Failed to write ${variableNames} to ${chalk.cyan(fileName)}.`,
+    );
+    return false;
+  }
+}
@@ -0,0 +1,160 @@
+import type { Options } from 'yargs';
+import type { Feature } from './types';
+
+export const TRACING_FEATURE = {
+  id: 'performance',
+  label: 'Tracing',
+  hint: 'track the performance of your application',
+} as const satisfies Feature;
+
+export const REPLAY_FEATURE = {
+  id: 'replay',
+  label: 'Session Replay',
+  hint: 'get a video-like reproduction of errors, increases bundle size',
+} as const satisfies Feature;
+
+export const LOGS_FEATURE = {
+  id: 'logs',
+  label: 'Logs',
+  hint: 'send your application logs to Sentry',
+} as const satisfies Feature;
+
+export const PROFILING_FEATURE = {
+  id: 'profiling',
+  label: 'Profiling',
+  hint: 'track the performance of your application in detail',
+  requires: [TRACING_FEATURE.id],
+} as const satisfies Feature;
+
+/**
+ * The feature names accepted by `--features`. `tracing` is an alias
+ * of the `performance` feature ID used by most wizards.
+ */
+export const FEATURE_FLAG_NAMES = [
+  'tracing',
+  'replay',
+  'logs',
+  'profiling',
+  'instrumentationAPI',
+];
+
+/**
+ * The `--features` CLI option.
+ *
+ * yargs parses a value starting with `-` in a separate token as short flags
+ * (`--features -replay` becomes `-r -e -p -l -a -y`), so disabled features
+ * must be passed with `=` or after an enabled feature.
+ */
+export const FEATURES_OPTION: Options = {
+  // No default, so that yargs keeps the empty string of a misparsed value
+  describe:
+    'Features to enable without asking, e.g. tracing,logs. Prefix a feature with - to disable it, e.g. --features=-replay or tracing,-replay\nenv: SENTRY_WIZARD_FEATURES',
+  type: 'string',
+};
+
+/**
+ * Parses the `--features` arg (e.g. `tracing,logs,-replay`).
+ *
+ * @returns the feature names, with disabled features prefixed with `-`
+ */
+export function parseFeatureFlags(
+  featuresArg: string | string[] | undefined,
+): string[] | undefined {
+  if (featuresArg === undefined) {
+    return undefined;
+  }
+
+  return (Array.isArray(featuresArg) ? featuresArg : [featuresArg])
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * @returns the feature flags that don't match any known feature
+ */
+export function getUnknownFeatureFlags(featureFlags: string[]): string[] {
+  return featureFlags.filter(
+    (flag) =>
+      !FEATURE_FLAG_NAMES.some((name) =>
+        isSameFeature(name, flag.replace(/^-/, '')),
+      ),
+  );
+}
+
+/**
+ * Selects the features from the `--features` flags instead of prompting.
+ *
+ * If any feature is enabled explicitly, features that aren't mentioned are
+ * disabled. If the flags only disable features (e.g. `-replay`), all other
+ * features are enabled. Features required by an enabled feature are enabled
+ * as well, unless they are disabled explicitly.
+ *
+ * @returns the IDs of the selected features
+ */
+export function selectFeaturesFromFlags(
+  features: ReadonlyArray<Feature>,
+  featureFlags: string[],
+): string[] {
+  const enabled = featureFlags.filter((flag) => !flag.startsWith('-'));
+  const disabled = featureFlags
+    .filter((flag) => flag.startsWith('-'))
+    .map((flag) => flag.slice(1));
+
+  const isDisabled = (feature: Feature) =>
+    disabled.some((flag) => isSameFeature(feature.id, flag));
+
+  const selectedIds = features
+    .filter((feature) =>
+      enabled.length
+        ? enabled.some((flag) => isSameFeature(feature.id, flag))
+        : !isDisabled(feature),
+    )
+    .map((feature) => feature.id);
+
+  for (const id of [...selectedIds]) {
+    const requiredIds = features.find((feature) => feature.id === id)?.requires;
+
+    for (const requiredId of requiredIds ?? []) {
+      const required = features.find((feature) => feature.id === requiredId);
+      if (
+        required &&
+        !isDisabled(required) &&
+        !selectedIds.includes(required.id)
+      ) {
+        selectedIds.push(required.id);
+      }
+    }
+  }
+
+  return selectedIds;
+}
+
+/**
+ * @returns the features that can't be enabled because a feature they
+ * require isn't selected
+ */
+export function getFeaturesWithMissingRequirements(
+  features: ReadonlyArray<Feature>,
+  selectedIds: string[],
+): { feature: Feature; missing: Feature[] }[] {
+  return features
+    .filter((feature) => selectedIds.includes(feature.id))
+    .map((feature) => ({
+      feature,
+      missing: features.filter(
+        (other) =>
+          feature.requires?.includes(other.id) &&
+          !selectedIds.includes(other.id),
+      ),
+    }))
+    .filter(({ missing }) => missing.length);
+}
+
+function isSameFeature(featureId: string, flag: string): boolean {
+  const normalize = (name: string) => {
+    const lowerCaseName = name.toLowerCase();
+    return lowerCaseName === 'performance' ? 'tracing' : lowerCaseName;
+  };
+  return normalize(featureId) === normalize(flag);
+}
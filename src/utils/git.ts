@@ -1,5 +1,6 @@
 import * as childProcess from 'child_process';
 import * as os from 'os';
+import * as path from 'path';
 
 /**
  * Checks if the current working directory is a git repository.
@@ -43,3 +44,120 @@ export function getUncommittedOrUntrackedFiles(opts?: {
     return [];
   }
 }
+
+/**
+ * Checks if git ignores the given file.
+ *
+ * @returns `true` or `false`, or `undefined` if the directory isn't a git repository
+ */
+export function isGitIgnored(
+  filePath: string,
+  opts?: { cwd: string | undefined },
+): boolean | undefined {
+  if (!isInGitRepo({ cwd: opts?.cwd })) {
+    return undefined;
+  }
+
+  try {
+    // Exits with 0 if the file is ignored and with 1 if it isn't
+    childProcess.execFileSync('git', ['check-ignore', '-q', filePath], {
+      stdio: 'ignore',
+      cwd: opts?.cwd,
+    });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @returns the absolute paths of all files with uncommitted changes and of
+ * all untracked files, or an empty list if the directory isn't a git repository
+ */
+export function getChangedFiles(opts?: { cwd: string | undefined }): string[] {
+  try {
+    const root = childProcess
+      .execFileSync('git', ['rev-parse', '--show-toplevel'], {
+        stdio: ['ignore', 'pipe', 'ignore'],
+        cwd: opts?.cwd,
+      })
+      .toString()
+      .trim();
+
+    // -z prints the paths unquoted, separated by NUL characters
+    const entries = childProcess
+      .execFileSync(
+        'git',
+        ['status', '--porcelain=v1', '-z', '--untracked-files=all'],
+        { stdio: ['ignore', 'pipe', 'ignore'], cwd: opts?.cwd },
+      )
+      .toString()
+      .split('\0');
+
+    const files: string[] = [];
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i];
+      if (!entry) {
+        continue;
+      }
+
+      files.push(path.join(root, entry.slice(3)));
+
+      // Renamed and copied files are followed by their original path
+      if (/^[RC]/.test(entry)) {
+        files.push(path.join(root, entries[++i]));
+      }
+    }
+
+    return files;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * @returns true if the name is a valid branch name that isn't used yet
+ */
+export function isAvailableBranchName(
+  branchName: string,
+  opts?: { cwd: string | undefined },
+): boolean {
+  const git = (args: string[]) =>
+    childProcess.execFileSync('git', args, { stdio: 'ignore', cwd: opts?.cwd });
+
+  try {
+    git(['check-ref-format', '--branch', branchName]);
+  } catch {
+    return false;
+  }
+
+  try {
+    git(['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Creates a new branch from the current HEAD and commits the files to it.
+ * Changes to other files stay uncommitted, even if they were staged before.
+ *
+ * @param files the absolute paths of the files to commit
+ */
+export function commitFilesToNewBranch(options: {
+  branchName: string;
+  files: string[];
+  message: string;
+  cwd?: string;
+}): void {
+  const git = (args: string[]) =>
+    childProcess.execFileSync('git', args, {
+      stdio: ['ignore', 'ignore', 'pipe'],
+      cwd: options.cwd,
+    });
+
+  git(['switch', '--create', options.branchName]);
+  git(['add', '--', ...options.files]);
+  git(['commit', '--message', options.message, '--', ...options.files]);
+}
@@ -0,0 +1,327 @@
+import * as path from 'node:path';
+import { stripVTControlCharacters } from 'node:util';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import type { FileChange } from './virtual-fs';
+
+type LogLevel = 'info' | 'success' | 'step' | 'warn' | 'error' | 'message';
+
+type ProjectEvent = {
+  type: 'project';
+  org: string;
+  project: string;
+  projectId: string;
+  url: string;
+  issueStreamUrl: string;
+};
+
+type PackageEvent = {
+  type: 'package';
+  name: string;
+  /** The version (range) in the package.json after the installation */
+  version?: string;
+  packageManager: string;
+  status: 'installed' | 'updated';
+};
+
+type FeaturesEvent = {
+  type: 'features';
+  /** The labels of the enabled features, e.g. `Session Replay` */
+  features: string[];
+};
+
+type EnvVarEvent = {
+  type: 'env_var';
+  /** An environment variable users need to set in CI, e.g. `SENTRY_AUTH_TOKEN` */
+  name: string;
+  description: string;
+};
+
+type ManualStepEvent = {
+  type: 'manual_step';
+  message: string;
+  filename?: string;
+  codeSnippet?: string;
+};
+
+/**
+ * Events emitted as newline-delimited JSON on stdout in the `--output json` mode.
+ * Every event additionally contains an ISO `timestamp`.
+ */
+export type WizardEvent =
+  | { type: 'log'; level: LogLevel; message: string }
+  | { type: 'intro' | 'outro' | 'cancel'; message: string }
+  | { type: 'note'; title?: string; message: string }
+  | { type: 'spinner'; status: 'start' | 'update' | 'stop'; message: string }
+  | { type: 'step'; step: string; status: 'start' | 'finish' | 'error' }
+  | { type: 'abort'; message: string; exitCode: number }
+  | ProjectEvent
+  | PackageEvent
+  | FeaturesEvent
+  | EnvVarEvent
+  | ManualStepEvent
+  | {
+      type: 'doctor_check';
+      title: string;
+      status: 'pass' | 'warn' | 'fail';
+      message: string;
+      fix?: string;
+    }
+  | {
+      type: 'result';
+      integration: string;
+      dryRun: boolean;
+      files: { path: string; change: 'created' | 'modified' | 'deleted' }[];
+      packages: Omit<PackageEvent, 'type'>[];
+      project?: Omit<ProjectEvent, 'type'>;
+      features: string[];
+      envVars: Omit<EnvVarEvent, 'type'>[];
+      manualSteps: Omit<ManualStepEvent, 'type'>[];
+    };
+
+/**
+ * Receives the events of the wizard, e.g. to print them as JSON.
+ */
+export type WizardEventListener = (
+  event: WizardEvent & { timestamp: string },
+) => void;
+
+let jsonOutputEnabled = false;
+
+let eventListener: WizardEventListener | undefined;
+let restoreOriginalOutput: (() => void) | undefined;
+
+let project: Omit<ProjectEvent, 'type'> | undefined;
+const packages: Omit<PackageEvent, 'type'>[] = [];
+const features: string[] = [];
+const envVars: Omit<EnvVarEvent, 'type'>[] = [];
+const manualSteps: Omit<ManualStepEvent, 'type'>[] = [];
+
+/**
+ * Enables the `--output json` mode. In this mode, the wizard doesn't print any
+ * human-readable output. Instead, all logs, spinners, steps and the final
+ * result are emitted as newline-delimited JSON events on stdout (see {@link WizardEvent}).
+ *
+ * Prompts can't be rendered in this mode, so they have to be answered with an answers file.
+ */
+export function enableJsonOutput(): void {
+  if (jsonOutputEnabled) {
+    return;
+  }
+
+  jsonOutputEnabled = true;
+  redirectOutputToEvents((event) => {
+    process.stdout.write(`${JSON.stringify(event)}\n`);
+  });
+}
+
+export function isJsonOutput(): boolean {
+  return jsonOutputEnabled;
+}
+
+/**
+ * Redirects all clack output and console logs of the wizard to @param listener
+ * as plain-text {@link WizardEvent}s instead of printing them.
+ *
+ * Call {@link restoreOutput} to print to the terminal again.
+ */
+export function redirectOutputToEvents(listener: WizardEventListener): void {
+  restoreOutput();
+
+  eventListener = listener;
+  resetRunSummary();
+
+  // `import * as clack` creates a read-only copy of clack's exports in every
+  // module, so we patch the CommonJS exports all of these copies read from.
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const clackExports = require('@clack/prompts') as typeof clack;
+
+  const originalChalkLevel = chalk.level;
+  const originalLog = { ...clackExports.log };
+  const originalExports = {
+    intro: clackExports.intro,
+    outro: clackExports.outro,
+    cancel: clackExports.cancel,
+    note: clackExports.note,
+    spinner: clackExports.spinner,
+  };
+  // eslint-disable-next-line no-console
+  const originalConsoleLog = console.log;
+
+  restoreOriginalOutput = () => {
+    chalk.level = originalChalkLevel;
+    Object.assign(clackExports.log, originalLog);
+    Object.assign(clackExports, originalExports);
+    // eslint-disable-next-line no-console
+    console.log = originalConsoleLog;
+  };
+
+  chalk.level = 0;
+
+  const logLevels: LogLevel[] = [
+    'info',
+    'success',
+    'step',
+    'warn',
+    'error',
+    'message',
+  ];
+  for (const level of logLevels) {
+    clackExports.log[level] = (message: string) =>
+      emitEvent({ type: 'log', level, message: toPlainText(message) });
+  }
+  clackExports.log.warning = clackExports.log.warn;
+
+  const emitMessageEvent =
+    (type: 'intro' | 'outro' | 'cancel') =>
+    (message = '') =>
+      emitEvent({ type, message: toPlainText(message).trim() });
+
+  const emitSpinnerEvent =
+    (status: 'start' | 'update' | 'stop') =>
+    (message = '') =>
+      emitEvent({ type: 'spinner', status, message: toPlainText(message) });
+
+  Object.assign(clackExports, {
+    intro: emitMessageEvent('intro'),
+    outro: emitMessageEvent('outro'),
+    cancel: emitMessageEvent('cancel'),
+    note: (message = '', title?: string) =>
+      emitEvent({
+        type: 'note',
+        title: title && toPlainText(title),
+        message: toPlainText(message),
+      }),
+    spinner: () => ({
+      start: emitSpinnerEvent('start'),
+      message: emitSpinnerEvent('update'),
+      stop: emitSpinnerEvent('stop'),
+    }),
+  });
+
+  // Some wizards log code snippets or diffs directly to the console
+  // eslint-disable-next-line no-console
+  console.log = (...args: unknown[]) => {
+    const message = toPlainText(args.map(String).join(' ')).trim();
+    if (message) {
+      emitEvent({ type: 'log', level: 'message', message });
+    }
+  };
+}
+
+/**
+ * Clears the summary recorded by {@link emitEvent}, so that a new run
+ * doesn't report the project, packages, features or environment variables
+ * of a previous run.
+ */
+export function resetRunSummary(): void {
+  project = undefined;
+  packages.length = 0;
+  features.length = 0;
+  envVars.length = 0;
+  manualSteps.length = 0;
+}
+
+/**
+ * Restores the output redirected by {@link redirectOutputToEvents}.
+ */
+export function restoreOutput(): void {
+  restoreOriginalOutput?.();
+  restoreOriginalOutput = undefined;
+  eventListener = undefined;
+}
+
+/**
+ * Emits an event if the output is redirected to events
+ * (e.g. in the `--output json` mode). The project, packages, features,
+ * environment variables and manual steps are recorded for the summary of
+ * the run in any case (see {@link getRunSummary}).
+ */
+export function emitEvent(event: WizardEvent): void {
+  if (event.type === 'project') {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { type, ...projectData } = event;
+    project = projectData;
+  } else if (event.type === 'package') {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { type, ...packageData } = event;
+    packages.push(packageData);
+  } else if (event.type === 'manual_step') {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { type, ...manualStep } = event;
+    manualSteps.push(manualStep);
+  } else if (event.type === 'env_var') {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { type, ...envVar } = event;
+    if (!envVars.some(({ name }) => name === envVar.name)) {
+      envVars.push(envVar);
+    }
+  } else if (event.type === 'features') {
+    features.push(
+      ...event.features.filter((feature) => !features.includes(feature)),
+    );
+  }
+
+  if (!eventListener) {
+    return;
+  }
+
+  eventListener({ ...event, timestamp: new Date().toISOString() });
+}
+
+/**
+ * Emits the final `result` event with all file changes, installed packages,
+ * the selected project and the manual steps left to do.
+ */
+export function emitResultEvent(options: {
+  integration: string;
+  dryRun: boolean;
+  fileChanges: FileChange[];
+}): void {
+  const cwd = process.cwd();
+
+  emitEvent({
+    type: 'result',
+    integration: options.integration,
+    dryRun: options.dryRun,
+    files: options.fileChanges.map((change) => ({
+      path: path.relative(cwd, change.path),
+      change:
+        change.before === null
+          ? 'created'
+          : change.after === null
+          ? 'deleted'
+          : 'modified',
+    })),
+    ...getRunSummary(),
+  });
+}
+
+/**
+ * @returns the selected project, the installed packages, the enabled features,
+ * the environment variables to set in CI and the manual steps left to do of
+ * all wizards of this run
+ */
+export function getRunSummary(): {
+  project?: Omit<ProjectEvent, 'type'>;
+  packages: Omit<PackageEvent, 'type'>[];
+  features: string[];
+  envVars: Omit<EnvVarEvent, 'type'>[];
+  manualSteps: Omit<ManualStepEvent, 'type'>[];
+} {
+  return {
+    packages: [...packages],
+    project,
+    features: [...features],
+    envVars: [...envVars],
+    manualSteps: [...manualSteps],
+  };
+}
+
+/**
+ * Strips ANSI escape codes (e.g. from chalk) from the text.
+ */
+export function toPlainText(text: string): string {
+  return stripVTControlCharacters(text);
+}
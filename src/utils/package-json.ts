@@ -117,6 +117,37 @@ export function hasPackageInstalled(
   return getPackageVersion(packageName, packageJson) !== undefined;
 }
 
+/**
+ * @param packageName the package identifier passed to the package manager,
+ * optionally including a version (e.g. `@sentry/nextjs@^10`)
+ *
+ * @returns the package name without the version (e.g. `@sentry/nextjs`)
+ */
+export function stripPackageVersion(packageName: string): string {
+  const versionSeparatorIndex = packageName.lastIndexOf('@');
+  return versionSeparatorIndex > 0
+    ? packageName.slice(0, versionSeparatorIndex)
+    : packageName;
+}
+
+/**
+ * Reads the version (range) of a package from the package.json in @param dir
+ * without aborting the wizard if the file can't be read.
+ */
+export function readPackageVersion(
+  packageName: string,
+  dir = process.cwd(),
+): string | undefined {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(dir, 'package.json'), 'utf8'),
+    ) as PackageDotJson;
+    return getPackageVersion(packageName, packageJson);
+  } catch {
+    return undefined;
+  }
+}
+
 export function getPackageVersion(
   packageName: string,
   packageJson: PackageDotJson,
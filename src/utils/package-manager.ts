@@ -4,17 +4,22 @@ import * as path from 'node:path';
 import * as Sentry from '@sentry/node';
 import { traceStep } from '../telemetry';
 import { getPackageDotJson, updatePackageDotJson } from './clack';
+import { type WorkspacePackage, getWorkspaceRoot } from './workspace';
 
 export interface PackageManager {
   name: string;
   label: string;
   installCommand: string;
+  /* The command that the package manager uses to remove a dependency */
+  uninstallCommand: string;
   buildCommand: string;
   /* The command that the package manager uses to run a script from package.json */
   runScriptCommand: string;
   flags: string;
   forceInstallFlag: string;
   registry?: string;
+  /* Arguments that make the package manager install into a workspace package from the workspace root */
+  workspaceArgs?: (workspacePackage: WorkspacePackage) => string[];
   detect: () => boolean;
   addOverride: (pkgName: string, pkgVersion: string) => Promise<void>;
 }
@@ -23,35 +28,41 @@ export const BUN: PackageManager = {
   name: 'bun',
   label: 'Bun',
   installCommand: 'add',
+  uninstallCommand: 'remove',
   buildCommand: 'bun run build',
   runScriptCommand: 'bun run',
   flags: '',
   forceInstallFlag: '--force',
+  workspaceArgs: (workspacePackage) => ['--cwd', workspacePackage.dir],
   detect: () =>
     ['bun.lockb', 'bun.lock'].some((lockFile) => {
       try {
-        return fs.existsSync(path.join(process.cwd(), lockFile));
+        return fs.existsSync(path.join(getWorkspaceRoot(), lockFile));
       } catch (e) {
         return false;
       }
     }),
   addOverride: async (pkgName, pkgVersion): Promise<void> => {
-    const packageDotJson = await getPackageDotJson();
+    const packageDotJson = await getPackageDotJson(getWorkspaceRoot());
     const overrides = packageDotJson.overrides || {};
 
-    await updatePackageDotJson({
-      ...packageDotJson,
-      overrides: {
-        ...overrides,
-        [pkgName]: pkgVersion,
+    await updatePackageDotJson(
+      {
+        ...packageDotJson,
+        overrides: {
+          ...overrides,
+          [pkgName]: pkgVersion,
+        },
       },
-    });
+      getWorkspaceRoot(),
+    );
   },
 };
 export const DENO: PackageManager = {
   name: 'deno',
   label: 'Deno',
   installCommand: 'install',
+  uninstallCommand: 'remove',
   buildCommand: 'deno task build',
   runScriptCommand: 'deno task',
   flags: '',
@@ -59,36 +70,41 @@ export const DENO: PackageManager = {
   registry: 'npm',
   detect: () => {
     try {
-      return fs.existsSync(path.join(process.cwd(), 'deno.lock'));
+      return fs.existsSync(path.join(getWorkspaceRoot(), 'deno.lock'));
     } catch (e) {
       return false;
     }
   },
   addOverride: async (pkgName, pkgVersion): Promise<void> => {
-    const packageDotJson = await getPackageDotJson();
+    const packageDotJson = await getPackageDotJson(getWorkspaceRoot());
     const overrides = packageDotJson.overrides || {};
 
-    await updatePackageDotJson({
-      ...packageDotJson,
-      overrides: {
-        ...overrides,
-        [pkgName]: pkgVersion,
+    await updatePackageDotJson(
+      {
+        ...packageDotJson,
+        overrides: {
+          ...overrides,
+          [pkgName]: pkgVersion,
+        },
       },
-    });
+      getWorkspaceRoot(),
+    );
   },
 };
 export const YARN_V1: PackageManager = {
   name: 'yarn',
   label: 'Yarn V1',
   installCommand: 'add',
+  uninstallCommand: 'remove',
   buildCommand: 'yarn build',
   runScriptCommand: 'yarn',
   flags: '--ignore-workspace-root-check',
   forceInstallFlag: '--force',
+  workspaceArgs: (workspacePackage) => ['workspace', workspacePackage.name],
   detect: () => {
     try {
       return fs
-        .readFileSync(path.join(process.cwd(), 'yarn.lock'), 'utf-8')
+        .readFileSync(path.join(getWorkspaceRoot(), 'yarn.lock'), 'utf-8')
         .slice(0, 500)
         .includes('yarn lockfile v1');
     } catch (e) {
@@ -96,16 +112,19 @@ export const YARN_V1: PackageManager = {
     }
   },
   addOverride: async (pkgName, pkgVersion): Promise<void> => {
-    const packageDotJson = await getPackageDotJson();
+    const packageDotJson = await getPackageDotJson(getWorkspaceRoot());
     const resolutions = packageDotJson.resolutions || {};
 
-    await updatePackageDotJson({
-      ...packageDotJson,
-      resolutions: {
-        ...resolutions,
-        [pkgName]: pkgVersion,
+    await updatePackageDotJson(
+      {
+        ...packageDotJson,
+        resolutions: {
+          ...resolutions,
+          [pkgName]: pkgVersion,
+        },
       },
-    });
+      getWorkspaceRoot(),
+    );
   },
 };
 /** YARN V2/3/4 */
@@ -113,14 +132,16 @@ export const YARN_V2: PackageManager = {
   name: 'yarn',
   label: 'Yarn V2/3/4',
   installCommand: 'add',
+  uninstallCommand: 'remove',
   buildCommand: 'yarn build',
   runScriptCommand: 'yarn',
   flags: '',
   forceInstallFlag: '--force',
+  workspaceArgs: (workspacePackage) => ['workspace', workspacePackage.name],
   detect: () => {
     try {
       return fs
-        .readFileSync(path.join(process.cwd(), 'yarn.lock'), 'utf-8')
+        .readFileSync(path.join(getWorkspaceRoot(), 'yarn.lock'), 'utf-8')
         .slice(0, 500)
         .includes('__metadata');
     } catch (e) {
@@ -128,76 +149,89 @@ export const YARN_V2: PackageManager = {
     }
   },
   addOverride: async (pkgName, pkgVersion): Promise<void> => {
-    const packageDotJson = await getPackageDotJson();
+    const packageDotJson = await getPackageDotJson(getWorkspaceRoot());
     const resolutions = packageDotJson.resolutions || {};
 
-    await updatePackageDotJson({
-      ...packageDotJson,
-      resolutions: {
-        ...resolutions,
-        [pkgName]: pkgVersion,
+    await updatePackageDotJson(
+      {
+        ...packageDotJson,
+        resolutions: {
+          ...resolutions,
+          [pkgName]: pkgVersion,
+        },
       },
-    });
+      getWorkspaceRoot(),
+    );
   },
 };
 export const PNPM: PackageManager = {
   name: 'pnpm',
   label: 'PNPM',
   installCommand: 'add',
+  uninstallCommand: 'remove',
   buildCommand: 'pnpm build',
   runScriptCommand: 'pnpm',
   flags: '--ignore-workspace-root-check',
   forceInstallFlag: '--force',
+  workspaceArgs: (workspacePackage) => ['--filter', workspacePackage.name],
   detect: () => {
     try {
-      return fs.existsSync(path.join(process.cwd(), 'pnpm-lock.yaml'));
+      return fs.existsSync(path.join(getWorkspaceRoot(), 'pnpm-lock.yaml'));
     } catch (e) {
       return false;
     }
   },
   addOverride: async (pkgName, pkgVersion): Promise<void> => {
-    const packageDotJson = await getPackageDotJson();
+    const packageDotJson = await getPackageDotJson(getWorkspaceRoot());
     const pnpm = packageDotJson.pnpm || {};
     const overrides = pnpm.overrides || {};
 
-    await updatePackageDotJson({
-      ...packageDotJson,
-      pnpm: {
-        ...pnpm,
-        overrides: {
-          ...overrides,
-          [pkgName]: pkgVersion,
+    await updatePackageDotJson(
+      {
+        ...packageDotJson,
+        pnpm: {
+          ...pnpm,
+          overrides: {
+            ...overrides,
+            [pkgName]: pkgVersion,
+          },
         },
       },
-    });
+      getWorkspaceRoot(),
+    );
   },
 };
 export const NPM: PackageManager = {
   name: 'npm',
   label: 'NPM',
   installCommand: 'install',
+  uninstallCommand: 'uninstall',
   buildCommand: 'npm run build',
   runScriptCommand: 'npm run',
   flags: '',
   forceInstallFlag: '--force',
+  workspaceArgs: (workspacePackage) => ['-w', workspacePackage.name],
   detect: () => {
     try {
-      return fs.existsSync(path.join(process.cwd(), 'package-lock.json'));
+      return fs.existsSync(path.join(getWorkspaceRoot(), 'package-lock.json'));
     } catch (e) {
       return false;
     }
   },
   addOverride: async (pkgName, pkgVersion): Promise<void> => {
-    const packageDotJson = await getPackageDotJson();
+    const packageDotJson = await getPackageDotJson(getWorkspaceRoot());
     const overrides = packageDotJson.overrides || {};
 
-    await updatePackageDotJson({
-      ...packageDotJson,
-      overrides: {
-        ...overrides,
-        [pkgName]: pkgVersion,
+    await updatePackageDotJson(
+      {
+        ...packageDotJson,
+        overrides: {
+          ...overrides,
+          [pkgName]: pkgVersion,
+        },
       },
-    });
+      getWorkspaceRoot(),
+    );
   },
 };
 
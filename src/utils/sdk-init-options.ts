@@ -0,0 +1,326 @@
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import { traceStep } from '../telemetry';
+import { confirmPrompt, textPrompt } from './clack';
+import { setEnvFileVariables } from './env-file';
+import { emitEvent } from './json-output';
+import type { SdkInitOptions, SdkInitValue, WizardOptions } from './types';
+
+/**
+ * The options of the generated `Sentry.init` calls if the user doesn't
+ * configure them.
+ */
+export const DEFAULT_SDK_INIT_OPTIONS: SdkInitOptions = {
+  tracesSampleRate: 1,
+  profilesSampleRate: 1,
+  replaysSessionSampleRate: 0.1,
+  replaysOnErrorSampleRate: 1,
+};
+
+/**
+ * How the generated code reads environment variables:
+ *
+ * - `process.env`: `process.env.NAME`
+ * - `import.meta.env`: `import.meta.env.NAME` (Vite)
+ * - `dart-define`: `String.fromEnvironment('NAME')`, set via `--dart-define`
+ */
+export type EnvVarConvention =
+  | 'process.env'
+  | 'import.meta.env'
+  | 'dart-define';
+
+export type SdkInitArgs = {
+  tracesSampleRate?: number | string;
+  profilesSampleRate?: number | string;
+  replaysSessionSampleRate?: number | string;
+  replaysOnErrorSampleRate?: number | string;
+  environment?: string;
+  release?: string;
+};
+
+const SAMPLE_RATE_KEYS = [
+  'tracesSampleRate',
+  'profilesSampleRate',
+  'replaysSessionSampleRate',
+  'replaysOnErrorSampleRate',
+] as const;
+
+const ENV_VAR_PREFIX = 'env:';
+
+/**
+ * Reads the `Sentry.init` options from the CLI args (e.g. `--traces-sample-rate`).
+ *
+ * @returns the passed options and the args with invalid values
+ * (e.g. `--traces-sample-rate`)
+ */
+export function parseSdkInitArgs(args: SdkInitArgs): {
+  sdkInitOptions: Partial<SdkInitOptions>;
+  invalidArgs: string[];
+} {
+  const sdkInitOptions: Partial<SdkInitOptions> = {};
+  const invalidArgs: string[] = [];
+
+  for (const key of SAMPLE_RATE_KEYS) {
+    const arg = args[key];
+    if (arg === undefined) {
+      continue;
+    }
+
+    const sampleRate = parseSampleRate(String(arg));
+    if (sampleRate === undefined) {
+      invalidArgs.push(getSdkInitArgName(key));
+    } else {
+      sdkInitOptions[key] = sampleRate;
+    }
+  }
+
+  for (const key of ['environment', 'release'] as const) {
+    const arg = args[key];
+    if (arg === undefined) {
+      continue;
+    }
+
+    if (validateSdkInitValue(arg)) {
+      invalidArgs.push(getSdkInitArgName(key));
+    } else {
+      sdkInitOptions[key] = parseSdkInitValue(arg);
+    }
+  }
+
+  return { sdkInitOptions, invalidArgs };
+}
+
+/**
+ * @returns the CLI arg of the `Sentry.init` option, e.g. `--traces-sample-rate`
+ */
+export function getSdkInitArgName(key: keyof SdkInitArgs): string {
+  return `--${key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`;
+}
+
+/**
+ * Asks for the sample rates of the selected features, the environment and the
+ * release of the generated `Sentry.init` calls. This is an optional step
+ * because most users are fine with the defaults.
+ *
+ * The options passed via the CLI args are used without asking.
+ */
+export async function askForSdkInitOptions(
+  options: Pick<WizardOptions, 'sdkInitOptions'>,
+  params: {
+    selectedFeatures: {
+      tracing?: boolean;
+      profiling?: boolean;
+      replay?: boolean;
+    };
+    envVarConvention: EnvVarConvention;
+    /** The prefix environment variables need to be available in the browser */
+    envVarPrefix?: string;
+  },
+): Promise<SdkInitOptions> {
+  if (options.sdkInitOptions && Object.keys(options.sdkInitOptions).length) {
+    return { ...DEFAULT_SDK_INIT_OPTIONS, ...options.sdkInitOptions };
+  }
+
+  return traceStep('ask-sdk-init-options', async () => {
+    const configure = await confirmPrompt('advancedConfig', {
+      message: `Do you want to configure the sample rates, environment and release? ${chalk.dim(
+        '(advanced)',
+      )}`,
+      initialValue: false,
+    });
+
+    if (!configure) {
+      return { ...DEFAULT_SDK_INIT_OPTIONS };
+    }
+
+    const { selectedFeatures, envVarConvention, envVarPrefix = '' } = params;
+    const sdkInitOptions = { ...DEFAULT_SDK_INIT_OPTIONS };
+
+    const askForSampleRate = async (
+      key: (typeof SAMPLE_RATE_KEYS)[number],
+      answerKey: string,
+      message: string,
+    ) => {
+      const answer = await textPrompt(`sampleRates.${answerKey}`, {
+        message: `${message} ${chalk.dim('(0 to 1)')}`,
+        initialValue: String(DEFAULT_SDK_INIT_OPTIONS[key]),
+        validate: (value) =>
+          parseSampleRate(value) === undefined
+            ? 'Please enter a number between 0 and 1.'
+            : undefined,
+      });
+      sdkInitOptions[key] = parseSampleRate(answer) ?? sdkInitOptions[key];
+    };
+
+    if (selectedFeatures.tracing) {
+      await askForSampleRate(
+        'tracesSampleRate',
+        'traces',
+        'Which share of the traces do you want to send to Sentry?',
+      );
+    }
+
+    if (selectedFeatures.tracing && selectedFeatures.profiling) {
+      await askForSampleRate(
+        'profilesSampleRate',
+        'profiles',
+        'Which share of the traced transactions do you want to profile?',
+      );
+    }
+
+    if (selectedFeatures.replay) {
+      await askForSampleRate(
+        'replaysSessionSampleRate',
+        'replaysSession',
+        'Which share of the user sessions do you want to record?',
+      );
+      await askForSampleRate(
+        'replaysOnErrorSampleRate',
+        'replaysOnError',
+        'Which share of the user sessions with an error do you want to record?',
+      );
+    }
+
+    for (const key of ['environment', 'release'] as const) {
+      const envVarName = `${envVarPrefix}SENTRY_${key.toUpperCase()}`;
+      const answer = await textPrompt(key, {
+        message: `Which ${key} do you want to set? ${chalk.dim(
+          `(a name, ${ENV_VAR_PREFIX}NAME to read ${getEnvVarCode(
+            'NAME',
+            envVarConvention,
+          )} at runtime, or empty to skip)`,
+        )}`,
+        initialValue: `${ENV_VAR_PREFIX}${envVarName}`,
+        validate: validateSdkInitValue,
+      });
+      sdkInitOptions[key] = answer.trim()
+        ? parseSdkInitValue(answer)
+        : undefined;
+    }
+
+    return sdkInitOptions;
+  });
+}
+
+/**
+ * Writes the DSN to a dotenv file of the project if `--dsn-in-env` was passed,
+ * so that the generated code reads it from there.
+ *
+ * @returns the environment variable the generated code should read the DSN
+ * from, or undefined if the DSN should be added to the code
+ */
+export async function writeDsnToEnvFile(
+  options: Pick<WizardOptions, 'dsnInEnv'>,
+  dsn: string,
+  params: {
+    /** e.g. `.env.local` */
+    envFileName: string;
+    /** e.g. `NEXT_PUBLIC_SENTRY_DSN` */
+    envVarName: string;
+  },
+): Promise<string | undefined> {
+  if (!options.dsnInEnv) {
+    return undefined;
+  }
+
+  const { envFileName, envVarName } = params;
+
+  return traceStep('write-dsn-to-env-file', async () => {
+    const written = await setEnvFileVariables(envFileName, {
+      [envVarName]: dsn,
+    });
+
+    if (!written) {
+      clack.log.info('The DSN will be added to the code instead.');
+      return undefined;
+    }
+
+    clack.log.info(
+      `Make sure to set ${chalk.cyan(
+        envVarName,
+      )} in your CI and deployment environments as well.`,
+    );
+    emitEvent({
+      type: 'env_var',
+      name: envVarName,
+      description: `The DSN of the Sentry project. Locally, it is read from ${envFileName}.`,
+    });
+    return envVarName;
+  });
+}
+
+/**
+ * @returns the code of an option value, e.g. `"production"` or
+ * `process.env.SENTRY_ENVIRONMENT`
+ */
+export function getSdkInitValueCode(
+  sdkInitValue: SdkInitValue,
+  envVarConvention: EnvVarConvention,
+): string {
+  if ('envVar' in sdkInitValue) {
+    return getEnvVarCode(sdkInitValue.envVar, envVarConvention);
+  }
+
+  if (envVarConvention === 'dart-define') {
+    return `'${sdkInitValue.value.replace(/[\\'$]/g, '\\$&')}'`;
+  }
+
+  return JSON.stringify(sdkInitValue.value);
+}
+
+/**
+ * Formats a sample rate with at least one decimal (e.g. `1.0`), which is
+ * required for Dart doubles and the style of our JavaScript snippets.
+ */
+export function formatSampleRate(sampleRate: number): string {
+  return Number.isInteger(sampleRate)
+    ? sampleRate.toFixed(1)
+    : String(sampleRate);
+}
+
+/**
+ * Formats a sample rate for the comments of the generated code, e.g. `10%`.
+ */
+export function formatPercentage(sampleRate: number): string {
+  return `${Number((sampleRate * 100).toFixed(2))}%`;
+}
+
+function getEnvVarCode(
+  envVar: string,
+  envVarConvention: EnvVarConvention,
+): string {
+  switch (envVarConvention) {
+    case 'process.env':
+      return `process.env.${envVar}`;
+    case 'import.meta.env':
+      return `import.meta.env.${envVar}`;
+    case 'dart-define':
+      return `const String.fromEnvironment('${envVar}')`;
+  }
+}
+
+function parseSampleRate(value: string): number | undefined {
+  const sampleRate = Number(value.trim());
+  return value.trim() && sampleRate >= 0 && sampleRate <= 1
+    ? sampleRate
+    : undefined;
+}
+
+function parseSdkInitValue(value: string): SdkInitValue {
+  const trimmedValue = value.trim();
+  return trimmedValue.startsWith(ENV_VAR_PREFIX)
+    ? { envVar: trimmedValue.slice(ENV_VAR_PREFIX.length) }
+    : { value: trimmedValue };
+}
+
+function validateSdkInitValue(value: string): string | undefined {
+  const trimmedValue = value.trim();
+  if (
+    trimmedValue.startsWith(ENV_VAR_PREFIX) &&
+    !/^[A-Za-z_][A-Za-z0-9_]*$/.test(trimmedValue.slice(ENV_VAR_PREFIX.length))
+  ) {
+    return `Please enter a valid environment variable name after ${ENV_VAR_PREFIX}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,195 @@
+import axios from 'axios';
+import type { SentryProjectData } from './types';
+
+export type SentryProjectWithoutKeys = Omit<SentryProjectData, 'keys'>;
+
+export type SentryOrganization = SentryProjectData['organization'];
+
+export type SentryTeam = {
+  slug: string;
+  name: string;
+};
+
+type ApiProject = {
+  id: string;
+  slug: string;
+};
+
+type ApiProjectKey = {
+  name: string;
+  isActive: boolean;
+  dsn: { public: string };
+};
+
+/**
+ * Fetches all projects the auth token has access to from the Sentry API.
+ *
+ * @param options.url the Sentry URL, including a trailing slash
+ * @param options.orgSlug if set, only projects of this organization are fetched
+ */
+export async function fetchProjects(options: {
+  url: string;
+  authToken: string;
+  orgSlug?: string;
+}): Promise<SentryProjectWithoutKeys[]> {
+  const { url, authToken, orgSlug } = options;
+
+  const organizations = orgSlug
+    ? [
+        (
+          await axios.get<SentryOrganization>(
+            `${url}api/0/organizations/${orgSlug}/`,
+            { headers: getAuthHeaders(authToken) },
+          )
+        ).data,
+      ]
+    : await fetchOrganizations({ url, authToken });
+
+  const projectsPerOrganization = await Promise.all(
+    organizations.map(async (organization) => {
+      const projects = await fetchAllPages<ApiProject>(
+        `${url}api/0/organizations/${organization.slug}/projects/`,
+        authToken,
+      );
+
+      return projects.map((project) => ({
+        id: project.id,
+        slug: project.slug,
+        organization: {
+          id: organization.id,
+          name: organization.name,
+          slug: organization.slug,
+        },
+      }));
+    }),
+  );
+
+  return projectsPerOrganization.flat();
+}
+
+export function fetchOrganizations(options: {
+  url: string;
+  authToken: string;
+}): Promise<SentryOrganization[]> {
+  return fetchAllPages<SentryOrganization>(
+    `${options.url}api/0/organizations/`,
+    options.authToken,
+  );
+}
+
+export function fetchTeams(options: {
+  url: string;
+  authToken: string;
+  orgSlug: string;
+}): Promise<SentryTeam[]> {
+  return fetchAllPages<SentryTeam>(
+    `${options.url}api/0/organizations/${options.orgSlug}/teams/`,
+    options.authToken,
+  );
+}
+
+/**
+ * Creates a new project for the team. Sentry creates a client key (DSN)
+ * for new projects, which can be fetched with {@link fetchProjectWithKeys}.
+ *
+ * @param options.platform the Sentry platform identifier (e.g. `javascript-nextjs`)
+ */
+export async function createProject(options: {
+  url: string;
+  authToken: string;
+  organization: SentryOrganization;
+  teamSlug: string;
+  name: string;
+  platform?: string;
+}): Promise<SentryProjectWithoutKeys> {
+  const { url, authToken, organization, teamSlug, name, platform } = options;
+
+  const { data } = await axios.post<ApiProject>(
+    `${url}api/0/teams/${organization.slug}/${teamSlug}/projects/`,
+    { name, platform },
+    { headers: getAuthHeaders(authToken) },
+  );
+
+  return {
+    id: data.id,
+    slug: data.slug,
+    organization,
+  };
+}
+
+/**
+ * Fetches the client keys of a project and returns it with its keys.
+ *
+ * @returns the project data or `undefined` if the project doesn't have any keys
+ */
+export async function fetchProjectWithKeys(options: {
+  url: string;
+  authToken: string;
+  project: SentryProjectWithoutKeys;
+}): Promise<SentryProjectData | undefined> {
+  const { url, authToken, project } = options;
+
+  const keys = await fetchAllPages<ApiProjectKey>(
+    `${url}api/0/projects/${project.organization.slug}/${project.slug}/keys/`,
+    authToken,
+  );
+
+  const [firstKey, ...otherKeys] = keys.map(({ name, isActive, dsn }) => ({
+    name,
+    isActive,
+    dsn: { public: dsn.public },
+  }));
+  if (!firstKey) {
+    return undefined;
+  }
+
+  return {
+    ...project,
+    keys: [firstKey, ...otherKeys],
+  };
+}
+
+/**
+ * Follows the cursor-based pagination of the Sentry API and
+ * returns the results of all pages.
+ */
+async function fetchAllPages<T>(url: string, authToken: string): Promise<T[]> {
+  const results: T[] = [];
+  let nextUrl: string | undefined = url;
+
+  while (nextUrl) {
+    const response: { data: T[]; headers: Record<string, unknown> } =
+      await axios.get<T[]>(nextUrl, { headers: getAuthHeaders(authToken) });
+
+    results.push(...response.data);
+
+    const linkHeader = response.headers.link;
+    nextUrl =
+      typeof linkHeader === 'string' ? getNextPageUrl(linkHeader) : undefined;
+  }
+
+  return results;
+}
+
+/**
+ * Parses a `Link` header of the Sentry API, e.g.:
+ * `<https://sentry.io/api/0/organizations/?cursor=100:1:0>; rel="next"; results="true"; cursor="100:1:0"`
+ *
+ * Exported for testing.
+ *
+ * @returns the URL of the next page or `undefined` if there are no more results
+ */
+export function getNextPageUrl(linkHeader: string): string | undefined {
+  for (const link of linkHeader.split(',')) {
+    const url = link.match(/<([^>]+)>/)?.[1];
+    if (url && /rel="next"/.test(link) && /results="true"/.test(link)) {
+      return url;
+    }
+  }
+
+  return undefined;
+}
+
+function getAuthHeaders(authToken: string): Record<string, string> {
+  return { Authorization: `Bearer ${authToken}` };
+}
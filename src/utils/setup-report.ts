@@ -0,0 +1,158 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import chalk from 'chalk';
+import { getIntegrationDescription } from '../../lib/Constants';
+import { WIZARD_VERSION } from '../version';
+import { getRunSummary } from './json-output';
+import type { FileChange } from './virtual-fs';
+
+export const DEFAULT_REPORT_FILE = 'SENTRY_SETUP.md';
+
+type RunSummary = ReturnType<typeof getRunSummary>;
+
+/**
+ * Creates a markdown report of the wizard run for the reviewers of the
+ * Sentry setup.
+ *
+ * @param options.reportDir the directory of the report, file paths are relative to it
+ */
+export function createSetupReport(options: {
+  integrations: string[];
+  fileChanges: FileChange[];
+  summary: RunSummary;
+  reportDir: string;
+}): string {
+  const { integrations, fileChanges, summary, reportDir } = options;
+  const { project, features, packages, envVars, manualSteps } = summary;
+
+  const sections = [
+    `# Sentry Setup
+
+This report was created by the Sentry Wizard ${WIZARD_VERSION} after setting up ${integrations
+      .map((integration) => getIntegrationDescription(integration))
+      .join(', ')}.`,
+  ];
+
+  if (project) {
+    sections.push(`## Project
+
+- Organization: \`${project.org}\`
+- Project: \`${project.project}\`
+- Issues: ${project.issueStreamUrl}`);
+  }
+
+  if (features.length) {
+    sections.push(`## Features
+
+${features.map((feature) => `- ${feature}`).join('\n')}`);
+  }
+
+  sections.push(
+    `## Changed Files
+
+${
+  fileChanges.length
+    ? markdownTable(
+        ['File', 'Change'],
+        fileChanges.map((change) => [
+          `\`${path.relative(reportDir, change.path)}\``,
+          change.before === null
+            ? 'created'
+            : change.after === null
+            ? 'deleted'
+            : 'modified',
+        ]),
+      )
+    : "The wizard didn't change any files."
+}`,
+  );
+
+  if (packages.length) {
+    sections.push(`## Packages
+
+${markdownTable(
+  ['Package', 'Version', 'Change'],
+  packages.map((pkg) => [
+    `\`${pkg.name}\``,
+    pkg.version ? `\`${pkg.version}\`` : '',
+    pkg.status,
+  ]),
+)}`);
+  }
+
+  if (envVars.length) {
+    sections.push(`## Environment Variables
+
+Set these environment variables in your CI and deployment environments:
+
+${envVars
+  .map(({ name, description }) => `- \`${name}\`: ${description}`)
+  .join('\n')}`);
+  }
+
+  if (manualSteps.length) {
+    sections.push(`## Manual Steps
+
+The wizard couldn't make these changes automatically:
+
+${manualSteps
+  .map(({ message, filename, codeSnippet }) =>
+    [
+      `- ${filename ? `\`${filename}\`: ` : ''}${message}`,
+      ...(codeSnippet
+        ? [`\n  \`\`\`\n${indent(codeSnippet.trim(), '  ')}\n  \`\`\``]
+        : []),
+    ].join(''),
+  )
+  .join('\n')}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Writes the report of the wizard run to @param reportPath.
+ */
+export function writeSetupReport(options: {
+  reportPath: string;
+  integrations: string[];
+  fileChanges: FileChange[];
+}): void {
+  const { reportPath, integrations, fileChanges } = options;
+
+  const report = createSetupReport({
+    integrations,
+    fileChanges,
+    summary: getRunSummary(),
+    reportDir: path.dirname(reportPath),
+  });
+
+  try {
+    fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+    fs.writeFileSync(reportPath, report, 'utf8');
+    clack.log.success(
+      `Wrote a report of the setup to ${chalk.cyan(
+        path.relative(process.cwd(), reportPath) || reportPath,
+      )}.`,
+    );
+  } catch {
+    clack.log.warn(
+      `Failed to write the report of the setup to ${chalk.cyan(reportPath)}.`,
+    );
+  }
+}
+
+function markdownTable(header: string[], rows: string[][]): string {
+  return [header, header.map(() => '---'), ...rows]
+    .map((cells) => `| ${cells.join(' | ')} |`)
+    .join('\n');
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map((line) => (line ? `${prefix}${line}` : line))
+    .join('\n');
+}
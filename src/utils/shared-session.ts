@@ -0,0 +1,37 @@
+import type { PreselectedProject } from './types';
+
+export type SharedSession = PreselectedProject & {
+  /** The Sentry URL, including a trailing slash */
+  sentryUrl: string;
+};
+
+let sharingEnabled = false;
+let session: SharedSession | undefined;
+
+/**
+ * Shares the login and project data of the first wizard with the following
+ * wizards when several integrations are set up in one run.
+ */
+export function enableSharedSession(): void {
+  sharingEnabled = true;
+  session = undefined;
+}
+
+export function disableSharedSession(): void {
+  sharingEnabled = false;
+  session = undefined;
+}
+
+/**
+ * Stores the project data of a wizard for the following wizards.
+ * Does nothing unless {@link enableSharedSession} was called.
+ */
+export function recordSharedSession(newSession: SharedSession): void {
+  if (sharingEnabled) {
+    session = newSession;
+  }
+}
+
+export function getSharedSession(): SharedSession | undefined {
+  return session;
+}
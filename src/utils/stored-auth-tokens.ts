@@ -0,0 +1,105 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+export type StoredAuthToken = {
+  token: string;
+  /** The file the token was found in, for display purposes */
+  source: string;
+};
+
+type TokenFile = {
+  filePath: string;
+  source: string;
+  parse: (contents: string) => string | undefined;
+};
+
+/**
+ * Finds the auth tokens previous wizard runs or the Sentry CLI stored on disk,
+ * in this order:
+ *
+ * 1. `.sentryclirc` in the project directory
+ * 2. `.env.sentry-build-plugin` in the project directory
+ * 3. `sentry.properties` in the project directory
+ * 4. `~/.sentryclirc`
+ *
+ * Duplicate tokens are only returned once. The tokens are not validated.
+ */
+export function findStoredAuthTokens(
+  cwd = process.cwd(),
+  homeDir = os.homedir(),
+): StoredAuthToken[] {
+  const tokenFiles: TokenFile[] = [
+    {
+      filePath: path.join(cwd, '.sentryclirc'),
+      source: '.sentryclirc',
+      parse: parseSentryCliRc,
+    },
+    {
+      filePath: path.join(cwd, '.env.sentry-build-plugin'),
+      source: '.env.sentry-build-plugin',
+      parse: (contents) =>
+        matchValue(contents, /^\s*SENTRY_AUTH_TOKEN\s*=\s*(.*)$/m),
+    },
+    {
+      filePath: path.join(cwd, 'sentry.properties'),
+      source: 'sentry.properties',
+      parse: (contents) => matchValue(contents, /^\s*auth\.token\s*=\s*(.*)$/m),
+    },
+    {
+      filePath: path.join(homeDir, '.sentryclirc'),
+      source: '~/.sentryclirc',
+      parse: parseSentryCliRc,
+    },
+  ];
+
+  const storedTokens: StoredAuthToken[] = [];
+
+  for (const { filePath, source, parse } of tokenFiles) {
+    let contents: string;
+    try {
+      contents = fs.readFileSync(filePath, 'utf8');
+    } catch {
+      continue;
+    }
+
+    const token = parse(contents);
+    if (token && !storedTokens.some((stored) => stored.token === token)) {
+      storedTokens.push({ token, source });
+    }
+  }
+
+  return storedTokens;
+}
+
+/**
+ * Reads the `token` of the `[auth]` section of a `.sentryclirc` ini file.
+ */
+function parseSentryCliRc(contents: string): string | undefined {
+  let section = '';
+
+  for (const line of contents.split(/\r?\n/)) {
+    const sectionMatch = line.match(/^\s*\[(.+)\]\s*$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].trim();
+      continue;
+    }
+
+    if (section === 'auth') {
+      const token = matchValue(line, /^\s*token\s*=\s*(.*)$/);
+      if (token) {
+        return token;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function matchValue(contents: string, regex: RegExp): string | undefined {
+  const value = contents
+    .match(regex)?.[1]
+    ?.trim()
+    .replace(/^(["'])(.*)\1$/, '$2');
+  return value || undefined;
+}
@@ -6,9 +6,41 @@ export interface SentryProjectData {
     name: string;
     slug: string;
   };
-  keys: [{ dsn: { public: string } }];
+  /**
+   * The client keys of the project. The wizards use the DSN of the first key,
+   * so the key selected by the user is moved to the front.
+   */
+  keys: [SentryProjectKey, ...SentryProjectKey[]];
+}
+
+export interface SentryProjectKey {
+  /** The name of the client key, e.g. `Default` */
+  name?: string;
+  /** Events sent with inactive keys are dropped. Assumed to be active if undefined */
+  isActive?: boolean;
+  dsn: { public: string };
 }
 
+/**
+ * The integrations which can be passed via the `--integration` arg.
+ */
+export type WizardIntegration =
+  | 'angular'
+  | 'reactNative'
+  | 'flutter'
+  | 'ios'
+  | 'appleSnapshots'
+  | 'android'
+  | 'cordova'
+  | 'electron'
+  | 'nextjs'
+  | 'nuxt'
+  | 'remix'
+  | 'reactRouter'
+  | 'sveltekit'
+  | 'cloudflare'
+  | 'sourcemaps';
+
 export type PreselectedProject = {
   project: SentryProjectData;
   authToken: string;
@@ -58,6 +90,13 @@ export type WizardOptions = {
    */
   preSelectedProject?: PreselectedProject;
 
+  /**
+   * An existing auth token to load the projects from the Sentry API
+   * instead of logging in via the browser.
+   * This can be passed via the `--auth-token` arg or the `SENTRY_AUTH_TOKEN` env variable.
+   */
+  authToken?: string;
+
   /**
    * Force-install the SDK package to continue with the installation in case
    * any package manager checks are failing (e.g. peer dependency versions).
@@ -89,11 +128,80 @@ export type WizardOptions = {
    * This can be passed via the `--spotlight` arg.
    */
   spotlight?: boolean;
+
+  /**
+   * If this is set, the wizard will not write any changes to disk.
+   * Instead, it prints a unified diff of all files it would have changed
+   * at the end of the run.
+   * This can be passed via the `--dry-run` arg.
+   */
+  dryRun?: boolean;
+
+  /**
+   * The features to enable instead of asking for them, e.g. `['tracing', 'logs']`.
+   * Features prefixed with `-` are disabled (e.g. `['-replay']`).
+   * This can be passed via the `--features` arg.
+   */
+  features?: string[];
+
+  /**
+   * The sample rates, environment and release to use in the generated
+   * `Sentry.init` calls instead of asking for them.
+   * These can be passed via the `--traces-sample-rate`, `--environment`, etc. args.
+   */
+  sdkInitOptions?: Partial<SdkInitOptions>;
+
+  /**
+   * If this is set, the DSN is written to the project's environment file
+   * (e.g. `.env.local`) or build config instead of the generated code,
+   * which reads it from there. Only supported by some wizards.
+   * This can be passed via the `--dsn-in-env` arg.
+   */
+  dsnInEnv?: boolean;
+
+  /**
+   * The name of the client key (DSN) to use if the selected project has
+   * multiple keys, instead of asking for it.
+   * This can be passed via the `--dsn-key` arg.
+   */
+  dsnKey?: string;
+
+  /**
+   * The build artifacts folder to verify the source maps of after setting
+   * up source maps upload. Only used by the source maps wizard.
+   * This can be passed via the `--artifacts` arg.
+   */
+  artifacts?: string;
 };
 
 export interface Feature {
   id: string;
-  prompt: string;
-  enabledHint?: string;
-  disabledHint?: string;
+  /** The name shown in the feature selection (e.g. `Session Replay`) */
+  label: string;
+  /** A short description shown next to the label */
+  hint?: string;
+  /** The IDs of the features this feature depends on */
+  requires?: readonly string[];
 }
+
+/**
+ * A string option of the generated `Sentry.init` calls, either a fixed value
+ * or the name of an environment variable to read the value from at runtime.
+ */
+export type SdkInitValue = { value: string } | { envVar: string };
+
+export type SdkInitOptions = {
+  tracesSampleRate: number;
+  profilesSampleRate: number;
+  replaysSessionSampleRate: number;
+  replaysOnErrorSampleRate: number;
+  /** Not set in the generated code if undefined */
+  environment?: SdkInitValue;
+  /** Not set in the generated code if undefined */
+  release?: SdkInitValue;
+  /**
+   * The environment variable to read the DSN from at runtime.
+   * The DSN is added to the generated code if undefined.
+   */
+  dsnEnvVar?: string;
+};
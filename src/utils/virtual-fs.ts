@@ -0,0 +1,772 @@
+import fs from 'node:fs';
+import { syncBuiltinESMExports } from 'node:module';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export type FileChange = {
+  /** Absolute path of the changed file */
+  path: string;
+  /** The file contents before the change or `null` if the file didn't exist */
+  before: string | null;
+  /** The file contents after the change or `null` if the file was deleted */
+  after: string | null;
+};
+
+type Encoding = NonNullable<Parameters<Buffer['toString']>[0]>;
+
+type LooseFsFunction<R> = (
+  file: fs.PathOrFileDescriptor,
+  ...args: unknown[]
+) => R;
+
+type VirtualFile = {
+  before: string | null;
+  after: string | null;
+};
+
+type OriginalFs = Pick<
+  typeof fs,
+  | 'existsSync'
+  | 'readFileSync'
+  | 'writeFileSync'
+  | 'appendFileSync'
+  | 'unlinkSync'
+  | 'mkdirSync'
+  | 'rmSync'
+  | 'renameSync'
+  | 'copyFileSync'
+  | 'readdirSync'
+  | 'statSync'
+  | 'lstatSync'
+> & {
+  promises: Pick<
+    typeof fs.promises,
+    | 'readFile'
+    | 'writeFile'
+    | 'appendFile'
+    | 'unlink'
+    | 'mkdir'
+    | 'rm'
+    | 'rename'
+    | 'copyFile'
+    | 'readdir'
+  >;
+};
+
+const virtualFiles = new Map<string, VirtualFile>();
+const virtualDirs = new Set<string>();
+// Directories that exist on disk but were removed in the virtual layer
+const removedDirs = new Set<string>();
+
+let originalFs: OriginalFs | undefined;
+let writeThrough = false;
+
+/**
+ * Routes all file system writes of the wizard (including the ones made by
+ * magicast or other libraries using `node:fs`) through a virtual layer
+ * that keeps track of every created, modified and deleted file.
+ *
+ * By default, changes are only kept in memory. Reads are served from this
+ * layer first, so that subsequent steps of a wizard see the changes of
+ * previous steps, while nothing is written to disk.
+ *
+ * @param options.writeThrough if true, changes are still written to disk
+ * and the virtual layer only records them.
+ *
+ * Only the sync and promise based functions of `node:fs` are patched.
+ * Callback based functions and libraries that capture the `fs` functions
+ * when they are loaded (e.g. `glob`) still only see the files on disk.
+ *
+ * Use {@link getFileChanges} to get the changes made while the virtual
+ * file system was enabled.
+ */
+export function enableVirtualFs(options?: { writeThrough?: boolean }): void {
+  if (originalFs) {
+    return;
+  }
+
+  writeThrough = !!options?.writeThrough;
+
+  originalFs = {
+    existsSync: fs.existsSync,
+    readFileSync: fs.readFileSync,
+    writeFileSync: fs.writeFileSync,
+    appendFileSync: fs.appendFileSync,
+    unlinkSync: fs.unlinkSync,
+    mkdirSync: fs.mkdirSync,
+    rmSync: fs.rmSync,
+    renameSync: fs.renameSync,
+    copyFileSync: fs.copyFileSync,
+    readdirSync: fs.readdirSync,
+    statSync: fs.statSync,
+    lstatSync: fs.lstatSync,
+    promises: {
+      readFile: fs.promises.readFile,
+      writeFile: fs.promises.writeFile,
+      appendFile: fs.promises.appendFile,
+      unlink: fs.promises.unlink,
+      mkdir: fs.promises.mkdir,
+      rm: fs.promises.rm,
+      rename: fs.promises.rename,
+      copyFile: fs.promises.copyFile,
+      readdir: fs.promises.readdir,
+    },
+  };
+
+  const writePatches: Record<string, unknown> = {
+    writeFileSync: virtualWriteFileSync,
+    appendFileSync: virtualAppendFileSync,
+    unlinkSync: virtualUnlinkSync,
+    mkdirSync: virtualMkdirSync,
+    rmSync: virtualRmSync,
+    renameSync: virtualRenameSync,
+    copyFileSync: virtualCopyFileSync,
+  };
+
+  const writePromisePatches: Record<string, unknown> = {
+    writeFile: promisify(virtualWriteFileSync),
+    appendFile: promisify(virtualAppendFileSync),
+    unlink: promisify(virtualUnlinkSync),
+    mkdir: promisify(virtualMkdirSync),
+    rm: promisify(virtualRmSync),
+    rename: promisify(virtualRenameSync),
+    copyFile: promisify(virtualCopyFileSync),
+  };
+
+  // When writing through, the disk is always up to date,
+  // so reads don't need to go through the virtual layer.
+  const readPatches: Record<string, unknown> = writeThrough
+    ? {}
+    : {
+        existsSync: virtualExistsSync,
+        readFileSync: virtualReadFileSync,
+        statSync: virtualStatSync,
+        lstatSync: virtualLstatSync,
+        readdirSync: virtualReaddirSync,
+      };
+
+  const readPromisePatches: Record<string, unknown> = writeThrough
+    ? {}
+    : {
+        readFile: promisify(virtualReadFileSync),
+        readdir: promisify(virtualReaddirSync),
+      };
+
+  Object.assign(fs, writePatches, readPatches);
+  Object.assign(fs.promises, writePromisePatches, readPromisePatches);
+  syncBuiltinESMExports();
+}
+
+/**
+ * Restores the original `node:fs` functions and drops all recorded changes.
+ */
+export function disableVirtualFs(): void {
+  if (!originalFs) {
+    return;
+  }
+
+  const { promises, ...syncFunctions } = originalFs;
+  Object.assign(fs, syncFunctions);
+  Object.assign(fs.promises, promises);
+  syncBuiltinESMExports();
+
+  originalFs = undefined;
+  writeThrough = false;
+  virtualFiles.clear();
+  virtualDirs.clear();
+  removedDirs.clear();
+}
+
+/**
+ * Returns all files that were created, modified or deleted while the
+ * virtual file system was enabled, sorted by path.
+ *
+ * Files that were written but ended up with their original content are omitted.
+ */
+export function getFileChanges(): FileChange[] {
+  return [...virtualFiles.entries()]
+    .filter(([, file]) => file.before !== file.after)
+    .map(([filePath, file]) => ({
+      path: filePath,
+      before: file.before,
+      after: file.after,
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Returns all directories that were created while the virtual file system
+ * was enabled, sorted by path (parent directories first).
+ */
+export function getCreatedDirectories(): string[] {
+  return [...virtualDirs].sort((a, b) => a.localeCompare(b));
+}
+
+function getOriginalFs(): OriginalFs {
+  if (!originalFs) {
+    throw new Error('Virtual file system is not enabled.');
+  }
+  return originalFs;
+}
+
+function promisify<A extends unknown[], R>(
+  fn: (...args: A) => R,
+): (...args: A) => Promise<R> {
+  return (...args: A) => {
+    try {
+      return Promise.resolve(fn(...args));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  };
+}
+
+function toAbsolutePath(file: unknown): string | undefined {
+  if (typeof file === 'string') {
+    return path.resolve(file);
+  }
+  if (file instanceof URL) {
+    return fileURLToPath(file);
+  }
+  if (Buffer.isBuffer(file)) {
+    return path.resolve(file.toString('utf8'));
+  }
+  // File descriptors and file handles are passed through to the real fs
+  return undefined;
+}
+
+function dataToString(data: unknown): string {
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString(
+      'utf8',
+    );
+  }
+  return String(data);
+}
+
+function getEncoding(options: unknown): Encoding | undefined {
+  if (typeof options === 'string') {
+    return options as Encoding;
+  }
+  if (options && typeof options === 'object' && 'encoding' in options) {
+    return (options as { encoding?: Encoding }).encoding ?? undefined;
+  }
+  return undefined;
+}
+
+function isAppendFlag(options: unknown): boolean {
+  return !!(
+    options &&
+    typeof options === 'object' &&
+    'flag' in options &&
+    String((options as { flag?: unknown }).flag).startsWith('a')
+  );
+}
+
+function noSuchFileError(syscall: string, filePath: string): Error {
+  return Object.assign(
+    new Error(`ENOENT: no such file or directory, ${syscall} '${filePath}'`),
+    { code: 'ENOENT', errno: -2, syscall, path: filePath },
+  );
+}
+
+function fileExistsError(syscall: string, filePath: string): Error {
+  return Object.assign(
+    new Error(`EEXIST: file already exists, ${syscall} '${filePath}'`),
+    { code: 'EEXIST', errno: -17, syscall, path: filePath },
+  );
+}
+
+function isDirectoryError(syscall: string, filePath: string): Error {
+  return Object.assign(
+    new Error(
+      `ERR_FS_EISDIR: Path is a directory: ${syscall} returned EISDIR (is a directory) ${filePath}`,
+    ),
+    { code: 'ERR_FS_EISDIR', errno: 21, syscall, path: filePath },
+  );
+}
+
+function isRecursive(options: unknown): boolean {
+  return (
+    !!options &&
+    typeof options === 'object' &&
+    !!(options as { recursive?: boolean }).recursive
+  );
+}
+
+/**
+ * @returns true if the path is inside a directory that was removed in the
+ * virtual layer, so its contents on disk must be ignored
+ */
+function isInRemovedDir(filePath: string): boolean {
+  return [...removedDirs].some(
+    (removedDir) =>
+      filePath === removedDir ||
+      filePath.startsWith(`${removedDir}${path.sep}`),
+  );
+}
+
+function readFromDisk(filePath: string): string | null {
+  const { existsSync, readFileSync, statSync } = getOriginalFs();
+  try {
+    if (
+      isInRemovedDir(filePath) ||
+      !existsSync(filePath) ||
+      !statSync(filePath).isFile()
+    ) {
+      return null;
+    }
+    return readFileSync(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+}
+
+function getOrCreateVirtualFile(filePath: string): VirtualFile {
+  let file = virtualFiles.get(filePath);
+  if (!file) {
+    const before = readFromDisk(filePath);
+    file = { before, after: before };
+    virtualFiles.set(filePath, file);
+  }
+  return file;
+}
+
+function writeVirtualFile(
+  filePath: string,
+  data: unknown,
+  append: boolean,
+): void {
+  const file = getOrCreateVirtualFile(filePath);
+  const contents = dataToString(data);
+  file.after = append ? `${file.after ?? ''}${contents}` : contents;
+}
+
+function makeStats(isFile: boolean, size: number): fs.Stats {
+  const now = new Date();
+  return {
+    isFile: () => isFile,
+    isDirectory: () => !isFile,
+    isSymbolicLink: () => false,
+    size,
+    mtime: now,
+    ctime: now,
+    atime: now,
+    birthtime: now,
+  } as unknown as fs.Stats;
+}
+
+function virtualExistsSync(file: fs.PathLike): boolean {
+  const filePath = toAbsolutePath(file);
+  if (filePath) {
+    const virtualFile = virtualFiles.get(filePath);
+    if (virtualFile) {
+      return virtualFile.after !== null;
+    }
+    if (virtualDirs.has(filePath)) {
+      return true;
+    }
+    if (isInRemovedDir(filePath)) {
+      return false;
+    }
+  }
+  return getOriginalFs().existsSync(file);
+}
+
+function isVirtualDirectory(dirPath: string): boolean {
+  if (virtualDirs.has(dirPath)) {
+    return true;
+  }
+  if (virtualFiles.has(dirPath) || isInRemovedDir(dirPath)) {
+    return false;
+  }
+  try {
+    return getOriginalFs().statSync(dirPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function virtualReadFileSync(file: unknown, options?: unknown): unknown {
+  const filePath = toAbsolutePath(file);
+  const virtualFile = filePath && virtualFiles.get(filePath);
+
+  if (filePath && !virtualFile && isInRemovedDir(filePath)) {
+    throw noSuchFileError('open', filePath);
+  }
+
+  if (!filePath || !virtualFile) {
+    const readFileSync = getOriginalFs().readFileSync as LooseFsFunction<
+      string | Buffer
+    >;
+    return readFileSync(file as fs.PathOrFileDescriptor, options);
+  }
+
+  if (virtualFile.after === null) {
+    throw noSuchFileError('open', filePath);
+  }
+
+  const encoding = getEncoding(options);
+  return encoding
+    ? Buffer.from(virtualFile.after, 'utf8').toString(encoding)
+    : Buffer.from(virtualFile.after, 'utf8');
+}
+
+function virtualWriteFileSync(
+  file: unknown,
+  data: unknown,
+  options?: unknown,
+): void {
+  const filePath = toAbsolutePath(file);
+  if (!filePath) {
+    const writeFileSync = getOriginalFs()
+      .writeFileSync as LooseFsFunction<void>;
+    return writeFileSync(file as fs.PathOrFileDescriptor, data, options);
+  }
+  if (writeThrough) {
+    const virtualFile = getOrCreateVirtualFile(filePath);
+    const writeFileSync = getOriginalFs()
+      .writeFileSync as LooseFsFunction<void>;
+    writeFileSync(filePath, data, options);
+    virtualFile.after = readFromDisk(filePath);
+    return;
+  }
+
+  writeVirtualFile(filePath, data, isAppendFlag(options));
+}
+
+function virtualAppendFileSync(
+  file: unknown,
+  data: unknown,
+  options?: unknown,
+): void {
+  const filePath = toAbsolutePath(file);
+  if (!filePath) {
+    const appendFileSync = getOriginalFs()
+      .appendFileSync as LooseFsFunction<void>;
+    return appendFileSync(file as fs.PathOrFileDescriptor, data, options);
+  }
+  if (writeThrough) {
+    const virtualFile = getOrCreateVirtualFile(filePath);
+    const appendFileSync = getOriginalFs()
+      .appendFileSync as LooseFsFunction<void>;
+    appendFileSync(filePath, data, options);
+    virtualFile.after = readFromDisk(filePath);
+    return;
+  }
+
+  writeVirtualFile(filePath, data, true);
+}
+
+function virtualUnlinkSync(file: fs.PathLike): void {
+  const filePath = toAbsolutePath(file);
+  if (!filePath || !virtualExistsSync(filePath)) {
+    throw noSuchFileError('unlink', String(filePath ?? file));
+  }
+  const virtualFile = getOrCreateVirtualFile(filePath);
+
+  if (writeThrough) {
+    getOriginalFs().unlinkSync(filePath);
+  }
+
+  virtualFile.after = null;
+}
+
+function virtualMkdirSync(
+  dir: fs.PathLike,
+  options?: fs.MakeDirectoryOptions | fs.Mode | null,
+): string | undefined {
+  const dirPath = toAbsolutePath(dir);
+  if (!dirPath) {
+    return undefined;
+  }
+
+  const recursive = isRecursive(options);
+
+  if (!recursive) {
+    if (virtualExistsSync(dirPath)) {
+      throw fileExistsError('mkdir', dirPath);
+    }
+    if (!virtualExistsSync(path.dirname(dirPath))) {
+      throw noSuchFileError('mkdir', dirPath);
+    }
+  }
+
+  const createdDirs: string[] = [];
+  let current = dirPath;
+  while (!virtualExistsSync(current)) {
+    createdDirs.push(current);
+    if (!recursive) {
+      break;
+    }
+    current = path.dirname(current);
+  }
+
+  if (writeThrough) {
+    getOriginalFs().mkdirSync(dirPath, options);
+  }
+
+  createdDirs.forEach((createdDir) => virtualDirs.add(createdDir));
+  const firstCreated = createdDirs[createdDirs.length - 1];
+
+  return recursive ? firstCreated : undefined;
+}
+
+function virtualRmSync(file: fs.PathLike, options?: fs.RmOptions): void {
+  const filePath = toAbsolutePath(file);
+  if (!filePath) {
+    return getOriginalFs().rmSync(file, options);
+  }
+
+  if (!virtualExistsSync(filePath)) {
+    if (options?.force) {
+      return;
+    }
+    throw noSuchFileError('rm', filePath);
+  }
+
+  if (!isVirtualDirectory(filePath)) {
+    return virtualUnlinkSync(filePath);
+  }
+
+  if (!options?.recursive) {
+    throw isDirectoryError('rm', filePath);
+  }
+
+  listFilesRecursive(filePath).forEach((nestedFile) => {
+    getOrCreateVirtualFile(nestedFile).after = null;
+  });
+
+  if (writeThrough) {
+    getOriginalFs().rmSync(filePath, options);
+  }
+
+  [...virtualDirs]
+    .filter(
+      (dir) => dir === filePath || dir.startsWith(`${filePath}${path.sep}`),
+    )
+    .forEach((dir) => virtualDirs.delete(dir));
+
+  if (getOriginalFs().existsSync(filePath)) {
+    removedDirs.add(filePath);
+  }
+}
+
+function virtualRenameSync(oldFile: fs.PathLike, newFile: fs.PathLike): void {
+  const oldPath = toAbsolutePath(oldFile);
+  const newPath = toAbsolutePath(newFile);
+  if (!oldPath || !newPath) {
+    return getOriginalFs().renameSync(oldFile, newFile);
+  }
+
+  if (!virtualExistsSync(oldPath)) {
+    throw noSuchFileError('rename', oldPath);
+  }
+
+  if (writeThrough) {
+    const movedFiles = isVirtualDirectory(oldPath)
+      ? listFilesRecursive(oldPath)
+      : [oldPath];
+    movedFiles.forEach((movedFile) => {
+      getOrCreateVirtualFile(movedFile).after = null;
+      getOrCreateVirtualFile(
+        path.join(newPath, path.relative(oldPath, movedFile)),
+      );
+    });
+    getOriginalFs().renameSync(oldPath, newPath);
+    movedFiles.forEach((movedFile) => {
+      const movedPath = path.join(newPath, path.relative(oldPath, movedFile));
+      getOrCreateVirtualFile(movedPath).after = readFromDisk(movedPath);
+    });
+    return;
+  }
+
+  if (!isVirtualDirectory(oldPath)) {
+    moveVirtualFile(oldPath, newPath);
+    return;
+  }
+
+  virtualMkdirSync(newPath, { recursive: true });
+  listFilesRecursive(oldPath).forEach((movedFile) => {
+    const movedPath = path.join(newPath, path.relative(oldPath, movedFile));
+    virtualMkdirSync(path.dirname(movedPath), { recursive: true });
+    moveVirtualFile(movedFile, movedPath);
+  });
+  virtualRmSync(oldPath, { recursive: true });
+}
+
+function moveVirtualFile(oldPath: string, newPath: string): void {
+  const oldFile = getOrCreateVirtualFile(oldPath);
+  getOrCreateVirtualFile(newPath).after = oldFile.after;
+  oldFile.after = null;
+}
+
+function virtualCopyFileSync(
+  src: fs.PathLike,
+  dest: fs.PathLike,
+  mode?: number,
+): void {
+  const srcPath = toAbsolutePath(src);
+  const destPath = toAbsolutePath(dest);
+  if (!srcPath || !destPath) {
+    return getOriginalFs().copyFileSync(src, dest, mode);
+  }
+
+  if (
+    mode !== undefined &&
+    mode & fs.constants.COPYFILE_EXCL &&
+    virtualExistsSync(destPath)
+  ) {
+    throw fileExistsError('copyfile', destPath);
+  }
+
+  if (writeThrough) {
+    const destFile = getOrCreateVirtualFile(destPath);
+    getOriginalFs().copyFileSync(srcPath, destPath, mode);
+    destFile.after = readFromDisk(destPath);
+    return;
+  }
+
+  const contents = virtualReadFileSync(srcPath, 'utf8') as string;
+  writeVirtualFile(destPath, contents, false);
+}
+
+function virtualReaddirSync(dir: unknown, options?: unknown): unknown {
+  const dirPath = toAbsolutePath(dir);
+  const readdirSync = getOriginalFs().readdirSync as LooseFsFunction<
+    (string | fs.Dirent)[]
+  >;
+
+  if (
+    !dirPath ||
+    isRecursive(options) ||
+    (getEncoding(options) as string) === 'buffer'
+  ) {
+    return readdirSync(dir as fs.PathOrFileDescriptor, options);
+  }
+
+  if (!virtualExistsSync(dirPath)) {
+    throw noSuchFileError('scandir', dirPath);
+  }
+
+  const withFileTypes =
+    !!options &&
+    typeof options === 'object' &&
+    !!(options as { withFileTypes?: boolean }).withFileTypes;
+
+  const diskEntries =
+    virtualDirs.has(dirPath) && !getOriginalFs().existsSync(dirPath)
+      ? []
+      : isInRemovedDir(dirPath)
+      ? []
+      : readdirSync(dirPath, options);
+
+  // `true` for files, `false` for directories and `null` for deleted files
+  const virtualEntries = new Map<string, boolean | null>();
+  virtualFiles.forEach((file, filePath) => {
+    if (path.dirname(filePath) === dirPath) {
+      virtualEntries.set(path.basename(filePath), file.after !== null || null);
+    }
+  });
+  virtualDirs.forEach((virtualDir) => {
+    if (path.dirname(virtualDir) === dirPath) {
+      virtualEntries.set(path.basename(virtualDir), false);
+    }
+  });
+  removedDirs.forEach((removedDir) => {
+    if (path.dirname(removedDir) === dirPath && !virtualDirs.has(removedDir)) {
+      virtualEntries.set(path.basename(removedDir), null);
+    }
+  });
+
+  const getName = (entry: string | fs.Dirent) =>
+    typeof entry === 'string' ? entry : entry.name;
+  const diskNames = new Set(diskEntries.map(getName));
+
+  const newEntries = [...virtualEntries.entries()]
+    .filter(([name, isFile]) => isFile !== null && !diskNames.has(name))
+    .map(([name, isFile]) =>
+      withFileTypes ? makeDirent(name, dirPath, !!isFile) : name,
+    );
+
+  return [
+    ...diskEntries.filter(
+      (entry) => virtualEntries.get(getName(entry)) !== null,
+    ),
+    ...newEntries,
+  ];
+}
+
+function makeDirent(name: string, parentPath: string, isFile: boolean) {
+  return {
+    name,
+    path: parentPath,
+    parentPath,
+    isFile: () => isFile,
+    isDirectory: () => !isFile,
+    isSymbolicLink: () => false,
+    isBlockDevice: () => false,
+    isCharacterDevice: () => false,
+    isFIFO: () => false,
+    isSocket: () => false,
+  } as unknown as fs.Dirent;
+}
+
+/**
+ * @returns all files in the directory and its subdirectories, including
+ * the ones that only exist in the virtual layer
+ */
+function listFilesRecursive(dirPath: string): string[] {
+  const entries = virtualReaddirSync(dirPath, {
+    withFileTypes: true,
+  }) as fs.Dirent[];
+
+  return entries.flatMap((entry) => {
+    const entryPath = path.join(dirPath, entry.name);
+    return entry.isDirectory() ? listFilesRecursive(entryPath) : [entryPath];
+  });
+}
+
+function virtualStat(
+  file: fs.PathLike,
+  options: fs.StatSyncOptions | undefined,
+  original: typeof fs.statSync,
+  syscall: string,
+): fs.Stats | undefined {
+  const filePath = toAbsolutePath(file);
+  const virtualFile = filePath && virtualFiles.get(filePath);
+
+  if (filePath && virtualFile) {
+    if (virtualFile.after === null) {
+      throw noSuchFileError(syscall, filePath);
+    }
+    return makeStats(true, Buffer.byteLength(virtualFile.after));
+  }
+
+  if (filePath && virtualDirs.has(filePath)) {
+    return makeStats(false, 0);
+  }
+
+  if (filePath && isInRemovedDir(filePath)) {
+    throw noSuchFileError(syscall, filePath);
+  }
+
+  return original(file, options) as fs.Stats | undefined;
+}
+
+function virtualStatSync(
+  file: fs.PathLike,
+  options?: fs.StatSyncOptions,
+): fs.Stats | undefined {
+  return virtualStat(file, options, getOriginalFs().statSync, 'stat');
+}
+
+function virtualLstatSync(
+  file: fs.PathLike,
+  options?: fs.StatSyncOptions,
+): fs.Stats | undefined {
+  return virtualStat(file, options, getOriginalFs().lstatSync, 'lstat');
+}
@@ -0,0 +1,287 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import * as clack from '@clack/prompts';
+import * as Sentry from '@sentry/node';
+import chalk from 'chalk';
+import * as glob from 'glob';
+import yaml from 'js-yaml';
+import { selectPrompt } from './clack';
+import { debug } from './debug';
+import { type PackageDotJson, hasPackageInstalled } from './package-json';
+
+export type WorkspaceTool = 'pnpm' | 'npm' | 'yarn' | 'bun' | 'nx' | 'turbo';
+
+export type WorkspacePackage = {
+  /** The name from the package's package.json */
+  name: string;
+  /** The absolute path of the package directory */
+  dir: string;
+  packageJson: PackageDotJson & { name?: string };
+};
+
+export type Workspace = {
+  tool: WorkspaceTool;
+  /** The absolute path of the workspace root */
+  root: string;
+  packages: WorkspacePackage[];
+};
+
+/**
+ * Nx and Turborepo usually rely on the workspaces of the package manager.
+ * If they don't, we fall back to the conventional package directories.
+ */
+const DEFAULT_PACKAGE_PATTERNS = ['apps/*', 'packages/*', 'libs/*'];
+
+let selectedWorkspace:
+  | { root: string; package: WorkspacePackage | undefined }
+  | undefined;
+
+/**
+ * Looks for a pnpm, npm, yarn or bun workspace, an Nx workspace or a Turborepo
+ * in @param cwd and its parent directories.
+ *
+ * @returns the workspace and its packages or `undefined` if the directory isn't part of a workspace
+ */
+export function detectWorkspace(cwd = process.cwd()): Workspace | undefined {
+  let dir = path.resolve(cwd);
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const definition = readWorkspaceDefinition(dir);
+    if (definition) {
+      const packages = findWorkspacePackages(dir, definition.patterns);
+
+      // A workspace root only matters if it contains the directory we started in
+      const containsCwd =
+        dir === path.resolve(cwd) ||
+        packages.some((pkg) => isInside(path.resolve(cwd), pkg.dir));
+
+      if (containsCwd && packages.length) {
+        return { tool: definition.tool, root: dir, packages };
+      }
+    }
+
+    const parentDir = path.dirname(dir);
+    if (parentDir === dir) {
+      return undefined;
+    }
+    dir = parentDir;
+  }
+}
+
+/**
+ * Detects if the wizard runs in a monorepo and, if so, selects the package to set up.
+ *
+ * If the wizard runs in the workspace root, users can pick one of the packages which
+ * depend on one of the @param frameworkPackages (or any package if the list is empty).
+ * The wizard then continues in the directory of the selected package, while packages
+ * are installed from the workspace root.
+ */
+export async function askForWorkspacePackage(
+  frameworkPackages: string[],
+): Promise<void> {
+  const workspace = detectWorkspace();
+  if (!workspace) {
+    return;
+  }
+
+  Sentry.setTag('workspace', workspace.tool);
+
+  const cwd = path.resolve(process.cwd());
+  const currentPackage = workspace.packages.find((pkg) =>
+    isInside(cwd, pkg.dir),
+  );
+
+  if (currentPackage) {
+    clack.log.info(
+      `Setting up ${chalk.cyan(currentPackage.name)} in your ${
+        workspace.tool
+      } workspace.`,
+    );
+    selectWorkspacePackage(workspace.root, currentPackage);
+    return;
+  }
+
+  const matchesFramework = (packageJson: PackageDotJson) =>
+    !frameworkPackages.length ||
+    frameworkPackages.some((name) => hasPackageInstalled(name, packageJson));
+
+  const candidates = workspace.packages.filter((pkg) =>
+    matchesFramework(pkg.packageJson),
+  );
+
+  const rootPackageJson = readPackageJson(workspace.root);
+  const rootMatchesFramework =
+    !!frameworkPackages.length &&
+    !!rootPackageJson &&
+    matchesFramework(rootPackageJson);
+
+  if (!candidates.length) {
+    selectWorkspacePackage(workspace.root, undefined);
+    return;
+  }
+
+  if (candidates.length === 1 && !rootMatchesFramework) {
+    clack.log.step(
+      `Detected ${chalk.cyan(candidates[0].name)} in your ${
+        workspace.tool
+      } workspace.`,
+    );
+    selectWorkspacePackage(workspace.root, candidates[0]);
+    return;
+  }
+
+  const selection = await selectPrompt<WorkspacePackage | undefined>(
+    'workspacePackage',
+    {
+      message: 'Which package of your workspace do you want to set up?',
+      maxItems: 12,
+      options: [
+        ...candidates.map((pkg) => ({
+          value: pkg,
+          label: pkg.name,
+          hint: path.relative(workspace.root, pkg.dir),
+          answer: pkg.name,
+        })),
+        ...(rootMatchesFramework
+          ? [{ value: undefined, label: 'The workspace root', answer: '.' }]
+          : []),
+      ],
+    },
+  );
+
+  selectWorkspacePackage(workspace.root, selection);
+}
+
+/**
+ * Selects the workspace package the wizard sets up and changes the
+ * working directory to the package directory.
+ *
+ * @param pkg the package or `undefined` to set up the workspace root
+ */
+export function selectWorkspacePackage(
+  root: string,
+  pkg: WorkspacePackage | undefined,
+): void {
+  selectedWorkspace = { root, package: pkg };
+
+  if (pkg && path.resolve(process.cwd()) !== pkg.dir) {
+    process.chdir(pkg.dir);
+  }
+}
+
+/**
+ * Returns the root of the workspace the wizard sets up a package of,
+ * or the current working directory if the project isn't a monorepo.
+ *
+ * Lockfiles and package manager overrides live in this directory.
+ */
+export function getWorkspaceRoot(): string {
+  return selectedWorkspace?.root ?? process.cwd();
+}
+
+export function getSelectedWorkspacePackage(): WorkspacePackage | undefined {
+  return selectedWorkspace?.package;
+}
+
+export function resetWorkspace(): void {
+  selectedWorkspace = undefined;
+}
+
+function readWorkspaceDefinition(
+  dir: string,
+): { tool: WorkspaceTool; patterns: string[] } | undefined {
+  const pnpmWorkspacePath = path.join(dir, 'pnpm-workspace.yaml');
+  if (fs.existsSync(pnpmWorkspacePath)) {
+    try {
+      const pnpmWorkspace = yaml.load(
+        fs.readFileSync(pnpmWorkspacePath, 'utf8'),
+      ) as { packages?: string[] } | undefined;
+      return { tool: 'pnpm', patterns: pnpmWorkspace?.packages ?? [] };
+    } catch (e) {
+      debug('Could not parse pnpm-workspace.yaml:', e);
+    }
+  }
+
+  const packageJson = readPackageJson(dir) as
+    | { workspaces?: string[] | { packages?: string[] } }
+    | undefined;
+  const workspaces = Array.isArray(packageJson?.workspaces)
+    ? packageJson?.workspaces
+    : packageJson?.workspaces?.packages;
+
+  if (workspaces?.length) {
+    return { tool: getPackageManagerTool(dir), patterns: workspaces };
+  }
+
+  if (fs.existsSync(path.join(dir, 'nx.json'))) {
+    return { tool: 'nx', patterns: DEFAULT_PACKAGE_PATTERNS };
+  }
+
+  if (fs.existsSync(path.join(dir, 'turbo.json'))) {
+    return { tool: 'turbo', patterns: DEFAULT_PACKAGE_PATTERNS };
+  }
+
+  return undefined;
+}
+
+function getPackageManagerTool(dir: string): WorkspaceTool {
+  if (
+    fs.existsSync(path.join(dir, 'bun.lockb')) ||
+    fs.existsSync(path.join(dir, 'bun.lock'))
+  ) {
+    return 'bun';
+  }
+  if (fs.existsSync(path.join(dir, 'yarn.lock'))) {
+    return 'yarn';
+  }
+  return 'npm';
+}
+
+function findWorkspacePackages(
+  root: string,
+  patterns: string[],
+): WorkspacePackage[] {
+  const include = patterns.filter((pattern) => !pattern.startsWith('!'));
+  const exclude = patterns
+    .filter((pattern) => pattern.startsWith('!'))
+    .map((pattern) => `${pattern.slice(1)}/package.json`);
+
+  const packageJsonPaths = glob.sync(
+    include.map((pattern) => `${pattern.replace(/\/$/, '')}/package.json`),
+    { cwd: root, ignore: ['**/node_modules/**', ...exclude] },
+  );
+
+  return packageJsonPaths
+    .map((packageJsonPath) => {
+      const dir = path.join(root, path.dirname(packageJsonPath));
+      const packageJson = readPackageJson(dir);
+      return packageJson
+        ? {
+            name: packageJson.name ?? path.basename(dir),
+            dir,
+            packageJson,
+          }
+        : undefined;
+    })
+    .filter((pkg): pkg is WorkspacePackage => !!pkg && pkg.dir !== root)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function readPackageJson(
+  dir: string,
+): (PackageDotJson & { name?: string }) | undefined {
+  try {
+    return JSON.parse(
+      fs.readFileSync(path.join(dir, 'package.json'), 'utf8'),
+    ) as PackageDotJson & { name?: string };
+  } catch {
+    return undefined;
+  }
+}
+
+function isInside(dir: string, parentDir: string): boolean {
+  const relativePath = path.relative(parentDir, dir);
+  return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+}
@@ -0,0 +1,78 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addDsnManifestPlaceholder } from '../../src/android/gradle';
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('addDsnManifestPlaceholder', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gradle-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeAppFile(fileName: string, contents: string): string {
+    const appFile = path.join(tmpDir, fileName);
+    fs.writeFileSync(appFile, contents);
+    return appFile;
+  }
+
+  it('adds the placeholder to the defaultConfig block', () => {
+    const appFile = writeAppFile(
+      'build.gradle',
+      `android {
+    defaultConfig {
+        minSdk 24
+    }
+}
+`,
+    );
+
+    expect(addDsnManifestPlaceholder(appFile, 'https://dsn')).toBe(true);
+    expect(fs.readFileSync(appFile, 'utf8')).toMatchInlineSnapshot(`
+      "android {
+          defaultConfig {
+              // the DSN used in AndroidManifest.xml, override it per build type or flavor to use different Sentry projects
+              manifestPlaceholders += [sentryDsn: "https://dsn"]
+              minSdk 24
+          }
+      }
+      "
+    `);
+  });
+
+  it('uses the Kotlin DSL syntax in build.gradle.kts files', () => {
+    const appFile = writeAppFile(
+      'build.gradle.kts',
+      `android {
+    defaultConfig {
+        minSdk = 24
+    }
+}
+`,
+    );
+
+    expect(addDsnManifestPlaceholder(appFile, 'https://dsn')).toBe(true);
+    expect(fs.readFileSync(appFile, 'utf8')).toContain(
+      '        manifestPlaceholders["sentryDsn"] = "https://dsn"\n        minSdk = 24',
+    );
+  });
+
+  it('returns false if there is no defaultConfig block', () => {
+    const appFile = writeAppFile('build.gradle', 'android {}\n');
+
+    expect(addDsnManifestPlaceholder(appFile, 'https://dsn')).toBe(false);
+    expect(fs.readFileSync(appFile, 'utf8')).toBe('android {}\n');
+  });
+});
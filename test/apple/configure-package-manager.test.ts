@@ -21,7 +21,10 @@ vi.mock('@clack/prompts', () => ({
 
 vi.mock('../../src/apple/cocoapod');
 vi.mock('../../src/utils/clack', () => ({
-  abortIfCancelled: vi.fn((value: unknown) => Promise.resolve(value)),
+  selectPrompt: vi.fn(
+    (_key: string, options: Parameters<typeof clack.select>[0]) =>
+      clack.select(options),
+  ),
 }));
 
 vi.mock('../../src/telemetry', () => ({
@@ -143,6 +143,7 @@ describe('lookup-xcode-project', () => {
       expect(mocks.askForItemSelection).toHaveBeenCalledWith(
         ['First.xcodeproj', 'Second.xcodeproj'],
         'Which project do you want to add Sentry to?',
+        'xcodeProject',
       );
       expect(result).toEqual(
         expect.objectContaining({ projectPath: selectedPbxprojPath }),
@@ -191,6 +192,7 @@ describe('lookup-xcode-project', () => {
       expect(mocks.askForItemSelection).toHaveBeenCalledWith(
         ['App', 'Widget'],
         'Which target do you want to add Sentry to?',
+        'xcodeTarget',
       );
       expect(result).toBe('Widget');
     });
@@ -209,6 +211,7 @@ describe('lookup-xcode-project', () => {
       expect(mocks.askForItemSelection).toHaveBeenCalledWith(
         ['AppTests', 'AppUITests'],
         'Which test target should render SnapshotPreviews?',
+        'xcodeTarget',
       );
       expect(result).toBe('AppUITests');
     });
@@ -215,6 +215,7 @@ describe('runAppleSnapshotsWizard', () => {
     expect(mocks.askForItemSelection).toHaveBeenCalledWith(
       ['AppTests', 'AppSnapshotTests'],
       'Which test target should render SnapshotPreviews?',
+      'hostedTestTarget',
     );
     expect(mocks.configureSnapshotPreviewsXcodeProject).toHaveBeenCalledWith({
       xcodeProject,
@@ -420,6 +421,7 @@ describe('runAppleSnapshotsWizard', () => {
     expect(mocks.askForItemSelection).toHaveBeenCalledWith(
       ['AppTests', 'AppSnapshotTests'],
       'Which hosted XCTest target should render SnapshotPreviews?',
+      'hostedTestTarget',
     );
     expect(mocks.configureSnapshotPreviewsXcodeProject).toHaveBeenCalledWith({
       xcodeProject,
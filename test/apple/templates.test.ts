@@ -187,6 +187,17 @@ fi
 `,
       );
     });
+
+    it('should read the DSN from the Info.plist', () => {
+      // -- Arrange --
+      const snippet = getSwiftSnippet('test-dsn', false, true);
+
+      // -- Assert --
+      expect(snippet).toContain(
+        'options.dsn = Bundle.main.object(forInfoDictionaryKey: "SentryDSN") as? String\n',
+      );
+      expect(snippet).not.toContain('test-dsn');
+    });
   });
 
   describe('getObjcSnippet', () => {
@@ -258,6 +269,17 @@ fi
 `,
       );
     });
+
+    it('should read the DSN from the Info.plist', () => {
+      // -- Arrange --
+      const snippet = getObjcSnippet('test-dsn', false, true);
+
+      // -- Assert --
+      expect(snippet).toContain(
+        'options.dsn = [[NSBundle mainBundle] objectForInfoDictionaryKey:@"SentryDSN"];\n',
+      );
+      expect(snippet).not.toContain('test-dsn');
+    });
   });
 
   describe('getFastlaneSnippet', () => {
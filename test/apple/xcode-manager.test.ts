@@ -37,6 +37,7 @@ vi.mock('@clack/prompts', () => ({
     info: vi.fn(),
     success: vi.fn(),
     step: vi.fn(),
+    warn: vi.fn(),
   },
 }));
 
@@ -1243,6 +1244,74 @@ describe('XcodeManager', () => {
       });
     });
 
+    describe('addDsnBuildSetting', () => {
+      const dsn = 'https://key@o1.ingest.sentry.io/1';
+
+      function prepareProject(fixture: string): XcodeProject {
+        const tempDir = fs.mkdtempSync(
+          path.join(os.tmpdir(), 'add-dsn-build-setting'),
+        );
+        fs.cpSync(path.join(appleProjectsPath, fixture), tempDir, {
+          recursive: true,
+        });
+        return new XcodeProject(
+          path.join(tempDir, 'Project.xcodeproj/project.pbxproj'),
+        );
+      }
+
+      it('should add the DSN build setting and reference it in the Info.plist', () => {
+        // -- Arrange --
+        const xcodeProject = prepareProject('objc-single-target');
+
+        // -- Act --
+        const result = xcodeProject.addDsnBuildSetting('Project', dsn);
+
+        // -- Assert --
+        expect(result).toBe(true);
+        const pbxproj = fs.readFileSync(xcodeProject.pbxprojPath, 'utf8');
+        expect(pbxproj.match(/SENTRY_DSN = "(.*)";/g)).toEqual([
+          `SENTRY_DSN = "${dsn}";`,
+          `SENTRY_DSN = "${dsn}";`,
+        ]);
+        const infoPlist = fs.readFileSync(
+          path.join(xcodeProject.baseDir, 'Sources/Info.plist'),
+          'utf8',
+        );
+        expect(infoPlist).toContain(
+          '\t<key>SentryDSN</key>\n\t<string>$(SENTRY_DSN)</string>\n</dict>\n</plist>',
+        );
+      });
+
+      it('should not add the key to the Info.plist twice', () => {
+        // -- Arrange --
+        const xcodeProject = prepareProject('objc-single-target');
+
+        // -- Act --
+        xcodeProject.addDsnBuildSetting('Project', dsn);
+        xcodeProject.addDsnBuildSetting('Project', dsn);
+
+        // -- Assert --
+        const infoPlist = fs.readFileSync(
+          path.join(xcodeProject.baseDir, 'Sources/Info.plist'),
+          'utf8',
+        );
+        expect(infoPlist.match(/<key>SentryDSN<\/key>/g)).toHaveLength(1);
+      });
+
+      it('should return false if the target has no Info.plist file', () => {
+        // -- Arrange --
+        const xcodeProject = prepareProject('spm-swiftui-single-target');
+
+        // -- Act --
+        const result = xcodeProject.addDsnBuildSetting('Project', dsn);
+
+        // -- Assert --
+        expect(result).toBe(false);
+        const pbxproj = fs.readFileSync(xcodeProject.pbxprojPath, 'utf8');
+        expect(pbxproj).not.toContain('SENTRY_DSN');
+      });
+    });
+
     describe('getSourceFilesForTarget', () => {
       describe('targets are undefined', () => {
         it('should return undefined', () => {
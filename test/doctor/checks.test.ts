@@ -0,0 +1,155 @@
+import * as childProcess from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  authTokenFileCheck,
+  dsnConsistencyCheck,
+  fileContainsCheck,
+  sdkVersionCheck,
+} from '../../src/doctor/checks';
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function writeFile(filePath: string, contents: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, contents);
+}
+
+describe('doctor checks', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'doctor-')));
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('sdkVersionCheck', () => {
+    it.each([
+      ['^10.2.0', 'pass'],
+      ['9.40.0', 'warn'],
+      [undefined, 'fail'],
+    ])('checks version %s (%s)', async (version, status) => {
+      writeFile(
+        path.join(tmpDir, 'package.json'),
+        JSON.stringify({
+          dependencies: version ? { '@sentry/nextjs': version } : {},
+        }),
+      );
+
+      const result = await sdkVersionCheck('@sentry/nextjs', '^10.0.0').run();
+
+      expect(result.status).toBe(status);
+    });
+  });
+
+  describe('fileContainsCheck', () => {
+    const check = fileContainsCheck({
+      title: 'Next.js config',
+      files: ['next.config.{js,mjs}'],
+      search: /withSentryConfig/,
+      expected: 'withSentryConfig',
+      fix: 'Add withSentryConfig',
+    });
+
+    it('passes if a file contains the search term', async () => {
+      writeFile(
+        path.join(tmpDir, 'next.config.mjs'),
+        'export default withSentryConfig(nextConfig);',
+      );
+
+      expect(await check.run()).toMatchObject({ status: 'pass' });
+    });
+
+    it('fails if no file contains the search term', async () => {
+      writeFile(path.join(tmpDir, 'next.config.js'), 'module.exports = {};');
+
+      expect(await check.run()).toMatchObject({
+        status: 'fail',
+        fix: 'Add withSentryConfig',
+      });
+    });
+
+    it('fails if no file exists', async () => {
+      expect(await check.run()).toMatchObject({ status: 'fail' });
+    });
+  });
+
+  describe('dsnConsistencyCheck', () => {
+    const check = dsnConsistencyCheck(['sentry.*.config.ts']);
+
+    it('passes if all files use the same DSN', async () => {
+      writeFile(
+        path.join(tmpDir, 'sentry.server.config.ts'),
+        'Sentry.init({ dsn: "https://key@o1.ingest.sentry.io/1" });',
+      );
+      writeFile(
+        path.join(tmpDir, 'sentry.edge.config.ts'),
+        'Sentry.init({ dsn: "https://key@o1.ingest.sentry.io/1" });',
+      );
+
+      expect(await check.run()).toMatchObject({ status: 'pass' });
+    });
+
+    it('fails if files use different DSNs', async () => {
+      writeFile(
+        path.join(tmpDir, 'sentry.server.config.ts'),
+        'Sentry.init({ dsn: "https://key@o1.ingest.sentry.io/1" });',
+      );
+      writeFile(
+        path.join(tmpDir, 'sentry.edge.config.ts'),
+        'Sentry.init({ dsn: "https://other@o1.ingest.sentry.io/2" });',
+      );
+
+      const result = await check.run();
+
+      expect(result.status).toBe('fail');
+      expect(result.message).toContain('https://other@o1.ingest.sentry.io/2');
+    });
+
+    it('warns if no DSN was found', async () => {
+      writeFile(
+        path.join(tmpDir, 'sentry.server.config.ts'),
+        'Sentry.init({ dsn: process.env.SENTRY_DSN });',
+      );
+
+      expect(await check.run()).toMatchObject({ status: 'warn' });
+    });
+  });
+
+  describe('authTokenFileCheck', () => {
+    const check = authTokenFileCheck(['.env.sentry-build-plugin']);
+
+    beforeEach(() => {
+      childProcess.execSync('git init -q', { cwd: tmpDir });
+      writeFile(
+        path.join(tmpDir, '.env.sentry-build-plugin'),
+        'SENTRY_AUTH_TOKEN=token',
+      );
+    });
+
+    it('passes if the auth token file is ignored by git', async () => {
+      writeFile(path.join(tmpDir, '.gitignore'), '.env*\n');
+
+      expect(await check.run()).toMatchObject({ status: 'pass' });
+    });
+
+    it("fails if the auth token file isn't ignored by git", async () => {
+      expect(await check.run()).toMatchObject({ status: 'fail' });
+    });
+  });
+});
@@ -4,6 +4,7 @@ import {
   sentryProperties,
   initSnippet,
 } from '../../src/flutter/templates';
+import { DEFAULT_SDK_INIT_OPTIONS } from '../../src/utils/sdk-init-options';
 
 vi.mock('../../src/utils/clack/mcp-config', () => ({
   offerProjectScopedMcpConfig: vi.fn().mockResolvedValue(undefined),
@@ -66,6 +67,72 @@ describe('Flutter code templates', () => {
       `);
     });
 
+    it('reads the DSN from a --dart-define variable', () => {
+      const template = initSnippet(
+        'my-dsn',
+        {
+          tracing: false,
+          profiling: false,
+          replay: false,
+          logs: false,
+        },
+        'const MyApp()',
+        {
+          ...DEFAULT_SDK_INIT_OPTIONS,
+          dsnEnvVar: 'SENTRY_DSN',
+        },
+      );
+      expect(template).toContain(
+        "options.dsn = const String.fromEnvironment('SENTRY_DSN');",
+      );
+      expect(template).not.toContain('my-dsn');
+    });
+
+    it('generates Sentry config with custom sample rates, environment and release', () => {
+      const template = initSnippet(
+        'my-dsn',
+        {
+          tracing: true,
+          profiling: true,
+          replay: true,
+          logs: false,
+        },
+        'const MyApp()',
+        {
+          tracesSampleRate: 0.2,
+          profilesSampleRate: 0.5,
+          replaysSessionSampleRate: 0,
+          replaysOnErrorSampleRate: 1,
+          environment: { envVar: 'SENTRY_ENVIRONMENT' },
+          release: { value: 'my-app@1.0.0' },
+        },
+      );
+      expect(template).toMatchInlineSnapshot(`
+        "await SentryFlutter.init(
+            (options) {
+              options.dsn = 'my-dsn';
+              // Adds request headers and IP for users, for more info visit:
+              // https://docs.sentry.io/platforms/dart/guides/flutter/data-management/data-collected/
+              options.sendDefaultPii = true;
+              // Set tracesSampleRate to 1.0 to capture 100% of transactions for tracing.
+              // We recommend adjusting this value in production.
+              options.tracesSampleRate = 0.2;
+              // The sampling rate for profiling is relative to tracesSampleRate
+              // Setting to 1.0 will profile 100% of sampled transactions:
+              options.profilesSampleRate = 0.5;
+              // Configure Session Replay
+              options.replay.sessionSampleRate = 0.0;
+              options.replay.onErrorSampleRate = 1.0;
+              options.environment = const String.fromEnvironment('SENTRY_ENVIRONMENT');
+              options.release = 'my-app@1.0.0';
+            },
+            appRunner: () => runApp(SentryWidget(child: const MyApp())),
+          );
+          // TODO: Remove this line after sending the first sample event to sentry.
+          await Sentry.captureException(StateError('This is a sample exception.'));"
+      `);
+    });
+
     it('generates Sentry config with profiling & replay disabled', () => {
       const template = initSnippet(
         'my-dsn',
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  migrateClassIntegrations,
+  migrateEnableTracing,
+  migrateWithSentryConfig,
+} from '../../src/migrate/codemods';
+
+describe('migrateClassIntegrations', () => {
+  it('replaces imported integration classes with functions', () => {
+    const code = `import { init, BrowserTracing, Replay } from '@sentry/react';
+
+init({
+  integrations: [new BrowserTracing(), new Replay({ maskAllText: false })],
+});
+`;
+
+    const result = migrateClassIntegrations(code, '@sentry/react');
+
+    expect(result.code).toContain(
+      "import { init, browserTracingIntegration, replayIntegration } from '@sentry/react';",
+    );
+    expect(result.code).toContain(
+      'integrations: [browserTracingIntegration(), replayIntegration({ maskAllText: false })]',
+    );
+    expect(result.followUps).toEqual([]);
+  });
+
+  it('keeps aliases of imported integration classes', () => {
+    const code = `import { Replay as SentryReplay } from '@sentry/react';
+const replay = new SentryReplay();
+`;
+
+    const result = migrateClassIntegrations(code, '@sentry/react');
+
+    expect(result.code).toContain(
+      "import { replayIntegration as SentryReplay } from '@sentry/react';",
+    );
+    expect(result.code).toContain('const replay = SentryReplay();');
+  });
+
+  it('replaces integration classes of namespace imports', () => {
+    const code = `import * as Sentry from '@sentry/node';
+
+Sentry.init({
+  integrations: [new Sentry.Integrations.Http({ tracing: true }), new Sentry.BrowserTracing()],
+});
+`;
+
+    const result = migrateClassIntegrations(code, '@sentry/node');
+
+    expect(result.code).toContain('Sentry.httpIntegration({ tracing: true })');
+    expect(result.code).toContain('Sentry.browserTracingIntegration()');
+    expect(result.followUps).toEqual([]);
+  });
+
+  it('changes imports of discontinued packages to the SDK package', () => {
+    const code = `import { CaptureConsole } from '@sentry/integrations';
+const integration = new CaptureConsole();
+`;
+
+    const result = migrateClassIntegrations(code, '@sentry/browser');
+
+    expect(result.code).toContain(
+      "import { captureConsoleIntegration } from '@sentry/browser';",
+    );
+    expect(result.code).toContain(
+      'const integration = captureConsoleIntegration();',
+    );
+  });
+
+  it('reports unknown integration classes as follow-ups', () => {
+    const code = `import * as Sentry from '@sentry/node';
+const integration = new Sentry.Integrations.Custom();
+`;
+
+    const result = migrateClassIntegrations(code, '@sentry/node');
+
+    expect(result.code).toBe(code);
+    expect(result.followUps).toEqual([
+      'Replace Sentry.Integrations.Custom with its functional integration.',
+    ]);
+  });
+
+  it("doesn't change files without Sentry imports", () => {
+    const code = `import { Replay } from 'some-package';
+const replay = new Replay();
+`;
+
+    expect(migrateClassIntegrations(code, '@sentry/react')).toEqual({
+      code,
+      followUps: [],
+    });
+  });
+});
+
+describe('migrateEnableTracing', () => {
+  it('replaces enableTracing: true with tracesSampleRate', () => {
+    const code = `import * as Sentry from '@sentry/node';
+Sentry.init({ dsn: 'dsn', enableTracing: true });\n`;
+
+    const result = migrateEnableTracing(code);
+
+    expect(result.code).toContain('tracesSampleRate: 1');
+    expect(result.code).not.toContain('enableTracing');
+  });
+
+  it('removes enableTracing if a sample rate is set', () => {
+    const code = `import * as Sentry from '@sentry/node';
+Sentry.init({ enableTracing: true, tracesSampleRate: 0.2 });\n`;
+
+    const result = migrateEnableTracing(code);
+
+    expect(result.code).not.toContain('enableTracing');
+    expect(result.code).toContain('tracesSampleRate: 0.2');
+  });
+
+  it('removes enableTracing: false', () => {
+    const code = `import * as Sentry from '@sentry/node';
+Sentry.init({ dsn: 'dsn', enableTracing: false });\n`;
+
+    const result = migrateEnableTracing(code);
+
+    expect(result.code).not.toContain('enableTracing');
+    expect(result.code).not.toContain('tracesSampleRate');
+  });
+
+  it('reports non-literal values as follow-ups', () => {
+    const code = `import * as Sentry from '@sentry/node';
+Sentry.init({ enableTracing: isProduction });\n`;
+
+    const result = migrateEnableTracing(code);
+
+    expect(result.code).toBe(code);
+    expect(result.followUps).toHaveLength(1);
+  });
+
+  it("doesn't change files without a Sentry import", () => {
+    const code = `otherLibrary.init({ enableTracing: true });\n`;
+
+    const result = migrateEnableTracing(code);
+
+    expect(result.code).toBe(code);
+    expect(result.followUps).toEqual([]);
+  });
+});
+
+describe('migrateWithSentryConfig', () => {
+  it('merges the SDK options into the build options for v8', () => {
+    const code = `const { withSentryConfig } = require('@sentry/nextjs');
+
+module.exports = withSentryConfig(
+  nextConfig,
+  { org: 'org', project: 'project' },
+  { transpileClientSDK: true, tunnelRoute: '/monitoring' },
+);
+`;
+
+    const result = migrateWithSentryConfig(code, 8);
+
+    expect(result.code).toContain("org: 'org'");
+    expect(result.code).toContain("tunnelRoute: '/monitoring'");
+    expect(result.code).not.toContain('transpileClientSDK');
+    expect(result.followUps).toEqual([
+      expect.stringContaining('Removed the transpileClientSDK option'),
+    ]);
+  });
+
+  it('reports SDK options it cannot merge as follow-ups', () => {
+    const code = `export default withSentryConfig(nextConfig, buildOptions, sdkOptions);\n`;
+
+    const result = migrateWithSentryConfig(code, 8);
+
+    expect(result.code).toBe(code);
+    expect(result.followUps).toEqual([
+      expect.stringContaining('Merge the third argument of withSentryConfig'),
+    ]);
+  });
+
+  it('removes options removed in v9', () => {
+    const code = `export default withSentryConfig(nextConfig, {
+  org: 'org',
+  hideSourceMaps: true,
+});
+`;
+
+    expect(migrateWithSentryConfig(code, 8).code).toBe(code);
+
+    const result = migrateWithSentryConfig(code, 9);
+
+    expect(result.code).not.toContain('hideSourceMaps');
+    expect(result.code).toContain("org: 'org'");
+  });
+});
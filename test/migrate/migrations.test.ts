@@ -0,0 +1,141 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  MIGRATION_STEPS,
+  type MigrationContext,
+  getMajorVersion,
+} from '../../src/migrate/migrations';
+
+function writeFile(filePath: string, contents: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, contents);
+}
+
+function getCodemod(major: number, title: string) {
+  const codemod = MIGRATION_STEPS.find(
+    (step) => step.major === major,
+  )?.codemods.find((codemod) => codemod.title.startsWith(title));
+
+  if (!codemod) {
+    throw new Error(`Codemod not found: ${title}`);
+  }
+  return codemod;
+}
+
+describe('getMajorVersion', () => {
+  it.each([
+    ['^7.50.0', 7],
+    ['~8.1.0', 8],
+    ['9.0.0', 9],
+    ['>=10.0.0', 10],
+    ['latest', undefined],
+    [undefined, undefined],
+  ])('returns the major version of %s', (version, major) => {
+    expect(getMajorVersion(version)).toBe(major);
+  });
+});
+
+describe('migration steps', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-')),
+    );
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('are sorted by major version', () => {
+    const majors = MIGRATION_STEPS.map((step) => step.major);
+    expect(majors).toEqual([...majors].sort((a, b) => a - b));
+  });
+
+  describe('class integrations codemod', () => {
+    const context: MigrationContext = {
+      sdkPackageName: '@sentry/react',
+      packageJson: {},
+    };
+
+    it('changes source files and skips dependencies', () => {
+      const code = `import { Replay } from '@sentry/react';\nconst replay = new Replay();\n`;
+      writeFile(path.join(tmpDir, 'src', 'sentry.ts'), code);
+      writeFile(path.join(tmpDir, 'node_modules', 'pkg', 'index.js'), code);
+
+      const result = getCodemod(8, 'Replace class-based').run(context);
+
+      expect(result.changedFiles).toEqual([path.join('src', 'sentry.ts')]);
+      expect(
+        fs.readFileSync(path.join(tmpDir, 'src', 'sentry.ts'), 'utf8'),
+      ).toContain('replayIntegration()');
+      expect(
+        fs.readFileSync(
+          path.join(tmpDir, 'node_modules', 'pkg', 'index.js'),
+          'utf8',
+        ),
+      ).toBe(code);
+    });
+
+    it('reports files it cannot parse as follow-ups', () => {
+      writeFile(
+        path.join(tmpDir, 'broken.js'),
+        `import { Replay } from '@sentry/react';\nconst = ;\n`,
+      );
+
+      const result = getCodemod(8, 'Replace class-based').run(context);
+
+      expect(result.changedFiles).toEqual([]);
+      expect(result.followUps).toEqual([
+        expect.objectContaining({ file: 'broken.js' }),
+      ]);
+    });
+  });
+
+  describe('Next.js client config codemod', () => {
+    const clientConfig = `import * as Sentry from '@sentry/nextjs';\n\nSentry.init({ dsn: 'dsn' });\n`;
+
+    it('moves the client config into instrumentation-client', () => {
+      writeFile(path.join(tmpDir, 'sentry.client.config.ts'), clientConfig);
+      fs.mkdirSync(path.join(tmpDir, 'src', 'app'), { recursive: true });
+
+      const result = getCodemod(10, 'Move sentry.client.config').run({
+        sdkPackageName: '@sentry/nextjs',
+        packageJson: { dependencies: { next: '^15.3.0' } },
+      });
+
+      const target = path.join('src', 'instrumentation-client.ts');
+      expect(result.changedFiles).toEqual(['sentry.client.config.ts', target]);
+      expect(fs.existsSync(path.join(tmpDir, 'sentry.client.config.ts'))).toBe(
+        false,
+      );
+      expect(fs.readFileSync(path.join(tmpDir, target), 'utf8')).toBe(
+        `${clientConfig}\nexport const onRouterTransitionStart = Sentry.captureRouterTransitionStart;\n`,
+      );
+    });
+
+    it('keeps the client config for older Next.js versions', () => {
+      writeFile(path.join(tmpDir, 'sentry.client.config.js'), clientConfig);
+
+      const result = getCodemod(10, 'Move sentry.client.config').run({
+        sdkPackageName: '@sentry/nextjs',
+        packageJson: { dependencies: { next: '^14.2.0' } },
+      });
+
+      expect(result.changedFiles).toEqual([]);
+      expect(result.followUps).toEqual([
+        expect.objectContaining({ file: 'sentry.client.config.js' }),
+      ]);
+      expect(fs.existsSync(path.join(tmpDir, 'sentry.client.config.js'))).toBe(
+        true,
+      );
+    });
+  });
+});
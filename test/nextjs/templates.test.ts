@@ -10,6 +10,7 @@ import {
   getSentryExamplePagesDirApiRoute,
   getSentryExampleAppDirApiRoute,
 } from '../../src/nextjs/templates';
+import { DEFAULT_SDK_INIT_OPTIONS } from '../../src/utils/sdk-init-options';
 
 describe('Next.js code templates', () => {
   describe('getInstrumentationClientFileContents', () => {
@@ -195,6 +196,66 @@ describe('Next.js code templates', () => {
       expect(template).toContain('dsn: ""');
       expect(template).toContain('spotlight: true');
     });
+
+    it('generates client-side Sentry config with custom sample rates, environment and release', () => {
+      const template = getInstrumentationClientFileContents(
+        'my-dsn',
+        {
+          performance: true,
+          replay: true,
+          logs: false,
+        },
+        false,
+        {
+          tracesSampleRate: 0.2,
+          profilesSampleRate: 1,
+          replaysSessionSampleRate: 0.05,
+          replaysOnErrorSampleRate: 0.5,
+          environment: { envVar: 'NEXT_PUBLIC_SENTRY_ENVIRONMENT' },
+          release: { value: '1.0.0' },
+        },
+      );
+
+      expect(template).toMatchInlineSnapshot(`
+        "// This file configures the initialization of Sentry on the client.
+        // The added config here will be used whenever a users loads a page in their browser.
+        // https://docs.sentry.io/platforms/javascript/guides/nextjs/
+
+        import * as Sentry from "@sentry/nextjs";
+
+        Sentry.init({
+          dsn: "my-dsn",
+
+          // Add optional integrations for additional features
+          integrations: [Sentry.replayIntegration()],
+
+          // Define how likely traces are sampled. Adjust this value in production, or use tracesSampler for greater control.
+          tracesSampleRate: 0.2,
+
+          // Define how likely Replay events are sampled.
+          // This sets the sample rate to be 5%. You may want this to be 100% while
+          // in development and sample at a lower rate in production
+          replaysSessionSampleRate: 0.05,
+
+          // Define how likely Replay events are sampled when an error occurs.
+          replaysOnErrorSampleRate: 0.5,
+
+          environment: process.env.NEXT_PUBLIC_SENTRY_ENVIRONMENT,
+
+          release: "1.0.0",
+
+          dataCollection: {
+            // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
+            // https://docs.sentry.io/platforms/javascript/guides/nextjs/configuration/options/#dataCollection
+            // userInfo: false,
+            // httpBodies: [],
+          },
+        });
+
+        export const onRouterTransitionStart = Sentry.captureRouterTransitionStart;
+        "
+      `);
+    });
   });
 
   describe('getSentryServersideConfigContents', () => {
@@ -345,6 +406,26 @@ describe('Next.js code templates', () => {
         expect(template).toContain('dsn: ""');
         expect(template).toContain('spotlight: true');
       });
+
+      it('reads the DSN from an environment variable', () => {
+        const template = getSentryServersideConfigContents(
+          'my-dsn',
+          'server',
+          {
+            performance: true,
+            replay: false,
+            logs: false,
+          },
+          false,
+          {
+            ...DEFAULT_SDK_INIT_OPTIONS,
+            dsnEnvVar: 'NEXT_PUBLIC_SENTRY_DSN',
+          },
+        );
+
+        expect(template).toContain('dsn: process.env.NEXT_PUBLIC_SENTRY_DSN,');
+        expect(template).not.toContain('my-dsn');
+      });
     });
 
     describe('edge', () => {
@@ -279,6 +279,38 @@ describe('Nuxt code templates', () => {
           "
         `);
       });
+
+      it('reads the DSN from the runtime config', () => {
+        const template = getSentryConfigContents(
+          'https://sentry.io/123',
+          'client',
+          {
+            performance: false,
+            replay: false,
+            logs: false,
+          },
+          'NUXT_PUBLIC_SENTRY_DSN',
+        );
+
+        expect(template).toMatchInlineSnapshot(`
+          "import * as Sentry from "@sentry/nuxt";
+
+          Sentry.init({
+            dsn: useRuntimeConfig().public.sentry.dsn,
+
+            dataCollection: {
+              // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
+              // https://docs.sentry.io/platforms/javascript/guides/nuxt/configuration/options/#dataCollection
+              // userInfo: false,
+              // httpBodies: [],
+            },
+
+            // Setting this option to true will print useful information to the console while you're setting up Sentry.
+            debug: false,
+          });
+          "
+        `);
+      });
     });
 
     describe('server config', () => {
@@ -419,6 +451,38 @@ describe('Nuxt code templates', () => {
           "
         `);
       });
+
+      it('reads the DSN from the environment variable', () => {
+        const template = getSentryConfigContents(
+          'https://sentry.io/123',
+          'server',
+          {
+            performance: false,
+            replay: false,
+            logs: false,
+          },
+          'NUXT_PUBLIC_SENTRY_DSN',
+        );
+
+        expect(template).toMatchInlineSnapshot(`
+          "import * as Sentry from "@sentry/nuxt";
+           
+          Sentry.init({
+            dsn: process.env.NUXT_PUBLIC_SENTRY_DSN,
+
+            dataCollection: {
+              // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
+              // https://docs.sentry.io/platforms/javascript/guides/nuxt/configuration/options/#dataCollection
+              // userInfo: false,
+              // httpBodies: [],
+            },
+
+            // Setting this option to true will print useful information to the console while you're setting up Sentry.
+            debug: false,
+          });
+          "
+        `);
+      });
     });
   });
 
@@ -449,6 +513,37 @@ describe('Nuxt code templates', () => {
       `);
     });
 
+    it('generates configuration options for the nuxt config with the DSN in the runtime config', () => {
+      const template = getNuxtModuleFallbackTemplate(
+        {
+          org: 'my-org',
+          project: 'my-project',
+          url: 'https://sentry.io',
+          selfHosted: false,
+        },
+        false,
+        true,
+      );
+
+      expect(template).toMatchInlineSnapshot(`
+        "  modules: ["@sentry/nuxt/module"],
+          runtimeConfig: {
+            // Set via the NUXT_PUBLIC_SENTRY_DSN environment variable
+            public: { sentry: { dsn: "" } },
+          },
+          sentry: {
+            org: "my-org",
+            project: "my-project",
+            sourcemaps: { 
+              // This will delete all .map files in the build output after uploading them to Sentry. Modify as needed.
+              // For more information, see: https://docs.sentry.io/platforms/javascript/guides/nuxt/sourcemaps/
+              filesToDeleteAfterUpload: ['.*/**/*.map'] 
+            },
+          },
+          sourcemap: { client: "hidden" },"
+      `);
+    });
+
     it('generates configuration options for the nuxt config with top level import', () => {
       const template = getNuxtModuleFallbackTemplate(
         {
@@ -295,6 +295,19 @@ export default App;`;
       ).toBe(expectedOutput);
     });
 
+    it('adds sentry init which reads the dsn from the environment variable', () => {
+      const input = `import * as React from 'react';
+import { View } from 'react-native';`;
+
+      const output = addSentryInitWithSdkImport(input, {
+        dsn: 'dsn',
+        dsnEnvVar: 'EXPO_PUBLIC_SENTRY_DSN',
+      });
+
+      expect(output).toContain('  dsn: process.env.EXPO_PUBLIC_SENTRY_DSN,\n');
+      expect(output).not.toContain("'dsn'");
+    });
+
     it('adds sdk import and sentry init under last import in the file and enables session replay and feedback widget', () => {
       const input = `import * as React from 'react';
 
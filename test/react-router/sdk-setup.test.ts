@@ -6,7 +6,7 @@ const { clackMocks } = vi.hoisted(() => {
   const error = vi.fn();
   const success = vi.fn();
   const outro = vi.fn();
-  const confirm = vi.fn(() => Promise.resolve(false)); // default to false for tests
+  const confirm = vi.fn((_options?: unknown) => Promise.resolve(false)); // default to false for tests
 
   return {
     clackMocks: {
@@ -96,6 +96,9 @@ vi.mock('../../src/utils/clack', () => {
       },
     ),
     getPackageDotJson: getPackageDotJsonMock,
+    confirmPrompt: vi.fn((_key: string, options: unknown) =>
+      clackMocks.confirm(options),
+    ),
   };
 });
 
@@ -0,0 +1,137 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import type * as Clack from '@clack/prompts';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runWizard } from '../src/run-wizard';
+import { abort, confirmPrompt } from '../src/utils/clack';
+import type { WizardPrompter } from '../src/utils/embedded';
+import { emitEvent, getRunSummary } from '../src/utils/json-output';
+
+// The logger redirects the output of the CommonJS exports of clack
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const clack = require('@clack/prompts') as typeof Clack;
+
+const { runNextjsWizardMock } = vi.hoisted(() => ({
+  runNextjsWizardMock: vi.fn(),
+}));
+
+vi.mock('../src/nextjs/nextjs-wizard', () => ({
+  runNextjsWizard: runNextjsWizardMock,
+}));
+
+function createPrompter(): WizardPrompter {
+  return {
+    confirm: vi.fn(() => Promise.resolve(true)),
+    select: vi.fn(() => Promise.reject(new Error('Unexpected prompt'))),
+    multiselect: vi.fn(() => Promise.reject(new Error('Unexpected prompt'))),
+    text: vi.fn(() => Promise.reject(new Error('Unexpected prompt'))),
+  };
+}
+
+describe('runWizard', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'run-wizard-')),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('uses the prompter, logger and file system of the caller', async () => {
+    runNextjsWizardMock.mockImplementation(async () => {
+      const createConfig = await confirmPrompt('createConfig', {
+        message: 'Create a config?',
+      });
+      if (createConfig) {
+        clack.log.info('Creating the config');
+        fs.writeFileSync(
+          path.join(process.cwd(), 'sentry.server.config.ts'),
+          'Sentry.init();',
+        );
+      }
+    });
+
+    const prompter = createPrompter();
+    const logger = vi.fn();
+    const writeFile = vi.fn();
+
+    const result = await runWizard({
+      integration: 'nextjs',
+      cwd: tmpDir,
+      prompter,
+      logger,
+      fs: { writeFile, deleteFile: vi.fn() },
+    });
+
+    const configPath = path.join(tmpDir, 'sentry.server.config.ts');
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(prompter.confirm).toHaveBeenCalledWith({
+      key: 'createConfig',
+      message: 'Create a config?',
+    });
+    expect(logger).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'log',
+        level: 'info',
+        message: 'Creating the config',
+      }),
+    );
+    expect(writeFile).toHaveBeenCalledWith(configPath, 'Sentry.init();');
+    expect(result.fileChanges).toEqual([
+      { path: configPath, before: null, after: 'Sentry.init();' },
+    ]);
+    expect(fs.existsSync(configPath)).toBe(false);
+    expect(process.cwd()).not.toBe(tmpDir);
+    expect(runNextjsWizardMock).toHaveBeenCalledWith({
+      telemetryEnabled: false,
+    });
+  });
+
+  it('rejects instead of exiting the process if the wizard aborts', async () => {
+    const exitSpy = vi.spyOn(process, 'exit');
+    runNextjsWizardMock.mockImplementation(() =>
+      abort('Nothing to do here.', 0),
+    );
+
+    await expect(
+      runWizard({ integration: 'nextjs', cwd: tmpDir, logger: vi.fn() }),
+    ).rejects.toMatchObject({ message: 'Nothing to do here.', exitCode: 0 });
+
+    expect(exitSpy).not.toHaveBeenCalled();
+  });
+
+  it("doesn't report the summary of a previous run", async () => {
+    runNextjsWizardMock
+      .mockResolvedValue(undefined)
+      .mockImplementationOnce(() => {
+        emitEvent({ type: 'features', features: ['Session Replay'] });
+        emitEvent({
+          type: 'env_var',
+          name: 'SENTRY_AUTH_TOKEN',
+          description: 'Uploads source maps',
+        });
+        return Promise.resolve();
+      });
+
+    await runWizard({ integration: 'nextjs', cwd: tmpDir, fs: fileSystem() });
+    expect(getRunSummary()).toMatchObject({
+      features: ['Session Replay'],
+      envVars: [{ name: 'SENTRY_AUTH_TOKEN' }],
+    });
+
+    await runWizard({ integration: 'nextjs', cwd: tmpDir, fs: fileSystem() });
+    expect(getRunSummary()).toMatchObject({ features: [], envVars: [] });
+  });
+});
+
+function fileSystem() {
+  return { writeFile: vi.fn(), deleteFile: vi.fn() };
+}
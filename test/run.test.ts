@@ -1,6 +1,8 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 const wizardMocks = vi.hoisted(() => ({
+  abort: vi.fn(),
+  confirmPrompt: vi.fn(),
   legacyRun: vi.fn(),
   readEnvironment: vi.fn(() => ({})),
   runAndroidWizard: vi.fn(),
@@ -8,6 +10,7 @@ const wizardMocks = vi.hoisted(() => ({
   runAppleSnapshotsWizard: vi.fn(),
   runAppleWizard: vi.fn(),
   runCloudflareWizard: vi.fn(),
+  runDoctorWizard: vi.fn(),
   runFlutterWizard: vi.fn(),
   runNextjsWizard: vi.fn(),
   runNuxtWizard: vi.fn(),
@@ -22,6 +25,7 @@ vi.mock('@clack/prompts', () => ({
   intro: vi.fn(),
   log: {
     error: vi.fn(),
+    step: vi.fn(),
   },
   outro: vi.fn(),
   select: vi.fn(),
@@ -55,6 +59,10 @@ vi.mock('../src/cloudflare/cloudflare-wizard', () => ({
   runCloudflareWizard: wizardMocks.runCloudflareWizard,
 }));
 
+vi.mock('../src/doctor/doctor-wizard', () => ({
+  runDoctorWizard: wizardMocks.runDoctorWizard,
+}));
+
 vi.mock('../src/flutter/flutter-wizard', () => ({
   runFlutterWizard: wizardMocks.runFlutterWizard,
 }));
@@ -92,10 +100,14 @@ vi.mock('../src/utils/debug', () => ({
 }));
 
 vi.mock('../src/utils/clack', () => ({
+  abort: wizardMocks.abort,
   abortIfCancelled: async <T>(input: T | Promise<T>): Promise<T> => await input,
+  confirmPrompt: wizardMocks.confirmPrompt,
 }));
 
 import { run } from '../src/run';
+import { recordSharedSession } from '../src/utils/shared-session';
+import type { SentryProjectData } from '../src/utils/types';
 
 type RunArgs = Parameters<typeof run>[0];
 
@@ -168,4 +180,130 @@ describe('run', () => {
     );
     expect(wizardMocks.runAppleSnapshotsWizard).not.toHaveBeenCalled();
   });
+
+  it('runs the doctor instead of the wizard in the doctor mode', async () => {
+    await run({
+      ...getBaseArgs('android'),
+      doctor: true,
+    });
+
+    expect(wizardMocks.runDoctorWizard).toHaveBeenCalledWith(
+      expect.objectContaining({ telemetryEnabled: false }),
+      'android',
+    );
+    expect(wizardMocks.runAndroidWizard).not.toHaveBeenCalled();
+  });
+
+  it('aborts if the disabled features were parsed as separate flags', async () => {
+    // yargs parses `--features -replay` to an empty string
+    await run({ ...getBaseArgs('nextjs'), features: '' });
+
+    expect(wizardMocks.abort).toHaveBeenCalled();
+    expect(wizardMocks.runNextjsWizard).not.toHaveBeenCalled();
+  });
+
+  it('aborts if --dsn-in-env is passed to a wizard which does not support it', async () => {
+    await run({
+      ...getBaseArgs('nextjs,remix'),
+      dsnInEnv: true,
+    });
+
+    expect(wizardMocks.abort).toHaveBeenCalled();
+    expect(wizardMocks.runNextjsWizard).not.toHaveBeenCalled();
+    expect(wizardMocks.runRemixWizard).not.toHaveBeenCalled();
+  });
+
+  it('passes --dsn-in-env to the wizards which support it', async () => {
+    await run({ ...getBaseArgs('nuxt'), dsnInEnv: true });
+
+    expect(wizardMocks.abort).not.toHaveBeenCalled();
+    expect(wizardMocks.runNuxtWizard).toHaveBeenCalledWith(
+      expect.objectContaining({ dsnInEnv: true }),
+    );
+  });
+
+  it('aborts if Sentry.init options are passed to a wizard which does not support them', async () => {
+    await run({
+      ...getBaseArgs('nextjs,remix'),
+      tracesSampleRate: 0.5,
+      environment: 'production',
+    });
+
+    expect(wizardMocks.abort).toHaveBeenCalled();
+    expect(wizardMocks.runNextjsWizard).not.toHaveBeenCalled();
+    expect(wizardMocks.runRemixWizard).not.toHaveBeenCalled();
+  });
+
+  it('passes Sentry.init options to the wizards which support them', async () => {
+    await run({ ...getBaseArgs('sveltekit'), tracesSampleRate: 0.5 });
+
+    expect(wizardMocks.abort).not.toHaveBeenCalled();
+    expect(wizardMocks.runSvelteKitWizard).toHaveBeenCalledWith(
+      expect.objectContaining({ sdkInitOptions: { tracesSampleRate: 0.5 } }),
+    );
+  });
+
+  describe('with several integrations', () => {
+    const project: SentryProjectData = {
+      id: '1',
+      slug: 'my-app',
+      organization: { id: '1', name: 'My Org', slug: 'my-org' },
+      keys: [{ dsn: { public: 'https://key@o1.ingest.sentry.io/1' } }],
+    };
+
+    beforeEach(() => {
+      // The first wizard logs in and selects a project
+      wizardMocks.runNextjsWizard.mockImplementation(() =>
+        recordSharedSession({
+          sentryUrl: 'https://sentry.io/',
+          selfHosted: false,
+          authToken: 'token',
+          project,
+        }),
+      );
+    });
+
+    it('runs the wizards in order and reuses the project of the first one', async () => {
+      wizardMocks.confirmPrompt.mockResolvedValue(true);
+
+      await run(getBaseArgs('nextjs,cloudflare'));
+
+      expect(wizardMocks.runNextjsWizard).toHaveBeenCalledWith(
+        expect.objectContaining({ preSelectedProject: undefined }),
+      );
+      expect(wizardMocks.confirmPrompt).toHaveBeenCalledWith(
+        'useSameProject',
+        expect.any(Object),
+      );
+      expect(wizardMocks.runCloudflareWizard).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://sentry.io/',
+          preSelectedProject: {
+            project,
+            authToken: 'token',
+            selfHosted: false,
+          },
+        }),
+      );
+    });
+
+    it('reuses the auth token if another project should be used', async () => {
+      wizardMocks.confirmPrompt.mockResolvedValue(false);
+
+      await run(getBaseArgs(['nextjs', 'cloudflare']));
+
+      const cloudflareOptions = wizardMocks.runCloudflareWizard.mock
+        .calls[0][0] as Record<string, unknown>;
+      expect(cloudflareOptions).toMatchObject({ authToken: 'token' });
+      expect(cloudflareOptions.preSelectedProject).toBeUndefined();
+    });
+
+    it("doesn't combine legacy wizards with other integrations", async () => {
+      await run(getBaseArgs('cordova,nextjs'));
+
+      expect(wizardMocks.abort).toHaveBeenCalled();
+      expect(wizardMocks.legacyRun).not.toHaveBeenCalled();
+      expect(wizardMocks.runNextjsWizard).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addEnableSourceMapsFlag,
+  getFirstImportedModule,
+  getNodeCommand,
+  getPreloadedModules,
+} from '../../../src/sourcemaps/tools/node-server';
+
+describe('getNodeCommand', () => {
+  it.each([
+    ['node dist/index.js', { flags: '', entry: 'dist/index.js' }],
+    [
+      'NODE_ENV=production node --import ./instrument.mjs dist/index.mjs',
+      { flags: '--import ./instrument.mjs', entry: 'dist/index.mjs' },
+    ],
+    [
+      'npm run migrate && node --enable-source-maps -r dotenv/config dist/server.js',
+      {
+        flags: '--enable-source-maps -r dotenv/config',
+        entry: 'dist/server.js',
+      },
+    ],
+    ['nodemon src/index.ts', undefined],
+    ['ts-node src/index.ts', undefined],
+    ['next start', undefined],
+  ])('parses %s', (script, nodeCommand) => {
+    expect(getNodeCommand(script)).toEqual(nodeCommand);
+  });
+});
+
+describe('addEnableSourceMapsFlag', () => {
+  it.each([
+    ['node dist/index.js', 'node --enable-source-maps dist/index.js'],
+    [
+      'NODE_ENV=production node --import ./instrument.mjs dist/index.mjs',
+      'NODE_ENV=production node --enable-source-maps --import ./instrument.mjs dist/index.mjs',
+    ],
+    ['node --enable-source-maps dist/index.js', undefined],
+    ['nest start', undefined],
+  ])('updates %s', (script, updatedScript) => {
+    expect(addEnableSourceMapsFlag(script)).toBe(updatedScript);
+  });
+});
+
+describe('getPreloadedModules', () => {
+  it.each([
+    ['node --import ./instrument.mjs dist/index.mjs', ['./instrument.mjs']],
+    [
+      'node --import=@sentry/node/preload dist/index.mjs',
+      ['@sentry/node/preload'],
+    ],
+    ['node -r "./dist/instrument.js" dist/index.js', ['./dist/instrument.js']],
+    ['node --require ./instrument.js dist/index.js', ['./instrument.js']],
+    [
+      'node -r dotenv/config --import ./instrument.mjs dist/index.mjs',
+      ['dotenv/config', './instrument.mjs'],
+    ],
+    ['node --enable-source-maps dist/index.js', []],
+  ])('returns the preloaded modules of %s', (script, preloadedModules) => {
+    expect(getPreloadedModules(script)).toEqual(preloadedModules);
+  });
+});
+
+describe('getFirstImportedModule', () => {
+  it.each([
+    [
+      "import './instrument.mjs';\nimport express from 'express';",
+      './instrument.mjs',
+    ],
+    [
+      '"use strict";\nrequire("./instrument");\nconst express = require("express");',
+      './instrument',
+    ],
+    [
+      "import express from 'express';\nimport * as Sentry from '@sentry/node';",
+      'express',
+    ],
+    ["import { init } from '@sentry/node';", '@sentry/node'],
+    ['console.log("no imports");', undefined],
+  ])('returns the first imported module of %j', (code, importedModule) => {
+    expect(getFirstImportedModule(code)).toBe(importedModule);
+  });
+});
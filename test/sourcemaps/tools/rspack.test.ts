@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import { modifyRspackConfig } from '../../../src/sourcemaps/tools/rspack';
+
+import { vi, it, describe, expect, afterEach } from 'vitest';
+
+function updateFileContent(content: string): void {
+  fileContent = content;
+}
+
+let fileContent = '';
+
+vi.mock('@clack/prompts', () => {
+  return {
+    log: {
+      info: vi.fn(),
+      success: vi.fn(),
+      warn: vi.fn(),
+    },
+  };
+});
+
+vi.spyOn(fs.promises, 'readFile').mockImplementation(() =>
+  Promise.resolve(fileContent),
+);
+
+const writeFileSpy = vi
+  .spyOn(fs.promises, 'writeFile')
+  .mockImplementation(() => Promise.resolve(void 0));
+
+const options = {
+  authToken: '',
+  orgSlug: 'my-org',
+  projectSlug: 'my-project',
+  selfHosted: false,
+  url: 'https://sentry.io/',
+};
+
+describe('modifyRspackConfig', () => {
+  afterEach(() => {
+    fileContent = '';
+    vi.clearAllMocks();
+  });
+
+  it.each([
+    [
+      'rspack',
+      'ESM config with defineConfig',
+      `import { defineConfig } from '@rspack/cli';
+
+export default defineConfig({
+  entry: './src/index.js',
+  plugins: [new HtmlRspackPlugin()],
+});
+`,
+      `import { sentryWebpackPlugin } from "@sentry/webpack-plugin";
+import { defineConfig } from '@rspack/cli';
+
+export default defineConfig({
+  entry: './src/index.js',
+
+  plugins: [new HtmlRspackPlugin(), sentryWebpackPlugin({
+    authToken: process.env.SENTRY_AUTH_TOKEN,
+    org: "my-org",
+    project: "my-project"
+  })],
+
+  devtool: "hidden-source-map"
+});
+`,
+    ],
+    [
+      'rspack',
+      'CJS config with a devtool',
+      `const rspack = require('@rspack/core');
+
+/** @type {import('@rspack/cli').Configuration} */
+const config = {
+  entry: './src/index.js',
+  devtool: 'eval',
+};
+
+module.exports = config;
+`,
+      `const {
+  sentryWebpackPlugin
+} = require("@sentry/webpack-plugin");
+
+const rspack = require('@rspack/core');
+
+/** @type {import('@rspack/cli').Configuration} */
+const config = {
+  entry: './src/index.js',
+  devtool: "hidden-source-map",
+
+  plugins: [sentryWebpackPlugin({
+    authToken: process.env.SENTRY_AUTH_TOKEN,
+    org: "my-org",
+    project: "my-project"
+  })]
+};
+
+module.exports = config;
+`,
+    ],
+    [
+      'rsbuild',
+      'no output and tools options',
+      `import { defineConfig } from '@rsbuild/core';
+import { pluginReact } from '@rsbuild/plugin-react';
+
+export default defineConfig({
+  plugins: [pluginReact()],
+});
+`,
+      `import { sentryWebpackPlugin } from "@sentry/webpack-plugin";
+import { defineConfig } from '@rsbuild/core';
+import { pluginReact } from '@rsbuild/plugin-react';
+
+export default defineConfig({
+  plugins: [pluginReact()],
+
+  tools: {
+    rspack: {
+      plugins: [sentryWebpackPlugin({
+        authToken: process.env.SENTRY_AUTH_TOKEN,
+        org: "my-org",
+        project: "my-project"
+      })]
+    }
+  },
+
+  output: {
+    sourceMap: {
+      js: "hidden-source-map"
+    }
+  }
+});
+`,
+    ],
+    [
+      'rsbuild',
+      'source maps already enabled',
+      `import { defineConfig } from '@rsbuild/core';
+
+export default defineConfig({
+  output: {
+    sourceMap: true,
+  },
+  tools: {
+    rspack: {
+      plugins: [],
+    },
+  },
+});
+`,
+      `import { sentryWebpackPlugin } from "@sentry/webpack-plugin";
+import { defineConfig } from '@rsbuild/core';
+
+export default defineConfig({
+  output: {
+    sourceMap: true,
+  },
+  tools: {
+    rspack: {
+      plugins: [sentryWebpackPlugin({
+        authToken: process.env.SENTRY_AUTH_TOKEN,
+        org: "my-org",
+        project: "my-project"
+      })],
+    },
+  },
+});
+`,
+    ],
+  ] as const)(
+    'adds the plugin and enables source maps generation (%s, %s)',
+    async (bundler, _, originalCode, expectedCode) => {
+      updateFileContent(originalCode);
+
+      const addedCode = await modifyRspackConfig('', bundler, options);
+
+      expect(writeFileSpy).toHaveBeenCalledTimes(1);
+      const [[, fileContent]] = writeFileSpy.mock.calls;
+      expect(fileContent).toBe(expectedCode);
+      expect(addedCode).toBe(true);
+    },
+  );
+
+  it.each([
+    [
+      'rsbuild',
+      'tools.rspack is a function',
+      `export default {
+  tools: {
+    rspack: (config) => config,
+  },
+};
+`,
+    ],
+    [
+      'rspack',
+      'config is a function',
+      `module.exports = (env) => ({
+  entry: './src/index.js',
+});
+`,
+    ],
+  ] as const)(
+    "doesn't modify unsupported configs (%s, %s)",
+    async (bundler, _, originalCode) => {
+      updateFileContent(originalCode);
+
+      const addedCode = await modifyRspackConfig('', bundler, options);
+
+      expect(writeFileSpy).not.toHaveBeenCalled();
+      expect(addedCode).toBe(false);
+    },
+  );
+});
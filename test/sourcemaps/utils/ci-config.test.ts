@@ -0,0 +1,357 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  CI_PROVIDERS,
+  addSentryToCircleCiConfig,
+  addSentryToGitHubWorkflow,
+  addUploadCommandToScript,
+} from '../../../src/sourcemaps/utils/ci-config';
+
+const WORKFLOW = `name: Deploy
+
+on:
+  push:
+    branches: [main]
+
+jobs:
+  # Runs the tests
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - run: npm test
+
+  deploy:
+    runs-on: ubuntu-latest
+    steps:
+    - uses: actions/checkout@v4
+    - name: Build
+      run: |
+        npm ci
+        npm run build
+      env:
+        NODE_ENV: production # for the prod build
+
+    # Deploy the app
+    - name: Deploy
+      run: ./deploy.sh
+`;
+
+describe('CI_PROVIDERS', () => {
+  it('finds the config files of the providers', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ci-config-'));
+    const files = [
+      path.join('.github', 'workflows', 'deploy.yml'),
+      path.join('.github', 'workflows', 'ci.yaml'),
+      path.join('.github', 'workflows', 'README.md'),
+      '.gitlab-ci.yml',
+      path.join('.circleci', 'config.yml'),
+      'bitbucket-pipelines.yml',
+    ];
+    for (const file of files) {
+      fs.mkdirSync(path.dirname(path.join(tmpDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tmpDir, file), '');
+    }
+
+    expect(
+      CI_PROVIDERS.map((provider) => [
+        provider.id,
+        provider.findConfigFiles(tmpDir),
+      ]),
+    ).toEqual([
+      [
+        'github',
+        [
+          path.join('.github', 'workflows', 'ci.yaml'),
+          path.join('.github', 'workflows', 'deploy.yml'),
+        ],
+      ],
+      ['gitlab', ['.gitlab-ci.yml']],
+      ['circleci', [path.join('.circleci', 'config.yml')]],
+      ['bitbucket', ['bitbucket-pipelines.yml']],
+    ]);
+    expect(
+      CI_PROVIDERS.flatMap((provider) =>
+        provider.findConfigFiles(path.join(tmpDir, '.github')),
+      ),
+    ).toEqual([]);
+
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+});
+
+describe('addSentryToGitHubWorkflow', () => {
+  it('adds the auth token to the env of the build step', () => {
+    expect(addSentryToGitHubWorkflow(WORKFLOW, {})).toBe(
+      WORKFLOW.replace(
+        '        NODE_ENV: production # for the prod build\n',
+        `        NODE_ENV: production # for the prod build
+        SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+`,
+      ),
+    );
+  });
+
+  it('indents the auth token like the env vars below a comment', () => {
+    const workflow = WORKFLOW.replace(
+      '      env:\n',
+      '      env:\n# Build for production\n',
+    );
+
+    expect(addSentryToGitHubWorkflow(workflow, {})).toBe(
+      workflow.replace(
+        '        NODE_ENV: production # for the prod build\n',
+        `        NODE_ENV: production # for the prod build
+        SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+`,
+      ),
+    );
+  });
+
+  it('adds the env and the upload step', () => {
+    const workflow = WORKFLOW.replace(
+      '      env:\n        NODE_ENV: production # for the prod build\n',
+      '',
+    );
+
+    expect(
+      addSentryToGitHubWorkflow(workflow, {
+        uploadCommand: 'npm run sentry:sourcemaps',
+      }),
+    ).toBe(`name: Deploy
+
+on:
+  push:
+    branches: [main]
+
+jobs:
+  # Runs the tests
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - run: npm test
+
+  deploy:
+    runs-on: ubuntu-latest
+    steps:
+    - uses: actions/checkout@v4
+    - name: Build
+      run: |
+        npm ci
+        npm run build
+      env:
+        SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+    - name: Upload source maps to Sentry
+      run: npm run sentry:sourcemaps
+      env:
+        SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+
+    # Deploy the app
+    - name: Deploy
+      run: ./deploy.sh
+`);
+  });
+
+  it('adds the upload step after the last step', () => {
+    const workflow = `jobs:
+  build:
+    runs-on: ubuntu-latest
+    env:
+      SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+    steps:
+      - run: yarn build
+`;
+
+    expect(
+      addSentryToGitHubWorkflow(workflow, {
+        uploadCommand: 'yarn sentry:sourcemaps',
+      }),
+    ).toBe(`jobs:
+  build:
+    runs-on: ubuntu-latest
+    env:
+      SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+    steps:
+      - run: yarn build
+      - name: Upload source maps to Sentry
+        run: yarn sentry:sourcemaps
+        env:
+          SENTRY_AUTH_TOKEN: \${{ secrets.SENTRY_AUTH_TOKEN }}
+`);
+  });
+
+  it("doesn't change configured workflows", () => {
+    const workflow = addSentryToGitHubWorkflow(WORKFLOW, {
+      uploadCommand: 'npm run sentry:sourcemaps',
+    });
+
+    expect(
+      addSentryToGitHubWorkflow(workflow as string, {
+        uploadCommand: 'npm run sentry:sourcemaps',
+      }),
+    ).toBe(workflow);
+  });
+
+  it.each([
+    [
+      'no build step',
+      `jobs:
+  test:
+    steps:
+      - run: npm test
+`,
+    ],
+    [
+      'flow style env',
+      `jobs:
+  build:
+    steps:
+      - run: npm run build
+        env: { NODE_ENV: production }
+`,
+    ],
+  ])("doesn't modify workflows with %s", (_, workflow) => {
+    expect(addSentryToGitHubWorkflow(workflow, {})).toBeUndefined();
+  });
+});
+
+describe('addSentryToCircleCiConfig', () => {
+  const config = `version: 2.1
+
+jobs:
+  build:
+    docker:
+      - image: cimg/node:20.0
+    steps:
+      - checkout
+      - run: npm ci
+      - run:
+          name: Build
+          command: npm run build
+      # Store the build
+      - persist_to_workspace:
+          root: .
+          paths:
+            - dist
+
+workflows:
+  main:
+    jobs:
+      - build
+`;
+
+  it('adds the upload step after the build step', () => {
+    expect(
+      addSentryToCircleCiConfig(config, {
+        uploadCommand: 'npm run sentry:sourcemaps',
+      }),
+    ).toBe(
+      config.replace(
+        '          command: npm run build\n',
+        `          command: npm run build
+      - run:
+          name: Upload source maps to Sentry
+          command: npm run sentry:sourcemaps
+`,
+      ),
+    );
+  });
+
+  it("doesn't change configs without build step", () => {
+    expect(
+      addSentryToCircleCiConfig(config.replace('npm run build', 'make'), {
+        uploadCommand: 'npm run sentry:sourcemaps',
+      }),
+    ).toBeUndefined();
+  });
+});
+
+describe('addUploadCommandToScript', () => {
+  it('adds the upload command to the GitLab build job', () => {
+    const config = `stages:
+  - build
+  - deploy
+
+build:
+  stage: build
+  image: node:20
+  script:
+    - npm ci
+    - npm run build # production build
+  artifacts:
+    paths:
+      - dist/
+
+deploy:
+  stage: deploy
+  script:
+    - ./deploy.sh
+`;
+
+    const modifiedConfig = addUploadCommandToScript(config, {
+      uploadCommand: 'npm run sentry:sourcemaps',
+    });
+
+    expect(modifiedConfig).toBe(
+      config.replace(
+        '    - npm run build # production build\n',
+        `    - npm run build # production build
+    - npm run sentry:sourcemaps
+`,
+      ),
+    );
+    expect(
+      addUploadCommandToScript(modifiedConfig as string, {
+        uploadCommand: 'npm run sentry:sourcemaps',
+      }),
+    ).toBe(modifiedConfig);
+  });
+
+  it('adds the upload command to the Bitbucket build step', () => {
+    const config = `image: node:20
+
+pipelines:
+  branches:
+    main:
+      - step:
+          name: Build
+          caches:
+            - node
+          script:
+            - yarn install
+            - "yarn build"
+          artifacts:
+            - dist/**
+`;
+
+    expect(
+      addUploadCommandToScript(config, {
+        uploadCommand: 'yarn sentry:sourcemaps',
+      }),
+    ).toBe(
+      config.replace(
+        '            - "yarn build"\n',
+        `            - "yarn build"
+            - yarn sentry:sourcemaps
+`,
+      ),
+    );
+  });
+
+  it("doesn't change multi-line build commands", () => {
+    expect(
+      addUploadCommandToScript(
+        `build:
+  script:
+    - |
+      npm ci
+      npm run build
+`,
+        { uploadCommand: 'npm run sentry:sourcemaps' },
+      ),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { replaceIntegrationArg } from '../../../src/sourcemaps/utils/other-wizards';
+
+describe('replaceIntegrationArg', () => {
+  it.each([
+    [['-i', 'sourcemaps']],
+    [['--integration', 'sourcemaps']],
+    [['--integration=sourcemaps']],
+    [['-i=sourcemaps']],
+  ])('replaces the integration in %j', (integrationArgs) => {
+    expect(
+      replaceIntegrationArg(
+        ['/usr/bin/sentry-wizard', ...integrationArgs, '--debug'],
+        'nextjs',
+      ),
+    ).toEqual(['/usr/bin/sentry-wizard', '--debug', '--integration', 'nextjs']);
+  });
+
+  it('adds the integration if none was passed', () => {
+    expect(
+      replaceIntegrationArg(['/usr/bin/sentry-wizard', '--debug'], 'nuxt'),
+    ).toEqual(['/usr/bin/sentry-wizard', '--debug', '--integration', 'nuxt']);
+  });
+
+  it.each([
+    [['--commit-to-branch']],
+    [['--commit-to-branch', 'sentry-setup']],
+    [['--commit-to-branch=sentry-setup']],
+    [['--commitToBranch', 'sentry-setup']],
+    [['--report']],
+    [['--report', 'SETUP.md']],
+    [['--report=SETUP.md']],
+    [['--commit-to-branch', '--report', 'SETUP.md']],
+  ])('removes the parent process args in %j', (parentArgs) => {
+    expect(
+      replaceIntegrationArg(
+        [
+          '/usr/bin/sentry-wizard',
+          '-i',
+          'sourcemaps',
+          ...parentArgs,
+          '--debug',
+        ],
+        'nextjs',
+      ),
+    ).toEqual(['/usr/bin/sentry-wizard', '--debug', '--integration', 'nextjs']);
+  });
+});
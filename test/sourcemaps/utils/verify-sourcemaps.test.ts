@@ -0,0 +1,325 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type SourcemapVerificationResult,
+  buildForSourcemapsVerification,
+  formatVerificationTable,
+  getVerificationProblems,
+  runSourcemapsVerification,
+  verifySourcemaps,
+} from '../../../src/sourcemaps/utils/verify-sourcemaps';
+import { setAnswers } from '../../../src/utils/answers';
+import {
+  askToRunBuildOrEnterPathOrProceed,
+  confirmPrompt,
+  getBuildCommand,
+  runBuildCommand,
+} from '../../../src/utils/clack';
+import { stripAnsii } from '../../../src/utils/string';
+
+vi.mock('@clack/prompts', () => {
+  const clack = {
+    log: {
+      info: vi.fn(),
+      success: vi.fn(),
+      warn: vi.fn(),
+    },
+    note: vi.fn(),
+  };
+  return { ...clack, default: clack };
+});
+
+vi.mock('../../../src/utils/clack', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/utils/clack')>()),
+  askToRunBuildOrEnterPathOrProceed: vi.fn(),
+  confirmPrompt: vi.fn(),
+  getBuildCommand: vi.fn(),
+  runBuildCommand: vi.fn(),
+}));
+
+const DEBUG_ID_SNIPPET =
+  '!function(){var e=new Error().stack;e&&(globalThis._sentryDebugIds=globalThis._sentryDebugIds||{},globalThis._sentryDebugIds[e]="c4f3e6a1-1e2b-4d3c-8f5a-6b7c8d9e0f1a")}();';
+const DEBUG_ID_COMMENT = '//# debugId=c4f3e6a1-1e2b-4d3c-8f5a-6b7c8d9e0f1a';
+
+function writeFile(filePath: string, contents: string) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, contents);
+}
+
+function sourceMap(sourcesContent?: (string | null)[]) {
+  return JSON.stringify({
+    version: 3,
+    sources: ['../src/index.ts'],
+    mappings: 'AAAA',
+    ...(sourcesContent && { sourcesContent }),
+  });
+}
+
+function result(
+  file: string,
+  overrides: Partial<SourcemapVerificationResult> = {},
+): SourcemapVerificationResult {
+  return {
+    file,
+    hasSourceMap: true,
+    hasDebugIdComment: true,
+    hasDebugIdSnippet: true,
+    hasSourcesContent: true,
+    exposesSourceMap: false,
+    ...overrides,
+  };
+}
+
+describe('verifySourcemaps', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'verify-sourcemaps-')),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('checks the emitted JS files', () => {
+    // Hidden source map with debug ID
+    writeFile(
+      path.join(tmpDir, 'assets', 'index.js'),
+      `${DEBUG_ID_SNIPPET}console.log("app");\n${DEBUG_ID_COMMENT}\n`,
+    );
+    writeFile(
+      path.join(tmpDir, 'assets', 'index.js.map'),
+      sourceMap(['console.log("app");']),
+    );
+
+    // Referenced source map without sourcesContent
+    writeFile(
+      path.join(tmpDir, 'assets', 'vendor.mjs'),
+      `${DEBUG_ID_SNIPPET}export {};\n${DEBUG_ID_COMMENT}\n//# sourceMappingURL=maps/vendor.mjs.map\n`,
+    );
+    writeFile(
+      path.join(tmpDir, 'assets', 'maps', 'vendor.mjs.map'),
+      sourceMap([null]),
+    );
+
+    // Inline source map without debug ID
+    writeFile(
+      path.join(tmpDir, 'inline.js'),
+      `console.log("inline");\n//# sourceMappingURL=data:application/json;base64,${Buffer.from(
+        sourceMap(['console.log("inline");']),
+      ).toString('base64')}\n`,
+    );
+
+    // No source map
+    writeFile(path.join(tmpDir, 'legacy.js'), 'var a=1;');
+
+    // Ignored files
+    writeFile(path.join(tmpDir, 'styles.css'), 'body{}');
+    writeFile(path.join(tmpDir, 'node_modules', 'dep', 'index.js'), '');
+
+    expect(verifySourcemaps(tmpDir)).toEqual([
+      result('assets/index.js'),
+      result('assets/vendor.mjs', {
+        hasSourcesContent: false,
+        exposesSourceMap: true,
+      }),
+      result('inline.js', {
+        hasDebugIdComment: false,
+        hasDebugIdSnippet: false,
+        exposesSourceMap: true,
+      }),
+      result('legacy.js', {
+        hasSourceMap: false,
+        hasDebugIdComment: false,
+        hasDebugIdSnippet: false,
+        hasSourcesContent: false,
+      }),
+    ]);
+  });
+
+  it("doesn't treat references to missing source maps as exposed", () => {
+    writeFile(
+      path.join(tmpDir, 'index.js'),
+      `${DEBUG_ID_SNIPPET}\n${DEBUG_ID_COMMENT}\n//# sourceMappingURL=index.js.map\n`,
+    );
+
+    expect(verifySourcemaps(tmpDir)).toEqual([
+      result('index.js', {
+        hasSourceMap: false,
+        hasSourcesContent: false,
+      }),
+    ]);
+  });
+
+  it('returns an empty list for missing folders', () => {
+    expect(verifySourcemaps(path.join(tmpDir, 'dist'))).toEqual([]);
+  });
+});
+
+describe('formatVerificationTable', () => {
+  it('shows the files with problems first', () => {
+    expect(
+      stripAnsii(
+        formatVerificationTable([
+          result('assets/index.js'),
+          result('assets/vendor.js', {
+            hasDebugIdComment: false,
+            exposesSourceMap: true,
+          }),
+          result('legacy.js', {
+            hasSourceMap: false,
+            hasDebugIdComment: false,
+            hasDebugIdSnippet: false,
+            hasSourcesContent: false,
+          }),
+        ]),
+      ),
+    ).toBe(
+      [
+        'File              Source map  Debug ID  Sources content  Public source map',
+        'assets/vendor.js  yes         partial   yes              yes',
+        'legacy.js         no          no        -                no',
+        'assets/index.js   yes         yes       yes              no',
+      ].join('\n'),
+    );
+  });
+
+  it('omits the public source map column if exposed source maps are expected', () => {
+    expect(
+      stripAnsii(
+        formatVerificationTable(
+          [
+            result('index.js'),
+            result('server.js', {
+              hasDebugIdComment: false,
+              exposesSourceMap: true,
+            }),
+          ],
+          false,
+        ),
+      ),
+    ).toBe(
+      [
+        'File       Source map  Debug ID  Sources content',
+        'server.js  yes         partial   yes',
+        'index.js   yes         yes       yes',
+      ].join('\n'),
+    );
+  });
+
+  it('limits the number of rows', () => {
+    const table = stripAnsii(
+      formatVerificationTable(
+        Array.from({ length: 30 }, (_, i) => result(`chunk-${i}.js`)),
+      ),
+    ).split('\n');
+
+    expect(table).toHaveLength(27);
+    expect(table[26]).toBe('... and 5 more files');
+  });
+});
+
+describe('getVerificationProblems', () => {
+  it('returns no problems for correct source maps', () => {
+    expect(getVerificationProblems([result('index.js')])).toEqual([]);
+  });
+
+  it('summarizes the problems', () => {
+    const problems = getVerificationProblems([
+      result('a.js', { hasSourceMap: false, hasSourcesContent: false }),
+      result('b.js', { hasDebugIdSnippet: false }),
+      result('c.js', { hasSourcesContent: false, exposesSourceMap: true }),
+    ]).map(stripAnsii);
+
+    expect(problems).toEqual([
+      '1 file(s) have no source map. Make sure source map generation is turned on.',
+      '1 file(s) have no debug ID injected. Make sure the Sentry plugin or sentry-cli sourcemaps inject runs on your build output.',
+      "1 source map(s) don't contain sourcesContent, so Sentry can't show your original source code.",
+      '1 file(s) reference their source map via sourceMappingURL, which exposes your source code publicly once deployed. Use hidden source maps or delete the source maps after uploading them.',
+    ]);
+  });
+
+  it('ignores exposed source maps if they are expected', () => {
+    expect(
+      getVerificationProblems(
+        [result('server.js', { exposesSourceMap: true })],
+        false,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe('buildForSourcemapsVerification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getBuildCommand).mockResolvedValue('build');
+    vi.mocked(runBuildCommand).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    setAnswers(undefined);
+  });
+
+  it('runs the build and the inject script', async () => {
+    vi.mocked(confirmPrompt).mockResolvedValue(true);
+
+    await expect(
+      buildForSourcemapsVerification('sentry:sourcemaps'),
+    ).resolves.toBe(true);
+
+    expect(runBuildCommand).toHaveBeenNthCalledWith(1, 'build');
+    expect(runBuildCommand).toHaveBeenNthCalledWith(2, 'sentry:sourcemaps');
+  });
+
+  it('skips the verification if the build fails', async () => {
+    vi.mocked(confirmPrompt).mockResolvedValue(true);
+    vi.mocked(runBuildCommand).mockResolvedValue(false);
+
+    await expect(
+      buildForSourcemapsVerification('sentry:sourcemaps'),
+    ).resolves.toBe(false);
+
+    expect(runBuildCommand).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips the verification if the user declines the build', async () => {
+    vi.mocked(confirmPrompt).mockResolvedValue(false);
+
+    await expect(buildForSourcemapsVerification()).resolves.toBe(false);
+
+    expect(runBuildCommand).not.toHaveBeenCalled();
+  });
+
+  it("doesn't build in answers mode", async () => {
+    setAnswers({});
+
+    await expect(buildForSourcemapsVerification()).resolves.toBe(false);
+
+    expect(confirmPrompt).not.toHaveBeenCalled();
+    expect(runBuildCommand).not.toHaveBeenCalled();
+  });
+});
+
+describe('runSourcemapsVerification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    setAnswers(undefined);
+  });
+
+  it('skips missing artifacts in answers mode instead of aborting', async () => {
+    setAnswers({});
+
+    await expect(
+      runSourcemapsVerification('does-not-exist'),
+    ).resolves.toBeUndefined();
+
+    expect(askToRunBuildOrEnterPathOrProceed).not.toHaveBeenCalled();
+  });
+});
@@ -7,6 +7,7 @@ import {
   getServerHooksTemplate,
 } from '../../src/sveltekit/templates';
 import { insertClientInitCall } from '../../src/sveltekit/sdk-setup/setup';
+import { DEFAULT_SDK_INIT_OPTIONS } from '../../src/utils/sdk-init-options';
 // @ts-expect-error - magicast is ESM and TS complains about that. It works though
 import { parseModule } from 'magicast';
 
@@ -164,6 +165,61 @@ describe('getClientHooksTemplate', () => {
       "
     `);
   });
+
+  it('generates client hooks template with custom sample rates, environment and release', () => {
+    const result = getClientHooksTemplate(
+      'https://sentry.io/123',
+      {
+        performance: true,
+        replay: true,
+        logs: false,
+      },
+      {
+        tracesSampleRate: 0.2,
+        profilesSampleRate: 1,
+        replaysSessionSampleRate: 0.05,
+        replaysOnErrorSampleRate: 1,
+        environment: { envVar: 'VITE_SENTRY_ENVIRONMENT' },
+        release: { value: '1.0.0' },
+      },
+    );
+
+    expect(result).toMatchInlineSnapshot(`
+      "import { handleErrorWithSentry, replayIntegration } from "@sentry/sveltekit";
+      import * as Sentry from '@sentry/sveltekit';
+
+      Sentry.init({
+        dsn: 'https://sentry.io/123',
+
+        tracesSampleRate: 0.2,
+
+
+        // This sets the sample rate to be 5%. You may want this to be 100% while
+        // in development and sample at a lower rate in production
+        replaysSessionSampleRate: 0.05,
+
+        // If the entire session is not sampled, use the below sample rate to sample
+        // sessions when an error occurs.
+        replaysOnErrorSampleRate: 1.0,
+
+        // If you don't want to use Session Replay, just remove the line below:
+        integrations: [replayIntegration()],
+        environment: import.meta.env.VITE_SENTRY_ENVIRONMENT,
+        release: "1.0.0",
+
+        dataCollection: {
+          // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
+          // https://docs.sentry.io/platforms/javascript/guides/sveltekit/configuration/options/#dataCollection
+          // userInfo: false,
+          // httpBodies: [],
+        },
+      });
+
+      // If you have a custom error handler, pass it to \`handleErrorWithSentry\`
+      export const handleError = handleErrorWithSentry();
+      "
+    `);
+  });
 });
 
 describe('getServerHooksTemplate', () => {
@@ -636,6 +692,73 @@ describe('insertClientInitCall', () => {
       export const someOtherExport = somethingElse();"
     `);
   });
+
+  it('should insert client init call with custom sample rates, environment and release', () => {
+    const originalHooksMod = parseModule(`
+      import * as Sentry from "@sentry/sveltekit";
+    `);
+
+    insertClientInitCall(
+      'https://sentry.io/123',
+      originalHooksMod,
+      {
+        performance: true,
+        replay: false,
+        logs: false,
+      },
+      {
+        tracesSampleRate: 0.2,
+        profilesSampleRate: 1,
+        replaysSessionSampleRate: 0.1,
+        replaysOnErrorSampleRate: 1,
+        environment: { value: 'production' },
+        release: { envVar: 'VITE_SENTRY_RELEASE' },
+      },
+    );
+
+    expect(originalHooksMod.generate().code).toMatchInlineSnapshot(`
+      "import * as Sentry from "@sentry/sveltekit";
+
+      // If you don't want to use Session Replay, remove the \`Replay\` integration,
+      // \`replaysSessionSampleRate\` and \`replaysOnErrorSampleRate\` options.
+      Sentry.init({
+          dsn: "https://sentry.io/123",
+          tracesSampleRate: 0.2,
+          environment: "production",
+          release: import.meta.env.VITE_SENTRY_RELEASE,
+          dataCollection: {
+            // To disable sending user data and HTTP bodies, uncomment the lines below. For more info visit:
+            // https://docs.sentry.io/platforms/javascript/guides/sveltekit/configuration/options/#dataCollection
+            // userInfo: false,
+            // httpBodies: [],
+          },
+      })"
+    `);
+  });
+
+  it('should insert client init call that reads the DSN from an environment variable', () => {
+    const originalHooksMod = parseModule(`
+      import * as Sentry from "@sentry/sveltekit";
+    `);
+
+    insertClientInitCall(
+      'https://sentry.io/123',
+      originalHooksMod,
+      {
+        performance: false,
+        replay: false,
+        logs: false,
+      },
+      {
+        ...DEFAULT_SDK_INIT_OPTIONS,
+        dsnEnvVar: 'VITE_SENTRY_DSN',
+      },
+    );
+
+    const code = originalHooksMod.generate().code;
+    expect(code).toContain('dsn: import.meta.env.VITE_SENTRY_DSN,');
+    expect(code).not.toContain('https://sentry.io/123');
+  });
 });
 
 describe('getSentryExampleSveltePage', () => {
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { getRevertedFileContents } from '../../src/uninstall/uninstall-wizard';
+
+describe('getRevertedFileContents', () => {
+  it('restores the original contents of unchanged files', () => {
+    expect(
+      getRevertedFileContents(
+        { path: 'app.js', before: 'before', after: 'after' },
+        'after',
+      ),
+    ).toEqual({ contents: 'before' });
+  });
+
+  it('deletes unchanged files created by the wizard', () => {
+    expect(
+      getRevertedFileContents(
+        { path: 'sentry.client.config.js', before: null, after: 'init' },
+        'init',
+      ),
+    ).toEqual({ contents: null });
+  });
+
+  it("doesn't revert created files that were changed afterwards", () => {
+    expect(
+      getRevertedFileContents(
+        { path: 'sentry.client.config.js', before: null, after: 'init' },
+        'init\nchanged',
+      ),
+    ).toBeUndefined();
+  });
+
+  it('removes appended content from files changed afterwards', () => {
+    expect(
+      getRevertedFileContents(
+        {
+          path: '.gitignore',
+          before: 'node_modules\n',
+          after:
+            'node_modules\n\n# Sentry Config File\n.env.sentry-build-plugin\n',
+        },
+        'node_modules\n\n# Sentry Config File\n.env.sentry-build-plugin\ndist\n',
+      ),
+    ).toEqual({ contents: 'node_modules\ndist\n' });
+  });
+
+  it('removes `withSentryConfig` from changed Next.js configs', () => {
+    const reverted = getRevertedFileContents(
+      {
+        path: 'next.config.mjs',
+        before: 'export default {};\n',
+        after: `import { withSentryConfig } from '@sentry/nextjs';
+export default withSentryConfig({}, { org: 'org' });
+`,
+      },
+      `import { withSentryConfig } from '@sentry/nextjs';
+export default withSentryConfig({ reactStrictMode: true }, { org: 'org' });
+`,
+    );
+
+    expect(reverted?.contents).not.toContain('withSentryConfig');
+    expect(reverted?.contents).toContain('reactStrictMode: true');
+  });
+
+  it("doesn't revert modified files it doesn't know how to revert", () => {
+    expect(
+      getRevertedFileContents(
+        { path: 'app.js', before: 'a\nb', after: 'a\nsentry\nb' },
+        'a\nsentry\nb\nc',
+      ),
+    ).toBeUndefined();
+  });
+});
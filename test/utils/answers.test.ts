@@ -0,0 +1,93 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  getAnswer,
+  getUnusedAnswerKeys,
+  hasAnswers,
+  loadAnswersFile,
+  setAnswers,
+  setAnswersIntegration,
+} from '../../src/utils/answers';
+
+describe('answers', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'answers-'));
+  });
+
+  afterEach(() => {
+    setAnswers(undefined);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('loadAnswersFile', () => {
+    it('loads JSON answers files', () => {
+      const filePath = path.join(tmpDir, 'answers.json');
+      fs.writeFileSync(filePath, JSON.stringify({ hosting: 'saas' }));
+
+      loadAnswersFile(filePath);
+
+      expect(hasAnswers()).toBe(true);
+      expect(getAnswer('hosting')).toBe('saas');
+    });
+
+    it('loads YAML answers files', () => {
+      const filePath = path.join(tmpDir, 'answers.yaml');
+      fs.writeFileSync(filePath, 'hosting: saas\nfeatures:\n  replay: true\n');
+
+      loadAnswersFile(filePath);
+
+      expect(getAnswer('hosting')).toBe('saas');
+      expect(getAnswer('features.replay')).toBe(true);
+    });
+
+    it('throws if the file does not contain an object', () => {
+      const filePath = path.join(tmpDir, 'answers.json');
+      fs.writeFileSync(filePath, '[true]');
+
+      expect(() => loadAnswersFile(filePath)).toThrow(
+        'to contain an object with answers',
+      );
+    });
+  });
+
+  describe('getAnswer', () => {
+    it('returns undefined without an answers file', () => {
+      expect(hasAnswers()).toBe(false);
+      expect(getAnswer('hosting')).toBeUndefined();
+    });
+
+    it('prefers answers of the current integration', () => {
+      setAnswers({
+        runFormatters: true,
+        tunnelRoute: false,
+        nextjs: { tunnelRoute: true },
+      });
+      setAnswersIntegration('nextjs');
+
+      expect(getAnswer('tunnelRoute')).toBe(true);
+      expect(getAnswer('runFormatters')).toBe(true);
+    });
+  });
+
+  describe('getUnusedAnswerKeys', () => {
+    it('returns top-level and integration keys that were never used', () => {
+      setAnswers({
+        hosting: 'saas',
+        typo: true,
+        features: { replay: true },
+        nextjs: { tunnelRoute: true, unused: 1 },
+        sveltekit: { kitTracing: true },
+      });
+      setAnswersIntegration('nextjs');
+
+      getAnswer('hosting');
+      getAnswer('tunnelRoute');
+
+      expect(getUnusedAnswerKeys()).toEqual(['typo', 'nextjs.unused']);
+    });
+  });
+});
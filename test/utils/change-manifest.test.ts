@@ -0,0 +1,226 @@
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  readChangeManifest,
+  recordInstalledPackage,
+  recordRedirectedIntegration,
+  rollbackRecordedChanges,
+  saveChangeManifest,
+  startRecordingChanges,
+  writeChangeManifest,
+} from '../../src/utils/change-manifest';
+
+vi.mock('../../src/version', () => ({ WIZARD_VERSION: '1.0.0' }));
+
+const { logMock } = vi.hoisted(() => ({
+  logMock: { info: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('@clack/prompts', () => ({ log: logMock }));
+
+describe('change-manifest', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'change-manifest-')),
+    );
+    fs.writeFileSync(path.join(tmpDir, '.gitignore'), 'node_modules\n');
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('records file changes, created directories and installed packages', () => {
+    startRecordingChanges();
+
+    fs.appendFileSync(path.join(tmpDir, '.gitignore'), '.env.sentry-build\n');
+    fs.mkdirSync(path.join(tmpDir, 'src', 'sentry'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'src', 'sentry', 'init.js'), 'init');
+    recordInstalledPackage('@sentry/nextjs@^10', 'npm');
+    recordInstalledPackage('@sentry/nextjs', 'npm');
+
+    saveChangeManifest('nextjs');
+
+    // files are still written to disk
+    expect(
+      fs.readFileSync(path.join(tmpDir, 'src', 'sentry', 'init.js'), 'utf8'),
+    ).toBe('init');
+
+    expect(readChangeManifest()).toEqual({
+      version: 1,
+      entries: [
+        {
+          integration: 'nextjs',
+          wizardVersion: '1.0.0',
+          createdAt: expect.any(String) as string,
+          files: [
+            {
+              path: '.gitignore',
+              before: 'node_modules\n',
+              after: 'node_modules\n.env.sentry-build\n',
+            },
+            {
+              path: path.join('src', 'sentry', 'init.js'),
+              before: null,
+              after: 'init',
+            },
+          ],
+          directories: ['src', path.join('src', 'sentry')],
+          packages: [{ name: '@sentry/nextjs', packageManager: 'npm' }],
+        },
+      ],
+    });
+
+    expect(
+      fs.readFileSync(
+        path.join(tmpDir, '.sentry-wizard', '.gitignore'),
+        'utf8',
+      ),
+    ).toBe('*\n');
+  });
+
+  it('stores the file contents after formatters ran', () => {
+    startRecordingChanges();
+
+    fs.writeFileSync(path.join(tmpDir, 'sentry.config.js'), 'init( )');
+    fs.appendFileSync(path.join(tmpDir, '.gitignore'), '.env\n');
+
+    // Formatters rewrite the files in a child process
+    execFileSync(process.execPath, [
+      '-e',
+      `const fs = require('fs');
+      fs.writeFileSync('sentry.config.js', 'init();\\n');
+      fs.writeFileSync('.gitignore', 'node_modules\\n');`,
+    ]);
+
+    saveChangeManifest('nextjs');
+
+    expect(readChangeManifest()?.entries[0].files).toEqual([
+      { path: 'sentry.config.js', before: null, after: 'init();\n' },
+    ]);
+  });
+
+  it('appends entries of subsequent runs', () => {
+    startRecordingChanges();
+    fs.writeFileSync(path.join(tmpDir, 'a.js'), 'a');
+    saveChangeManifest('nextjs');
+
+    startRecordingChanges();
+    fs.writeFileSync(path.join(tmpDir, 'b.js'), 'b');
+    saveChangeManifest('sourcemaps');
+
+    expect(
+      readChangeManifest()?.entries.map((entry) => entry.integration),
+    ).toEqual(['nextjs', 'sourcemaps']);
+  });
+
+  it('stores the changes under the integration the wizard redirected to', () => {
+    startRecordingChanges();
+    recordRedirectedIntegration('nuxt');
+    fs.writeFileSync(path.join(tmpDir, 'a.js'), 'a');
+    saveChangeManifest('sourcemaps');
+
+    startRecordingChanges();
+    fs.writeFileSync(path.join(tmpDir, 'b.js'), 'b');
+    saveChangeManifest('sourcemaps');
+
+    expect(
+      readChangeManifest()?.entries.map((entry) => entry.integration),
+    ).toEqual(['nuxt', 'sourcemaps']);
+  });
+
+  it("doesn't write a manifest if nothing changed", () => {
+    startRecordingChanges();
+    saveChangeManifest('nextjs');
+
+    expect(fs.existsSync(path.join(tmpDir, '.sentry-wizard'))).toBe(false);
+  });
+
+  it('removes the manifest directory once all entries are removed', () => {
+    startRecordingChanges();
+    fs.writeFileSync(path.join(tmpDir, 'a.js'), 'a');
+    saveChangeManifest('nextjs');
+
+    expect(fs.existsSync(path.join(tmpDir, '.sentry-wizard'))).toBe(true);
+
+    writeChangeManifest({ version: 1, entries: [] });
+
+    expect(fs.existsSync(path.join(tmpDir, '.sentry-wizard'))).toBe(false);
+    expect(readChangeManifest()).toBeUndefined();
+  });
+
+  describe('rollbackRecordedChanges', () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it('restores changed files and removes created files and directories', () => {
+      fs.mkdirSync(path.join(tmpDir, 'src'));
+      startRecordingChanges();
+
+      fs.appendFileSync(path.join(tmpDir, '.gitignore'), '.env.sentry-build\n');
+      fs.mkdirSync(path.join(tmpDir, 'src', 'sentry', 'utils'), {
+        recursive: true,
+      });
+      fs.writeFileSync(path.join(tmpDir, 'src', 'sentry', 'init.js'), 'init');
+      fs.writeFileSync(
+        path.join(tmpDir, 'sentry-wizard-installation-error-1.log'),
+        'error',
+      );
+      recordInstalledPackage('@sentry/nextjs', 'npm');
+
+      rollbackRecordedChanges();
+
+      expect(fs.readFileSync(path.join(tmpDir, '.gitignore'), 'utf8')).toBe(
+        'node_modules\n',
+      );
+      expect(fs.existsSync(path.join(tmpDir, 'src', 'sentry'))).toBe(false);
+      expect(fs.existsSync(path.join(tmpDir, 'src'))).toBe(true);
+      // The installation error log helps users to debug the failure
+      expect(
+        fs.existsSync(
+          path.join(tmpDir, 'sentry-wizard-installation-error-1.log'),
+        ),
+      ).toBe(true);
+      expect(logMock.info).toHaveBeenCalledWith(
+        'Reverted the changes to 2 files made before the wizard was aborted.',
+      );
+      expect(logMock.warn).toHaveBeenCalledWith(
+        expect.stringContaining('@sentry/nextjs'),
+      );
+      expect(fs.existsSync(path.join(tmpDir, '.sentry-wizard'))).toBe(false);
+    });
+
+    it('keeps the changes if the user opted out', () => {
+      startRecordingChanges({ rollbackOnAbort: false });
+      fs.writeFileSync(path.join(tmpDir, 'a.js'), 'a');
+
+      rollbackRecordedChanges();
+
+      expect(fs.readFileSync(path.join(tmpDir, 'a.js'), 'utf8')).toBe('a');
+      expect(logMock.warn).toHaveBeenCalledWith(
+        expect.stringContaining('- a.js'),
+      );
+    });
+
+    it('does nothing after the changes were saved', () => {
+      startRecordingChanges();
+      fs.writeFileSync(path.join(tmpDir, 'a.js'), 'a');
+      saveChangeManifest('nextjs');
+
+      rollbackRecordedChanges();
+
+      expect(fs.readFileSync(path.join(tmpDir, 'a.js'), 'utf8')).toBe('a');
+      expect(logMock.info).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,18 +1,38 @@
 import {
   abort,
+  askForDsnKey,
   askForToolConfigPath,
   askForWizardLogin,
   confirmContinueIfNoOrDirtyGitRepo,
+  confirmPrompt,
   createNewConfigFile,
+  featureSelectionPrompt,
+  getOrAskForProjectData,
   getPackageManager,
   installPackage,
+  multiselectPrompt,
+  selectPrompt,
+  textPrompt,
 } from '../../../src/utils/clack/';
+import { setAnswers } from '../../../src/utils/answers';
+import {
+  LOGS_FEATURE,
+  PROFILING_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+} from '../../../src/utils/features';
+import { findStoredAuthTokens } from '../../../src/utils/stored-auth-tokens';
+import {
+  resetWorkspace,
+  selectWorkspacePackage,
+} from '../../../src/utils/workspace';
 
 import * as fs from 'node:fs';
 import * as ChildProcess from 'node:child_process';
 import type { PackageManager } from '../../../src/utils/package-manager';
 import * as PackageManagerUtils from '../../../src/utils/package-manager';
 import * as GitUtils from '../../../src/utils/git';
+import * as DryRun from '../../../src/utils/dry-run';
 
 import {
   NPM,
@@ -37,6 +57,7 @@ import {
   Mocked,
   Mock,
   afterEach,
+  onTestFinished,
 } from 'vitest';
 
 vi.mock('node:child_process', async () => ({
@@ -50,6 +71,7 @@ vi.mock('@clack/prompts', () => ({
     success: vi.fn(),
     warn: vi.fn(),
     error: vi.fn(),
+    step: vi.fn(),
   },
   outro: vi.fn(),
   text: vi.fn(),
@@ -61,6 +83,7 @@ vi.mock('@clack/prompts', () => ({
     .fn()
     .mockImplementation(() => ({ start: vi.fn(), stop: vi.fn() })),
   select: vi.fn(),
+  multiselect: vi.fn(),
 }));
 const clackMock = clack as Mocked<typeof clack>;
 
@@ -72,6 +95,10 @@ vi.mock('../../../src/utils/git', () => ({
   getUncommittedOrUntrackedFiles: vi.fn(),
 }));
 
+vi.mock('../../../src/utils/stored-auth-tokens', () => ({
+  findStoredAuthTokens: vi.fn(() => []),
+}));
+
 vi.mock('opn', () => ({
   default: vi.fn(() => Promise.resolve({ on: vi.fn() })),
 }));
@@ -233,6 +260,7 @@ describe('installPackage', () => {
       name: 'npm',
       label: 'NPM',
       installCommand: 'install',
+      uninstallCommand: 'uninstall',
       buildCommand: 'npm run build',
       runScriptCommand: 'npm run',
       flags: '',
@@ -257,6 +285,37 @@ describe('installPackage', () => {
     );
   });
 
+  it('installs into the selected workspace package from the workspace root', async () => {
+    selectWorkspacePackage('/repo', {
+      name: 'web',
+      dir: process.cwd(),
+      packageJson: {},
+    });
+
+    try {
+      await installPackage({
+        alreadyInstalled: false,
+        packageName: '@sentry/nextjs',
+        askBeforeUpdating: false,
+        packageManager: PNPM,
+      });
+    } finally {
+      resetWorkspace();
+    }
+
+    expect(spawnSpy).toHaveBeenCalledWith(
+      'pnpm',
+      [
+        '--filter',
+        'web',
+        'add',
+        '@sentry/nextjs',
+        '--ignore-workspace-root-check',
+      ],
+      { shell: true, cwd: '/repo', stdio: ['pipe', 'ignore', 'pipe'] },
+    );
+  });
+
   it.each([false, undefined])(
     "doesn't force-install a package if the forceInstall flag is %s",
     async (flag) => {
@@ -264,6 +323,7 @@ describe('installPackage', () => {
         name: 'npm',
         label: 'NPM',
         installCommand: 'install',
+        uninstallCommand: 'uninstall',
         buildCommand: 'npm run build',
         runScriptCommand: 'npm run',
         flags: '',
@@ -294,6 +354,7 @@ describe('installPackage', () => {
       name: 'npm',
       label: 'NPM',
       installCommand: 'install',
+      uninstallCommand: 'uninstall',
       buildCommand: 'npm run build',
       runScriptCommand: 'npm run',
       flags: '--ignore-workspace-root-check',
@@ -369,6 +430,290 @@ describe('askForWizardLogin', () => {
   });
 });
 
+describe('getOrAskForProjectData', () => {
+  const org = { id: '1', name: 'My Org', slug: 'my-org' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedAxios.get.mockReset();
+    mockedAxios.post.mockReset();
+  });
+
+  it('creates a new project with an auth token if there are no projects', async () => {
+    mockedAxios.get.mockImplementation((url: string) =>
+      Promise.resolve({
+        data: {
+          'https://sentry.io/api/0/organizations/': [org],
+          'https://sentry.io/api/0/organizations/my-org/projects/': [],
+          'https://sentry.io/api/0/organizations/my-org/teams/': [
+            { slug: 'my-team', name: 'My Team' },
+          ],
+          'https://sentry.io/api/0/projects/my-org/new-app/keys/': [
+            { isActive: true, dsn: { public: 'https://key@sentry.io/2' } },
+          ],
+        }[url],
+        headers: {},
+      }),
+    );
+    mockedAxios.post.mockResolvedValue({ data: { id: '2', slug: 'new-app' } });
+    mockUserResponse(clackMock.text as Mock, Promise.resolve('new-app'));
+
+    const projectData = await getOrAskForProjectData(
+      { telemetryEnabled: false, saas: true, authToken: 'token' },
+      'javascript-nextjs',
+    );
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(mockedAxios.post).toHaveBeenCalledWith(
+      'https://sentry.io/api/0/teams/my-org/my-team/projects/',
+      { name: 'new-app', platform: 'javascript-nextjs' },
+      { headers: { Authorization: 'Bearer token' } },
+    );
+    expect(projectData).toEqual({
+      sentryUrl: 'https://sentry.io/',
+      selfHosted: false,
+      authToken: 'token',
+      selectedProject: {
+        id: '2',
+        slug: 'new-app',
+        organization: org,
+        keys: [{ isActive: true, dsn: { public: 'https://key@sentry.io/2' } }],
+      },
+      spotlight: false,
+    });
+  });
+
+  it("doesn't create a new project in dry run mode", async () => {
+    const dryRunSpy = vi.spyOn(DryRun, 'isDryRun').mockReturnValue(true);
+    onTestFinished(() => dryRunSpy.mockRestore());
+    mockedAxios.get.mockImplementation((url: string) =>
+      Promise.resolve({
+        data: {
+          'https://sentry.io/api/0/organizations/': [org],
+          'https://sentry.io/api/0/organizations/my-org/projects/': [],
+          'https://sentry.io/api/0/organizations/my-org/teams/': [
+            { slug: 'my-team', name: 'My Team' },
+          ],
+        }[url],
+        headers: {},
+      }),
+    );
+    mockUserResponse(clackMock.text as Mock, Promise.resolve('New App'));
+
+    const projectData = await getOrAskForProjectData(
+      { telemetryEnabled: false, saas: true, authToken: 'token' },
+      'javascript-nextjs',
+    );
+
+    // eslint-disable-next-line @typescript-eslint/unbound-method
+    expect(mockedAxios.post).not.toHaveBeenCalled();
+    expect(projectData).toMatchObject({
+      selectedProject: {
+        slug: 'new-app',
+        organization: org,
+        keys: [
+          {
+            dsn: {
+              public: 'https://dry-run-public-key@dry-run.ingest.sentry.io/0',
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it.each([
+    [
+      'SENTRY_AUTH_TOKEN',
+      'env-token',
+      'Please check your auth token and try again, or unset SENTRY_AUTH_TOKEN to log in via the browser.',
+    ],
+    [
+      '--auth-token',
+      'arg-token',
+      'Please check the auth token passed via --auth-token and try again, or remove the argument to log in via the browser.',
+    ],
+  ])(
+    'names %s as the source of a rejected auth token',
+    async (_, authToken, hint) => {
+      vi.stubEnv('SENTRY_AUTH_TOKEN', 'env-token');
+      mockedAxios.get.mockRejectedValue(new Error('Request failed with 401'));
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        getOrAskForProjectData({
+          telemetryEnabled: false,
+          saas: true,
+          authToken,
+        }),
+      ).rejects.toThrow('process.exit');
+
+      expect(clackMock.outro).toHaveBeenCalledWith(
+        expect.stringContaining(hint),
+      );
+
+      exitSpy.mockRestore();
+      vi.unstubAllEnvs();
+    },
+  );
+
+  describe('with stored auth tokens', () => {
+    const options = {
+      telemetryEnabled: false,
+      saas: true,
+      orgSlug: 'my-org',
+      projectSlug: 'my-app',
+    };
+
+    beforeEach(() => {
+      clackMock.confirm.mockReset();
+      vi.mocked(findStoredAuthTokens).mockReturnValue([
+        { token: 'invalid-token', source: '.env.sentry-build-plugin' },
+        { token: 'stored-token', source: '~/.sentryclirc' },
+      ]);
+      mockedAxios.get.mockImplementation(
+        (url: string, config?: { headers: Record<string, string> }) => {
+          if (config?.headers.Authorization !== 'Bearer stored-token') {
+            return Promise.reject(new Error('Request failed with 401'));
+          }
+          return Promise.resolve({
+            data: {
+              'https://sentry.io/api/0/organizations/': [org],
+              'https://sentry.io/api/0/organizations/my-org/': org,
+              'https://sentry.io/api/0/organizations/my-org/projects/': [
+                { id: '1', slug: 'my-app' },
+              ],
+              'https://sentry.io/api/0/projects/my-org/my-app/keys/': [
+                { isActive: true, dsn: { public: 'https://key@sentry.io/1' } },
+              ],
+            }[url],
+            headers: {},
+          });
+        },
+      );
+    });
+
+    afterEach(() => {
+      vi.mocked(findStoredAuthTokens).mockReturnValue([]);
+    });
+
+    it('reuses the first valid auth token instead of logging in', async () => {
+      mockUserResponse(clackMock.confirm as Mock, Promise.resolve(true));
+
+      const projectData = await getOrAskForProjectData(options);
+
+      expect(clackMock.confirm).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message:
+            'Do you want to use this auth token instead of logging in again?',
+        }),
+      );
+      expect(projectData).toMatchObject({
+        authToken: 'stored-token',
+        selectedProject: { id: '1', slug: 'my-app' },
+      });
+    });
+
+    it("doesn't offer tokens without access to the selected organization", async () => {
+      // The browser login aborts because the mocked API rejects requests
+      // without the stored token
+      const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+        throw new Error('process.exit');
+      });
+
+      await expect(
+        getOrAskForProjectData({ ...options, orgSlug: 'other-org' }),
+      ).rejects.toThrow('process.exit');
+
+      expect(clackMock.confirm).not.toHaveBeenCalled();
+      expect(clackMock.log.error).toHaveBeenCalledWith(
+        'Loading Wizard failed.',
+      );
+
+      exitSpy.mockRestore();
+    });
+
+    describe('with an organization auth token', () => {
+      const forbidden = Object.assign(new Error('Request failed with 403'), {
+        response: { status: 403 },
+      });
+
+      beforeEach(() => {
+        vi.mocked(findStoredAuthTokens).mockReturnValue([
+          { token: 'sntrys_org-token', source: '.env.sentry-build-plugin' },
+        ]);
+        mockedAxios.isAxiosError.mockImplementation((e) => e === forbidden);
+      });
+
+      afterEach(() => {
+        mockedAxios.isAxiosError.mockReset();
+      });
+
+      it("doesn't offer tokens that can't list projects", async () => {
+        mockedAxios.get.mockImplementation((url: string) =>
+          url === 'https://sentry.io/api/0/organizations/'
+            ? Promise.resolve({ data: [org], headers: {} })
+            : Promise.reject(forbidden),
+        );
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+          throw new Error('process.exit');
+        });
+
+        await expect(getOrAskForProjectData(options)).rejects.toThrow(
+          'process.exit',
+        );
+
+        expect(clackMock.confirm).not.toHaveBeenCalled();
+        // Falls back to the browser login
+        expect(clackMock.log.error).toHaveBeenCalledWith(
+          'Loading Wizard failed.',
+        );
+
+        exitSpy.mockRestore();
+      });
+
+      it('falls back to the browser login if the token is rejected later on', async () => {
+        mockedAxios.get.mockImplementation((url: string) => {
+          const data = {
+            'https://sentry.io/api/0/organizations/': [org],
+            'https://sentry.io/api/0/organizations/my-org/': org,
+            'https://sentry.io/api/0/organizations/my-org/projects/': [
+              { id: '1', slug: 'my-app' },
+            ],
+          }[url];
+          return data
+            ? Promise.resolve({ data, headers: {} })
+            : Promise.reject(forbidden);
+        });
+        mockUserResponse(clackMock.confirm as Mock, Promise.resolve(true));
+        const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+          throw new Error('process.exit');
+        });
+
+        await expect(getOrAskForProjectData(options)).rejects.toThrow(
+          'process.exit',
+        );
+
+        expect(clackMock.log.warn).toHaveBeenCalledWith(
+          expect.stringContaining(
+            "doesn't have access to your projects. Please log in via the browser instead.",
+          ),
+        );
+        expect(clackMock.log.error).toHaveBeenCalledWith(
+          'Loading Wizard failed.',
+        );
+        expect(clackMock.log.error).not.toHaveBeenCalledWith(
+          expect.stringContaining('Loading the project keys failed'),
+        );
+
+        exitSpy.mockRestore();
+      });
+    });
+  });
+});
+
 describe('abort', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -649,3 +994,295 @@ describe('confirmContinueIfNoOrDirtyGitRepo', () => {
     });
   });
 });
+
+describe('prompts with an answers file', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    setAnswers(undefined);
+  });
+
+  it('asks the user if no answers file is used', async () => {
+    mockUserResponse(clackMock.confirm as Mock, Promise.resolve(true));
+
+    const result = await confirmPrompt('continue', { message: 'Continue?' });
+
+    expect(result).toBe(true);
+    expect(clackMock.confirm).toHaveBeenCalledWith({ message: 'Continue?' });
+  });
+
+  it('resolves confirm prompts from the answers file', async () => {
+    setAnswers({ continue: false });
+
+    const result = await confirmPrompt('continue', { message: 'Continue?' });
+
+    expect(result).toBe(false);
+    expect(clackMock.confirm).not.toHaveBeenCalled();
+  });
+
+  it('resolves select prompts by option value or answer', async () => {
+    setAnswers({ tool: 'vite', manager: 'Yarn V1' });
+
+    const tool = await selectPrompt('tool', {
+      message: 'Which tool?',
+      options: [
+        { label: 'Webpack', value: 'webpack' },
+        { label: 'Vite', value: 'vite' },
+      ],
+    });
+    const manager = await selectPrompt('manager', {
+      message: 'Which package manager?',
+      options: [
+        { label: 'NPM', value: NPM, answer: NPM.label },
+        { label: 'Yarn V1', value: YARN_V1, answer: YARN_V1.label },
+      ],
+    });
+
+    expect(tool).toBe('vite');
+    expect(manager).toBe(YARN_V1);
+    expect(clackMock.select).not.toHaveBeenCalled();
+  });
+
+  it('resolves multiselect prompts from the answers file', async () => {
+    setAnswers({ clients: ['cursor', 'vscode'] });
+
+    const result = await multiselectPrompt('clients', {
+      message: 'Which clients?',
+      options: [
+        { label: 'Cursor', value: 'cursor' },
+        { label: 'VS Code', value: 'vscode' },
+        { label: 'Zed', value: 'zed' },
+      ],
+    });
+
+    expect(result).toEqual(['cursor', 'vscode']);
+    expect(clackMock.multiselect).not.toHaveBeenCalled();
+  });
+
+  it('validates text answers', async () => {
+    // @ts-expect-error - vitest doesn't like the empty function
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+    setAnswers({ url: 'not a url' });
+
+    await textPrompt('url', {
+      message: 'Your Sentry URL',
+      validate: (value) => (value.startsWith('https://') ? undefined : 'nope'),
+    });
+
+    expect(clackMock.log.error).toHaveBeenCalledWith(
+      expect.stringContaining('invalid answer'),
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+
+  it('aborts if an answer is missing', async () => {
+    // @ts-expect-error - vitest doesn't like the empty function
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {});
+    setAnswers({});
+
+    await confirmPrompt('continue', { message: 'Continue?' });
+
+    expect(clackMock.log.error).toHaveBeenCalledWith(
+      expect.stringContaining('missing an answer'),
+    );
+    expect(exitSpy).toHaveBeenCalledWith(1);
+  });
+});
+
+describe('featureSelectionPrompt', () => {
+  const features = [
+    TRACING_FEATURE,
+    REPLAY_FEATURE,
+    LOGS_FEATURE,
+    PROFILING_FEATURE,
+  ] as const;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clackMock.multiselect.mockReset();
+  });
+
+  afterEach(() => {
+    setAnswers(undefined);
+  });
+
+  it('asks for all features in one multi-select prompt', async () => {
+    mockUserResponse(
+      clackMock.multiselect as Mock,
+      Promise.resolve(['performance', 'logs']),
+    );
+
+    const result = await featureSelectionPrompt(features);
+
+    expect(result).toEqual({
+      performance: true,
+      replay: false,
+      logs: true,
+      profiling: false,
+    });
+    expect(clackMock.multiselect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        initialValues: ['performance', 'replay', 'logs', 'profiling'],
+        required: false,
+      }),
+    );
+    expect(clackMock.confirm).not.toHaveBeenCalled();
+  });
+
+  it("doesn't enable features whose requirements aren't selected", async () => {
+    mockUserResponse(
+      clackMock.multiselect as Mock,
+      Promise.resolve(['replay', 'profiling']),
+    );
+
+    const result = await featureSelectionPrompt(features);
+
+    expect(result).toEqual({
+      performance: false,
+      replay: true,
+      logs: false,
+      profiling: false,
+    });
+    expect(clackMock.log.warn).toHaveBeenCalledWith(
+      "Profiling requires Tracing, so it won't be enabled.",
+    );
+  });
+
+  it('selects the features from the --features flags without asking', async () => {
+    const result = await featureSelectionPrompt(features, [
+      'profiling',
+      'logs',
+    ]);
+
+    expect(result).toEqual({
+      performance: true,
+      replay: false,
+      logs: true,
+      profiling: true,
+    });
+    expect(clackMock.multiselect).not.toHaveBeenCalled();
+  });
+
+  it('resolves each feature from the answers file', async () => {
+    setAnswers({
+      features: {
+        performance: true,
+        replay: false,
+        logs: true,
+        profiling: false,
+      },
+    });
+
+    const result = await featureSelectionPrompt(features);
+
+    expect(result).toEqual({
+      performance: true,
+      replay: false,
+      logs: true,
+      profiling: false,
+    });
+    expect(clackMock.multiselect).not.toHaveBeenCalled();
+  });
+});
+
+describe('askForDsnKey', () => {
+  const project = {
+    id: '1',
+    slug: 'my-app',
+    organization: { id: '1', name: 'My Org', slug: 'my-org' },
+  };
+  const inactiveKey = {
+    name: 'Old',
+    isActive: false,
+    dsn: { public: 'https://old@sentry.io/1' },
+  };
+  const defaultKey = {
+    name: 'Default',
+    isActive: true,
+    dsn: { public: 'https://default@sentry.io/1' },
+  };
+  const mobileKey = {
+    name: 'Mobile',
+    isActive: true,
+    dsn: { public: 'https://mobile@sentry.io/1' },
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clackMock.select.mockReset();
+  });
+
+  it('uses the only active key without asking', async () => {
+    const result = await askForDsnKey({
+      ...project,
+      keys: [inactiveKey, defaultKey],
+    });
+
+    expect(result.keys).toEqual([defaultKey, inactiveKey]);
+    expect(clackMock.select).not.toHaveBeenCalled();
+  });
+
+  it('asks for the key if there are multiple active keys', async () => {
+    mockUserResponse(clackMock.select as Mock, Promise.resolve(mobileKey));
+
+    const result = await askForDsnKey({
+      ...project,
+      keys: [defaultKey, inactiveKey, mobileKey],
+    });
+
+    expect(result.keys).toEqual([mobileKey, defaultKey, inactiveKey]);
+    expect(clackMock.select).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: [
+          expect.objectContaining({ label: 'Default' }),
+          expect.objectContaining({ label: 'Mobile' }),
+        ],
+      }),
+    );
+  });
+
+  it('asks for the key if all keys are inactive', async () => {
+    mockUserResponse(clackMock.select as Mock, Promise.resolve(inactiveKey));
+
+    const result = await askForDsnKey({ ...project, keys: [inactiveKey] });
+
+    expect(result.keys).toEqual([inactiveKey]);
+    expect(clackMock.select).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: [expect.objectContaining({ hint: 'inactive' })],
+      }),
+    );
+  });
+
+  it('selects the key passed via --dsn-key', async () => {
+    const result = await askForDsnKey(
+      { ...project, keys: [defaultKey, inactiveKey] },
+      'Old',
+    );
+
+    expect(result.keys).toEqual([inactiveKey, defaultKey]);
+    expect(clackMock.select).not.toHaveBeenCalled();
+    expect(clackMock.log.warn).toHaveBeenCalledWith(
+      expect.stringContaining('is inactive'),
+    );
+  });
+
+  it('aborts if no key matches --dsn-key', async () => {
+    const exitSpy = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit');
+    });
+
+    await expect(
+      askForDsnKey({ ...project, keys: [defaultKey] }, 'Mobile'),
+    ).rejects.toThrow('process.exit');
+    expect(clackMock.log.error).toHaveBeenCalledWith(
+      expect.stringContaining('Available keys: Default'),
+    );
+
+    exitSpy.mockRestore();
+  });
+});
@@ -16,6 +16,12 @@ type ConfigContent = {
 // Mock the clack utils which wrap the prompts
 vi.mock('../../../src/utils/clack', () => ({
   abortIfCancelled: vi.fn((value: unknown) => Promise.resolve(value)),
+  selectPrompt: vi.fn(async (_key: string, options: never) =>
+    (await import('@clack/prompts')).select(options),
+  ),
+  multiselectPrompt: vi.fn(async (_key: string, options: never) =>
+    (await import('@clack/prompts')).multiselect(options),
+  ),
   showCopyPasteInstructions: vi.fn(),
 }));
 
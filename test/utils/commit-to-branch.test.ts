@@ -0,0 +1,160 @@
+import * as childProcess from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  commitChangesToBranch,
+  getDefaultBranchName,
+  validateCommitBranch,
+} from '../../src/utils/commit-to-branch';
+import { getChangedFiles } from '../../src/utils/git';
+import { emitEvent } from '../../src/utils/json-output';
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+function git(...args: string[]): string {
+  return childProcess
+    .execFileSync('git', args, { stdio: ['ignore', 'pipe', 'ignore'] })
+    .toString()
+    .trim();
+}
+
+function writeFile(fileName: string, contents: string) {
+  fs.mkdirSync(path.dirname(fileName), { recursive: true });
+  fs.writeFileSync(fileName, contents);
+}
+
+describe('commit-to-branch', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'commit-to-branch-')),
+    );
+    process.chdir(tmpDir);
+
+    vi.stubEnv('GIT_AUTHOR_NAME', 'Test');
+    vi.stubEnv('GIT_AUTHOR_EMAIL', 'test@example.com');
+    vi.stubEnv('GIT_COMMITTER_NAME', 'Test');
+    vi.stubEnv('GIT_COMMITTER_EMAIL', 'test@example.com');
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    vi.unstubAllEnvs();
+  });
+
+  function initRepo() {
+    git('init', '--quiet', '--initial-branch=main');
+    writeFile('app.ts', 'app');
+    writeFile('next.config.js', 'config');
+    writeFile('.gitignore', '.env.sentry-build-plugin\n');
+    git('add', '--all');
+    git('commit', '--quiet', '--message', 'Initial commit');
+  }
+
+  describe('getDefaultBranchName', () => {
+    it.each([
+      [['nextjs'], 'sentry/setup-nextjs'],
+      [['reactNative'], 'sentry/setup-react-native'],
+      [['nextjs', 'cloudflare'], 'sentry/setup-nextjs-cloudflare'],
+    ])('returns the branch name for %j', (integrations, branchName) => {
+      expect(getDefaultBranchName(integrations)).toBe(branchName);
+    });
+  });
+
+  describe('validateCommitBranch', () => {
+    it('requires a git repository', () => {
+      expect(validateCommitBranch('sentry/setup-nextjs')).toContain(
+        'requires a git repository',
+      );
+    });
+
+    it.each(['main', 'invalid..name'])('rejects %s', (branchName) => {
+      initRepo();
+      expect(validateCommitBranch(branchName)).toContain('already exists');
+    });
+
+    it('accepts new branches', () => {
+      initRepo();
+      expect(validateCommitBranch('sentry/setup-nextjs')).toBeUndefined();
+    });
+  });
+
+  describe('commitChangesToBranch', () => {
+    it('commits only the files changed by the wizard', () => {
+      initRepo();
+      // Unrelated work of the user
+      writeFile('app.ts', 'work in progress');
+      writeFile('notes.md', 'notes');
+      const filesChangedBeforeRun = getChangedFiles();
+
+      // Changes of the wizard
+      writeFile('sentry.server.config.ts', 'Sentry.init()');
+      writeFile('next.config.js', 'withSentryConfig(config)');
+      writeFile('app.ts', 'work in progress and Sentry');
+      writeFile('.env.sentry-build-plugin', 'SENTRY_AUTH_TOKEN=token');
+      writeFile(path.join('.sentry-wizard', 'manifest.json'), '{}');
+
+      emitEvent({
+        type: 'project',
+        org: 'my-org',
+        project: 'my-project',
+        projectId: '123',
+        url: 'https://sentry.io/',
+        issueStreamUrl: 'https://my-org.sentry.io/issues/?project=123',
+      });
+      emitEvent({ type: 'features', features: ['Tracing', 'Logs'] });
+
+      commitChangesToBranch({
+        branchName: 'sentry/setup-nextjs',
+        integrations: ['nextjs'],
+        fileChanges: [
+          {
+            path: path.join(tmpDir, 'app.ts'),
+            before: 'work in progress',
+            after: 'work in progress and Sentry',
+          },
+        ],
+        filesChangedBeforeRun,
+      });
+
+      expect(git('branch', '--show-current')).toBe('sentry/setup-nextjs');
+      expect(
+        git('show', '--name-only', '--format=', 'HEAD').split('\n').sort(),
+      ).toEqual(['next.config.js', 'sentry.server.config.ts']);
+      expect(git('log', '-1', '--format=%B')).toBe(
+        'feat: Set up Sentry for Next.js\n\nProject: my-org/my-project\nFeatures: Tracing, Logs\n\nCreated by the Sentry Wizard.',
+      );
+      expect(git('status', '--porcelain', '--untracked-files=all')).toBe(
+        ['M app.ts', '?? .sentry-wizard/manifest.json', '?? notes.md'].join(
+          '\n',
+        ),
+      );
+    });
+
+    it("doesn't create a branch without changes", () => {
+      initRepo();
+
+      commitChangesToBranch({
+        branchName: 'sentry/setup-nextjs',
+        integrations: ['nextjs'],
+        fileChanges: [],
+        filesChangedBeforeRun: [],
+      });
+
+      expect(git('branch', '--show-current')).toBe('main');
+    });
+  });
+});
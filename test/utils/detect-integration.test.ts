@@ -0,0 +1,68 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectIntegrations } from '../../src/utils/detect-integration';
+
+function writeFile(filePath: string, contents: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    typeof contents === 'string' ? contents : JSON.stringify(contents),
+  );
+}
+
+describe('detectIntegrations', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'detect-integration-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function detect() {
+    return detectIntegrations(tmpDir).map(({ integration }) => integration);
+  }
+
+  it('ranks framework packages above config files and the source maps wizard', () => {
+    writeFile(path.join(tmpDir, 'package.json'), {
+      dependencies: { next: '^15.0.0' },
+      devDependencies: { wrangler: '^4.0.0' },
+    });
+    writeFile(path.join(tmpDir, 'wrangler.jsonc'), '{}');
+
+    expect(detect()).toEqual(['nextjs', 'cloudflare', 'sourcemaps']);
+  });
+
+  it('detects Expo apps by their app.json', () => {
+    writeFile(path.join(tmpDir, 'app.json'), { expo: { name: 'app' } });
+
+    expect(detect()).toEqual(['reactNative']);
+  });
+
+  it('detects native projects', () => {
+    writeFile(path.join(tmpDir, 'pubspec.yaml'), 'name: app');
+    writeFile(path.join(tmpDir, 'android', 'build.gradle'), '');
+
+    expect(detect()).toEqual(['flutter']);
+
+    fs.rmSync(path.join(tmpDir, 'pubspec.yaml'));
+    writeFile(path.join(tmpDir, 'build.gradle.kts'), '');
+    fs.mkdirSync(path.join(tmpDir, 'App.xcodeproj'));
+
+    expect(detect()).toEqual(['ios', 'android']);
+  });
+
+  it('detects frameworks by their config files', () => {
+    writeFile(path.join(tmpDir, 'nuxt.config.ts'), '');
+
+    expect(detect()).toEqual(['nuxt']);
+  });
+
+  it('returns an empty list if nothing was detected', () => {
+    expect(detectIntegrations(tmpDir)).toEqual([]);
+  });
+});
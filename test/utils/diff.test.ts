@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createUnifiedDiff } from '../../src/utils/diff';
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string if the contents are equal', () => {
+    expect(
+      createUnifiedDiff({
+        fileName: 'a.js',
+        oldContent: 'foo\n',
+        newContent: 'foo\n',
+      }),
+    ).toBe('');
+  });
+
+  it('creates a diff for a new file', () => {
+    expect(
+      createUnifiedDiff({
+        fileName: 'sentry.server.config.js',
+        oldContent: null,
+        newContent:
+          'import * as Sentry from "@sentry/nextjs";\n\nSentry.init({});\n',
+      }),
+    ).toBe(`--- /dev/null
++++ b/sentry.server.config.js
+@@ -0,0 +1,3 @@
++import * as Sentry from "@sentry/nextjs";
++
++Sentry.init({});`);
+  });
+
+  it('creates a diff for a deleted file', () => {
+    expect(
+      createUnifiedDiff({
+        fileName: 'old.js',
+        oldContent: 'a\nb\n',
+        newContent: null,
+      }),
+    ).toBe(`--- a/old.js
++++ /dev/null
+@@ -1,2 +0,0 @@
+-a
+-b`);
+  });
+
+  it('only includes changed lines and their context', () => {
+    const oldContent = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const newContent = [...oldContent];
+    newContent[1] = 'changed 2';
+    newContent.splice(15, 0, 'inserted');
+
+    expect(
+      createUnifiedDiff({
+        fileName: 'file.txt',
+        oldContent: oldContent.join('\n'),
+        newContent: newContent.join('\n'),
+        context: 1,
+      }),
+    ).toBe(`--- a/file.txt
++++ b/file.txt
+@@ -1,3 +1,3 @@
+ line 1
+-line 2
++changed 2
+ line 3
+@@ -15,2 +15,3 @@
+ line 15
++inserted
+ line 16`);
+  });
+
+  it('merges changes with overlapping context into one hunk', () => {
+    expect(
+      createUnifiedDiff({
+        fileName: 'file.txt',
+        oldContent: 'a\nb\nc\nd\ne\n',
+        newContent: 'a\nB\nc\nD\ne\n',
+      }),
+    ).toBe(`--- a/file.txt
++++ b/file.txt
+@@ -1,5 +1,5 @@
+ a
+-b
++B
+ c
+-d
++D
+ e`);
+  });
+});
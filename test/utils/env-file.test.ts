@@ -0,0 +1,51 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setEnvFileVariables } from '../../src/utils/env-file';
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('setEnvFileVariables', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'env-')));
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('creates the file if it does not exist', async () => {
+    expect(
+      await setEnvFileVariables('.env.local', { SENTRY_DSN: 'https://dsn' }),
+    ).toBe(true);
+
+    expect(fs.readFileSync('.env.local', 'utf8')).toBe(
+      'SENTRY_DSN=https://dsn\n',
+    );
+  });
+
+  it('appends new variables and replaces existing ones', async () => {
+    fs.writeFileSync('.env.local', 'API_URL=https://api\nSENTRY_DSN=old');
+
+    await setEnvFileVariables('.env.local', {
+      SENTRY_DSN: 'https://dsn',
+      SENTRY_ENVIRONMENT: 'production',
+    });
+
+    expect(fs.readFileSync('.env.local', 'utf8')).toBe(
+      'API_URL=https://api\nSENTRY_DSN=https://dsn\nSENTRY_ENVIRONMENT=production\n',
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import yargs from 'yargs';
+import {
+  FEATURES_OPTION,
+  LOGS_FEATURE,
+  PROFILING_FEATURE,
+  REPLAY_FEATURE,
+  TRACING_FEATURE,
+  getFeaturesWithMissingRequirements,
+  getUnknownFeatureFlags,
+  parseFeatureFlags,
+  selectFeaturesFromFlags,
+} from '../../src/utils/features';
+
+const features = [
+  TRACING_FEATURE,
+  REPLAY_FEATURE,
+  LOGS_FEATURE,
+  PROFILING_FEATURE,
+];
+
+describe('parseFeatureFlags', () => {
+  it.each([
+    [['--features=-replay'], ['-replay']],
+    [
+      ['--features', 'tracing,-replay'],
+      ['tracing', '-replay'],
+    ],
+    [
+      ['--features', 'tracing', '--features=-replay'],
+      ['tracing', '-replay'],
+    ],
+  ])('parses the CLI args %j', (args, expected) => {
+    const argv = yargs(args).options({ features: FEATURES_OPTION }).parse();
+
+    expect(parseFeatureFlags(argv.features as string | string[])).toEqual(
+      expected,
+    );
+  });
+
+  it('loses disabled features passed in a separate token', () => {
+    // yargs parses `-replay` as short flags, so we show an error for empty features
+    const argv = yargs(['--features', '-replay'])
+      .options({ features: FEATURES_OPTION })
+      .parse();
+
+    expect(parseFeatureFlags(argv.features as string)).toEqual([]);
+  });
+
+  it('returns undefined if no features were passed', () => {
+    expect(parseFeatureFlags(undefined)).toBeUndefined();
+  });
+
+  it.each([
+    ['tracing,logs,-replay', ['tracing', 'logs', '-replay']],
+    [
+      ['tracing, logs', '-replay'],
+      ['tracing', 'logs', '-replay'],
+    ],
+    ['tracing,,', ['tracing']],
+  ])('parses %j', (arg, expected) => {
+    expect(parseFeatureFlags(arg)).toEqual(expected);
+  });
+});
+
+describe('getUnknownFeatureFlags', () => {
+  it('returns the flags that match no feature', () => {
+    expect(
+      getUnknownFeatureFlags([
+        'Tracing',
+        'performance',
+        '-replay',
+        'instrumentationAPI',
+        'metrics',
+        '-feedback',
+      ]),
+    ).toEqual(['metrics', '-feedback']);
+  });
+});
+
+describe('selectFeaturesFromFlags', () => {
+  it('only selects the enabled features', () => {
+    expect(selectFeaturesFromFlags(features, ['tracing', 'logs'])).toEqual([
+      'performance',
+      'logs',
+    ]);
+  });
+
+  it('selects all other features if features are only disabled', () => {
+    expect(selectFeaturesFromFlags(features, ['-replay'])).toEqual([
+      'performance',
+      'logs',
+      'profiling',
+    ]);
+  });
+
+  it('selects the features required by enabled features', () => {
+    expect(selectFeaturesFromFlags(features, ['profiling'])).toEqual([
+      'profiling',
+      'performance',
+    ]);
+  });
+
+  it("doesn't select required features that were disabled", () => {
+    expect(
+      selectFeaturesFromFlags(features, ['profiling', '-tracing']),
+    ).toEqual(['profiling']);
+  });
+});
+
+describe('getFeaturesWithMissingRequirements', () => {
+  it('returns the selected features whose requirements are missing', () => {
+    expect(
+      getFeaturesWithMissingRequirements(features, ['replay', 'profiling']),
+    ).toEqual([{ feature: PROFILING_FEATURE, missing: [TRACING_FEATURE] }]);
+    expect(
+      getFeaturesWithMissingRequirements(features, [
+        'performance',
+        'profiling',
+      ]),
+    ).toEqual([]);
+  });
+});
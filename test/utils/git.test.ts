@@ -2,11 +2,12 @@ import { beforeEach, describe, it, vi, expect } from 'vitest';
 
 import {
   getUncommittedOrUntrackedFiles,
+  isGitIgnored,
   isInGitRepo,
 } from '../../src/utils/git';
 
-const { mockedExecSync } = vi.hoisted(() => {
-  return { mockedExecSync: vi.fn() };
+const { mockedExecSync, mockedExecFileSync } = vi.hoisted(() => {
+  return { mockedExecSync: vi.fn(), mockedExecFileSync: vi.fn() };
 });
 
 vi.mock('child_process', async () => {
@@ -14,6 +15,7 @@ vi.mock('child_process', async () => {
     default: {},
     ...(await vi.importActual('child_process')),
     execSync: mockedExecSync,
+    execFileSync: mockedExecFileSync,
   };
 });
 
@@ -51,6 +53,39 @@ describe('isInGitRepo', () => {
   });
 });
 
+describe('isGitIgnored', () => {
+  it('passes the path as a single argument to git', () => {
+    mockedExecSync.mockImplementationOnce(() => 'true');
+
+    expect(
+      isGitIgnored('.env "$(whoami)".local', { cwd: '/path/to/dir' }),
+    ).toBe(true);
+    expect(mockedExecFileSync).toHaveBeenCalledWith(
+      'git',
+      ['check-ignore', '-q', '.env "$(whoami)".local'],
+      { stdio: 'ignore', cwd: '/path/to/dir' },
+    );
+  });
+
+  it('returns false if git exits with non-zero', () => {
+    mockedExecSync.mockImplementationOnce(() => 'true');
+    mockedExecFileSync.mockImplementationOnce(() => {
+      throw new Error('Command failed');
+    });
+
+    expect(isGitIgnored('.env.local', { cwd: undefined })).toBe(false);
+  });
+
+  it("returns undefined if the directory isn't a git repository", () => {
+    mockedExecSync.mockImplementationOnce(() => {
+      throw new Error('Command failed');
+    });
+
+    expect(isGitIgnored('.env.local', { cwd: undefined })).toBeUndefined();
+    expect(mockedExecFileSync).not.toHaveBeenCalled();
+  });
+});
+
 describe('getUncommittedOrUntrackedFiles', () => {
   it('returns a list of uncommitted or untracked files', () => {
     mockedExecSync.mockImplementationOnce(() => {
@@ -0,0 +1,177 @@
+import * as path from 'node:path';
+// @ts-expect-error - clack is ESM and TS complains about that. It works though
+import type * as Clack from '@clack/prompts';
+import chalk from 'chalk';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  emitEvent,
+  emitResultEvent,
+  enableJsonOutput,
+  isJsonOutput,
+} from '../../src/utils/json-output';
+
+// The JSON output mode patches the CommonJS exports of clack
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const clack = require('@clack/prompts') as typeof Clack;
+
+describe('json-output', () => {
+  const stdoutWriteSpy = vi
+    .spyOn(process.stdout, 'write')
+    .mockImplementation(() => true);
+
+  function getEmittedEvents(): Record<string, unknown>[] {
+    return stdoutWriteSpy.mock.calls.map(
+      ([line]) => JSON.parse(String(line)) as Record<string, unknown>,
+    );
+  }
+
+  beforeAll(() => {
+    enableJsonOutput();
+  });
+
+  beforeEach(() => {
+    stdoutWriteSpy.mockClear();
+  });
+
+  it('is enabled', () => {
+    expect(isJsonOutput()).toBe(true);
+  });
+
+  it('emits clack logs as events without colors', () => {
+    clack.log.info(`Installed ${chalk.cyan('@sentry/nextjs')}`);
+    clack.log.warn('Careful');
+
+    expect(getEmittedEvents()).toEqual([
+      {
+        type: 'log',
+        level: 'info',
+        message: 'Installed @sentry/nextjs',
+        timestamp: expect.any(String) as string,
+      },
+      {
+        type: 'log',
+        level: 'warn',
+        message: 'Careful',
+        timestamp: expect.any(String) as string,
+      },
+    ]);
+  });
+
+  it('emits spinner, note and outro events', () => {
+    const spinner = clack.spinner();
+    spinner.start('Installing');
+    spinner.stop('Installed');
+    clack.note('Some text', 'Title');
+    clack.outro('Done');
+
+    expect(getEmittedEvents()).toMatchObject([
+      { type: 'spinner', status: 'start', message: 'Installing' },
+      { type: 'spinner', status: 'stop', message: 'Installed' },
+      { type: 'note', title: 'Title', message: 'Some text' },
+      { type: 'outro', message: 'Done' },
+    ]);
+  });
+
+  it('emits console logs as events', () => {
+    // eslint-disable-next-line no-console
+    console.log('\nconst a = 1;\n');
+
+    expect(getEmittedEvents()).toMatchObject([
+      { type: 'log', level: 'message', message: 'const a = 1;' },
+    ]);
+  });
+
+  it('summarizes the run in the result event', () => {
+    emitEvent({
+      type: 'project',
+      org: 'my-org',
+      project: 'my-project',
+      projectId: '123',
+      url: 'https://sentry.io/',
+      issueStreamUrl: 'https://my-org.sentry.io/issues/?project=123',
+    });
+    emitEvent({
+      type: 'package',
+      name: '@sentry/nextjs',
+      packageManager: 'npm',
+      status: 'installed',
+    });
+    emitEvent({
+      type: 'manual_step',
+      message: 'Add the following code to your app.js file:',
+      filename: 'app.js',
+      codeSnippet: 'Sentry.init();',
+    });
+    emitEvent({ type: 'features', features: ['Tracing', 'Logs'] });
+    emitEvent({
+      type: 'env_var',
+      name: 'SENTRY_AUTH_TOKEN',
+      description: 'Uploads source maps during the build.',
+    });
+    emitEvent({
+      type: 'env_var',
+      name: 'SENTRY_AUTH_TOKEN',
+      description: 'Uploads source maps in CI.',
+    });
+
+    stdoutWriteSpy.mockClear();
+
+    emitResultEvent({
+      integration: 'nextjs',
+      dryRun: false,
+      fileChanges: [
+        {
+          path: path.join(process.cwd(), 'sentry.server.config.ts'),
+          before: null,
+          after: 'init',
+        },
+        {
+          path: path.join(process.cwd(), 'next.config.js'),
+          before: 'a',
+          after: 'b',
+        },
+      ],
+    });
+
+    expect(getEmittedEvents()).toEqual([
+      {
+        type: 'result',
+        integration: 'nextjs',
+        dryRun: false,
+        files: [
+          { path: 'sentry.server.config.ts', change: 'created' },
+          { path: 'next.config.js', change: 'modified' },
+        ],
+        packages: [
+          {
+            name: '@sentry/nextjs',
+            packageManager: 'npm',
+            status: 'installed',
+          },
+        ],
+        project: {
+          org: 'my-org',
+          project: 'my-project',
+          projectId: '123',
+          url: 'https://sentry.io/',
+          issueStreamUrl: 'https://my-org.sentry.io/issues/?project=123',
+        },
+        features: ['Tracing', 'Logs'],
+        envVars: [
+          {
+            name: 'SENTRY_AUTH_TOKEN',
+            description: 'Uploads source maps during the build.',
+          },
+        ],
+        manualSteps: [
+          {
+            message: 'Add the following code to your app.js file:',
+            filename: 'app.js',
+            codeSnippet: 'Sentry.init();',
+          },
+        ],
+        timestamp: expect.any(String) as string,
+      },
+    ]);
+  });
+});
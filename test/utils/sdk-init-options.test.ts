@@ -0,0 +1,182 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setAnswers } from '../../src/utils/answers';
+import {
+  DEFAULT_SDK_INIT_OPTIONS,
+  askForSdkInitOptions,
+  formatSampleRate,
+  getSdkInitValueCode,
+  parseSdkInitArgs,
+  writeDsnToEnvFile,
+} from '../../src/utils/sdk-init-options';
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    step: vi.fn(),
+    error: vi.fn(),
+    info: vi.fn(),
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('parseSdkInitArgs', () => {
+  it('parses the sample rates, environment and release', () => {
+    expect(
+      parseSdkInitArgs({
+        tracesSampleRate: 0.2,
+        replaysSessionSampleRate: '0.05',
+        environment: 'production',
+        release: 'env:SENTRY_RELEASE',
+      }),
+    ).toEqual({
+      sdkInitOptions: {
+        tracesSampleRate: 0.2,
+        replaysSessionSampleRate: 0.05,
+        environment: { value: 'production' },
+        release: { envVar: 'SENTRY_RELEASE' },
+      },
+      invalidArgs: [],
+    });
+  });
+
+  it('returns the args with invalid values', () => {
+    expect(
+      parseSdkInitArgs({
+        tracesSampleRate: 2,
+        profilesSampleRate: NaN,
+        replaysOnErrorSampleRate: '',
+        environment: 'env:NOT-VALID',
+        release: '1.0.0',
+      }),
+    ).toEqual({
+      sdkInitOptions: { release: { value: '1.0.0' } },
+      invalidArgs: [
+        '--traces-sample-rate',
+        '--profiles-sample-rate',
+        '--replays-on-error-sample-rate',
+        '--environment',
+      ],
+    });
+  });
+});
+
+describe('getSdkInitValueCode', () => {
+  it.each([
+    ['process.env', 'process.env.SENTRY_ENVIRONMENT'],
+    ['import.meta.env', 'import.meta.env.SENTRY_ENVIRONMENT'],
+    ['dart-define', "const String.fromEnvironment('SENTRY_ENVIRONMENT')"],
+  ] as const)('reads environment variables via %s', (convention, code) => {
+    expect(
+      getSdkInitValueCode({ envVar: 'SENTRY_ENVIRONMENT' }, convention),
+    ).toBe(code);
+  });
+
+  it('escapes fixed values', () => {
+    expect(getSdkInitValueCode({ value: 'my "app"' }, 'process.env')).toBe(
+      '"my \\"app\\""',
+    );
+    expect(getSdkInitValueCode({ value: "it's $HOME" }, 'dart-define')).toBe(
+      "'it\\'s \\$HOME'",
+    );
+  });
+});
+
+describe('formatSampleRate', () => {
+  it('formats whole numbers with one decimal', () => {
+    expect(formatSampleRate(1)).toBe('1.0');
+    expect(formatSampleRate(0)).toBe('0.0');
+    expect(formatSampleRate(0.25)).toBe('0.25');
+  });
+});
+
+describe('askForSdkInitOptions', () => {
+  const params = {
+    selectedFeatures: { tracing: true, profiling: false, replay: true },
+    envVarConvention: 'process.env',
+    envVarPrefix: 'NEXT_PUBLIC_',
+  } as const;
+
+  afterEach(() => {
+    setAnswers(undefined);
+  });
+
+  it('uses the options passed via the CLI args without asking', async () => {
+    setAnswers({});
+
+    const result = await askForSdkInitOptions(
+      { sdkInitOptions: { tracesSampleRate: 0.1 } },
+      params,
+    );
+
+    expect(result).toEqual({
+      ...DEFAULT_SDK_INIT_OPTIONS,
+      tracesSampleRate: 0.1,
+    });
+  });
+
+  it('uses the defaults if the user skips the step', async () => {
+    setAnswers({ advancedConfig: false });
+
+    const result = await askForSdkInitOptions({}, params);
+
+    expect(result).toEqual(DEFAULT_SDK_INIT_OPTIONS);
+  });
+
+  it('asks for the sample rates of the selected features', async () => {
+    setAnswers({
+      advancedConfig: true,
+      sampleRates: { traces: 0.2, replaysSession: '0.05', replaysOnError: 1 },
+      environment: 'env:NEXT_PUBLIC_SENTRY_ENVIRONMENT',
+      release: '',
+    });
+
+    const result = await askForSdkInitOptions({}, params);
+
+    expect(result).toEqual({
+      tracesSampleRate: 0.2,
+      profilesSampleRate: 1,
+      replaysSessionSampleRate: 0.05,
+      replaysOnErrorSampleRate: 1,
+      environment: { envVar: 'NEXT_PUBLIC_SENTRY_ENVIRONMENT' },
+      release: undefined,
+    });
+  });
+});
+
+describe('writeDsnToEnvFile', () => {
+  const params = {
+    envFileName: '.env.local',
+    envVarName: 'NEXT_PUBLIC_SENTRY_DSN',
+  };
+
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'dsn-')));
+    process.chdir(tmpDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps the DSN in the code by default', async () => {
+    expect(await writeDsnToEnvFile({}, 'https://dsn', params)).toBeUndefined();
+    expect(fs.existsSync('.env.local')).toBe(false);
+  });
+
+  it('writes the DSN to the env file if --dsn-in-env is passed', async () => {
+    expect(
+      await writeDsnToEnvFile({ dsnInEnv: true }, 'https://dsn', params),
+    ).toBe('NEXT_PUBLIC_SENTRY_DSN');
+    expect(fs.readFileSync('.env.local', 'utf8')).toBe(
+      'NEXT_PUBLIC_SENTRY_DSN=https://dsn\n',
+    );
+  });
+});
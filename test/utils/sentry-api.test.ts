@@ -0,0 +1,187 @@
+import axios from 'axios';
+import { beforeEach, describe, expect, it, vi, type Mocked } from 'vitest';
+import {
+  createProject,
+  fetchProjectWithKeys,
+  fetchProjects,
+  getNextPageUrl,
+} from '../../src/utils/sentry-api';
+
+vi.mock('axios');
+const mockedAxios = axios as Mocked<typeof axios>;
+
+const org = { id: '1', name: 'My Org', slug: 'my-org' };
+
+function mockResponses(responses: Record<string, unknown>) {
+  mockedAxios.get.mockImplementation((url: string) => {
+    if (!(url in responses)) {
+      return Promise.reject(new Error(`Unexpected request: ${url}`));
+    }
+    const response = responses[url] as { data: unknown; link?: string };
+    return Promise.resolve({
+      data: response.data,
+      headers: response.link ? { link: response.link } : {},
+    });
+  });
+}
+
+describe('sentry-api', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('fetchProjects', () => {
+    it('fetches the projects of all organizations', async () => {
+      mockResponses({
+        'https://sentry.io/api/0/organizations/': {
+          data: [org, { id: '2', name: 'Other', slug: 'other' }],
+        },
+        'https://sentry.io/api/0/organizations/my-org/projects/': {
+          data: [{ id: '10', slug: 'web' }],
+          link: '<https://sentry.io/api/0/organizations/my-org/projects/?cursor=100:1:0>; rel="next"; results="true"; cursor="100:1:0"',
+        },
+        'https://sentry.io/api/0/organizations/my-org/projects/?cursor=100:1:0':
+          {
+            data: [{ id: '11', slug: 'api' }],
+            link: '<https://sentry.io/api/0/organizations/my-org/projects/?cursor=100:2:0>; rel="next"; results="false"; cursor="100:2:0"',
+          },
+        'https://sentry.io/api/0/organizations/other/projects/': {
+          data: [],
+        },
+      });
+
+      const projects = await fetchProjects({
+        url: 'https://sentry.io/',
+        authToken: 'token',
+      });
+
+      expect(projects).toEqual([
+        { id: '10', slug: 'web', organization: org },
+        { id: '11', slug: 'api', organization: org },
+      ]);
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        'https://sentry.io/api/0/organizations/',
+        { headers: { Authorization: 'Bearer token' } },
+      );
+    });
+
+    it('only fetches projects of the given organization', async () => {
+      mockResponses({
+        'https://sentry.io/api/0/organizations/my-org/': { data: org },
+        'https://sentry.io/api/0/organizations/my-org/projects/': {
+          data: [{ id: '10', slug: 'web' }],
+        },
+      });
+
+      const projects = await fetchProjects({
+        url: 'https://sentry.io/',
+        authToken: 'token',
+        orgSlug: 'my-org',
+      });
+
+      expect(projects).toEqual([{ id: '10', slug: 'web', organization: org }]);
+    });
+  });
+
+  describe('fetchProjectWithKeys', () => {
+    const project = { id: '10', slug: 'web', organization: org };
+
+    it('adds all keys of the project', async () => {
+      mockResponses({
+        'https://sentry.io/api/0/projects/my-org/web/keys/': {
+          data: [
+            {
+              name: 'Old',
+              isActive: false,
+              dsn: { public: 'https://inactive@sentry.io/1', secret: 'secret' },
+            },
+            {
+              name: 'Default',
+              isActive: true,
+              dsn: { public: 'https://active@sentry.io/1' },
+            },
+          ],
+        },
+      });
+
+      await expect(
+        fetchProjectWithKeys({
+          url: 'https://sentry.io/',
+          authToken: 'token',
+          project,
+        }),
+      ).resolves.toEqual({
+        ...project,
+        keys: [
+          {
+            name: 'Old',
+            isActive: false,
+            dsn: { public: 'https://inactive@sentry.io/1' },
+          },
+          {
+            name: 'Default',
+            isActive: true,
+            dsn: { public: 'https://active@sentry.io/1' },
+          },
+        ],
+      });
+    });
+
+    it('returns undefined if the project has no keys', async () => {
+      mockResponses({
+        'https://sentry.io/api/0/projects/my-org/web/keys/': { data: [] },
+      });
+
+      await expect(
+        fetchProjectWithKeys({
+          url: 'https://sentry.io/',
+          authToken: 'token',
+          project,
+        }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createProject', () => {
+    it('creates a project for the team', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { id: '12', slug: 'app' } });
+
+      await expect(
+        createProject({
+          url: 'https://sentry.io/',
+          authToken: 'token',
+          organization: org,
+          teamSlug: 'my-team',
+          name: 'app',
+          platform: 'javascript-nextjs',
+        }),
+      ).resolves.toEqual({ id: '12', slug: 'app', organization: org });
+
+      // eslint-disable-next-line @typescript-eslint/unbound-method
+      expect(mockedAxios.post).toHaveBeenCalledWith(
+        'https://sentry.io/api/0/teams/my-org/my-team/projects/',
+        { name: 'app', platform: 'javascript-nextjs' },
+        { headers: { Authorization: 'Bearer token' } },
+      );
+    });
+  });
+
+  describe('getNextPageUrl', () => {
+    it('returns the next page url if there are more results', () => {
+      expect(
+        getNextPageUrl(
+          '<https://sentry.io/api/0/organizations/?cursor=100:-1:1>; rel="previous"; results="false"; cursor="100:-1:1", <https://sentry.io/api/0/organizations/?cursor=100:1:0>; rel="next"; results="true"; cursor="100:1:0"',
+        ),
+      ).toBe('https://sentry.io/api/0/organizations/?cursor=100:1:0');
+    });
+
+    it('returns undefined if there are no more results', () => {
+      expect(
+        getNextPageUrl(
+          '<https://sentry.io/api/0/organizations/?cursor=100:1:0>; rel="next"; results="false"; cursor="100:1:0"',
+        ),
+      ).toBeUndefined();
+    });
+  });
+});
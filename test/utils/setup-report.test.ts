@@ -0,0 +1,169 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { emitEvent } from '../../src/utils/json-output';
+import {
+  createSetupReport,
+  writeSetupReport,
+} from '../../src/utils/setup-report';
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    success: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/version', () => ({
+  WIZARD_VERSION: '1.0.0',
+}));
+
+describe('createSetupReport', () => {
+  it('lists the project, features, files, packages, env vars and manual steps', () => {
+    const report = createSetupReport({
+      integrations: ['nextjs'],
+      reportDir: '/project',
+      fileChanges: [
+        {
+          path: '/project/sentry.server.config.ts',
+          before: null,
+          after: 'init',
+        },
+        { path: '/project/next.config.js', before: 'a', after: 'b' },
+      ],
+      summary: {
+        project: {
+          org: 'my-org',
+          project: 'my-project',
+          projectId: '123',
+          url: 'https://sentry.io/',
+          issueStreamUrl: 'https://my-org.sentry.io/issues/?project=123',
+        },
+        features: ['Tracing', 'Logs'],
+        packages: [
+          {
+            name: '@sentry/nextjs',
+            version: '^10.1.0',
+            packageManager: 'npm',
+            status: 'installed',
+          },
+        ],
+        envVars: [
+          {
+            name: 'SENTRY_AUTH_TOKEN',
+            description: 'Uploads source maps during the build.',
+          },
+        ],
+        manualSteps: [
+          {
+            message: 'Add the following code to your app:',
+            filename: 'app.js',
+            codeSnippet: 'Sentry.init({\n  dsn: "dsn",\n});\n',
+          },
+        ],
+      },
+    });
+
+    expect(report).toMatchInlineSnapshot(`
+      "# Sentry Setup
+
+      This report was created by the Sentry Wizard 1.0.0 after setting up Next.js.
+
+      ## Project
+
+      - Organization: \`my-org\`
+      - Project: \`my-project\`
+      - Issues: https://my-org.sentry.io/issues/?project=123
+
+      ## Features
+
+      - Tracing
+      - Logs
+
+      ## Changed Files
+
+      | File | Change |
+      | --- | --- |
+      | \`sentry.server.config.ts\` | created |
+      | \`next.config.js\` | modified |
+
+      ## Packages
+
+      | Package | Version | Change |
+      | --- | --- | --- |
+      | \`@sentry/nextjs\` | \`^10.1.0\` | installed |
+
+      ## Environment Variables
+
+      Set these environment variables in your CI and deployment environments:
+
+      - \`SENTRY_AUTH_TOKEN\`: Uploads source maps during the build.
+
+      ## Manual Steps
+
+      The wizard couldn't make these changes automatically:
+
+      - \`app.js\`: Add the following code to your app:
+        \`\`\`
+        Sentry.init({
+          dsn: "dsn",
+        });
+        \`\`\`
+      "
+    `);
+  });
+
+  it('only lists the changed files if nothing else is known', () => {
+    const report = createSetupReport({
+      integrations: ['nextjs', 'cloudflare'],
+      reportDir: '/project',
+      fileChanges: [],
+      summary: { features: [], packages: [], envVars: [], manualSteps: [] },
+    });
+
+    expect(report).toMatchInlineSnapshot(`
+      "# Sentry Setup
+
+      This report was created by the Sentry Wizard 1.0.0 after setting up Next.js, Cloudflare.
+
+      ## Changed Files
+
+      The wizard didn't change any files.
+      "
+    `);
+  });
+});
+
+describe('writeSetupReport', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'report-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('writes the report with the summary of the run', () => {
+    emitEvent({ type: 'features', features: ['Session Replay'] });
+    const reportPath = path.join(tmpDir, 'docs', 'SENTRY_SETUP.md');
+
+    writeSetupReport({
+      reportPath,
+      integrations: ['nextjs'],
+      fileChanges: [
+        {
+          path: path.join(tmpDir, 'sentry.server.config.ts'),
+          before: null,
+          after: 'init',
+        },
+      ],
+    });
+
+    const report = fs.readFileSync(reportPath, 'utf8');
+    expect(report).toContain('- Session Replay');
+    expect(report).toContain('| `../sentry.server.config.ts` | created |');
+  });
+});
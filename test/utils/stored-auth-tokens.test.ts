@@ -0,0 +1,71 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { findStoredAuthTokens } from '../../src/utils/stored-auth-tokens';
+
+describe('findStoredAuthTokens', () => {
+  let projectDir: string;
+  let homeDir: string;
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stored-tokens-'));
+    homeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'stored-tokens-home-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+    fs.rmSync(homeDir, { recursive: true, force: true });
+  });
+
+  it('finds the tokens of all supported files in order', () => {
+    fs.writeFileSync(
+      path.join(homeDir, '.sentryclirc'),
+      '[defaults]\nurl=https://sentry.io/\ntoken=not-this-one\n\n[auth]\ntoken=home-token\n',
+    );
+    fs.writeFileSync(
+      path.join(projectDir, 'sentry.properties'),
+      'defaults.org=my-org\nauth.token=properties-token\n',
+    );
+    fs.writeFileSync(
+      path.join(projectDir, '.env.sentry-build-plugin'),
+      '# DO NOT commit this file to your repository!\nSENTRY_AUTH_TOKEN="env-token"\n',
+    );
+    fs.writeFileSync(
+      path.join(projectDir, '.sentryclirc'),
+      '[auth]\r\ntoken=rc-token\r\n',
+    );
+
+    expect(findStoredAuthTokens(projectDir, homeDir)).toEqual([
+      { token: 'rc-token', source: '.sentryclirc' },
+      { token: 'env-token', source: '.env.sentry-build-plugin' },
+      { token: 'properties-token', source: 'sentry.properties' },
+      { token: 'home-token', source: '~/.sentryclirc' },
+    ]);
+  });
+
+  it('returns each token only once', () => {
+    fs.writeFileSync(path.join(homeDir, '.sentryclirc'), '[auth]\ntoken=abc');
+    fs.writeFileSync(
+      path.join(projectDir, '.sentryclirc'),
+      '[auth]\ntoken=abc',
+    );
+
+    expect(findStoredAuthTokens(projectDir, homeDir)).toEqual([
+      { token: 'abc', source: '.sentryclirc' },
+    ]);
+  });
+
+  it('ignores files without a token', () => {
+    fs.writeFileSync(
+      path.join(projectDir, '.sentryclirc'),
+      '[defaults]\norg=my-org\n',
+    );
+    fs.writeFileSync(
+      path.join(projectDir, '.env.sentry-build-plugin'),
+      'SENTRY_AUTH_TOKEN=\n',
+    );
+
+    expect(findStoredAuthTokens(projectDir, homeDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,204 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  disableVirtualFs,
+  enableVirtualFs,
+  getFileChanges,
+} from '../../src/utils/virtual-fs';
+
+describe('virtual-fs', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'virtual-fs-'));
+    fs.writeFileSync(path.join(tmpDir, 'existing.js'), 'const a = 1;\n');
+    enableVirtualFs();
+  });
+
+  afterEach(() => {
+    disableVirtualFs();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('keeps written files in memory', async () => {
+    const newFile = path.join(tmpDir, 'new.js');
+
+    fs.writeFileSync(newFile, 'new file');
+    await fs.promises.appendFile(newFile, '\nmore');
+
+    expect(fs.existsSync(newFile)).toBe(true);
+    expect(fs.readFileSync(newFile, 'utf8')).toBe('new file\nmore');
+    expect(await fs.promises.readFile(newFile, 'utf8')).toBe('new file\nmore');
+    expect(fs.statSync(newFile).isFile()).toBe(true);
+
+    disableVirtualFs();
+
+    expect(fs.existsSync(newFile)).toBe(false);
+  });
+
+  it('records the original content of modified files', async () => {
+    const existingFile = path.join(tmpDir, 'existing.js');
+
+    await fs.promises.writeFile(existingFile, 'const a = 2;\n', {
+      encoding: 'utf8',
+      flag: 'w',
+    });
+    fs.writeFileSync(path.join(tmpDir, 'new.js'), 'new');
+
+    expect(getFileChanges()).toEqual([
+      {
+        path: existingFile,
+        before: 'const a = 1;\n',
+        after: 'const a = 2;\n',
+      },
+      {
+        path: path.join(tmpDir, 'new.js'),
+        before: null,
+        after: 'new',
+      },
+    ]);
+  });
+
+  it('records deleted files', () => {
+    const existingFile = path.join(tmpDir, 'existing.js');
+
+    fs.unlinkSync(existingFile);
+
+    expect(fs.existsSync(existingFile)).toBe(false);
+    expect(() => fs.readFileSync(existingFile, 'utf8')).toThrow(/ENOENT/);
+    expect(getFileChanges()).toEqual([
+      { path: existingFile, before: 'const a = 1;\n', after: null },
+    ]);
+  });
+
+  it('creates directories in memory', () => {
+    const nestedDir = path.join(tmpDir, 'app', 'sentry-example-page');
+
+    fs.mkdirSync(nestedDir, { recursive: true });
+
+    expect(fs.existsSync(nestedDir)).toBe(true);
+    expect(fs.lstatSync(path.join(tmpDir, 'app')).isDirectory()).toBe(true);
+
+    disableVirtualFs();
+
+    expect(fs.existsSync(nestedDir)).toBe(false);
+  });
+
+  it('omits files whose content did not change', () => {
+    const existingFile = path.join(tmpDir, 'existing.js');
+
+    fs.writeFileSync(existingFile, 'changed');
+    fs.writeFileSync(existingFile, 'const a = 1;\n');
+
+    expect(getFileChanges()).toEqual([]);
+  });
+
+  it('lists virtual files and directories', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'new.js'), 'new');
+    fs.mkdirSync(path.join(tmpDir, 'app'));
+    fs.unlinkSync(path.join(tmpDir, 'existing.js'));
+
+    expect(fs.readdirSync(tmpDir).sort()).toEqual(['app', 'new.js']);
+    expect(
+      fs
+        .readdirSync(tmpDir, { withFileTypes: true })
+        .map((entry) => [entry.name, entry.isDirectory()])
+        .sort(),
+    ).toEqual([
+      ['app', true],
+      ['new.js', false],
+    ]);
+    expect(await fs.promises.readdir(path.join(tmpDir, 'app'))).toEqual([]);
+  });
+
+  it('removes files and directories in memory', () => {
+    const dir = path.join(tmpDir, 'config');
+    fs.mkdirSync(dir);
+    fs.writeFileSync(path.join(dir, 'a.js'), 'a');
+    fs.writeFileSync(path.join(tmpDir, 'new.js'), 'new');
+
+    fs.rmSync(path.join(tmpDir, 'existing.js'));
+    fs.rmSync(path.join(tmpDir, 'new.js'));
+    expect(() => fs.rmSync(dir)).toThrow(/EISDIR/);
+    fs.rmSync(dir, { recursive: true });
+    expect(() => fs.rmSync(path.join(tmpDir, 'missing.js'))).toThrow(/ENOENT/);
+    fs.rmSync(path.join(tmpDir, 'missing.js'), { force: true });
+
+    expect(fs.existsSync(dir)).toBe(false);
+    expect(fs.readdirSync(tmpDir)).toEqual([]);
+    expect(getFileChanges()).toEqual([
+      {
+        path: path.join(tmpDir, 'existing.js'),
+        before: 'const a = 1;\n',
+        after: null,
+      },
+    ]);
+
+    disableVirtualFs();
+
+    expect(fs.existsSync(path.join(tmpDir, 'existing.js'))).toBe(true);
+  });
+
+  it('hides the contents of removed directories on disk', () => {
+    const dir = path.join(tmpDir, 'src');
+    disableVirtualFs();
+    fs.mkdirSync(dir);
+    fs.writeFileSync(path.join(dir, 'index.js'), 'index');
+    enableVirtualFs();
+
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(fs.existsSync(path.join(dir, 'index.js'))).toBe(false);
+    expect(() => fs.statSync(dir)).toThrow(/ENOENT/);
+
+    fs.mkdirSync(dir);
+
+    expect(fs.readdirSync(dir)).toEqual([]);
+    expect(getFileChanges()).toEqual([
+      { path: path.join(dir, 'index.js'), before: 'index', after: null },
+    ]);
+  });
+
+  it('renames and copies files in memory', async () => {
+    const existingFile = path.join(tmpDir, 'existing.js');
+    const renamedFile = path.join(tmpDir, 'renamed.js');
+    const copiedFile = path.join(tmpDir, 'copied.js');
+
+    fs.renameSync(existingFile, renamedFile);
+    await fs.promises.copyFile(renamedFile, copiedFile);
+
+    expect(() =>
+      fs.copyFileSync(renamedFile, copiedFile, fs.constants.COPYFILE_EXCL),
+    ).toThrow(/EEXIST/);
+    expect(fs.readdirSync(tmpDir).sort()).toEqual(['copied.js', 'renamed.js']);
+    expect(getFileChanges()).toEqual([
+      { path: copiedFile, before: null, after: 'const a = 1;\n' },
+      { path: existingFile, before: 'const a = 1;\n', after: null },
+      { path: renamedFile, before: null, after: 'const a = 1;\n' },
+    ]);
+
+    disableVirtualFs();
+
+    expect(fs.readdirSync(tmpDir)).toEqual(['existing.js']);
+  });
+
+  it('renames directories in memory', () => {
+    fs.mkdirSync(path.join(tmpDir, 'old'));
+    fs.writeFileSync(path.join(tmpDir, 'old', 'a.js'), 'a');
+
+    fs.renameSync(path.join(tmpDir, 'old'), path.join(tmpDir, 'new'));
+
+    expect(fs.existsSync(path.join(tmpDir, 'old'))).toBe(false);
+    expect(fs.readFileSync(path.join(tmpDir, 'new', 'a.js'), 'utf8')).toBe('a');
+  });
+
+  it('fails to create directories with missing parents unless recursive', () => {
+    const nestedDir = path.join(tmpDir, 'app', 'page');
+
+    expect(() => fs.mkdirSync(nestedDir)).toThrow(/ENOENT/);
+    expect(() => fs.mkdirSync(tmpDir)).toThrow(/EEXIST/);
+    expect(fs.existsSync(nestedDir)).toBe(false);
+  });
+});
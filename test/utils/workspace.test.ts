@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  askForWorkspacePackage,
+  detectWorkspace,
+  getSelectedWorkspacePackage,
+  getWorkspaceRoot,
+  resetWorkspace,
+} from '../../src/utils/workspace';
+
+const { selectPromptMock } = vi.hoisted(() => ({
+  selectPromptMock: vi.fn(),
+}));
+
+vi.mock('../../src/utils/clack', () => ({
+  selectPrompt: selectPromptMock,
+}));
+
+vi.mock('@clack/prompts', () => ({
+  log: {
+    info: vi.fn(),
+    step: vi.fn(),
+  },
+}));
+
+function writeFile(filePath: string, contents: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(
+    filePath,
+    typeof contents === 'string' ? contents : JSON.stringify(contents),
+  );
+}
+
+describe('workspace', () => {
+  let tmpDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    originalCwd = process.cwd();
+    tmpDir = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-')),
+    );
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    resetWorkspace();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('detectWorkspace', () => {
+    it('detects pnpm workspaces', () => {
+      writeFile(
+        path.join(tmpDir, 'pnpm-workspace.yaml'),
+        "packages:\n  - 'apps/*'\n  - '!apps/ignored'\n",
+      );
+      writeFile(path.join(tmpDir, 'apps', 'web', 'package.json'), {
+        name: 'web',
+      });
+      writeFile(path.join(tmpDir, 'apps', 'ignored', 'package.json'), {
+        name: 'ignored',
+      });
+
+      expect(detectWorkspace(tmpDir)).toEqual({
+        tool: 'pnpm',
+        root: tmpDir,
+        packages: [
+          {
+            name: 'web',
+            dir: path.join(tmpDir, 'apps', 'web'),
+            packageJson: { name: 'web' },
+          },
+        ],
+      });
+    });
+
+    it('detects yarn workspaces from within a package', () => {
+      writeFile(path.join(tmpDir, 'package.json'), {
+        workspaces: { packages: ['packages/*'] },
+      });
+      writeFile(path.join(tmpDir, 'yarn.lock'), '');
+      writeFile(path.join(tmpDir, 'packages', 'api', 'package.json'), {
+        name: '@acme/api',
+      });
+
+      const workspace = detectWorkspace(path.join(tmpDir, 'packages', 'api'));
+
+      expect(workspace?.tool).toBe('yarn');
+      expect(workspace?.root).toBe(tmpDir);
+      expect(workspace?.packages.map((pkg) => pkg.name)).toEqual(['@acme/api']);
+    });
+
+    it('falls back to the conventional directories for Nx workspaces', () => {
+      writeFile(path.join(tmpDir, 'nx.json'), {});
+      writeFile(path.join(tmpDir, 'apps', 'shop', 'package.json'), {
+        name: 'shop',
+      });
+      writeFile(path.join(tmpDir, 'libs', 'ui', 'package.json'), {
+        name: 'ui',
+      });
+
+      expect(detectWorkspace(tmpDir)?.packages.map((pkg) => pkg.name)).toEqual([
+        'shop',
+        'ui',
+      ]);
+    });
+
+    it('returns undefined outside of a workspace', () => {
+      writeFile(path.join(tmpDir, 'package.json'), { name: 'app' });
+
+      expect(detectWorkspace(tmpDir)).toBeUndefined();
+    });
+  });
+
+  describe('askForWorkspacePackage', () => {
+    beforeEach(() => {
+      writeFile(path.join(tmpDir, 'package.json'), {
+        workspaces: ['apps/*'],
+      });
+      writeFile(path.join(tmpDir, 'apps', 'web', 'package.json'), {
+        name: 'web',
+        dependencies: { next: '^15.0.0' },
+      });
+      writeFile(path.join(tmpDir, 'apps', 'docs', 'package.json'), {
+        name: 'docs',
+        dependencies: { next: '^15.0.0' },
+      });
+      writeFile(path.join(tmpDir, 'apps', 'api', 'package.json'), {
+        name: 'api',
+        dependencies: { express: '^5.0.0' },
+      });
+    });
+
+    it('asks for one of the packages using the framework', async () => {
+      process.chdir(tmpDir);
+      selectPromptMock.mockImplementation(
+        (_key: string, options: { options: { value: unknown }[] }) =>
+          Promise.resolve(options.options[1].value),
+      );
+
+      await askForWorkspacePackage(['next']);
+
+      expect(selectPromptMock).toHaveBeenCalledWith(
+        'workspacePackage',
+        expect.objectContaining({
+          options: [
+            expect.objectContaining({ label: 'docs', answer: 'docs' }),
+            expect.objectContaining({ label: 'web', answer: 'web' }),
+          ],
+        }),
+      );
+      expect(getSelectedWorkspacePackage()?.name).toBe('web');
+      expect(getWorkspaceRoot()).toBe(tmpDir);
+      expect(process.cwd()).toBe(path.join(tmpDir, 'apps', 'web'));
+    });
+
+    it('selects the only package using the framework', async () => {
+      process.chdir(tmpDir);
+
+      await askForWorkspacePackage(['express']);
+
+      expect(selectPromptMock).not.toHaveBeenCalled();
+      expect(getSelectedWorkspacePackage()?.name).toBe('api');
+      expect(process.cwd()).toBe(path.join(tmpDir, 'apps', 'api'));
+    });
+
+    it('stays in the workspace root if no package uses the framework', async () => {
+      process.chdir(tmpDir);
+
+      await askForWorkspacePackage(['@remix-run/react']);
+
+      expect(selectPromptMock).not.toHaveBeenCalled();
+      expect(getSelectedWorkspacePackage()).toBeUndefined();
+      expect(process.cwd()).toBe(tmpDir);
+    });
+
+    it('selects the package the wizard runs in', async () => {
+      process.chdir(path.join(tmpDir, 'apps', 'api'));
+
+      await askForWorkspacePackage(['next']);
+
+      expect(selectPromptMock).not.toHaveBeenCalled();
+      expect(getSelectedWorkspacePackage()?.name).toBe('api');
+      expect(getWorkspaceRoot()).toBe(tmpDir);
+    });
+  });
+});